@@ -0,0 +1,107 @@
+/**
+ * Stock backtest — runs StockTrader against the seeded offline market
+ * (src/lib/stock_sim.ts) and prints a P&L report.
+ *
+ *   pnpm run backtest:stocks -- --seed 7 --ticks 5000 --money 1e10 [--pre4s] [--shorts] [--orders]
+ *     [--strategy forecast4s|cycle|preservation] [--runs 5] [--log]
+ *
+ * --runs N backtests seeds seed..seed+N-1 and adds a summary row. Without
+ * --strategy the trader picks one by 4S data, as in live play.
+ */
+
+import { runBacktest } from "./stock_backtester";
+import type { SimReport } from "../src/lib/stock_sim";
+import { isStockStrategyId, STOCK_STRATEGY_IDS, STOCK_STRATEGY_LABELS } from "../src/lib/stock_strategy";
+import type { StockStrategyId } from "../src/lib/stock_strategy";
+
+const args = process.argv.slice(2);
+
+function flag(name: string): boolean {
+  return args.includes(`--${name}`);
+}
+
+function num(name: string, fallback: number): number {
+  const i = args.indexOf(`--${name}`);
+  if (i < 0 || i + 1 >= args.length) return fallback;
+  const value = Number(args[i + 1]);
+  if (!Number.isFinite(value)) throw new Error(`--${name}: not a number: ${args[i + 1]}`);
+  return value;
+}
+
+function strategy(): StockStrategyId | undefined {
+  const i = args.indexOf("--strategy");
+  if (i < 0) return undefined;
+  const id = args[i + 1];
+  if (!isStockStrategyId(id)) throw new Error(`--strategy: one of ${STOCK_STRATEGY_IDS.join(", ")}`);
+  return id;
+}
+
+function money(n: number): string {
+  const sign = n < 0 ? "-" : "";
+  const abs = Math.abs(n);
+  for (const [suffix, scale] of [["t", 1e12], ["b", 1e9], ["m", 1e6], ["k", 1e3]] as const) {
+    if (abs >= scale) return `${sign}$${(abs / scale).toFixed(2)}${suffix}`;
+  }
+  return `${sign}$${abs.toFixed(0)}`;
+}
+
+function row(label: string, r: SimReport): string {
+  return [
+    label.padEnd(8),
+    money(r.endNetWorth).padStart(10),
+    money(r.pnl).padStart(10),
+    `${r.returnPct.toFixed(1)}%`.padStart(8),
+    String(r.trades).padStart(6),
+    `${(r.winRate * 100).toFixed(0)}%`.padStart(5),
+    money(r.commissions).padStart(9),
+    `${(r.maxDrawdown * 100).toFixed(1)}%`.padStart(7),
+    String(r.openPositions).padStart(4),
+  ].join("  ");
+}
+
+async function main() {
+  const seed = num("seed", 1);
+  const runs = Math.max(1, num("runs", 1));
+  const opts = {
+    ticks:        num("ticks", 5000),
+    money:        num("money", 1e10),
+    has4S:        !flag("pre4s"),
+    shortSelling: flag("shorts"),
+    orders:       flag("orders"),
+    strategy:     strategy(),
+  };
+
+  console.log(`${opts.ticks} ticks from ${money(opts.money)}, ${opts.has4S ? "4S" : "pre-4S"}` +
+    `${opts.shortSelling ? ", shorts" : ""}${opts.orders ? ", orders" : ""}` +
+    `${opts.strategy ? `, ${STOCK_STRATEGY_LABELS[opts.strategy]}` : ""}\n`);
+  console.log(["seed".padEnd(8), "net worth".padStart(10), "P&L".padStart(10), "return".padStart(8),
+    "trades".padStart(6), "win".padStart(5), "fees".padStart(9), "max DD".padStart(7), "open".padStart(4)].join("  "));
+
+  const reports: SimReport[] = [];
+  for (let s = seed; s < seed + runs; s++) {
+    const { report, log } = await runBacktest({ ...opts, seed: s });
+    if (flag("log")) for (const line of log) console.log(`  ${line}`);
+    reports.push(report);
+    console.log(row(String(s), report));
+  }
+
+  if (runs > 1) {
+    const mean = (f: (r: SimReport) => number) => reports.reduce((sum, r) => sum + f(r), 0) / reports.length;
+    console.log(row("mean", {
+      ...reports[0],
+      endNetWorth:   mean(r => r.endNetWorth),
+      pnl:           mean(r => r.pnl),
+      returnPct:     mean(r => r.returnPct),
+      trades:        Math.round(mean(r => r.trades)),
+      winRate:       mean(r => r.winRate),
+      commissions:   mean(r => r.commissions),
+      maxDrawdown:   mean(r => r.maxDrawdown),
+      openPositions: Math.round(mean(r => r.openPositions)),
+    }));
+  }
+}
+
+main().catch((err: unknown) => {
+  console.error(err instanceof Error ? err.message : String(err));
+  process.exit(1);
+});
@@ -0,0 +1,115 @@
+import type { NS } from "@ns";
+import { StockConfig } from "../src/stock/config";
+import { StockMarket } from "../src/stock/market";
+import { StockTrader } from "../src/stock/trader";
+import type { StockStrategyId } from "../src/lib/stock_strategy";
+import { createSimMarket, simStockApi, simTick, netWorth, simReport, type SimMarket, type SimReport } from "../src/lib/stock_sim";
+
+/**
+ * Backtest StockTrader against the offline market in src/lib/stock_sim.ts.
+ *
+ * The real StockConfig / StockMarket / StockTrader run unchanged on a stand-in
+ * `ns`: the sim's `ns.stock`, its cash as the player's money, an in-memory
+ * file store for status files, temp scripts (lib/ns_dodge.ts) run in-process
+ * and sleeps that return at once. Each sim tick runs stock/main.ts's loop body
+ * once (refresh, sell, refresh, buy) and records net worth. Offline only —
+ * node entry point: stock_backtest.ts.
+ */
+
+export interface BacktestOptions {
+  seed: number;
+  ticks: number;
+  money: number;
+  /** Trade on 4S forecasts (default) or the pre-4S estimators */
+  has4S?: boolean;
+  /** Own SF8.2, i.e. StockConfig enables shorts */
+  shortSelling?: boolean;
+  /** Own SF8.3, i.e. exit limit/stop orders (shorts only with shortSelling) */
+  orders?: boolean;
+  /** Pin a strategy (lib/stock_strategy.ts); default picks by 4S data as live */
+  strategy?: StockStrategyId;
+  stocks?: number;
+  /** Price impact per share; defaults to the config's transactionInfluenceFactor */
+  influence?: number;
+}
+
+export interface BacktestResult {
+  report: SimReport;
+  /** Messages the trader sent to the terminal (trades, errors) */
+  log: string[];
+}
+
+/**
+ * Build the stand-in `ns` the stock scripts see.
+ * @param m Sim market
+ * @param opts Backtest options
+ * @param log Receives tprint output
+ */
+function simNs(m: SimMarket, opts: BacktestOptions, log: string[]): NS {
+  const files = new Map<string, string>();
+  const sf8 = opts.orders ? 3 : opts.shortSelling ? 2 : 0;
+  const ownedSF = new Map<number, number>(sf8 > 0 ? [[8, sf8]] : []);
+  const ns = {
+    stock: simStockApi(m, opts.has4S ?? true),
+    getPlayer: () => ({ money: m.money }),
+    getServerMoneyAvailable: () => m.money,
+    getResetInfo: () => ({ ownedSF, currentNode: 1, lastAugReset: 0 }),
+    read: (file: string) => files.get(file) ?? "",
+    write: (file: string, data: string) => { files.set(file, data); },
+    rm: (file: string) => files.delete(file),
+    // A dodge script does all its work before its first await; it's done once run returns
+    run: (file: string) => {
+      const source = (files.get(file) ?? "").replace("export async function main", "return async function main");
+      void (new Function(source) as () => (ns: NS) => Promise<void>)()(ns);
+      return 1;
+    },
+    isRunning: () => false,
+    print: () => undefined,
+    tprint: (msg: string) => { log.push(`[${m.tick}] ${msg}`); },
+    sleep: () => Promise.resolve(true),
+  } as unknown as NS;
+  return ns;
+}
+
+/**
+ * Run one seeded backtest.
+ * @param opts Backtest options
+ * @param configure Adjust the config before trading starts
+ * @returns P&L report and trade log
+ */
+export async function runBacktest(
+  opts: BacktestOptions,
+  configure?: (config: StockConfig) => void,
+): Promise<BacktestResult> {
+  const log: string[] = [];
+  const m = createSimMarket({ seed: opts.seed, money: opts.money, stocks: opts.stocks });
+  const ns = simNs(m, opts, log);
+
+  const config = new StockConfig(ns, { disableShorts: !opts.shortSelling });
+  configure?.(config);
+  m.influence = opts.influence ?? config.tradingParams.transactionInfluenceFactor;
+
+  const market = new StockMarket(ns, config);
+  const trader = new StockTrader(ns, config, market, opts.strategy ?? "");
+  await market.initialize();
+  await trader.initialize();
+
+  for (let i = 0; i < opts.ticks; i++) {
+    simTick(m);
+
+    // Cash as of the tick's start, as main.ts reads it
+    const money          = m.money;
+    const portfolioValue = await market.refreshStockData();
+    const sales          = await trader.managePositions();
+    let updatedPortfolioValue = portfolioValue;
+    if (sales > 0) {
+      await market.refreshStockData();
+      updatedPortfolioValue = market.getTotalPortfolioValue();
+    }
+    await trader.executeBuyOpportunities(money, updatedPortfolioValue);
+
+    m.equity.push(netWorth(m));
+  }
+
+  return { report: simReport(m, opts.money), log };
+}
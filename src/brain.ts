@@ -11,6 +11,7 @@ import {
 } from './lib/daemon_launcher';
 import { ensureDefaultBudget } from './lib/machine_status';
 import { SCRIPT_PATHS } from './lib/config';
+import { renewLock } from './lib/lock_bus';
 
 /**
  * BRAIN — the single entry point (docs/design/14).
@@ -79,7 +80,8 @@ export async function main(ns: NS): Promise<void> {
     // present") is unreliable here because buyTOR/buyAllPortOpeners/buyHomeRam navigate to a
     // TechVendor page earlier in this SAME tick whenever they're not yet satisfied — so by the
     // time we'd check, we're never still on the Work page. Track it ourselves instead: once
-    // started, never call takeCourse again for the rest of this process's life.
+    // started, never call takeCourse again — unless the 'work' lease it holds is preempted
+    // (lib/lock_bus.ts), which means something else now owns the work slot.
     let studyingStarted = false;
 
     let tick = 0;
@@ -127,6 +129,10 @@ export async function main(ns: NS): Promise<void> {
                 // The purchase attempts above navigate off the Work page, which auto-unfocuses
                 // (see ui_actions.ts::resumeFocus) without cancelling the class — reclaim the
                 // focus bonus every cycle instead of leaving study running unfocused forever.
+                if (studyingStarted && !renewLock(ns, 'work')) {
+                    studyingStarted = false;
+                    ns.print('[brain] work slot preempted — study stopped');
+                }
                 if (studyingStarted) await resumeFocus(ns);
             }
 
@@ -1,21 +1,30 @@
+import { ALLOC_SPREAD_MAX_HOSTS } from '../lib/config';
+import { packSlots, type AllocStrategy } from '../lib/slot_packing';
+
 /**
  * Thread allocator for distributing batches across servers.
  * Moved from engine/allocator.ts.
  *
  * Supports both splittable (weaken) and non-splittable (hack/grow) allocations.
- * Uses utilization-aware sorting to balance load across the botnet.
+ * Uses utilization-aware sorting to balance load across the botnet ('balanced');
+ * best-fit, worst-fit and spread placement come from lib/slot_packing.ts.
+ * allocOnCores() packs core-scaled ops (grow/weaken) onto the hosts with the
+ * most CPU cores, sizing each share for the cores it lands on.
  */
 export class Allocator {
     private availableAllocs: number[];
     private availableAscRank: number[];
     private serverUtilization: number[];  // Tracks utilization percentage of each server
     private readonly totalCapacity: number[];  // Initial capacity per server (stable denominator)
+    private readonly cores: number[];          // CPU cores per server
 
     /**
      * @param availableAllocs Number of available thread slots per server (index-aligned with serverList).
+     * @param cores CPU cores per server, same alignment (default: 1 everywhere).
      */
-    constructor(availableAllocs: number[]) {
+    constructor(availableAllocs: number[], cores?: number[]) {
         this.availableAllocs = availableAllocs.slice();
+        this.cores = availableAllocs.map((_, i) => cores?.[i] ?? 1);
         this.totalCapacity = availableAllocs.slice();
         this.availableAscRank = availableAllocs.map((_, ind) => ind);
         this.serverUtilization = availableAllocs.map(() => 0);
@@ -34,16 +43,35 @@ export class Allocator {
             });
     }
 
+    /** Take `allocation` out of the free slots and re-rank. */
+    private _commit(allocation: number[]): void {
+        for (let i = 0; i < allocation.length; i++) {
+            if (allocation[i] > 0) {
+                this.availableAllocs[i] -= allocation[i];
+                const cap = this.totalCapacity[i];
+                this.serverUtilization[i] = cap > 0 ? 1 - (this.availableAllocs[i] / cap) : 0;
+            }
+        }
+        this._rerank();
+    }
+
     /**
      * Allocate threads across servers.
      * @param count Number of threads to allocate.
-     * @param splitable Whether the allocation can be split across servers.
+     * @param splitable Whether the allocation can be split across servers ('spread' always splits).
+     * @param strategy Placement (lib/slot_packing.ts); 'balanced' is the utilization-aware default.
      * @returns success flag and per-server allocation array.
      */
-    alloc(count: number, splitable: boolean = true): { success: boolean; allocation: number[] } {
+    alloc(count: number, splitable: boolean = true, strategy: AllocStrategy = 'balanced'): { success: boolean; allocation: number[] } {
         if (count <= 0) {
             return { success: true, allocation: this.availableAllocs.map(() => 0) };
         }
+        if (strategy !== 'balanced') {
+            const packed = packSlots(this.availableAllocs, count, splitable, strategy, ALLOC_SPREAD_MAX_HOSTS);
+            if (!packed) return { success: false, allocation: this.availableAllocs.map(() => 0) };
+            this._commit(packed);
+            return { success: true, allocation: packed };
+        }
 
         const availableAllocTmp = this.availableAllocs.slice();
         const allocation = this.availableAllocs.map(() => 0);
@@ -111,20 +139,88 @@ export class Allocator {
         }
 
         if (count === 0) {
-            this.availableAllocs = availableAllocTmp;
-            for (let i = 0; i < allocation.length; i++) {
-                if (allocation[i] > 0) {
-                    const cap = this.totalCapacity[i];
-                    this.serverUtilization[i] = cap > 0 ? 1 - (this.availableAllocs[i] / cap) : 0;
-                }
-            }
-            this._rerank();
+            this._commit(allocation);
             return { success: true, allocation };
         } else {
             return { success: false, allocation: this.availableAllocs.map(() => 0) };
         }
     }
 
+    /**
+     * Allocate an op whose per-thread effect grows with the host's cores.
+     * @param threadsOn Threads the whole op needs on a host with `cores` cores.
+     * @param splitable Whether the allocation can be split across servers.
+     * @param strategy Placement with no core differences to chase, and the tie-break between equal-core hosts.
+     * @returns success flag and per-server allocation array, in actual threads.
+     *
+     * Hosts are tried most cores first. A split op fills each host in turn with
+     * the share of the work it can cover, so the total shrinks wherever it
+     * lands on a multi-core host. With no core differences this is alloc().
+     */
+    allocOnCores(
+        threadsOn: (cores: number) => number,
+        splitable: boolean = true,
+        strategy: AllocStrategy = 'balanced',
+    ): { success: boolean; allocation: number[] } {
+        if (this.cores.every(c => c === this.cores[0])) {
+            return this.alloc(Math.ceil(threadsOn(this.cores[0] ?? 1)), splitable, strategy);
+        }
+
+        const needFor = new Map<number, number>();
+        const need = (i: number): number => {
+            const cores = this.cores[i];
+            if (!needFor.has(cores)) needFor.set(cores, Math.ceil(threadsOn(cores)));
+            return needFor.get(cores)!;
+        };
+        if (need(0) <= 0) {
+            return { success: true, allocation: this.availableAllocs.map(() => 0) };
+        }
+
+        // Most cores first; ties go smallest-first for best-fit, else keep alloc()'s
+        // preference (less utilized, more free).
+        const tieOrder = strategy === 'bestFit' ? this.availableAscRank : [...this.availableAscRank].reverse();
+        const byCores = [...tieOrder].sort((indA, indB) => this.cores[indB] - this.cores[indA]);
+        const allocation = this.availableAllocs.map(() => 0);
+        let done = false;
+
+        if (splitable) {
+            let remaining = 1;  // share of the op's work still unplaced
+            for (const serverIndex of byCores) {
+                const availThreads = this.availableAllocs[serverIndex];
+                if (availThreads <= 0) continue;
+                const full = need(serverIndex);
+                const threadsToUse = Math.min(availThreads, Math.ceil(remaining * full - 1e-9));
+                allocation[serverIndex] = threadsToUse;
+                remaining -= threadsToUse / full;
+                if (remaining <= 1e-9) { done = true; break; }
+            }
+        } else {
+            const serverIndex = byCores.find(i => this.availableAllocs[i] >= need(i));
+            if (serverIndex !== undefined) {
+                allocation[serverIndex] = need(serverIndex);
+                done = true;
+            } else {
+                // Fallback, as in alloc(): the host closest to fitting, if it has at least 80%
+                let best = -1;
+                let bestShare = 0;
+                for (const i of byCores) {
+                    const share = this.availableAllocs[i] / need(i);
+                    if (share > bestShare) { bestShare = share; best = i; }
+                }
+                if (best >= 0 && bestShare >= 0.8) {
+                    allocation[best] = this.availableAllocs[best];
+                    done = true;
+                }
+            }
+        }
+
+        if (!done) {
+            return { success: false, allocation: this.availableAllocs.map(() => 0) };
+        }
+        this._commit(allocation);
+        return { success: true, allocation };
+    }
+
     /** Free previously allocated threads and re-rank. */
     free(allocation: number[]): void {
         for (let i = 0; i < allocation.length; ++i) {
@@ -16,20 +16,49 @@ import {
     INTERVAL_NUKE_S,
     INTERVAL_PORT_OPENER_S,
     INTERVAL_SHARE_S,
+    HACK_SECURITY_INCREASE,
+    GROW_SECURITY_INCREASE,
+    WEAKEN_SECURITY_DECREASE,
     Priority,
 } from '../lib/config';
 import { getReservedRam, getPressure } from '../lib/machine_status';
-import { PORT_PHASE, PORT_DECISION, peekPort, pushPort } from '../lib/ports';
+import {
+    PORT_PHASE, PORT_DECISION, PORT_STOCK, PORT_BUS_TASK, PORT_BUS_REGISTER, peekPort, popPort, pushPort,
+} from '../lib/ports';
 import { RamManager } from './ram_manager';
-import { TargetSelector, isServerPrepared, getTargetServers } from './target_selector';
+import { TargetSelector, isServerPrepared } from './target_selector';
 import { BatchHackManager } from './hwgw_batcher';
+import { WorkerPool } from './worker_pool';
 import { ThreadDistributionManager } from './scheduler';
 import { requestRun } from '../lib/exec_guard';
+import { saveComputeStatus } from '../lib/compute_status';
+import { saveDesyncStatus } from '../lib/batch_telemetry';
+import { fragmentation, type Fragmentation } from '../lib/slot_packing';
+import { registerDaemon } from '../lib/task_bus';
+import {
+    newTaskLedger, parseBusMessage, parseRegistration, applyBusMessage, applyRegistration,
+    recordStart, pruneLedger, summarizeLedger, loadTaskStatus, saveTaskStatus,
+} from '../lib/task_ledger';
+import type { TaskLedger } from '../lib/task_ledger';
+import { marginalMoneyPerGbSec } from '../lib/batch_optimizer';
+import type { BatchPlan } from '../lib/batch_optimizer';
+import { loadSettings } from '../lib/settings';
+import { decideXpFarm, loadHackBlock, splitXpThreads } from '../lib/xp_farm';
+import {
+    parseStockPositions, stockBiasByHost, planManipulation, splitManipulationThreads,
+    MANIPULATION_RAM_FRACTION,
+} from '../lib/stock_coupling';
+import type { ManipulationJob } from '../lib/stock_coupling';
+import {
+    chooseComputeStrategy, advanceStrategy, isDraining, isStrategyWorker, COMPUTE_STRATEGIES,
+} from '../lib/compute_strategy';
+import type { ComputeStrategyId, StrategyState } from '../lib/compute_strategy';
 
 // NOTE: daemon lifecycle (spreader, hacknetManager, phaseDetector, bootAgent,
 // pservManager, gameAgent, stockEngine, and this coordinator itself) is owned
 // entirely by brain.ts via lib/daemon_launcher.ts.  Coordinator is a pure
-// batch engine: it is launched by the orchestrator at MID phase and does NOT
+// compute engine: it is launched by the orchestrator at EARLY phase, picks a
+// compute strategy by phase + RAM (lib/compute_strategy.ts), and does NOT
 // spawn or respawn any infrastructure daemons.
 
 const FEATURES = {
@@ -72,34 +101,34 @@ function createStatusPanel(title: string, rows: string[]): string {
     ].filter(line => line !== '').join('\n');
 }
 
-/** Format a RAM-status panel for periodic display. */
+/** Format a RAM-status panel for periodic display, with worker-slot fragmentation (lib/slot_packing.ts). */
 export function formatRamStatusPanel(
     totalRam: number,
     freeRam: number,
     homeFreeRam: number,
     homeReserved: number,
     ramViolated: boolean,
+    frag: Fragmentation,
 ): string {
     return createStatusPanel('RAM STATUS', [
         `Total RAM:   ${formatRam(totalRam)}`,
         `Free RAM:    ${formatRam(freeRam)}`,
         `Home Free:   ${formatRam(homeFreeRam)}`,
         `Home Resvd:  ${formatRam(homeReserved)}`,
+        `Largest:     ${frag.largestSlot} / ${frag.freeSlots} thr on ${frag.hosts} hosts`,
+        `Wasted:      ${formatRam(frag.wastedGb)} (frag ${(frag.ratio * 100).toFixed(0)}%)`,
         `Status:      ${ramViolated ? 'VIOLATED' : 'HEALTHY'}`,
     ]);
 }
 
-/** Format a batch-income summary panel. */
-export function formatBatchInfoPanel(
-    targetMap: Map<string, number>,
-    totalThreads: number,
-    totalDps: number,
-): string {
-    const rows = Array.from(targetMap.entries()).map(
-        ([target, dps]) => `${target.padEnd(15)} ${formatMoney(dps)}/s`
+/** Format the batcher's global plan (lib/batch_optimizer.ts): per target, hack fraction × batches. */
+export function formatBatchInfoPanel(plan: BatchPlan): string {
+    const rows = plan.targets.map(t =>
+        `${t.target.padEnd(15)} ${(t.hackFraction * 100).toFixed(1).padStart(5)}% ×${String(t.concurrency).padEnd(4)} ` +
+        `${formatMoney(t.dps)}/s  ${formatMoney(t.moneyPerGbSec)}/GB·s`
     );
-    rows.push(`Total Income: ${formatMoney(totalDps)}/s`);
-    rows.push(`Total Threads: ${totalThreads}`);
+    rows.push(`Total Income: ${formatMoney(plan.dps)}/s`);
+    rows.push(`Total Threads: ${plan.threads} / ${plan.budget}`);
     return createStatusPanel('BATCH INFO', rows);
 }
 
@@ -117,16 +146,25 @@ async function buyPortOpeners(ns: NS): Promise<void> {
     catch (e) { ns.print(`WARN: buyPortOpeners: ${String(e)}`); }
 }
 
+/** Task op label for the ledger (lib/task_ledger.ts): the worker's file name, e.g. 'hack'. */
+function scriptOp(script: string): string {
+    return script.replace(/^.*\//, '').replace(/\.js$/, '');
+}
+
 /**
  * Launch auto-grow workers on unprepared targets and wait for them to finish.
- * Blocking — exits when all targets are prepared or after a timeout.
+ * Blocking — exits when all targets are prepared or after a timeout. `drain`
+ * runs every second of the wait: batch workers still in flight keep reporting
+ * on PORT_BUS_TASK, which drops its oldest entries once full.
  */
 async function prepareServers(
     ns: NS,
+    ledger: TaskLedger,
     targets: string[],
     availableServers: string[],
     moneyThreshold: number,
     securityThreshold: number,
+    drain: () => void,
 ): Promise<void> {
     const unprepared = targets.filter(t => !isServerPrepared(ns, t, moneyThreshold, securityThreshold));
     if (unprepared.length === 0) return;
@@ -142,13 +180,19 @@ async function prepareServers(
             const autoGrowRam = ns.getScriptRam(SCRIPT_PATHS.autoGrow);
             const threads = Math.floor(freeRam / autoGrowRam / 2);
             if (threads > 0) {
-                await requestRun(ns, {
+                const result = await requestRun(ns, {
                     script: SCRIPT_PATHS.autoGrow,
                     host,
                     threads,
                     priority: Priority.COMPUTE_WORKER,
                     args: [target],
                 });
+                if (result.ok) {
+                    recordStart(ledger, {
+                        pid: result.pid, host, script: SCRIPT_PATHS.autoGrow, op: scriptOp(SCRIPT_PATHS.autoGrow),
+                        target, threads: result.threadsGranted, eta: 0,
+                    });
+                }
             }
         }
         serverIndex = (serverIndex + 1) % availableServers.length;
@@ -156,6 +200,7 @@ async function prepareServers(
 
     for (let iter = 0; iter < 300; iter++) {
         await ns.sleep(1000);
+        drain();
         const done = unprepared.filter(t => isServerPrepared(ns, t, moneyThreshold, securityThreshold)).length;
         if (done === unprepared.length) break;
         if (iter % 15 === 0) {
@@ -200,13 +245,217 @@ async function shareRemainingRam(
     }
 }
 
+/** Free RAM per host after the home reservation; home capped at `maxHomeFraction` of its free RAM. */
+function freeRamByHost(
+    ns: NS,
+    availableServers: string[],
+    homeReserve: number,
+    maxHomeFraction: number = 1,
+): Map<string, number> {
+    return new Map(availableServers.map(h => {
+        const reserve = h === 'home' ? homeReserve : 0;
+        const free = Math.max(0, ns.getServerMaxRam(h) - ns.getServerUsedRam(h) - reserve);
+        return [h, h === 'home' ? free * maxHomeFraction : free] as [string, number];
+    }));
+}
+
+/**
+ * Spread `threads` of a 1.75 GB worker across hosts in `free` order, debiting
+ * `free` as it goes. Returns the threads actually placed.
+ */
+async function placeThreads(
+    ns: NS,
+    ledger: TaskLedger,
+    free: Map<string, number>,
+    script: string,
+    threads: number,
+    args: (string | number | boolean)[],
+): Promise<number> {
+    let placed = 0;
+    for (const [host, ram] of free) {
+        if (placed >= threads) break;
+        const n = Math.min(threads - placed, Math.floor(ram / SCRIPT_RAM_COST));
+        if (n <= 0) continue;
+        const result = await requestRun(ns, { script, host, threads: n, priority: Priority.COMPUTE_WORKER, args });
+        if (!result.ok) continue;
+        recordStart(ledger, {
+            pid: result.pid, host, script, op: scriptOp(script),
+            target: String(args[0]), threads: result.threadsGranted, eta: 0,
+        });
+        free.set(host, ram - result.threadsGranted * SCRIPT_RAM_COST);
+        placed += result.threadsGranted;
+    }
+    return placed;
+}
+
+/**
+ * Manipulation-only threads (lib/stock_coupling.ts): for each job, grow (long)
+ * or hack (short) with `stock: true` plus the weaken that cancels its security,
+ * sized to an equal share of MANIPULATION_RAM_FRACTION of idle RAM. One-shot;
+ * the caller holds each host off until its threads have landed.
+ * @returns Hosts that received threads.
+ */
+async function runStockManipulation(
+    ns: NS,
+    ledger: TaskLedger,
+    jobs: ManipulationJob[],
+    availableServers: string[],
+    homeReserve: number,
+): Promise<string[]> {
+    if (jobs.length === 0) return [];
+    const free = freeRamByHost(ns, availableServers, homeReserve);
+    const idleRam = Array.from(free.values()).reduce((s, r) => s + r, 0);
+    const perJob = Math.floor(idleRam * MANIPULATION_RAM_FRACTION / jobs.length / SCRIPT_RAM_COST);
+
+    const launched: string[] = [];
+    for (const job of jobs) {
+        const split = splitManipulationThreads(
+            perJob,
+            job.op === 'grow' ? GROW_SECURITY_INCREASE : HACK_SECURITY_INCREASE,
+            WEAKEN_SECURITY_DECREASE,
+        );
+        if (split.op <= 0) continue;
+        const script = job.op === 'grow' ? SCRIPT_PATHS.grow : SCRIPT_PATHS.hack;
+        await placeThreads(ns, ledger, free, script, split.op, [job.host, 0, 0, 'stock-manip', true]);
+        await placeThreads(ns, ledger, free, SCRIPT_PATHS.weaken, split.weaken, [job.host, 0, 0, 'stock-manip', false]);
+        launched.push(job.host);
+        ns.print(`STOCK: ${job.op} ${job.host} (${job.sym}) ×${split.op} + weaken ×${split.weaken}`);
+    }
+    return launched;
+}
+
+// ── Compute strategies (lib/compute_strategy.ts) ──────────────────────────────
+
+/** Fraction of a prepped target's money one proto-batch wave hacks. */
+const PROTO_HACK_FRACTION = 0.25;
+
+/** Running workers that belong to `id` across the botnet (its drain count). */
+function countStrategyWorkers(ns: NS, id: ComputeStrategyId | null, availableServers: string[]): number {
+    if (id === null) return 0;
+    const workers = COMPUTE_STRATEGIES[id].workers;
+    const owned = (p: { filename: string; args: (string | number | boolean)[] }): boolean => {
+        const key = workers.find(k => SCRIPT_PATHS[k] === p.filename);
+        return key !== undefined && isStrategyWorker(id, key, p.args);
+    };
+    return availableServers.reduce((n, h) => n + ns.ps(h).filter(owned).length, 0);
+}
+
+/** Kill a looping strategy's workers — they never finish on their own, and hold no batch. */
+function killStrategyWorkers(ns: NS, id: ComputeStrategyId, availableServers: string[]): void {
+    for (const key of COMPUTE_STRATEGIES[id].workers) {
+        for (const host of availableServers) {
+            if (ns.scriptRunning(SCRIPT_PATHS[key], host)) ns.scriptKill(SCRIPT_PATHS[key], host);
+        }
+    }
+}
+
+/** spray / prepLoop: one looping worker instance per host, filling its free RAM, aimed at `target`. */
+async function fillWithLoopWorker(
+    ns: NS,
+    ledger: TaskLedger,
+    script: string,
+    target: string,
+    availableServers: string[],
+    homeReserve: number,
+    maxHomeFraction: number,
+): Promise<number> {
+    const scriptRam = ns.getScriptRam(script);
+    let totalThreads = 0;
+    for (const [host, ram] of freeRamByHost(ns, availableServers, homeReserve, maxHomeFraction)) {
+        const threads = Math.floor(ram / scriptRam);
+        if (threads <= 0) continue;
+        const result = await requestRun(ns, { script, host, threads, priority: Priority.COMPUTE_WORKER, args: [target] });
+        if (!result.ok) continue;
+        recordStart(ledger, { pid: result.pid, host, script, op: scriptOp(script), target, threads: result.threadsGranted, eta: 0 });
+        totalThreads += result.threadsGranted;
+    }
+    return totalThreads;
+}
+
+/**
+ * xpFarm (lib/xp_farm.ts): fill idle botnet RAM with one-shot grow + weaken
+ * threads against `target`, split so security stays flat. Re-run each target
+ * scan; nothing loops, so leaving the mode needs no cleanup.
+ */
+async function farmXp(
+    ns: NS,
+    ledger: TaskLedger,
+    target: string,
+    availableServers: string[],
+    homeReserve: number,
+    maxHomeFraction: number,
+): Promise<void> {
+    let totalThreads = 0;
+    const free = freeRamByHost(ns, availableServers, homeReserve, maxHomeFraction);
+    for (const [host, ram] of free) {
+        const { grow, weaken } = splitXpThreads(
+            Math.floor(ram / SCRIPT_RAM_COST), GROW_SECURITY_INCREASE, WEAKEN_SECURITY_DECREASE,
+        );
+        const hostOnly = new Map([[host, ram]]);
+        totalThreads += await placeThreads(ns, ledger, hostOnly, SCRIPT_PATHS.grow, grow, [target, 0, 0, 'xp-farm']);
+        totalThreads += await placeThreads(ns, ledger, hostOnly, SCRIPT_PATHS.weaken, weaken, [target, 0, 0, 'xp-farm']);
+    }
+    if (totalThreads > 0) {
+        ns.print(`XP FARM: ${totalThreads} grow/weaken threads on ${target}`);
+    }
+}
+
+/**
+ * protoBatch: one untimed H+G+W wave against a prepped `target` — hack
+ * PROTO_HACK_FRACTION, the grow that refills it, the weaken that cancels both —
+ * scaled down to fit free RAM. All three start at once; hack lands first,
+ * weaken last. Returns false if nothing could be launched.
+ */
+async function runProtoBatch(
+    ns: NS,
+    ledger: TaskLedger,
+    target: string,
+    availableServers: string[],
+    homeReserve: number,
+    maxHomeFraction: number,
+): Promise<boolean> {
+    const money = ns.getServerMoneyAvailable(target);
+    if (money <= 0) return false;
+    let hack = Math.max(1, Math.floor(ns.hackAnalyzeThreads(target, money * PROTO_HACK_FRACTION)));
+    let grow = Math.ceil(ns.growthAnalyze(target, 1 / (1 - PROTO_HACK_FRACTION)));
+    let weaken = Math.ceil((hack * HACK_SECURITY_INCREASE + grow * GROW_SECURITY_INCREASE) / WEAKEN_SECURITY_DECREASE);
+
+    const free = freeRamByHost(ns, availableServers, homeReserve, maxHomeFraction);
+    const fitThreads = Array.from(free.values()).reduce((n, r) => n + Math.floor(r / SCRIPT_RAM_COST), 0);
+    const scale = Math.min(1, fitThreads / (hack + grow + weaken));
+    if (scale < 1) {
+        hack = Math.floor(hack * scale);
+        grow = Math.floor(grow * scale);
+        weaken = Math.max(1, Math.ceil(weaken * scale));
+    }
+    if (hack <= 0) return false;
+
+    await placeThreads(ns, ledger, free, SCRIPT_PATHS.hack, hack, [target, 0, 0, 'proto-hack']);
+    await placeThreads(ns, ledger, free, SCRIPT_PATHS.grow, grow, [target, 0, 0, 'proto-grow']);
+    await placeThreads(ns, ledger, free, SCRIPT_PATHS.weaken, weaken, [target, 0, 0, 'proto-weaken']);
+    ns.print(`PROTO-BATCH: ${target} H${hack} G${grow} W${weaken}`);
+    return true;
+}
+
+/**
+ * Apply everything waiting on PORT_BUS_TASK / PORT_BUS_REGISTER to the ledger;
+ * batch op reports also go to the batcher's misfire telemetry.
+ */
+function drainBus(ns: NS, ledger: TaskLedger, batchManager: BatchHackManager): void {
+    for (let raw = popPort(ns, PORT_BUS_TASK); raw !== null; raw = popPort(ns, PORT_BUS_TASK)) {
+        const msg = parseBusMessage(raw);
+        if (!msg) continue;
+        applyBusMessage(ledger, msg);
+        if (msg.kind === 'op') batchManager.recordOpReport(msg);
+    }
+    for (let raw = popPort(ns, PORT_BUS_REGISTER); raw !== null; raw = popPort(ns, PORT_BUS_REGISTER)) {
+        const reg = parseRegistration(raw);
+        if (reg) applyRegistration(ledger, reg);
+    }
+}
+
 // ── Main daemon entry point ───────────────────────────────────────────────────
 
-// TODO(design): Wire phase-aware compute strategy — skip HWGW batcher in BOOTSTRAP/EARLY,
-//               launch simple_hack_loop on best target instead.  PORT_PHASE is now wired;
-//               the strategy branch is the next step.
-// TODO(design): Publish task START/DONE events to PORT_BUS_TASK for zero-poll RAM accounting.
-//               Add self-registration on PORT_BUS_REGISTER.
 // TODO(design): homeReservedRam doubling — when violation is frequent, double the minimum
 //               reserve (alainbryden pattern) to shed load gracefully.
 
@@ -235,11 +484,29 @@ export async function main(ns: NS): Promise<void> {
         debug:          EXEC_DEBUG,
     }, scripts);
 
-    const batchManager = new BatchHackManager(ns, threadManager);
+    // Task-event consumer (lib/task_ledger.ts): daemons registered before a
+    // restart stay known until their pid is gone.
+    const ledger = newTaskLedger();
+    for (const reg of loadTaskStatus(ns).daemons) applyRegistration(ledger, reg);
+    registerDaemon(ns, 'coordinator');
+
+    const batchManager = new BatchHackManager(ns, threadManager, ledger);
+    const drain = (): void => drainBus(ns, ledger, batchManager);
+    // Residents from a previous run answer to slot numbers this run doesn't know.
+    const workerPool = new WorkerPool(ns, ledger);
+    workerPool.reset(getAvailableServers(ns, MIN_SERVER_RAM, true, 0).servers);
 
     // Initial nuke pass (all daemon lifecycle is owned by brain.ts (lib/daemon_launcher.ts))
     await nukeAll(ns);
 
+    // Take over from brain.ts's pre-coordinator compute: its home early_prepper
+    // stops here, and its remote simple_hack_loop spray is adopted as the
+    // 'spray' strategy — drained like any other if something else is wanted.
+    if (ns.scriptRunning(SCRIPT_PATHS.earlyPrepper, 'home')) ns.scriptKill(SCRIPT_PATHS.earlyPrepper, 'home');
+    let strategy: StrategyState = { active: 'spray', next: null, drainStart: 0 };
+    let strategyReason = 'adopted from brain.ts';
+    let protoWaveUntil = 0;   // ms epoch the last proto-batch wave lands
+
     ns.print('Coordinator (batch engine) started — daemon lifecycle owned by brain.ts');
 
     let tick = 0;
@@ -248,6 +515,9 @@ export async function main(ns: NS): Promise<void> {
     let lastShareTime       = 0;
     let lastTargetCheck     = 0;
     let lastPhase: DesignPhase | null = null;
+    let xpFarming = false;
+    const manipulatedUntil = new Map<string, number>();   // host → ms epoch its manipulation threads land
+    const bitNode = ns.getResetInfo().currentNode;
     const TARGET_CHECK_INTERVAL_S = 5;
 
     while (true) {
@@ -258,9 +528,8 @@ export async function main(ns: NS): Promise<void> {
 
             // ── Phase awareness (resolves TODO(design) from Phase 2a) ─────────
             // phase_detector publishes the current DesignPhase string to PORT_PHASE.
-            // Coordinator reads it each tick and logs transitions to PORT_DECISION.
-            // TODO(design): branch on phase to switch compute strategy (BOOTSTRAP/EARLY
-            //               → simple_hack_loop; MID/LATE → HWGW batcher).
+            // Coordinator reads it each tick and logs transitions to PORT_DECISION;
+            // the compute strategy below switches on it.
             const phaseStr    = peekPort(ns, PORT_PHASE) as DesignPhase | null;
             const currentPhase: DesignPhase = phaseStr ?? DesignPhase.BOOTSTRAP;
             if (currentPhase !== lastPhase) {
@@ -286,6 +555,11 @@ export async function main(ns: NS): Promise<void> {
                 lastPortOpenerTime = sec;
             }
 
+            // ── Task bus (lib/task_bus.ts → lib/task_ledger.ts) ──────────────
+            // Drained every loop, not per target scan, and every second of a blocking
+            // prep (prepareServers): the port drops its oldest reports once full.
+            drain();
+
             // ── RAM snapshot ─────────────────────────────────────────────────
             const homeReserved = getReservedRam(ns, 'home', {
                 floorOverrideGb: homeRamOverride > 0 ? homeRamOverride : undefined,
@@ -298,11 +572,15 @@ export async function main(ns: NS): Promise<void> {
             const ramViolated = homeFree < homeReserved;
 
             if (tick % 10 === 0) {
-                ns.print(formatRamStatusPanel(totalRam, totalRam - usedRam, homeFree, homeReserved, ramViolated));
+                const frag = fragmentation(availServers.map(h =>
+                    ns.getServerMaxRam(h) - ns.getServerUsedRam(h) - (h === 'home' ? homeReserved : 0)), SCRIPT_RAM_COST);
+                ns.print(formatRamStatusPanel(totalRam, totalRam - usedRam, homeFree, homeReserved, ramViolated, frag));
             }
 
             // ── Share idle RAM ────────────────────────────────────────────────
-            if (FEATURES.enableShare && sec - lastShareTime >= INTERVAL_SHARE_S) {
+            // (xpFarm/shareOnly claim all idle RAM themselves.)
+            const sharesItself = strategy.active === 'xpFarm' || strategy.active === 'shareOnly';
+            if (FEATURES.enableShare && !sharesItself && sec - lastShareTime >= INTERVAL_SHARE_S) {
                 await shareRemainingRam(ns, availServers, homeReserved, HOME_RAM_RESERVE_FRACTION);
                 lastShareTime = sec;
             }
@@ -310,32 +588,152 @@ export async function main(ns: NS): Promise<void> {
             // ── Target scan + batch scheduling ───────────────────────────────
             if (sec - lastTargetCheck >= TARGET_CHECK_INTERVAL_S) {
                 lastTargetCheck = sec;
-                ramManager.updateRamInfo();
-                targetManager.refreshTargets();
-
-                const maxTargets = effectiveMaxTargets(ns);
-                if (maxTargets === 0 && tick % 10 === 0) {
-                    ns.print('Higher-priority RAM pressure signaled — holding at current targets, no new ones this cycle');
+                const settings = loadSettings(ns);
+
+                // ── XP-farm mode (settings.xpFarm; lib/xp_farm.ts) ───────────
+                const xp = decideXpFarm({
+                    mode:           settings.xpFarm,
+                    hacking:        ns.getHackingLevel(),
+                    block:          loadHackBlock(ns),
+                    hackMoneyScale: targetManager.getHackMoneyScale(),
+                    bitNode,
+                    now,
+                });
+                if (xp.active !== xpFarming) {
+                    ns.print(`Coordinator: ${xp.active ? 'XP farming' : 'money batching'} — ${xp.reason}`);
+                    pushPort(ns, PORT_DECISION, JSON.stringify({
+                        ts:     now,
+                        tick,
+                        type:   'COORDINATOR_XP_FARM',
+                        active: xp.active,
+                        reason: xp.reason,
+                    }));
+                    xpFarming = xp.active;
                 }
-
-                // Prepare any unprepared top targets before batching
-                const allTargets = getTargetServers(ns);
-                const unprepared = allTargets
-                    .filter(t => !isServerPrepared(ns, t, TARGET_MONEY_THRESHOLD, TARGET_SECURITY_THRESHOLD))
-                    .slice(0, maxTargets);
-
-                if (unprepared.length > 0) {
-                    await prepareServers(
-                        ns, unprepared, availServers,
-                        TARGET_MONEY_THRESHOLD, TARGET_SECURITY_THRESHOLD,
-                    );
+                // ── Compute strategy (lib/compute_strategy.ts): drain, then switch ──
+                const desired = chooseComputeStrategy({
+                    override:   settings.computeStrategy,
+                    phase:      currentPhase,
+                    botnetRam:  totalRam,
+                    xpFarm:     xpFarming,
+                    hasTargets: targetManager.getBestTargets(1, false).length > 0,
+                });
+                const prev = strategy;
+                strategy = advanceStrategy(prev, desired.id, countStrategyWorkers(ns, prev.active, availServers), now);
+                if (strategy.active !== prev.active) {
+                    strategyReason = desired.reason;
+                    ns.print(`Coordinator: strategy ${prev.active} → ${strategy.active} (${desired.reason})`);
+                    pushPort(ns, PORT_DECISION, JSON.stringify({
+                        ts:     now,
+                        tick,
+                        type:   'COORDINATOR_STRATEGY',
+                        from:   prev.active,
+                        to:     strategy.active,
+                        reason: desired.reason,
+                    }));
+                    // Re-plan batches from scratch if HWGW is ever resumed.
+                    if (prev.active === 'hwgw') batchManager.pruneActiveBatches();
+                } else if (strategy.active === desired.id) {
+                    strategyReason = desired.reason;
+                } else if (!isDraining(prev) && strategy.active !== null) {
+                    ns.print(`Coordinator: draining ${strategy.active} before switching to ${strategy.next} (${desired.reason})`);
+                    if (COMPUTE_STRATEGIES[strategy.active].loops) killStrategyWorkers(ns, strategy.active, availServers);
                 }
 
-                const launched = await batchManager.scheduleBatches(targetManager, ramManager, maxTargets);
+                targetManager.setStrategyOverride(strategy.active === 'xpFarm' ? 'xpPerSec' : null);
+                targetManager.refreshTargets(currentPhase);
+                const topTarget = targetManager.getBestTargets(1, false)[0];
+                let published = topTarget ? [{ host: topTarget, dps: 0 }] : [];
+                let moneyPerGbSec = 0;
+
+                // Resident worker pool (settings.workerPool; lib/worker_pool.ts) — HWGW only,
+                // shut down (residents exit as their jobs land) while HWGW drains.
+                const usePool = settings.workerPool && strategy.active === 'hwgw' && !isDraining(strategy);
+                batchManager.setWorkerPool(usePool ? workerPool : null);
+                if (usePool) workerPool.maintain();
+                else workerPool.shutdown();
+                ramManager.setPoolIdleRam(usePool ? workerPool.getIdleRam() : new Map());
+                ramManager.updateRamInfo();
 
-                if (launched > 0 || tick % 5 === 0) {
-                    batchManager.printStatus(ramManager, launched);
+                if (isDraining(strategy)) {
+                    // Nothing new launches while the old strategy's workers land.
+                } else if (strategy.active === 'spray' && topTarget) {
+                    await fillWithLoopWorker(ns, ledger, SCRIPT_PATHS.simpleHackLoop, topTarget, availServers, homeReserved, HOME_RAM_RESERVE_FRACTION);
+                } else if (strategy.active === 'prepLoop' && topTarget) {
+                    await fillWithLoopWorker(ns, ledger, SCRIPT_PATHS.earlyPrepper, topTarget, availServers, homeReserved, HOME_RAM_RESERVE_FRACTION);
+                } else if (strategy.active === 'protoBatch' && topTarget) {
+                    if (!isServerPrepared(ns, topTarget, TARGET_MONEY_THRESHOLD, TARGET_SECURITY_THRESHOLD)) {
+                        await prepareServers(ns, ledger, [topTarget], availServers, TARGET_MONEY_THRESHOLD, TARGET_SECURITY_THRESHOLD, drain);
+                    } else if (now >= protoWaveUntil
+                        && await runProtoBatch(ns, ledger, topTarget, availServers, homeReserved, HOME_RAM_RESERVE_FRACTION)) {
+                        protoWaveUntil = now + ns.getWeakenTime(topTarget);
+                    }
+                } else if (strategy.active === 'shareOnly') {
+                    await shareRemainingRam(ns, availServers, homeReserved, HOME_RAM_RESERVE_FRACTION);
+                } else if (strategy.active === 'xpFarm' && topTarget) {
+                    await farmXp(ns, ledger, topTarget, availServers, homeReserved, HOME_RAM_RESERVE_FRACTION);
+                } else if (strategy.active === 'hwgw') {
+                    const maxTargets = effectiveMaxTargets(ns);
+                    if (maxTargets === 0 && tick % 10 === 0) {
+                        ns.print('Higher-priority RAM pressure signaled — holding at current targets, no new ones this cycle');
+                    }
+
+                    // Prepare any unprepared top targets (in scoring-strategy order) before batching.
+                    // Targets mid-wave or mid-recovery are the batcher's own (hwgw_batcher.ts).
+                    const allTargets = targetManager.getBestTargets(Infinity, false);
+                    const batched = batchManager.getBatchedHosts();
+                    const unprepared = allTargets
+                        .filter(t => !batched.has(t))
+                        .filter(t => !isServerPrepared(ns, t, TARGET_MONEY_THRESHOLD, TARGET_SECURITY_THRESHOLD))
+                        .slice(0, maxTargets);
+
+                    if (unprepared.length > 0) {
+                        await prepareServers(
+                            ns, ledger, unprepared, availServers,
+                            TARGET_MONEY_THRESHOLD, TARGET_SECURITY_THRESHOLD, drain,
+                        );
+                    }
+
+                    // Stock coupling: bias new batches toward held positions (lib/stock_coupling.ts)
+                    const positions = parseStockPositions(peekPort(ns, PORT_STOCK));
+                    batchManager.setStockBias(stockBiasByHost(positions));
+
+                    const launched = await batchManager.scheduleBatches(targetManager, ramManager, maxTargets);
+
+                    if (settings.stockManipulation) {
+                        const hacking = ns.getHackingLevel();
+                        const jobs = planManipulation(positions, batchManager.getBatchedHosts(), host =>
+                            (manipulatedUntil.get(host) ?? 0) <= now
+                            && ns.hasRootAccess(host)
+                            && ns.getServerRequiredHackingLevel(host) <= hacking,
+                        );
+                        for (const host of await runStockManipulation(ns, ledger, jobs, availServers, homeReserved)) {
+                            manipulatedUntil.set(host, now + ns.getWeakenTime(host));
+                        }
+                    }
+                    published = batchManager.getActiveTargets();
+                    const plan = batchManager.getPlan();
+                    moneyPerGbSec = marginalMoneyPerGbSec(plan, SCRIPT_RAM_COST);
+
+                    if (launched > 0 || tick % 5 === 0) {
+                        batchManager.printStatus(ramManager, launched);
+                        ns.print(formatBatchInfoPanel(plan));
+                    }
                 }
+
+                saveComputeStatus(ns, {
+                    ts: now,
+                    phase: currentPhase,
+                    targets: published,
+                    strategy: strategy.active ?? '',
+                    strategyReason,
+                    pending: strategy.next ?? '',
+                    pool: workerPool.getStats(),
+                    moneyPerGbSec,
+                });
+                saveDesyncStatus(ns, batchManager.getDesyncStatus(now));
+                pruneLedger(ledger, now, pid => ns.isRunning(pid));
+                saveTaskStatus(ns, summarizeLedger(ledger, now));
             }
 
             await ns.sleep(200);
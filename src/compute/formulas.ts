@@ -1,12 +1,26 @@
 import { NS, Server, Player } from '@ns';
+import {
+    hackChance, hackPercent, hackTime, growTime, weakenTime, growThreads, growthLog,
+    NEUTRAL_SCALING,
+} from '../lib/hacking_formulas';
+import type { HackScaling } from '../lib/hacking_formulas';
 
 /**
  * Helper class for formula calculations with fallbacks if Formulas.exe isn't available.
  * Moved from engine/formulas.ts.
+ *
+ * Without Formulas.exe the fallbacks evaluate lib/hacking_formulas.ts on the
+ * Server/Player passed in, so hypothetical states (getOptimalServer) are
+ * honoured. The three BitNode multipliers those formulas need are calibrated
+ * once against the live hackAnalyze/growthAnalyze/getHackTime of whatever host
+ * is asked about first, then reused.
  */
 export class FormulaHelper {
     private ns: NS;
     private hasFormulasExe: boolean;
+    private hackMoneyScale: number | null = null;
+    private growthRateScale: number | null = null;
+    private hackSpeedScale: number | null = null;
 
     constructor(ns: NS) {
         this.ns = ns;
@@ -18,7 +32,7 @@ export class FormulaHelper {
         if (this.hasFormulasExe) {
             return this.ns.formulas.hacking.hackPercent(server, player);
         } else {
-            return this.ns.hackAnalyze(server.hostname);
+            return hackPercent(server, player, this.getScaling(server.hostname, player));
         }
     }
 
@@ -27,30 +41,21 @@ export class FormulaHelper {
         if (this.hasFormulasExe) {
             return this.ns.formulas.hacking.hackChance(server, player);
         } else {
-            return this.ns.hackAnalyzeChance(server.hostname);
+            return hackChance(server, player);
         }
     }
 
-    /**
-     * Calculate grow threads needed to reach max money.
-     * @param hackThreads Number of hack threads (used in fallback calculation).
-     */
-    getGrowThreads(server: Server, player: Player, hackThreads: number): number {
+    /** Calculate grow threads needed to take `server` from its moneyAvailable to max money. */
+    getGrowThreads(server: Server, player: Player, cores: number = 1): number {
         if (this.hasFormulasExe) {
             return Math.ceil(this.ns.formulas.hacking.growThreads(
                 server,
                 player,
                 server.moneyMax || 0,
-                1 // Cores
+                cores
             ));
         } else {
-            const hackPercent = this.ns.hackAnalyze(server.hostname);
-            const availableMoney = server.moneyAvailable || 0;
-            const hackMoney = hackPercent * availableMoney * hackThreads;
-            const moneyAfterHack = Math.max(1, availableMoney - hackMoney);
-            const maxMoney = server.moneyMax || 1;
-            const multiplier = maxMoney / moneyAfterHack;
-            return Math.ceil(this.ns.growthAnalyze(server.hostname, multiplier));
+            return growThreads(server, player, server.moneyMax || 0, cores, this.getScaling(server.hostname, player));
         }
     }
 
@@ -59,7 +64,7 @@ export class FormulaHelper {
         if (this.hasFormulasExe) {
             return this.ns.formulas.hacking.weakenTime(server, player);
         } else {
-            return this.ns.getWeakenTime(server.hostname);
+            return weakenTime(server, player, this.getScaling(server.hostname, player));
         }
     }
 
@@ -68,7 +73,7 @@ export class FormulaHelper {
         if (this.hasFormulasExe) {
             return this.ns.formulas.hacking.hackTime(server, player);
         } else {
-            return this.ns.getHackTime(server.hostname);
+            return hackTime(server, player, this.getScaling(server.hostname, player));
         }
     }
 
@@ -77,10 +82,50 @@ export class FormulaHelper {
         if (this.hasFormulasExe) {
             return this.ns.formulas.hacking.growTime(server, player);
         } else {
-            return this.ns.getGrowTime(server.hostname);
+            return growTime(server, player, this.getScaling(server.hostname, player));
         }
     }
 
+    /**
+     * BitNode money/growth/speed multipliers, inferred as live ÷ local on the
+     * host's current state (local ÷ live for speed). A factor stays
+     * uncalibrated (treated as 1) until a host gives a usable reading — hack
+     * percent clamped at 0/1, or no growth.
+     */
+    private getScaling(hostname: string, player: Player): HackScaling {
+        if (this.hackMoneyScale === null || this.growthRateScale === null || this.hackSpeedScale === null) {
+            const live = this.ns.getServer(hostname);
+            if (this.hackMoneyScale === null) {
+                const measured = this.ns.hackAnalyze(hostname);
+                const local = hackPercent(live, player, NEUTRAL_SCALING);
+                if (local > 0 && measured > 0 && measured < 1) this.hackMoneyScale = measured / local;
+            }
+            if (this.growthRateScale === null) {
+                const threadsToDouble = this.ns.growthAnalyze(hostname, 2);
+                const local = growthLog(live, player, 1, 1, NEUTRAL_SCALING);
+                if (local > 0 && Number.isFinite(threadsToDouble) && threadsToDouble > 0) {
+                    this.growthRateScale = Math.log(2) / threadsToDouble / local;
+                }
+            }
+            if (this.hackSpeedScale === null) {
+                const measured = this.ns.getHackTime(hostname);
+                const local = hackTime(live, player, NEUTRAL_SCALING);
+                if (local > 0 && measured > 0) this.hackSpeedScale = local / measured;
+            }
+        }
+        return {
+            scriptHackMoney:  this.hackMoneyScale ?? 1,
+            serverGrowthRate: this.growthRateScale ?? 1,
+            hackingSpeed:     this.hackSpeedScale ?? 1,
+        };
+    }
+
+    /** Calibrated BitNode hack-money multiplier, measured on `hostname` if not yet known (null = no usable reading). */
+    getHackMoneyScale(hostname: string): number | null {
+        this.getScaling(hostname, this.ns.getPlayer());
+        return this.hackMoneyScale;
+    }
+
     /** Return a server object with max money and min security (optimal state for calculations). */
     getOptimalServer(hostname: string): Server {
         const server = this.ns.getServer(hostname);
@@ -1,10 +1,16 @@
 import { NS } from '@ns';
 import { isSingleInstance } from '../lib/net_scan';
-
-// TODO(design): Wire MAX_PAYOFF_TIME to lib/config phase boundaries:
-//   BOOTSTRAP phase → aggressive (1h limit, no cap); MID/LATE → conservative (4h, 1% money cap).
-//   Also: add hash-spending loop (spend-hacknet-hashes pattern) for Reduce_Min_Security /
-//   Increase_Maximum_Money on best hack target after 15 min in aug (alainbryden pattern).
+import { loadSettings } from '../lib/settings';
+import { loadSubsystem } from '../lib/subsystem_state';
+import { loadComputeStatus, topTarget } from '../lib/compute_status';
+import { HashUpgrade, chooseHashPurchase, loadHashSpend, saveHashSpend } from '../lib/hash_spend';
+import type { HashContext, HashSpendSummary } from '../lib/hash_spend';
+import { readResetHorizon } from '../lib/reset_horizon';
+import type { ResetHorizon } from '../lib/reset_horizon';
+import { PHASE_RESET_MIN_AUGS } from '../lib/config';
+import { PORT_AUGS, peekPort } from '../lib/ports';
+import { requestFunds, recordSpend, releaseFunds } from '../lib/budget';
+import { registerDaemon } from '../lib/task_bus';
 
 function formatMoney(money: number): string {
     return money.toLocaleString();
@@ -14,9 +20,8 @@ function formatTime(ms: number): string {
     return (ms / 1000).toFixed(2) + 's';
 }
 
-// ROI payoff time limit (seconds). Upgrades are only purchased if their payoff time is below this.
-// TODO(design): derive from lib/config phase — aggressive early-aug, conservative late-aug.
-const MAX_PAYOFF_TIME = 18000; // 5 hours in seconds
+// ROI payoff time limit: upgrades are only purchased if they pay back before the
+// next augmentation install wipes them — see lib/reset_horizon.ts.
 const CONTINUOUS = true; // Set to false to run once
 const INTERVAL = 200; // Rate at which the program purchases upgrades when running continuously
 const MAX_SPEND = Number.MAX_VALUE; // The maximum amount of money to spend on upgrades
@@ -28,6 +33,7 @@ let haveHacknetServers = true;
 export async function main(ns: NS): Promise<void> {
     // Ensure only one instance is running
     if (!isSingleInstance(ns)) { return; }
+    registerDaemon(ns, 'hacknetManager');
 
     // Disable logs to reduce clutter
     ns.disableLog('ALL');
@@ -35,7 +41,8 @@ export async function main(ns: NS): Promise<void> {
 
     const numNodes = ns.hacknet.numNodes();
 
-    setStatus(ns, `Starting hacknet-upgrade-manager with purchase payoff time limit of ${formatTime(MAX_PAYOFF_TIME * 1000)} and ` +
+    const horizon = resetHorizon(ns);
+    setStatus(ns, `Starting hacknet-upgrade-manager with purchase payoff time limit of ${formatTime(horizon.seconds * 1000)} (${horizon.basis}) and ` +
         (MAX_SPEND == Number.MAX_VALUE ? 'no spending limit' : `a spend limit of ${formatMoney(MAX_SPEND)}`) +
         `. Current fleet: ${numNodes} nodes...`);
 
@@ -52,8 +59,11 @@ export async function main(ns: NS): Promise<void> {
 
     // Main loop — stays resident, re-evaluates on backoff when nothing to buy.
     let remainingBudget = MAX_SPEND;
+    const hashSummary: HashSpendSummary = { ...loadHashSpend(ns), spent: {} };
     do {
         try {
+            if (haveHacknetServers) spendHashes(ns, hashSummary);
+
             const moneySpent = upgradeHacknet(ns);
 
             // Track spending
@@ -88,6 +98,12 @@ export async function main(ns: NS): Promise<void> {
     } while (CONTINUOUS);
 }
 
+/** Time until the next aug install — the payoff cutoff for every purchase below. */
+function resetHorizon(ns: NS): ResetHorizon {
+    const pendingAugs = parseInt(peekPort(ns, PORT_AUGS) ?? '0', 10) || 0;
+    return readResetHorizon(ns, pendingAugs, PHASE_RESET_MIN_AUGS);
+}
+
 let lastUpgradeLog = '';
 /**
  * Set status in the log, avoiding duplicates
@@ -143,9 +159,11 @@ function getHacknetMult(ns: NS): number {
 /**
  * Main function to find and purchase the best hacknet upgrade.
  * ROI metric: addedProduction / cost (hashes-or-dollars per second per dollar spent).
- * Buys the upgrade with the best ROI whose payoff time is within MAX_PAYOFF_TIME.
+ * Buys the upgrade with the best ROI whose payoff time is within the reset horizon.
  */
 function upgradeHacknet(ns: NS): number | false {
+    const maxPayoffTime = resetHorizon(ns).seconds;
+
     // Get current hacknet multiplier
     const currentHacknetMult = getHacknetMult(ns);
 
@@ -323,8 +341,8 @@ function upgradeHacknet(ns: NS): number | false {
     }
 
     // Check against payoff time limit
-    if (payoffTimeSeconds > MAX_PAYOFF_TIME) {
-        setStatus(ns, `The next best purchase would be ${strPurchase}, but the ${strPayoff} is worse than the limit (${formatTime(MAX_PAYOFF_TIME * 1000)})`);
+    if (payoffTimeSeconds > maxPayoffTime) {
+        setStatus(ns, `The next best purchase would be ${strPurchase}, but the ${strPayoff} is worse than the reset horizon (${formatTime(maxPayoffTime * 1000)})`);
         return false;
     }
 
@@ -338,6 +356,13 @@ function upgradeHacknet(ns: NS): number | false {
         return 0;
     }
 
+    // Ask the capital allocator (lib/budget.ts) — higher-priority spenders may hold this cash
+    const grant = requestFunds(ns, 'hacknet', cost, loadSettings(ns).budgetPolicy);
+    if (grant.granted < cost) {
+        setStatus(ns, `The next best purchase would be ${strPurchase}, but the allocator declined it (${grant.reason})`);
+        return 0;
+    }
+
     // Purchase the upgrade or new node
     let success = false;
 
@@ -367,10 +392,85 @@ function upgradeHacknet(ns: NS): number | false {
     setStatus(ns, success ?
         `Purchased ${strPurchase} with ${strPayoff}` :
         `Insufficient funds to purchase the next best upgrade: ${strPurchase}`);
+    if (success) recordSpend(ns, 'hacknet', cost);
+    else releaseFunds(ns, 'hacknet');
 
     return success ? cost : 0;
 }
 
+// ── Hash spending (hacknet servers only) ─────────────────────────────────────
+
+/** Combat stats are trained at the gym; everything else crime.ts trains is a course. */
+const GYM_STATS = new Set(['strength', 'defense', 'dexterity', 'agility']);
+
+/** Gather the spender's view of the world: hash store, costs, compute target, live subsystems. */
+function gatherHashContext(ns: NS): HashContext {
+    const costs: HashContext['costs'] = {};
+    for (const upgrade of Object.values(HashUpgrade)) {
+        try { costs[upgrade] = ns.hacknet.hashCost(upgrade); } catch { /* not offered in this BN */ }
+    }
+
+    const host = topTarget(loadComputeStatus(ns));
+    const target = host && ns.serverExists(host)
+        ? { host, minDifficulty: ns.getServerMinSecurityLevel(host), moneyMax: ns.getServerMaxMoney(host) }
+        : null;
+
+    const live = (id: string): boolean => {
+        const s = loadSubsystem(ns, id);
+        return s.available && s.running;
+    };
+    const crime = loadSubsystem(ns, 'crime');
+    const trainingStat = crime.running ? crime.metrics['statTraining'] : undefined;
+    const training = typeof trainingStat !== 'string' ? null
+        : GYM_STATS.has(trainingStat) ? 'gym' : 'study';
+
+    let rate = 0;
+    for (let i = 0; i < ns.hacknet.numNodes(); i++) rate += ns.hacknet.getNodeStats(i).production;
+
+    return {
+        hashes:   ns.hacknet.numHashes(),
+        capacity: ns.hacknet.hashCapacity(),
+        rate,
+        costs,
+        target,
+        active: {
+            corp:        live('corp'),
+            bladeburner: live('bladeburner'),
+            training,
+            contracts:   loadSettings(ns).autoSolveContracts,
+        },
+    };
+}
+
+/**
+ * One hash purchase per call, chosen by lib/hash_spend.ts under the
+ * settings' `hashStrategy`; the running summary is republished for
+ * player/hacknet_status.ts whenever something is bought.
+ */
+function spendHashes(ns: NS, summary: HashSpendSummary): void {
+    const strategy = loadSettings(ns).hashStrategy;
+    const ctx = gatherHashContext(ns);
+    const pick = chooseHashPurchase(strategy, ctx);
+
+    if (pick === null) {
+        if (summary.strategy !== strategy) {
+            summary.strategy = strategy;
+            saveHashSpend(ns, { ...summary, ts: Date.now() });
+        }
+        return;
+    }
+
+    const cost = ctx.costs[pick.upgrade] ?? 0;
+    if (!ns.hacknet.spendHashes(pick.upgrade, pick.target)) return;
+
+    summary.strategy = strategy;
+    summary.last = pick.target ? `${pick.upgrade} → ${pick.target}` : pick.upgrade;
+    summary.reason = pick.reason;
+    summary.spent[pick.upgrade] = (summary.spent[pick.upgrade] ?? 0) + cost;
+    saveHashSpend(ns, { ...summary, ts: Date.now() });
+    setStatus(ns, `Spent ${cost.toFixed(0)} hashes on ${summary.last} (${pick.reason})`);
+}
+
 /**
  * Display the current status of hacknet nodes
  */
@@ -1,4 +1,4 @@
-import { NS } from '@ns';
+import { NS, Player, Server } from '@ns';
 import { formatMoney, formatRam as fmtRam } from '../lib/format';
 import {
     SCRIPT_PATHS,
@@ -6,9 +6,14 @@ import {
     BATCH_STEP_TIME,
     BATCH_MAX_CONCURRENCY,
     BATCH_MAX_HACK_PER_BATCH,
+    BATCH_WEAKEN_PADDING,
+    BATCH_GROW_PADDING,
+    ALLOC_STRATEGY,
     HACK_SECURITY_INCREASE,
     GROW_SECURITY_INCREASE,
     WEAKEN_SECURITY_DECREASE,
+    TARGET_MONEY_THRESHOLD,
+    TARGET_SECURITY_THRESHOLD,
 } from '../lib/config';
 import { RamManager } from './ram_manager';
 import { TargetSelector } from './target_selector';
@@ -18,16 +23,78 @@ import { Allocator } from './allocator';
 import { Priority } from '../lib/config';
 import { getPressure } from '../lib/machine_status';
 import { requestRun } from '../lib/exec_guard';
+import { PORT_BUS_TASK } from '../lib/ports';
+import { coreBonus } from '../lib/hacking_formulas';
+import {
+    newTiming,
+    classifyOp,
+    recordOutcome,
+    adjustStep,
+    driftReason,
+    planRecovery,
+    fitRecovery,
+    recoveryThreads,
+    type OpReport,
+    type TargetTiming,
+    type DesyncStatus,
+} from '../lib/batch_telemetry';
+import { recordStart, type TaskLedger } from '../lib/task_ledger';
+import { planBatches, EMPTY_BATCH_PLAN, type BatchPlan, type TargetOptions } from '../lib/batch_optimizer';
+import type { ComputeTarget } from '../lib/compute_status';
+import type { StockBias } from '../lib/stock_coupling';
+import type { PoolOp } from '../lib/worker_pool';
+import type { WorkerPool } from './worker_pool';
 
 /** Pressure signals older than this are treated as stale/resolved, not acted on. */
 const PRESSURE_STALE_MS = 10_000;
 
+/** Targets considered by the global plan, as a multiple of maxTargets (best-scored first). */
+const PLAN_CANDIDATE_FACTOR = 3;
+
+/** Batch worker script → the resident pool op that can run it instead. */
+const POOL_OPS: Record<string, PoolOp> = {
+    [SCRIPT_PATHS.hack]:   'hack',
+    [SCRIPT_PATHS.grow]:   'grow',
+    [SCRIPT_PATHS.weaken]: 'weaken',
+};
+
 // ── Types ─────────────────────────────────────────────────────────────────────
 
+/** What every batch shape against one target shares — fetched once per target per pass. */
+interface ShapeBasis {
+    server: Server;                 // at its optimal (prepared) state
+    player: Player;
+    weaken1Time: number;
+    hackTime: number;
+    growTime: number;
+    hackPercent: number;            // of money one hack thread steals
+    stepTime: number;
+    batchGap: number;
+    maxBatches: number;
+}
+
+/** Thread counts and timings of one HWGW batch against a prepared target. */
+interface BatchShape {
+    hackThreads: number;
+    growThreadsRaw: number;         // padded (BATCH_GROW_PADDING), on 1 core
+    growThreadsOn: (cores: number) => number;   // the same, on a host with `cores` cores
+    weaken1ThreadsRaw: number;      // padded (BATCH_WEAKEN_PADDING), on 1 core
+    weaken2ThreadsRaw: number;
+    tpb: number;                    // total threads on 1 core, each op rounded up
+    dollarPerHack: number;
+    moneyMax: number;
+    weaken1Time: number;
+    hackTime: number;
+    growTime: number;
+    stepTime: number;
+    batchGap: number;
+    maxBatches: number;             // concurrency cap from hack time vs batch spacing
+}
+
 /** Result of a HWGW batch calculation for one target. */
 interface BatchCalculation {
     dps: number;                    // Dollars per second if this batch runs continuously
-    tpb: number;                    // Total threads per batch cycle
+    tpb: number;                    // Threads per batch as placed (fewer than 1-core sizing on multi-core hosts)
     hackServerAlloc: number[][];    // Per-batch, per-server thread allocations
     growServerAlloc: number[][];
     weaken1ServerAlloc: number[][];
@@ -43,6 +110,10 @@ interface BatchCalculation {
     weaken2Time: number;
     hackTime: number;
     growTime: number;
+    stepTime: number;               // ms between this plan's ops (lib/batch_telemetry.ts widens it)
+    hackFraction: number;           // share of max money one batch's hack takes
+    securityRise: number;           // largest security gain one op adds before its weaken lands
+    landsAt: number;                // ms epoch the launched wave's last op lands (0 = not launched)
 }
 
 // ── BatchHackManager ──────────────────────────────────────────────────────────
@@ -57,7 +128,6 @@ interface BatchCalculation {
  *               - targetFinder per-thread-efficiency ranking for EARLY phase
  * TODO(design): Adopt alainbryden getScheduleTiming / additionalMsec / optimizePerformanceMetrics
  *               for more precise operation-timing math and misfire mitigation.
- * TODO(design): recoveryThreadPadding — add a weaken buffer when security drifts above floor.
  * TODO(design): maxTargets auto-scale — reduce active targets when RAM is tight instead of killing.
  */
 export class BatchHackManager {
@@ -67,10 +137,19 @@ export class BatchHackManager {
     private totalBatchesLaunched: number = 0;
     private formulas: FormulaHelper;
     private batchId: number = 0;
+    private stockBias: Map<string, StockBias> = new Map();
+    private workerPool: WorkerPool | null = null;
+    private timing: Map<string, TargetTiming> = new Map();
+    /** Targets with a recovery W/GW pass in flight → ms epoch it lands. */
+    private recovering: Map<string, number> = new Map();
+    private plan: BatchPlan = EMPTY_BATCH_PLAN;
 
-    constructor(ns: NS, threadManager: ThreadDistributionManager) {
+    private ledger: TaskLedger;
+
+    constructor(ns: NS, threadManager: ThreadDistributionManager, ledger: TaskLedger) {
         this.ns = ns;
         this.threadManager = threadManager;
+        this.ledger = ledger;
         this.formulas = new FormulaHelper(ns);
     }
 
@@ -84,98 +163,186 @@ export class BatchHackManager {
 
     pruneActiveBatches(): void {
         this.activeBatches.clear();
+        this.recovering.clear();
+    }
+
+    /** Targets currently being batched, most profitable first (for status/compute.json). */
+    getActiveTargets(): ComputeTarget[] {
+        return Array.from(this.activeBatches.entries())
+            .map(([host, calc]) => ({ host, dps: calc.dps }))
+            .sort((a, b) => b.dps - a.dps);
     }
 
     /**
-     * Calculate the HWGW strategy for `hackThreads` hack threads against `target`.
-     * Returns null if there isn't enough botnet RAM to run even one batch instance.
+     * Held stock positions by server (lib/stock_coupling.ts). Batches launched
+     * after this pass `stock: true` on grow for longs and on hack for shorts.
      */
-    async calculateBatchStrategy(
-        target: string,
-        hackThreads: number,
-        availableAllocs: number[],
-    ): Promise<BatchCalculation | null> {
-        const serverOptimal = this.formulas.getOptimalServer(target);
-        const player = this.ns.getPlayer();
+    setStockBias(bias: Map<string, StockBias>): void {
+        this.stockBias = bias;
+    }
 
-        const weaken1Time = this.formulas.getWeakenTime(serverOptimal, player);
-        const weaken2Time = weaken1Time;
-        const hackTime = this.formulas.getHackTime(serverOptimal, player);
-        const growTime = this.formulas.getGrowTime(serverOptimal, player);
+    /**
+     * Resident worker pool (lib/worker_pool.ts) to run operations on, or null
+     * for the one-shot exec per operation. Shortfalls always fall back to exec.
+     */
+    setWorkerPool(pool: WorkerPool | null): void {
+        this.workerPool = pool;
+    }
+
+    /** Servers with at least one running batch or recovery pass — the batcher owns their money/security. */
+    getBatchedHosts(): Set<string> {
+        return new Set([...this.activeBatches.keys(), ...this.recovering.keys()]);
+    }
+
+    /** Server, player and timings of `target` at its optimal (prepared) state. */
+    private shapeBasis(target: string): ShapeBasis {
+        const server = this.formulas.getOptimalServer(target);
+        const player = this.ns.getPlayer();
 
-        const batchGap = BATCH_STEP_TIME * 4;
+        const hackTime = this.formulas.getHackTime(server, player);
+        const stepTime = this.stepFor(target);
+        const batchGap = stepTime * 4;
 
         const maxBatches = BATCH_MAX_CONCURRENCY > 0
             ? Math.min(BATCH_MAX_CONCURRENCY, Math.floor(hackTime / batchGap + 1))
             : Math.floor(hackTime / batchGap + 1);
 
-        const hackPercent = this.formulas.getHackPercent(serverOptimal, player);
-        const moneyMax = serverOptimal.moneyMax || 1;
-        const moneyAvailable = serverOptimal.moneyAvailable || moneyMax;
+        return {
+            server,
+            player,
+            weaken1Time: this.formulas.getWeakenTime(server, player),
+            hackTime,
+            growTime:    this.formulas.getGrowTime(server, player),
+            hackPercent: this.formulas.getHackPercent(server, player),
+            stepTime,
+            batchGap,
+            maxBatches,
+        };
+    }
+
+    /** Size one batch stealing with `hackThreads` against `target` at its optimal (prepared) state. */
+    private batchShape(target: string, hackThreads: number, basis: ShapeBasis = this.shapeBasis(target)): BatchShape {
+        const { server, player, weaken1Time, hackTime, growTime, hackPercent, stepTime, batchGap, maxBatches } = basis;
+
+        const moneyMax = server.moneyMax || 1;
+        const moneyAvailable = server.moneyAvailable || moneyMax;
         const dollarPerHack = Math.min(moneyMax, moneyAvailable * hackPercent * hackThreads);
 
-        // Build server state after hack to calculate grow threads
-        const serverBeforeGrow = this.formulas.getOptimalServer(target);
-        const serverMoneyMax = serverBeforeGrow.moneyMax || 1;
-        serverBeforeGrow.moneyAvailable = Math.max(1, serverMoneyMax - dollarPerHack);
+        // Server state after hack, to calculate grow threads
+        const serverBeforeGrow: Server = { ...server, moneyAvailable: Math.max(1, moneyMax - dollarPerHack) };
+
+        const growThreadsOn = (cores: number): number =>
+            this.formulas.getGrowThreads(serverBeforeGrow, player, cores) * (1 + BATCH_GROW_PADDING);
+        const growThreadsRaw = growThreadsOn(1);
 
-        const growThreadsRaw = this.formulas.getGrowThreads(serverBeforeGrow, player, hackThreads);
+        const weaken1ThreadsRaw = hackThreads * HACK_SECURITY_INCREASE / WEAKEN_SECURITY_DECREASE * (1 + BATCH_WEAKEN_PADDING);
+        const weaken2ThreadsRaw = growThreadsRaw * GROW_SECURITY_INCREASE / WEAKEN_SECURITY_DECREASE * (1 + BATCH_WEAKEN_PADDING);
+
+        return {
+            hackThreads,
+            growThreadsRaw,
+            growThreadsOn,
+            weaken1ThreadsRaw,
+            weaken2ThreadsRaw,
+            tpb: Math.ceil(hackThreads) + Math.ceil(growThreadsRaw) + Math.ceil(weaken1ThreadsRaw) + Math.ceil(weaken2ThreadsRaw),
+            dollarPerHack,
+            moneyMax,
+            weaken1Time,
+            hackTime,
+            growTime,
+            stepTime,
+            batchGap,
+            maxBatches,
+        };
+    }
+
+    /** One option per hack-thread count [1..maxHackPerBatch], for the global plan (lib/batch_optimizer.ts). */
+    private targetOptions(target: string): TargetOptions {
+        const maxHackThreads = BATCH_MAX_HACK_PER_BATCH > 0 ? BATCH_MAX_HACK_PER_BATCH : 100;
+        const basis = this.shapeBasis(target);
+        const shapes: BatchShape[] = [];
+        for (let hpb = 1; hpb <= maxHackThreads; hpb++) shapes.push(this.batchShape(target, hpb, basis));
+        const first = shapes[0];
+        return {
+            target,
+            moneyMax:       first.moneyMax,
+            cycleMs:        first.weaken1Time,
+            gapMs:          first.batchGap,
+            maxConcurrency: first.maxBatches,
+            options:        shapes.map(sh => ({ hackThreads: sh.hackThreads, threads: sh.tpb, dollars: sh.dollarPerHack })),
+        };
+    }
 
-        const weaken1ThreadsRaw = hackThreads * HACK_SECURITY_INCREASE / WEAKEN_SECURITY_DECREASE;
-        const weaken2ThreadsRaw = growThreadsRaw * GROW_SECURITY_INCREASE / WEAKEN_SECURITY_DECREASE;
+    /**
+     * Calculate the HWGW strategy for `hackThreads` hack threads against `target`,
+     * running at most `maxConcurrency` staggered batches.
+     * Grow and weaken are placed first, on the hosts with the most cores, and
+     * sized for the cores they land on; hack takes what's left. Each op uses
+     * its ALLOC_STRATEGY placement.
+     * Returns null if there isn't enough botnet RAM to run even one batch instance.
+     */
+    async calculateBatchStrategy(
+        target: string,
+        hackThreads: number,
+        availableAllocs: number[],
+        cores: number[],
+        maxConcurrency: number = Infinity,
+    ): Promise<BatchCalculation | null> {
+        const shape = this.batchShape(target, hackThreads);
+        const { growThreadsRaw, growThreadsOn, weaken1ThreadsRaw, weaken2ThreadsRaw, batchGap } = shape;
+        const maxBatches = Math.min(shape.maxBatches, maxConcurrency);
 
         const hackServerAlloc: number[][] = [];
         const growServerAlloc: number[][] = [];
         const weaken1ServerAlloc: number[][] = [];
         const weaken2ServerAlloc: number[][] = [];
 
-        const allocator = new Allocator(availableAllocs);
+        const allocator = new Allocator(availableAllocs, cores);
         let batchCount = 0;
+        let placedThreads = 0;
 
         while (batchCount < maxBatches) {
-            const hackAllocRes = allocator.alloc(Math.ceil(hackThreads), false);
-            if (!hackAllocRes.success) break;
-            hackServerAlloc.push(hackAllocRes.allocation);
-
-            const growAllocRes = allocator.alloc(Math.ceil(growThreadsRaw), false);
-            if (!growAllocRes.success) {
-                allocator.free(hackServerAlloc.pop()!);
-                break;
-            }
+            const growAllocRes = allocator.allocOnCores(growThreadsOn, false, ALLOC_STRATEGY.grow);
+            if (!growAllocRes.success) break;
             growServerAlloc.push(growAllocRes.allocation);
 
-            const weaken1AllocRes = allocator.alloc(Math.ceil(weaken1ThreadsRaw), true);
+            const weaken1AllocRes = allocator.allocOnCores(c => weaken1ThreadsRaw / coreBonus(c), true, ALLOC_STRATEGY.weaken);
             if (!weaken1AllocRes.success) {
-                allocator.free(hackServerAlloc.pop()!);
                 allocator.free(growServerAlloc.pop()!);
                 break;
             }
             weaken1ServerAlloc.push(weaken1AllocRes.allocation);
 
-            const weaken2AllocRes = allocator.alloc(Math.ceil(weaken2ThreadsRaw), true);
+            const weaken2AllocRes = allocator.allocOnCores(c => weaken2ThreadsRaw / coreBonus(c), true, ALLOC_STRATEGY.weaken);
             if (!weaken2AllocRes.success) {
-                allocator.free(hackServerAlloc.pop()!);
                 allocator.free(growServerAlloc.pop()!);
                 allocator.free(weaken1ServerAlloc.pop()!);
                 break;
             }
             weaken2ServerAlloc.push(weaken2AllocRes.allocation);
 
+            const hackAllocRes = allocator.alloc(Math.ceil(hackThreads), false, ALLOC_STRATEGY.hack);
+            if (!hackAllocRes.success) {
+                allocator.free(growServerAlloc.pop()!);
+                allocator.free(weaken1ServerAlloc.pop()!);
+                allocator.free(weaken2ServerAlloc.pop()!);
+                break;
+            }
+            hackServerAlloc.push(hackAllocRes.allocation);
+
+            placedThreads += [hackAllocRes, growAllocRes, weaken1AllocRes, weaken2AllocRes]
+                .reduce((sum, res) => sum + res.allocation.reduce((a, t) => a + t, 0), 0);
             batchCount++;
         }
 
         if (batchCount === 0) return null;
 
-        const secondPerBatch = (weaken1Time + batchCount * batchGap) / 1000;
-        const dps = dollarPerHack * (1 / secondPerBatch) * batchCount;
-        const tpb = Math.ceil(hackThreads) +
-            Math.ceil(growThreadsRaw) +
-            Math.ceil(weaken1ThreadsRaw) +
-            Math.ceil(weaken2ThreadsRaw);
+        const secondPerBatch = (shape.weaken1Time + batchCount * batchGap) / 1000;
+        const dps = shape.dollarPerHack * (1 / secondPerBatch) * batchCount;
 
         return {
             dps,
-            tpb,
+            tpb: Math.ceil(placedThreads / batchCount),
             hackServerAlloc,
             growServerAlloc,
             weaken1ServerAlloc,
@@ -187,37 +354,21 @@ export class BatchHackManager {
             growPerBatch: Math.ceil(growThreadsRaw),
             weaken1ThreadsRaw,
             weaken2ThreadsRaw,
-            weaken1Time,
-            weaken2Time,
-            hackTime,
-            growTime,
+            weaken1Time: shape.weaken1Time,
+            weaken2Time: shape.weaken1Time,
+            hackTime: shape.hackTime,
+            growTime: shape.growTime,
+            stepTime: shape.stepTime,
+            hackFraction: shape.dollarPerHack / shape.moneyMax,
+            securityRise: Math.max(hackThreads * HACK_SECURITY_INCREASE, growThreadsRaw * GROW_SECURITY_INCREASE),
+            landsAt: 0,
         };
     }
 
     /**
-     * Search over hack-thread counts [1..maxHackPerBatch] and return the strategy
-     * that maximises dollars-per-second for the given available RAM.
-     */
-    async findBestHackThreads(
-        target: string,
-        availableAllocs: number[],
-    ): Promise<BatchCalculation | null> {
-        const maxHackThreads = BATCH_MAX_HACK_PER_BATCH > 0 ? BATCH_MAX_HACK_PER_BATCH : 100;
-
-        let bestDps = 0;
-        let bestCalc: BatchCalculation | null = null;
-        for (let hpb = 1; hpb <= maxHackThreads; hpb++) {
-            const calc = await this.calculateBatchStrategy(target, hpb, availableAllocs.slice());
-            if (calc && calc.dps > bestDps) {
-                bestDps = calc.dps;
-                bestCalc = calc;
-            }
-        }
-        return bestCalc;
-    }
-
-    /**
-     * For each top target (up to maxTargets), find the best batch plan and execute it.
+     * Plan the whole botnet (lib/batch_optimizer.ts) — up to maxTargets targets
+     * and each one's hack fraction, for the most total $/sec on the RAM there is —
+     * and launch the planned targets that aren't already running a wave.
      * Respects the home RAM reservation; kills cheapest targets first if violated.
      * @returns Number of new targets that started batching this call.
      */
@@ -237,29 +388,46 @@ export class BatchHackManager {
             }
         }
 
-        const targets = targetManager.getBestTargets(maxTargets, true);
-        if (targets.length === 0) return 0;
+        await this.checkTargetHealth(Date.now(), ramManager);
+        if (maxTargets <= 0) return 0;
 
-        const availableAllocs = ramManager.getAllocMap();
-        let newBatchesLaunched = 0;
+        const candidates: string[] = [];
+        for (const target of targetManager.getBestTargets(maxTargets * PLAN_CANDIDATE_FACTOR, true)) {
+            if (this.recovering.has(target)) continue;
+            if (!targetManager.hasMaxHackChance(target)) continue;
+            candidates.push(target);
+        }
+        if (candidates.length === 0) return 0;
 
-        for (const target of targets) {
+        // Running waves keep their RAM until they land, so it's part of the budget too.
+        const freeThreads = ramManager.getAllocMap().reduce((sum, t) => sum + t, 0);
+        const heldThreads = Array.from(this.activeBatches.values()).reduce((sum, c) => sum + c.tpb * c.concurrency, 0);
+        this.plan = planBatches(candidates.map(t => this.targetOptions(t)), freeThreads + heldThreads, maxTargets, SCRIPT_RAM_COST);
+
+        let newBatchesLaunched = 0;
+        for (const planned of this.plan.targets) {
+            const target = planned.target;
             if (this.activeBatches.has(target)) continue;
-            if (!targetManager.hasMaxHackChance(target)) continue;
 
-            const bestCalc = await this.findBestHackThreads(target, availableAllocs.slice());
-            if (bestCalc) {
-                this.activeBatches.set(target, bestCalc);
-                this.reserveRamForBatch(ramManager, bestCalc);
-                await this.executeTargetBatches(target, bestCalc, ramManager);
+            const calc = await this.calculateBatchStrategy(target, planned.hackThreads, ramManager.getAllocMap(), ramManager.getCoresMap(), planned.concurrency);
+            if (calc) {
+                this.activeBatches.set(target, calc);
+                this.clearReprep(target);
+                this.reserveRamForBatch(ramManager, calc);
+                await this.executeTargetBatches(target, calc, ramManager);
                 newBatchesLaunched++;
-                this.totalBatchesLaunched += bestCalc.concurrency;
-                this.ns.print(`Started batching ${target} with ${bestCalc.concurrency} batches, ${formatMoney(bestCalc.dps)}/sec`);
+                this.totalBatchesLaunched += calc.concurrency;
+                this.ns.print(`Started batching ${target} with ${calc.concurrency} batches, ${formatMoney(calc.dps)}/sec`);
             }
         }
         return newBatchesLaunched;
     }
 
+    /** The last global plan (lib/batch_optimizer.ts), for the coordinator's BATCH INFO panel. */
+    getPlan(): BatchPlan {
+        return this.plan;
+    }
+
     private reserveRamForBatch(ramManager: RamManager, calc: BatchCalculation): void {
         const serverList = ramManager.getAvailableServers();
         for (let serverIndex = 0; serverIndex < serverList.length; serverIndex++) {
@@ -285,13 +453,16 @@ export class BatchHackManager {
 
         const now = Date.now();
         const batchFinishTime = now + calc.weaken1Time;
+        const bias = this.stockBias.get(target);
+        const step = calc.stepTime;
+        calc.landsAt = batchFinishTime + (calc.concurrency - 1) * calc.batchGap + 3 * step;
 
         for (let i = 0; i < calc.concurrency; i++) {
             const batchOffset = i * calc.batchGap;
             const hackFinish = batchFinishTime + batchOffset;
-            const weaken1Finish = hackFinish + BATCH_STEP_TIME;
-            const growFinish = weaken1Finish + BATCH_STEP_TIME;
-            const weaken2Finish = growFinish + BATCH_STEP_TIME;
+            const weaken1Finish = hackFinish + step;
+            const growFinish = weaken1Finish + step;
+            const weaken2Finish = growFinish + step;
 
             const hackStart = hackFinish - calc.hackTime;
             const weaken1Start = weaken1Finish - calc.weaken1Time;
@@ -301,13 +472,13 @@ export class BatchHackManager {
             const bid = this.generateBatchId();
 
             if (calc.hackServerAlloc[i]?.some(t => t > 0)) {
-                await this.executeOperation(SCRIPT_PATHS.hack, calc.hackServerAlloc[i], serverList, target, calc.hackPerBatch, hackStart, hackFinish, `batch-hack-${bid}`);
+                await this.executeOperation(SCRIPT_PATHS.hack, calc.hackServerAlloc[i], serverList, target, calc.hackPerBatch, hackStart, hackFinish, `batch-hack-${bid}`, bias === 'short');
             }
             if (calc.weaken1ServerAlloc[i]?.some(t => t > 0)) {
                 await this.executeOperation(SCRIPT_PATHS.weaken1, calc.weaken1ServerAlloc[i], serverList, target, Math.ceil(calc.weaken1ThreadsRaw), weaken1Start, weaken1Finish, `batch-weaken1-${bid}`);
             }
             if (calc.growServerAlloc[i]?.some(t => t > 0)) {
-                await this.executeOperation(SCRIPT_PATHS.grow, calc.growServerAlloc[i], serverList, target, calc.growPerBatch, growStart, growFinish, `batch-grow-${bid}`);
+                await this.executeOperation(SCRIPT_PATHS.grow, calc.growServerAlloc[i], serverList, target, calc.growPerBatch, growStart, growFinish, `batch-grow-${bid}`, bias === 'long');
             }
             if (calc.weaken2ServerAlloc[i]?.some(t => t > 0)) {
                 await this.executeOperation(SCRIPT_PATHS.weaken2, calc.weaken2ServerAlloc[i], serverList, target, Math.ceil(calc.weaken2ThreadsRaw), weaken2Start, weaken2Finish, `batch-weaken2-${bid}`);
@@ -324,20 +495,187 @@ export class BatchHackManager {
         startTime: number,
         endTime: number,
         description: string,
+        manipulateStock: boolean = false,
     ): Promise<void> {
         for (let i = 0; i < allocation.length; i++) {
             if (allocation[i] <= 0) continue;
             const server = serverList[i];
             if (!this.ns.serverExists(server)) continue;
-            await requestRun(this.ns, {
+            let remaining = allocation[i];
+            if (this.workerPool) {
+                remaining -= await this.workerPool.dispatch(POOL_OPS[script], server, remaining, {
+                    id: description, target, start: startTime, end: endTime, stock: manipulateStock,
+                });
+                if (remaining <= 0) continue;
+            }
+            const res = await requestRun(this.ns, {
                 script,
                 host: server,
-                threads: allocation[i],
+                threads: remaining,
                 priority: Priority.COMPUTE_WORKER,
-                args: [target, startTime, endTime - startTime, description, false, true],
+                args: [target, startTime, endTime - startTime, description, manipulateStock, true, false, PORT_BUS_TASK],
                 requesterId: description,
             });
+            if (res.ok) {
+                recordStart(this.ledger, {
+                    pid: res.pid, host: server, script, op: POOL_OPS[script],
+                    target, threads: res.threadsGranted, eta: endTime,
+                });
+            }
+        }
+    }
+
+    /**
+     * A batch worker's op report (drained from PORT_BUS_TASK by the coordinator):
+     * feed it into its target's timing (lib/batch_telemetry.ts) and hand pool
+     * residents' reports to the pool.
+     */
+    recordOpReport(report: OpReport): void {
+        if (report.slot !== undefined) this.workerPool?.onReport(report.slot, report.batch, report.end);
+        const timing = this.timing.get(report.target) ?? newTiming(BATCH_STEP_TIME);
+        this.timing.set(report.target, recordOutcome(timing, classifyOp(report, timing.stepMs)));
+    }
+
+    /** Per-target misfire metrics for status/desync.json, worst first. */
+    getDesyncStatus(now: number): DesyncStatus {
+        return {
+            ts: now,
+            targets: Array.from(this.timing.entries())
+                .map(([host, t]) => ({ host, ...t }))
+                .sort((a, b) => b.rate - a.rate),
+        };
+    }
+
+    private stepFor(target: string): number {
+        return this.timing.get(target)?.stepMs ?? BATCH_STEP_TIME;
+    }
+
+    /**
+     * Between waves: free targets whose wave or recovery pass has landed for
+     * re-planning — or start another recovery pass on any that landed outside
+     * the prepared band — kill the batches of any whose money/security left
+     * its plan's band and start a recovery pass on it, and widen or narrow
+     * each target's step from its misfire rate.
+     */
+    private async checkTargetHealth(now: number, ramManager: RamManager): Promise<void> {
+        const landed: string[] = [];
+        for (const [target, landsAt] of Array.from(this.recovering.entries())) {
+            if (landsAt > now) continue;
+            this.recovering.delete(target);
+            landed.push(target);
+        }
+
+        for (const [target, calc] of Array.from(this.activeBatches.entries())) {
+            if (calc.landsAt <= now) {
+                this.activeBatches.delete(target);
+                landed.push(target);
+                continue;
+            }
+            const server = this.ns.getServer(target);
+            const reason = driftReason({
+                money:        server.moneyAvailable ?? 0,
+                moneyMax:     server.moneyMax || 1,
+                security:     server.hackDifficulty ?? 0,
+                minSecurity:  server.minDifficulty ?? 0,
+                hackFraction: calc.hackFraction,
+                securityRise: calc.securityRise,
+            }, TARGET_MONEY_THRESHOLD, TARGET_SECURITY_THRESHOLD);
+            if (!reason) continue;
+
+            this.activeBatches.delete(target);
+            this.terminateTargetProcesses(target);
+            ramManager.updateRamInfo();
+            this.ns.print(`Drift on ${target} (${reason}) — stopped batching`);
+            await this.startRecovery(target, reason, ramManager);
         }
+
+        // Landed targets are still the batcher's (the coordinator skipped their
+        // prep this cycle): one outside the prepared band recovers before its next wave.
+        for (const target of landed) {
+            const reason = this.bandReason(target);
+            if (reason) await this.startRecovery(target, reason, ramManager);
+        }
+
+        for (const [target, t] of Array.from(this.timing.entries())) {
+            const next = adjustStep(t, BATCH_STEP_TIME, now);
+            if (next === t) continue;
+            this.timing.set(target, next);
+            this.ns.print(`Batch timing for ${target}: ${next.reason}`);
+        }
+    }
+
+    /** Why `target` is outside the prepared band right now, or null if it's inside. */
+    private bandReason(target: string): string | null {
+        const server = this.ns.getServer(target);
+        return driftReason({
+            money:        server.moneyAvailable ?? 0,
+            moneyMax:     server.moneyMax || 1,
+            security:     server.hackDifficulty ?? 0,
+            minSecurity:  server.minDifficulty ?? 0,
+            hackFraction: 0,
+            securityRise: 0,
+        }, TARGET_MONEY_THRESHOLD, TARGET_SECURITY_THRESHOLD);
+    }
+
+    /**
+     * Launch a recovery pass on `target`: weaken to minimum security, then grow
+     * to max money and weaken that, landing a step apart like a batch's tail.
+     * With no RAM for it the target goes back to the coordinator's prep.
+     */
+    private async startRecovery(target: string, reason: string, ramManager: RamManager): Promise<void> {
+        const t = this.timing.get(target) ?? newTiming(BATCH_STEP_TIME);
+        const server = this.ns.getServer(target);
+        const player = this.ns.getPlayer();
+
+        // Grow's effect is settled when it lands — after the first weaken, at minimum security.
+        const atMinSecurity = { ...server, hackDifficulty: server.minDifficulty };
+        const allocator = new Allocator(ramManager.getAllocMap(), ramManager.getCoresMap());
+        const plan = fitRecovery(planRecovery({
+            securityExcess: Math.max(0, (server.hackDifficulty ?? 0) - (server.minDifficulty ?? 0)),
+            growThreads:    this.formulas.getGrowThreads(atMinSecurity, player),
+            weakenPadding:  BATCH_WEAKEN_PADDING,
+            growPadding:    BATCH_GROW_PADDING,
+            weakenDecrease: WEAKEN_SECURITY_DECREASE,
+            growIncrease:   GROW_SECURITY_INCREASE,
+        }), allocator.getTotalAvailableThreads());
+
+        if (recoveryThreads(plan) === 0) {
+            this.timing.set(target, { ...t, fresh: 0, state: 'reprep', reason });
+            this.ns.print(`No RAM to recover ${target} (${reason}) — back to prep`);
+            return;
+        }
+
+        // The plan is sized on 1 core; multi-core hosts cover their share with fewer threads.
+        const weakenAlloc = allocator.allocOnCores(c => plan.weaken / coreBonus(c), true, ALLOC_STRATEGY.weaken).allocation;
+        const growAlloc = allocator.allocOnCores(c => plan.grow / coreBonus(c), true, ALLOC_STRATEGY.grow).allocation;
+        const growWeakenAlloc = allocator.allocOnCores(c => plan.growWeaken / coreBonus(c), true, ALLOC_STRATEGY.weaken).allocation;
+        const serverList = ramManager.getAvailableServers();
+        serverList.forEach((host, i) => {
+            const threads = weakenAlloc[i] + growAlloc[i] + growWeakenAlloc[i];
+            if (threads > 0) ramManager.reserveRam(threads * SCRIPT_RAM_COST, host);
+        });
+
+        const step = t.stepMs;
+        const weakenTime = this.formulas.getWeakenTime(server, player);
+        const weakenFinish = Date.now() + weakenTime;
+        const growFinish = weakenFinish + step;
+        const growWeakenFinish = growFinish + step;
+        const bid = this.generateBatchId();
+
+        await this.executeOperation(SCRIPT_PATHS.weaken1, weakenAlloc, serverList, target, plan.weaken, weakenFinish - weakenTime, weakenFinish, `recovery-weaken-${bid}`);
+        await this.executeOperation(SCRIPT_PATHS.grow, growAlloc, serverList, target, plan.grow, growFinish - this.formulas.getGrowTime(server, player), growFinish, `recovery-grow-${bid}`);
+        await this.executeOperation(SCRIPT_PATHS.weaken2, growWeakenAlloc, serverList, target, plan.growWeaken, growWeakenFinish - weakenTime, growWeakenFinish, `recovery-weaken2-${bid}`);
+
+        this.recovering.set(target, growWeakenFinish);
+        this.timing.set(target, { ...t, fresh: 0, state: 'recovering', reason });
+        this.ns.print(`Recovering ${target} (${reason}): ${plan.weaken}W + ${plan.grow}G/${plan.growWeaken}W`);
+    }
+
+    /** A recovered or re-prepped target is batching again. */
+    private clearReprep(target: string): void {
+        const t = this.timing.get(target);
+        if (t?.state !== 'reprep' && t?.state !== 'recovering') return;
+        this.timing.set(target, { ...t, state: t.stepMs > BATCH_STEP_TIME ? 'widened' : 'ok', reason: '' });
     }
 
     private generateBatchId(): number {
@@ -408,5 +746,6 @@ export class BatchHackManager {
                 if (proc.args[0] === target) this.ns.kill(proc.pid);
             }
         }
+        this.workerPool?.killTarget(target);
     }
 }
@@ -1,121 +1,82 @@
 import { NS } from '@ns';
-import { formatRam, padNum } from '../lib/format';
+import { formatMoney, formatRam, formatTime } from '../lib/format';
 import { isSingleInstance } from '../lib/net_scan';
 import { executeCommand } from '../lib/ns_dodge';
+import { loadSettings } from '../lib/settings';
+import { requestFunds, recordSpend, releaseFunds } from '../lib/budget';
+import { registerDaemon } from '../lib/task_bus';
+import { loadComputeStatus } from '../lib/compute_status';
+import { readResetHorizon } from '../lib/reset_horizon';
+import type { ResetHorizon } from '../lib/reset_horizon';
+import { PHASE_RESET_MIN_AUGS } from '../lib/config';
+import { PORT_AUGS, peekPort } from '../lib/ports';
+import { planPurchases, reservedFraction, savePservPlan } from '../lib/pserv_planner';
+import type { PlannedPurchase, PservPlanInputs } from '../lib/pserv_planner';
 
 // ── Budget constants ──────────────────────────────────────────────────────────
 
 const MAX_RAM = 1048576; // 2^20 GB — game maximum for purchased servers
 const MIN_INITIAL_RAM = 64; // Minimum RAM when buying a fresh server
 
-// Polling intervals (ms)
-const PSERV_INTERVAL = 30_000; // Check purchased servers every 30s
-const HOME_INTERVAL  = 20_000; // Check home upgrades every 20s
+// Polling interval (ms)
+const PSERV_INTERVAL = 30_000; // Re-plan and buy every 30s
 
-// ── Time-decay budget (alainbryden host-manager pattern) ─────────────────────
+/** A compute snapshot older than this carries no $/GB estimate (coordinator stopped). */
+const COMPUTE_STALE_MS = 5 * 60_000;
+
+// ── Planner inputs (lib/pserv_planner.ts) ─────────────────────────────────────
 
 /**
- * Compute how much money the coordinator can spend on purchased servers this tick.
- *
- * Integrates the alainbryden host-manager budget model:
- *   budget = max(0, 0.25 * hackIncomeSinceAug - serverSpendSinceAug,
- *                   0.001 * totalIncomeSinceAug - serverSpendSinceAug)
- *
- * This is naturally aggressive early in an aug cycle (hack income accumulates fast)
- * and tapers toward zero late (serverSpend catches up to 25% of hack income).
- *
- * TODO(design): Full time-decay (reserve-by-time) model:
- *   pctReserved = 1 - (1 - initialPct) * (1 - decayFactor)^minutesSinceAug
- *   Requires getTimeSinceLastAug() or a stored aug-start timestamp.
- *   With decayFactor=0.1/min: starts near 5% reserved → ~75% reserved at 6h.
- *   Implement when phase-detector publishes aug-start time to the port bus.
+ * Money spendable this tick under the time-decay reserve, and the reserved share.
+ * The node's age comes from ns.getResetInfo().lastAugReset.
  */
-function calcPservBudget(ns: NS): number {
-    try {
-        // getMoneySources() is present in Bitburner 2.x but not yet in our type declarations
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const sources = (ns as any).getMoneySources?.();
-        if (sources?.sinceInstall) {
-            const hackIncome  = sources.sinceInstall.hacking ?? 0;
-            const serverSpend = sources.sinceInstall.servers  ?? 0;
-            const totalIncome = sources.sinceInstall.total    ?? 0;
-            const budget25pct = Math.max(0, 0.25 * hackIncome - serverSpend);
-            const budget01pct = Math.max(0, 0.001 * totalIncome - serverSpend);
-            return Math.max(budget25pct, budget01pct);
-        }
-    } catch { /* getMoneySources not available in this BN/version */ }
-    // Fallback: 20% of available money
-    return ns.getServerMoneyAvailable('home') * 0.2;
-}
-
-// ── Purchased-server helpers (from tools/purchase_server.ts) ─────────────────
-
-function getCostByRam(ns: NS, targetRam: number): number {
-    return ns.cloud.getServerCost(targetRam);
-}
-
-function isAllMaxed(ns: NS, maxRam: number): boolean {
-    const ownServers = ns.cloud.getServerNames();
-    const serverRams = ownServers.map(s => ns.getServerMaxRam(s));
-    const maxCount = ns.cloud.getServerLimit();
-    return ownServers.length >= maxCount && serverRams.every(ram => ram >= maxRam);
+function calcPservBudget(ns: NS): { budget: number; reserved: number } {
+    const minutesSinceAug = (Date.now() - ns.getResetInfo().lastAugReset) / 60_000;
+    const reserved = reservedFraction(minutesSinceAug);
+    return { budget: ns.getServerMoneyAvailable('home') * (1 - reserved), reserved };
 }
 
-function getRamPower(ram: number): number {
-    return Math.floor(Math.log2(ram));
+/** Time until the next aug install — how long anything bought now has to pay off. */
+function resetHorizon(ns: NS): ResetHorizon {
+    const pendingAugs = parseInt(peekPort(ns, PORT_AUGS) ?? '0', 10) || 0;
+    return readResetHorizon(ns, pendingAugs, PHASE_RESET_MIN_AUGS);
 }
 
-function getRequiredPowerDifference(currentRam: number): number {
-    const p = getRamPower(currentRam);
-    if (p >= 20) return 0;
-    if (p >= 19) return 1;
-    if (p >= 18) return 2;
-    return 3;
-}
-
-function planNextTarget(ns: NS, minInitialRam: number): { targetServer: string, currentRam: number, isNew: boolean } {
-    const ownServers = ns.cloud.getServerNames();
-    const maxCount = ns.cloud.getServerLimit();
-
-    if (ownServers.length < maxCount) {
-        return { targetServer: `pserv-${padNum(ownServers.length, 2)}`, currentRam: 0, isNew: true };
+/** Singularity cost lookup (RAM-dodged); Infinity when it isn't available. */
+async function singularityCost(ns: NS, command: string): Promise<number> {
+    try {
+        return await executeCommand<number>(ns, command);
+    } catch {
+        return Infinity;
     }
+}
 
-    const withRam = ownServers.map(s => ({ name: s, ram: ns.getServerMaxRam(s) }));
-    const minServer = withRam.reduce(
-        (min, curr) => curr.ram < min.ram ? curr : min,
-        { name: '', ram: Infinity }
-    );
-    return { targetServer: minServer.name, currentRam: minServer.ram, isNew: false };
+async function gatherInputs(ns: NS, budget: number, horizon: ResetHorizon): Promise<PservPlanInputs> {
+    const compute = loadComputeStatus(ns);
+    const fresh = Date.now() - compute.ts <= COMPUTE_STALE_MS;
+    const pservCost: Record<number, number> = {};
+    for (let ram = MIN_INITIAL_RAM; ram <= MAX_RAM; ram *= 2) pservCost[ram] = getCostByRam(ns, ram);
+    return {
+        budget,
+        incomePerSec:  fresh ? compute.targets.reduce((sum, t) => sum + t.dps, 0) : 0,
+        moneyPerGbSec: fresh ? compute.moneyPerGbSec : 0,
+        horizonS:      horizon.seconds,
+        pservs:        ns.cloud.getServerNames().map((host: string) => ({ host, ram: ns.getServerMaxRam(host) })),
+        pservLimit:    ns.cloud.getServerLimit(),
+        pservCost,
+        minRam:        MIN_INITIAL_RAM,
+        maxRam:        MAX_RAM,
+        homeRam:       ns.getServerMaxRam('home'),
+        homeCores:     ns.getServer('home').cpuCores,
+        homeRamCost:   await singularityCost(ns, 'ns.singularity.getUpgradeHomeRamCost()'),
+        homeCoresCost: await singularityCost(ns, 'ns.singularity.getUpgradeHomeCoresCost()'),
+    };
 }
 
-/**
- * Given a server, a min ram, a max ram, and a budget, return the highest affordable RAM tier.
- * Returns {ram: currentRam, cost: 0} if nothing is affordable.
- */
-function estimateCost(
-    ns: NS,
-    currentRam: number,
-    minRam: number,
-    maxRam: number,
-    budget: number
-): { ram: number, cost: number } {
-    const nextRam = Math.max(minRam, currentRam > 0 ? currentRam * 2 : minRam);
-    if (nextRam > maxRam || getCostByRam(ns, nextRam) > budget) {
-        return { ram: currentRam, cost: 0 };
-    }
+// ── Purchased-server helpers (from tools/purchase_server.ts) ─────────────────
 
-    let bestRam = nextRam;
-    let bestCost = getCostByRam(ns, nextRam);
-    while (true) {
-        const potentialRam = bestRam * 2;
-        if (potentialRam > maxRam) break;
-        const potentialCost = getCostByRam(ns, potentialRam);
-        if (potentialCost > budget) break;
-        bestRam = potentialRam;
-        bestCost = potentialCost;
-    }
-    return { ram: bestRam, cost: bestCost };
+function getCostByRam(ns: NS, targetRam: number): number {
+    return ns.cloud.getServerCost(targetRam);
 }
 
 function buyServer(ns: NS, serverName: string, ram: number): boolean {
@@ -148,44 +109,63 @@ function upgradeServer(ns: NS, server: string, currentRam: number, newRam: numbe
     return buyServer(ns, server, newRam);
 }
 
+/** Carry out a planned purchase. True once it's bought. */
+async function buy(ns: NS, p: PlannedPurchase): Promise<boolean> {
+    if (p.action === 'buy' || p.action === 'upgrade') return upgradeServer(ns, p.host, p.from, p.to);
+    const funcStr = p.action === 'homeRam'
+        ? 'ns.singularity.upgradeHomeRam()'
+        : 'ns.singularity.upgradeHomeCores()';
+    try {
+        return await executeCommand<boolean>(ns, funcStr);
+    } catch {
+        return false; // singularity not available or too expensive
+    }
+}
+
+function describe(p: PlannedPurchase): string {
+    const cost = formatMoney(p.cost);
+    if (p.action === 'homeCores') return `home cores ${p.from} → ${p.to} for ${cost}`;
+    if (p.action === 'homeRam') return `home ${formatRam(p.from)} → ${formatRam(p.to)} for ${cost}`;
+    return `${p.host} ${p.from > 0 ? formatRam(p.from) + ' → ' : ''}${formatRam(p.to)} for ${cost}`;
+}
+
 /**
- * Attempt one pserv buy/upgrade cycle using the time-decay budget.
- * Finds the weakest purchased server (or buys a new slot) and upgrades to the
- * highest power-of-2 RAM tier affordable within the budget.
+ * One planning cycle: plan the schedule (lib/pserv_planner.ts), publish it to
+ * status/pserv_plan.json, and buy its first step if that's affordable now.
  */
-function tryUpgradePserv(ns: NS, budget: number): void {
-    if (isAllMaxed(ns, MAX_RAM)) {
-        ns.print('All purchased servers are at max RAM.');
+async function runPlanCycle(ns: NS): Promise<void> {
+    const { budget, reserved } = calcPservBudget(ns);
+    const horizon = resetHorizon(ns);
+    const inputs = await gatherInputs(ns, budget, horizon);
+    const schedule = planPurchases(inputs);
+    savePservPlan(ns, {
+        ts:            Date.now(),
+        budget,
+        reserved,
+        horizonS:      horizon.seconds,
+        moneyPerGbSec: inputs.moneyPerGbSec,
+        basis:         inputs.moneyPerGbSec > 0
+            ? `batch $/GB·s over ${formatTime(horizon.seconds * 1000)} (${horizon.basis})`
+            : 'GB per dollar (no batch estimate)',
+        schedule,
+    });
+
+    const next = schedule[0];
+    if (!next) {
+        ns.print('Nothing worth buying before the reset horizon.');
         return;
     }
-    const minCost = ns.cloud.getServerCost(MIN_INITIAL_RAM);
-    if (budget < minCost) {
-        ns.print(`Budget ${formatRam(budget)} too low for min-tier server (${formatRam(minCost)})`);
+    if (next.etaS > 0) {
+        ns.print(`Next: ${describe(next)} in ~${formatTime(next.etaS * 1000)}`);
         return;
     }
-
-    const { targetServer, currentRam, isNew } = planNextTarget(ns, MIN_INITIAL_RAM);
-    const minRam = isNew ? MIN_INITIAL_RAM : (currentRam * 2);
-    const { ram: newRam, cost } = estimateCost(ns, currentRam, minRam, MAX_RAM, budget);
-
-    if (cost === 0) {
-        ns.print(`Budget insufficient to upgrade ${targetServer} from ${formatRam(currentRam)} RAM`);
+    const grant = requestFunds(ns, 'pserv', next.cost, loadSettings(ns).budgetPolicy);
+    if (grant.granted < next.cost) {
+        ns.print(`Allocator declined ${describe(next)}: ${grant.reason}`);
         return;
     }
-    upgradeServer(ns, targetServer, currentRam, newRam);
-}
-
-// ── Home RAM/core upgrader (from tools/upgrade_home.ts, Singularity RAM-dodge) ─
-
-async function tryUpgradeHome(ns: NS): Promise<void> {
-    const ramCost   = await executeCommand<number>(ns, 'ns.singularity.getUpgradeHomeRamCost()');
-    const coreCost  = await executeCommand<number>(ns, 'ns.singularity.getUpgradeHomeCoresCost()');
-    const funcStr   = ramCost <= coreCost
-        ? 'ns.singularity.upgradeHomeRam()'
-        : 'ns.singularity.upgradeHomeCores()';
-    try {
-        await executeCommand<boolean>(ns, funcStr);
-    } catch { /* singularity not available or too expensive */ }
+    if (await buy(ns, next)) recordSpend(ns, 'pserv', next.cost);
+    else releaseFunds(ns, 'pserv');
 }
 
 // ── Main daemon entry point ───────────────────────────────────────────────────
@@ -195,26 +175,19 @@ export async function main(ns: NS): Promise<void> {
     ns.enableLog('print');
 
     if (!isSingleInstance(ns)) { return; }
+    registerDaemon(ns, 'pservManager');
 
-    ns.print('pserv_manager started (buy/upgrade purchased servers + home RAM)');
+    ns.print('pserv_manager started (plans pserv buys/upgrades + home RAM/cores)');
 
-    let lastPservTime = 0;
-    let lastHomeTime  = 0;
+    let lastPlanTime = 0;
 
     while (true) {
         const now = Date.now();
 
-        // ── Purchased server upgrades ────────────────────────────────────
-        if (now - lastPservTime >= PSERV_INTERVAL) {
-            const budget = calcPservBudget(ns);
-            tryUpgradePserv(ns, budget);
-            lastPservTime = now;
-        }
-
-        // ── Home RAM / core upgrades (Singularity, RAM-dodged) ───────────
-        if (now - lastHomeTime >= HOME_INTERVAL) {
-            await tryUpgradeHome(ns);
-            lastHomeTime = now;
+        // ── Pserv / home purchases (lib/pserv_planner.ts) ────────────────
+        if (now - lastPlanTime >= PSERV_INTERVAL) {
+            await runPlanCycle(ns);
+            lastPlanTime = now;
         }
 
         await ns.sleep(1000);
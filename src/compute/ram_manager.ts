@@ -13,13 +13,14 @@ import { getReservedRam } from '../lib/machine_status';
  * RAM management for the distributed hacking botnet.
  * Moved from engine/ram_manager.ts; now uses flat constants from lib/config.
  *
- * Tracks per-server free/max RAM, enforces the home reservation, and exposes
- * thread-slot maps to the allocator.
+ * Tracks per-server free/max RAM and CPU cores, enforces the home reservation,
+ * and exposes thread-slot and core maps to the allocator.
  */
 export class RamManager {
     private ns: NS;
-    private servers: Map<string, { freeRam: number; maxRam: number }> = new Map();
+    private servers: Map<string, { freeRam: number; maxRam: number; cores: number }> = new Map();
     private homeReservedRam: number = 0;
+    private poolIdleRam: Map<string, number> = new Map();
     // Mutable override for home RAM reservation minimum (from --homeRam CLI flag).
     private _minHomeReserve: number = HOME_RAM_RESERVE_MIN;
 
@@ -48,6 +49,15 @@ export class RamManager {
         });
     }
 
+    /**
+     * GB held by idle pool residents per host (WorkerPool.getIdleRam). Counted
+     * as free from the next updateRamInfo on: the pool reuses those residents,
+     * or evicts them to make room, before it spawns anything.
+     */
+    setPoolIdleRam(idle: Map<string, number>): void {
+        this.poolIdleRam = idle;
+    }
+
     /** Refresh RAM snapshot for all servers. Call once per coordination loop tick. */
     updateRamInfo(): void {
         this.servers.clear();
@@ -55,7 +65,7 @@ export class RamManager {
         const homeMaxRam = this.ns.getServerMaxRam('home');
         this.homeReservedRam = this.calcHomeReservation(homeMaxRam);
 
-        const homeUsedRam = this.ns.getServerUsedRam('home');
+        const homeUsedRam = this.getUsedRam('home');
         const homeFreeRam = homeMaxRam - homeUsedRam;
         const reservationViolated = homeFreeRam < this.homeReservedRam;
 
@@ -75,9 +85,9 @@ export class RamManager {
         const purchasedSet = new Set(purchasedServers);
         for (const server of purchasedServers) {
             const maxRam = this.ns.getServerMaxRam(server);
-            const freeRam = maxRam - this.ns.getServerUsedRam(server);
+            const freeRam = maxRam - this.getUsedRam(server);
             if (freeRam > MIN_SERVER_RAM) {
-                this.servers.set(server, { freeRam, maxRam });
+                this.servers.set(server, { freeRam, maxRam, cores: this.ns.getServer(server).cpuCores });
             }
         }
 
@@ -85,7 +95,7 @@ export class RamManager {
         if (HOME_RAM_USE) {
             const freeRam = Math.max(0, homeMaxRam - homeUsedRam - this.homeReservedRam);
             if (freeRam > MIN_SERVER_RAM) {
-                this.servers.set('home', { freeRam, maxRam: homeMaxRam - this.homeReservedRam });
+                this.servers.set('home', { freeRam, maxRam: homeMaxRam - this.homeReservedRam, cores: this.ns.getServer('home').cpuCores });
             } else {
                 this.ns.print(`Home has insufficient free RAM after reservation: ${freeRam.toFixed(2)}GB available`);
             }
@@ -99,9 +109,9 @@ export class RamManager {
             if (this.ns.getServerMaxRam(server) < MIN_SERVER_RAM) continue;
 
             const maxRam = this.ns.getServerMaxRam(server);
-            const freeRam = maxRam - this.ns.getServerUsedRam(server);
+            const freeRam = maxRam - this.getUsedRam(server);
             if (freeRam > 0) {
-                this.servers.set(server, { freeRam, maxRam });
+                this.servers.set(server, { freeRam, maxRam, cores: this.ns.getServer(server).cpuCores });
             }
         }
     }
@@ -136,7 +146,7 @@ export class RamManager {
     /** Available RAM on home after the reservation is subtracted. */
     getHomeAvailableRam(): number {
         const homeMaxRam = this.ns.getServerMaxRam('home');
-        const homeUsedRam = this.ns.getServerUsedRam('home');
+        const homeUsedRam = this.getUsedRam('home');
         return Math.max(0, homeMaxRam - homeUsedRam - this.homeReservedRam);
     }
 
@@ -144,7 +154,7 @@ export class RamManager {
     getFreeRam(server: string): number {
         if (server === 'home') {
             const maxRam = this.ns.getServerMaxRam('home');
-            const usedRam = this.ns.getServerUsedRam('home');
+            const usedRam = this.getUsedRam('home');
             return Math.max(0, maxRam - usedRam - this.homeReservedRam);
         }
         return this.servers.get(server)?.freeRam || 0;
@@ -174,6 +184,11 @@ export class RamManager {
         return true;
     }
 
+    /** Used RAM on `server`, less what idle pool residents hold. */
+    private getUsedRam(server: string): number {
+        return Math.max(0, this.ns.getServerUsedRam(server) - (this.poolIdleRam.get(server) ?? 0));
+    }
+
     /** Hostnames of all tracked servers. */
     getAvailableServers(): string[] {
         return Array.from(this.servers.keys());
@@ -198,6 +213,16 @@ export class RamManager {
         });
     }
 
+    /** CPU cores per server, aligned to getAvailableServers() order (grow/weaken scale with them). */
+    getCoresMap(): number[] {
+        return this.getAvailableServers().map(server => this.getCores(server));
+    }
+
+    /** CPU cores of a tracked server (1 if untracked). */
+    getCores(server: string): number {
+        return this.servers.get(server)?.cores ?? 1;
+    }
+
     /** Currently reserved home RAM (GB). */
     getHomeReservedRam(): number {
         return this.homeReservedRam;
@@ -1,8 +1,17 @@
-import { NS } from '@ns';
+import { NS, Player } from '@ns';
 import { findAllServers, calculateServerValue } from '../lib/servers';
-import { TARGET_MONEY_THRESHOLD, TARGET_SECURITY_THRESHOLD } from '../lib/config';
+import {
+    TARGET_MONEY_THRESHOLD, TARGET_SECURITY_THRESHOLD, SCRIPT_RAM_COST,
+    HACK_SECURITY_INCREASE, GROW_SECURITY_INCREASE, WEAKEN_SECURITY_DECREASE,
+} from '../lib/config';
+import { hackingExp } from '../lib/hacking_formulas';
+import { rankTargets, saveTargetRanking, strategyForPhase } from '../lib/target_scoring';
+import type { ScoringStrategyId, TargetFacts } from '../lib/target_scoring';
 import { FormulaHelper } from './formulas';
 
+/** Hack fraction of the model HWGW batch the scoring strategies compare targets on. */
+const MODEL_HACK_FRACTION = 0.1;
+
 // ── Standalone helpers (dissolved from engine/batch_util.ts) ─────────────────
 
 /**
@@ -52,8 +61,9 @@ export function getTargetServers(ns: NS): string[] {
  * Phase-aware server-target ranking and prepared-status tracking.
  * Adapted from engine/server_manager.ts; uses flat constants from lib/config.
  *
- * TODO(design): Add per-thread-efficiency ranking for EARLY phase and
- *               payback-period ranking for LATE phase (inigo TargetFinder pattern).
+ * Ranking is delegated to lib/target_scoring.ts: the strategy follows the
+ * phase passed to refreshTargets() unless setStrategyOverride() pins one.
+ * Every refresh publishes the ranking to status/targets.json.
  */
 export class TargetSelector {
     private ns: NS;
@@ -61,6 +71,8 @@ export class TargetSelector {
     private targetServers: string[] = [];
     private targetValues: Map<string, number> = new Map();
     private preparedServers: Set<string> = new Set();
+    private phase = '';
+    private strategyOverride: ScoringStrategyId | null = null;
 
     constructor(ns: NS) {
         this.ns = ns;
@@ -68,29 +80,97 @@ export class TargetSelector {
         this.refreshTargets();
     }
 
-    /** Rescan the network and recompute target rankings. */
-    refreshTargets(): void {
+    /**
+     * Rescan the network and recompute target rankings.
+     * @param phase Current DesignPhase; picks the scoring strategy (default: last phase seen).
+     */
+    refreshTargets(phase: string = this.phase): void {
+        this.phase = phase;
         const allServers = findAllServers(this.ns);
         const hackLevel = this.ns.getHackingLevel();
         const purchased = new Set(this.ns.cloud.getServerNames());
 
-        this.targetServers = allServers.filter(server => {
+        const candidates = allServers.filter(server => {
             if (server === 'home' || purchased.has(server)) return false;
             if (!this.ns.hasRootAccess(server) || this.ns.getServerMaxMoney(server) <= 0) return false;
             return this.ns.getServerRequiredHackingLevel(server) <= hackLevel;
         });
 
-        for (const target of this.targetServers) {
-            this.targetValues.set(target, calculateServerValue(this.ns, target));
-        }
-
-        this.targetServers.sort((a, b) =>
-            (this.targetValues.get(b) || 0) - (this.targetValues.get(a) || 0)
-        );
+        const player = this.ns.getPlayer();
+        const strategy = this.getStrategy();
+        const ranking = rankTargets(candidates.map(host => this.gatherFacts(host, player)), strategy);
+
+        this.targetValues.clear();
+        for (const r of ranking) this.targetValues.set(r.host, r.score);
+        this.targetServers = ranking.map(r => r.host);
+
+        saveTargetRanking(this.ns, {
+            ts: Date.now(),
+            phase,
+            strategy,
+            source: this.strategyOverride ? 'override' : 'phase',
+            ranking,
+        });
 
         this.updatePreparedStatus();
     }
 
+    /** Pin a scoring strategy regardless of phase (null = follow the phase again). */
+    setStrategyOverride(strategy: ScoringStrategyId | null): void {
+        this.strategyOverride = strategy;
+    }
+
+    /** Strategy the next refresh ranks with. */
+    getStrategy(): ScoringStrategyId {
+        return this.strategyOverride ?? strategyForPhase(this.phase);
+    }
+
+    /** Calibrated BitNode hack-money multiplier (null until a target has been measured). */
+    getHackMoneyScale(): number | null {
+        const top = this.targetServers[0];
+        return top ? this.formulas.getHackMoneyScale(top) : null;
+    }
+
+    /** Formula inputs for one host, modelled on a MODEL_HACK_FRACTION HWGW batch. */
+    private gatherFacts(host: string, player: Player): TargetFacts {
+        const optimal = this.formulas.getOptimalServer(host);
+        const moneyMax = optimal.moneyMax || 0;
+        const hackPercent = this.formulas.getHackPercent(optimal, player);
+        const hackChance = this.formulas.getHackChance(optimal, player);
+
+        let batchRam = Infinity;
+        let batchMoney = 0;
+        if (hackPercent > 0) {
+            const hackThreads = Math.max(1, Math.floor(MODEL_HACK_FRACTION / hackPercent));
+            const stolen = Math.min(1, hackThreads * hackPercent);
+            const growThreads = this.formulas.getGrowThreads(
+                { ...optimal, moneyAvailable: moneyMax * (1 - stolen) }, player,
+            );
+            const weakenThreads = Math.ceil(
+                (hackThreads * HACK_SECURITY_INCREASE + growThreads * GROW_SECURITY_INCREASE)
+                / WEAKEN_SECURITY_DECREASE,
+            );
+            batchRam = (hackThreads + growThreads + weakenThreads) * SCRIPT_RAM_COST;
+            batchMoney = stolen * moneyMax * hackChance;
+        }
+
+        return {
+            host,
+            moneyMax,
+            hackChance,
+            hackPercent,
+            hackTime: this.formulas.getHackTime(optimal, player),
+            growTime: this.formulas.getGrowTime(optimal, player),
+            weakenTime: this.formulas.getWeakenTime(optimal, player),
+            batchRam,
+            batchMoney,
+            prepSeconds: isServerPrepared(this.ns, host)
+                ? 0
+                : this.formulas.getWeakenTime(this.ns.getServer(host), player) / 1000,
+            expPerThread: hackingExp(optimal, player),
+        };
+    }
+
     /** Re-evaluate which targets currently meet the prepared thresholds. */
     updatePreparedStatus(): void {
         this.preparedServers.clear();
@@ -137,6 +217,7 @@ export class TargetSelector {
 
         const lines = [
             '┌─── SERVER TARGETS ───┐',
+            `│ Ranking ${this.getStrategy().padEnd(14)}│`,
             `│ Total Targets: ${totalTargets.toString().padEnd(7)} │`,
             `│ Prepared:      ${preparedCount.toString().padEnd(7)} │`,
             '├───────────────────────┤',
@@ -0,0 +1,202 @@
+import { NS } from '@ns';
+import { SCRIPT_PATHS, SCRIPT_RAM_COST, Priority } from '../lib/config';
+import { pushPort, clearPort } from '../lib/ports';
+import { requestRun } from '../lib/exec_guard';
+import { recordStart, type TaskLedger } from '../lib/task_ledger';
+import {
+    planDispatch,
+    planEviction,
+    idleThreadsByHost,
+    reapableSlots,
+    poolInbox,
+    POOL_DONE_GRACE_MS,
+    type PoolOp,
+    type PoolJob,
+    type PoolSlot,
+    type PoolStats,
+} from '../lib/worker_pool';
+
+const POOL_SCRIPTS: Record<PoolOp, string> = {
+    hack:   SCRIPT_PATHS.poolHack,
+    grow:   SCRIPT_PATHS.poolGrow,
+    weaken: SCRIPT_PATHS.poolWeaken,
+};
+
+/**
+ * Resident worker pool (lib/worker_pool.ts) — owns the residents the batcher
+ * dispatches to. One instance per coordinator; slot numbers (and so inbox
+ * ports) are only meaningful to the instance that spawned them, which is why
+ * `reset` kills residents left over from a previous run. A slot number goes
+ * back on the free list once its resident is gone, so inbox ports stay bounded
+ * by the most residents ever up at once.
+ */
+export class WorkerPool {
+    private ns: NS;
+    private slots: Map<number, PoolSlot> = new Map();
+    private nextSlot: number = 0;
+    private freeSlots: number[] = [];
+    private retiring: Map<number, number> = new Map();   // slot → pid of a resident told to exit
+    private reused: number = 0;
+    private spawned: number = 0;
+    private ledger: TaskLedger;
+
+    constructor(ns: NS, ledger: TaskLedger) {
+        this.ns = ns;
+        this.ledger = ledger;
+    }
+
+    /** Kill any resident on `servers` and forget every slot. */
+    reset(servers: string[]): void {
+        const scripts = Object.values(POOL_SCRIPTS);
+        for (const server of servers) {
+            if (!this.ns.serverExists(server)) continue;
+            for (const proc of this.ns.ps(server)) {
+                if (scripts.includes(proc.filename)) this.ns.kill(proc.pid);
+            }
+        }
+        this.slots.clear();
+        this.retiring.clear();
+        this.freeSlots = [];
+        this.nextSlot = 0;
+    }
+
+    /** GB held by idle residents per host (RamManager.setPoolIdleRam). */
+    getIdleRam(): Map<string, number> {
+        const idle = idleThreadsByHost(this.slots.values(), Date.now());
+        for (const [host, threads] of idle) idle.set(host, threads * SCRIPT_RAM_COST);
+        return idle;
+    }
+
+    /**
+     * Run `threads` of `op` on `host`: idle residents first, then one new
+     * resident for the rest, evicting idle residents of other ops if that's
+     * what it takes to fit. Returns the threads placed — the caller execs any
+     * shortfall the one-shot way.
+     */
+    async dispatch(op: PoolOp, host: string, threads: number, job: Omit<PoolJob, 'kind' | 'threads'>): Promise<number> {
+        const now = Date.now();
+        const plan = planDispatch(this.slots.values(), op, host, threads, now);
+
+        let placed = 0;
+        for (const { slot, threads: n } of plan.use) {
+            const s = this.slots.get(slot);
+            if (!s) continue;
+            pushPort(this.ns, poolInbox(slot), JSON.stringify({ ...job, kind: 'job', threads: n }));
+            s.busyUntil = job.end + POOL_DONE_GRACE_MS;
+            s.target = job.target;
+            s.job = job.id;
+            recordStart(this.ledger, {
+                pid: s.pid, host, script: POOL_SCRIPTS[op], op, target: job.target, threads: n, eta: job.end,
+            }, job.id);
+            placed += n;
+            this.reused++;
+        }
+
+        if (plan.spawn > 0) {
+            const free = Math.floor((this.ns.getServerMaxRam(host) - this.ns.getServerUsedRam(host)) / SCRIPT_RAM_COST);
+            const keep = new Set(plan.use.map(u => u.slot));
+            for (const slot of planEviction(this.slots.values(), host, now, keep, plan.spawn - free)) this.evict(slot);
+
+            const slot = this.freeSlots.pop() ?? this.nextSlot++;
+            clearPort(this.ns, poolInbox(slot));
+            const first: PoolJob = { ...job, kind: 'job', threads: plan.spawn };
+            // minThreads = threads: a reduced resident would be asked for more threads than it holds.
+            const res = await requestRun(this.ns, {
+                script:      POOL_SCRIPTS[op],
+                host,
+                threads:     plan.spawn,
+                minThreads:  plan.spawn,
+                priority:    Priority.COMPUTE_WORKER,
+                args:        [slot, JSON.stringify(first)],
+                requesterId: job.id,
+            });
+            if (res.ok) {
+                this.slots.set(slot, {
+                    slot, host, op,
+                    threads:   res.threadsGranted,
+                    pid:       res.pid,
+                    target:    job.target,
+                    job:       job.id,
+                    busyUntil: job.end + POOL_DONE_GRACE_MS,
+                });
+                recordStart(this.ledger, {
+                    pid: res.pid, host, script: POOL_SCRIPTS[op], op, target: job.target, threads: plan.spawn, eta: job.end,
+                }, job.id);
+                placed += plan.spawn;
+                this.spawned++;
+            } else {
+                this.freeSlots.push(slot);
+            }
+        }
+        return placed;
+    }
+
+    /**
+     * A resident reported a finished job (hwgw_batcher drains PORT_BUS_TASK and
+     * forwards reports that carry a slot). Frees the slot early unless it has
+     * been handed a newer job since.
+     */
+    onReport(slot: number, job: string, ts: number): void {
+        const s = this.slots.get(slot);
+        if (s && s.job === job) s.busyUntil = Math.min(s.busyUntil, ts);
+    }
+
+    /** Per-cycle upkeep: forget dead residents, retire long-idle ones. */
+    maintain(): void {
+        for (const [slot, s] of this.slots) {
+            if (!this.ns.isRunning(s.pid)) this.release(slot);
+        }
+        // A retired resident may not have read its exit yet: its inbox isn't free until it's gone.
+        for (const [slot, pid] of this.retiring) {
+            if (this.ns.isRunning(pid)) continue;
+            this.retiring.delete(slot);
+            this.freeSlots.push(slot);
+        }
+        for (const slot of reapableSlots(this.slots.values(), Date.now())) this.retire(slot);
+    }
+
+    /** Tell every resident to exit once its current job lands. */
+    shutdown(): void {
+        for (const slot of [...this.slots.keys()]) this.retire(slot);
+    }
+
+    /** Kill residents whose last job was against `target` (batcher shedding a target). */
+    killTarget(target: string): void {
+        for (const [slot, s] of this.slots) {
+            if (s.target !== target) continue;
+            this.evict(slot);
+        }
+    }
+
+    getStats(): PoolStats {
+        const now = Date.now();
+        const slots = [...this.slots.values()];
+        return {
+            residents: slots.length,
+            busy:      slots.filter(s => s.busyUntil > now).length,
+            threads:   slots.reduce((sum, s) => sum + s.threads, 0),
+            reused:    this.reused,
+            spawned:   this.spawned,
+        };
+    }
+
+    private retire(slot: number): void {
+        const s = this.slots.get(slot);
+        if (!s) return;
+        pushPort(this.ns, poolInbox(slot), JSON.stringify({ kind: 'exit' }));
+        this.slots.delete(slot);
+        this.retiring.set(slot, s.pid);
+    }
+
+    private evict(slot: number): void {
+        const s = this.slots.get(slot);
+        if (s) this.ns.kill(s.pid);
+        this.release(slot);
+    }
+
+    /** Forget a slot whose resident is gone and free its number. */
+    private release(slot: number): void {
+        this.slots.delete(slot);
+        this.freeSlots.push(slot);
+    }
+}
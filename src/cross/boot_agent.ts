@@ -1,5 +1,6 @@
 import { NS } from '@ns';
 import { PORT_CMD, PORT_RESULT, PORT_HEARTBEAT, popPort, pushPort, clearPort } from '../lib/ports';
+import { registerDaemon } from '../lib/task_bus';
 
 /**
  * Boot Agent — lightweight command relay running on home.
@@ -107,6 +108,7 @@ function executeCommand(ns: NS, cmd: BootCommand): BootResult {
 export async function main(ns: NS): Promise<void> {
     ns.disableLog('ALL');
     ns.print('Boot agent started on home');
+    registerDaemon(ns, 'bootAgent');
 
     let lastHeartbeat = Date.now();
     let tick = 0;
@@ -2,6 +2,7 @@ import { NS } from '@ns';
 import { runTerminalCommandEnsured, readScreen } from './launcher';
 import { PORT_HEARTBEAT, PORT_DECISION, PORT_LAUNCHER, PORT_NOTIFY, popPort, peekPort, pushPort } from '../lib/ports';
 import { loadPending, pushReply, type PendingDecision, type Verdict } from '../lib/decisions';
+import { registerDaemon } from '../lib/task_bus';
 
 /**
  * Game Agent — real-time control channel + file↔port relay daemon on home.
@@ -662,6 +663,7 @@ function pushState(channel: string, data: unknown): void {
 export async function main(ns: NS): Promise<void> {
     ns.disableLog('ALL');
     ns.print(`Game Agent started on ${ns.getHostname()} — control channel + file relay + port mirroring`);
+    registerDaemon(ns, 'gameAgent');
 
     // Close the control socket on exit. Netscript does NOT auto-close sockets a
     // killed script opened — without this, every kill/restart leaks a zombie
@@ -1,6 +1,7 @@
 import type { NS } from '@ns';
 import { PORT_PHASE, PORT_HEARTBEAT, PORT_DECISION, PORT_AUGS, pushPort, clearPort, peekPort } from '../lib/ports';
 import { findAllServers, resetCaches } from '../lib/net_scan';
+import { registerDaemon } from '../lib/task_bus';
 import {
     DesignPhase,
     PHASE_RAM_EARLY,
@@ -180,6 +181,7 @@ function applyHysteresis(
 export async function main(ns: NS): Promise<void> {
     ns.disableLog('ALL');
     ns.print(`Phase detector started on ${ns.getHostname()}`);
+    registerDaemon(ns, 'phaseDetector');
 
     let currentPhase: DesignPhase = DesignPhase.BOOTSTRAP;
     const stab: StabilityState    = { candidate: null, consecutiveTicks: 0 };
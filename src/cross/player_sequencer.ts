@@ -9,6 +9,7 @@ import { savePlayerState } from '../lib/player_state';
 import { upsertPending, removePending, drainReplies } from '../lib/decisions';
 import { PLAYER_MANAGERS } from '../lib/manager_registry';
 import { requestRun } from '../lib/exec_guard';
+import { registerDaemon } from '../lib/task_bus';
 
 /**
  * Player Sequencer — autonomous Thread-P brain daemon.
@@ -192,6 +193,7 @@ async function tickManagers(ns: NS, settings: ReturnType<typeof loadSettings>):
 export async function main(ns: NS): Promise<void> {
 	ns.disableLog('ALL');
 	ns.print('Player sequencer started');
+	registerDaemon(ns, 'playerSequencer');
 
 	// ── One-time startup: cache SF4 (stable within a node) ───────────────────
 	let sf4 = hasSF4(ns);
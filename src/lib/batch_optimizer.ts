@@ -0,0 +1,157 @@
+/**
+ * Global HWGW plan — which targets to batch and how hard to hack each, for the
+ * botnet RAM there is.
+ *
+ * RAM is the one resource every target shares, so a plan is ranked on total
+ * $/sec, not per-target dps. For each candidate the batcher (hwgw_batcher.ts)
+ * supplies one `HackOption` per hack-thread count: threads one batch holds and
+ * what it steals. A target running `c` staggered batches of option `o` earns
+ *
+ *   c · o.dollars / ((cycleMs + c · gapMs) / 1000)    with c ≤ maxConcurrency
+ *
+ * (the concurrency cap comes from hack time vs batch spacing) and holds
+ * c · o.threads threads. `planBatches` splits the thread budget into
+ * PLAN_CHUNKS slices and runs a knapsack over targets × slices × target count,
+ * so it jointly picks up to `maxTargets` targets and each one's hack fraction.
+ * Targets are reported with their money per GB-second, the efficiency the
+ * split trades on; `marginalMoneyPerGbSec` is what one more GB is worth to the
+ * whole plan.
+ *
+ * Pure — node-testable from dist/.
+ */
+
+export interface HackOption {
+	hackThreads: number;
+	threads:     number;   // all four ops of one batch
+	dollars:     number;   // stolen per batch
+}
+
+export interface TargetOptions {
+	target:         string;
+	moneyMax:       number;
+	cycleMs:        number;   // weaken time — one batch's lifetime
+	gapMs:          number;   // spacing between staggered batches
+	maxConcurrency: number;
+	options:        HackOption[];
+}
+
+export interface PlannedTarget {
+	target:        string;
+	hackThreads:   number;
+	hackFraction:  number;   // share of max money one batch steals
+	concurrency:   number;
+	threads:       number;   // held while all its batches run
+	dps:           number;
+	moneyPerGbSec: number;
+}
+
+export interface BatchPlan {
+	targets: PlannedTarget[];   // best $/s first
+	threads: number;
+	budget:  number;            // threads the plan was made for
+	dps:     number;
+}
+
+export const EMPTY_BATCH_PLAN: BatchPlan = { targets: [], threads: 0, budget: 0, dps: 0 };
+
+/** Budget resolution of the knapsack. */
+export const PLAN_CHUNKS = 40;
+
+interface Fit {
+	option:      HackOption;
+	concurrency: number;
+	dps:         number;
+}
+
+export function optionDps(t: TargetOptions, o: HackOption, concurrency: number): number {
+	if (concurrency <= 0) return 0;
+	return concurrency * o.dollars / ((t.cycleMs + concurrency * t.gapMs) / 1000);
+}
+
+/** Best option and concurrency for `target` within `threads`, or null if not even one batch fits. */
+export function bestFit(t: TargetOptions, threads: number): Fit | null {
+	let best: Fit | null = null;
+	for (const option of t.options) {
+		if (option.threads <= 0) continue;
+		const concurrency = Math.min(t.maxConcurrency, Math.floor(threads / option.threads));
+		const dps = optionDps(t, option, concurrency);
+		if (dps > (best?.dps ?? 0)) best = { option, concurrency, dps };
+	}
+	return best;
+}
+
+/**
+ * $/s one more GB of botnet RAM is worth to `plan`: the plan's income spread
+ * over its whole budget. A plan that fills its budget values RAM at its own
+ * $/GB·s; one held back by maxTargets or the concurrency caps leaves RAM idle,
+ * and more of it is worth proportionally less (nothing, for an empty plan).
+ */
+export function marginalMoneyPerGbSec(plan: BatchPlan, ramPerThread: number): number {
+	return plan.budget > 0 && plan.threads > 0 ? plan.dps / (plan.budget * ramPerThread) : 0;
+}
+
+export function planBatches(
+	candidates: TargetOptions[],
+	budget: number,
+	maxTargets: number,
+	ramPerThread: number,
+	chunks = PLAN_CHUNKS,
+): BatchPlan {
+	const n = candidates.length;
+	if (n === 0 || budget <= 0 || maxTargets <= 0) return { ...EMPTY_BATCH_PLAN, budget };
+
+	const chunk = budget / chunks;
+	// fits[i][g]: target i's best fit on g chunks.
+	const fits = candidates.map(t => Array.from({ length: chunks + 1 }, (_, g) => bestFit(t, Math.floor(g * chunk))));
+
+	// best[i][g][m]: most $/s from targets i.. with g chunks and m target slots left.
+	const best: number[][][] = Array.from({ length: n + 1 }, () =>
+		Array.from({ length: chunks + 1 }, () => new Array<number>(maxTargets + 1).fill(0)));
+	const take: number[][][] = Array.from({ length: n }, () =>
+		Array.from({ length: chunks + 1 }, () => new Array<number>(maxTargets + 1).fill(0)));
+	for (let i = n - 1; i >= 0; i--) {
+		for (let g = 0; g <= chunks; g++) {
+			for (let m = 0; m <= maxTargets; m++) {
+				let value = best[i + 1][g][m];
+				let choice = 0;
+				if (m > 0) {
+					for (let k = 1; k <= g; k++) {
+						const dps = fits[i][k]?.dps ?? 0;
+						if (dps <= 0) continue;
+						const v = dps + best[i + 1][g - k][m - 1];
+						if (v > value) { value = v; choice = k; }
+					}
+				}
+				best[i][g][m] = value;
+				take[i][g][m] = choice;
+			}
+		}
+	}
+
+	const targets: PlannedTarget[] = [];
+	for (let i = 0, g = chunks, m = maxTargets; i < n; i++) {
+		const k = take[i][g][m];
+		const fit = fits[i][k];
+		if (k === 0 || !fit) continue;
+		const t = candidates[i];
+		const threads = fit.concurrency * fit.option.threads;
+		targets.push({
+			target:        t.target,
+			hackThreads:   fit.option.hackThreads,
+			hackFraction:  t.moneyMax > 0 ? fit.option.dollars / t.moneyMax : 0,
+			concurrency:   fit.concurrency,
+			threads,
+			dps:           fit.dps,
+			moneyPerGbSec: fit.dps / (threads * ramPerThread),
+		});
+		g -= k;
+		m -= 1;
+	}
+	targets.sort((a, b) => b.dps - a.dps);
+	return {
+		targets,
+		threads: targets.reduce((sum, t) => sum + t.threads, 0),
+		budget,
+		dps:     targets.reduce((sum, t) => sum + t.dps, 0),
+	};
+}
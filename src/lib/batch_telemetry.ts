@@ -0,0 +1,221 @@
+import type { NS } from '@ns';
+
+/**
+ * HWGW misfire telemetry and self-correcting batch timing.
+ *
+ * Batch workers (workers/hack.ts, grow.ts, weaken.ts and the pool residents)
+ * report every operation on PORT_BUS_TASK as an `OpReport`: planned vs actual
+ * start/end and the op's result. The coordinator drains the port (an OpReport
+ * is also the task's DONE — lib/task_ledger.ts) and hwgw_batcher.ts keeps a
+ * `TargetTiming` per target:
+ *
+ *   · an op is a misfire when it lands more than half a step late (it may
+ *     have swapped order with its neighbour) or does nothing — a hack that
+ *     stole 0 or a grow that didn't grow;
+ *   · the misfire rate is an EWMA; above DESYNC_WIDEN_RATE the target's step
+ *     spacing (BATCH_STEP_TIME to start) widens by STEP_WIDEN_FACTOR, and
+ *     below DESYNC_NARROW_RATE it narrows back, at most once per
+ *     STEP_CHANGE_COOLDOWN_MS and only after DESYNC_MIN_OPS fresh reports;
+ *   · between checks, a target whose money/security left the band its plan
+ *     allows (`driftReason`) has its batches killed; once its wave (or
+ *     recovery pass) lands, a target must be back inside the prepared band.
+ *     Either way, one out of band gets a recovery W/GW pass (`planRecovery`)
+ *     instead of a wave, or goes back to the coordinator's prep when there's
+ *     no RAM for one.
+ *
+ * New spacing applies from the target's next wave. Metrics are published to
+ * `status/desync.json`.
+ *
+ * Pure except for load/save; node-testable from dist/.
+ */
+
+export type BatchOp = 'hack' | 'grow' | 'weaken';
+
+/** One finished operation, as reported by the worker that ran it. */
+export interface OpReport {
+	kind:         'op';
+	op:           BatchOp;
+	target:       string;
+	batch:        string;   // worker description, e.g. batch-hack-12
+	plannedStart: number;   // ms epoch
+	plannedEnd:   number;
+	start:        number;   // ms epoch the op actually began (after any alignment wait)
+	end:          number;   // ms epoch it returned
+	result:       number;   // hack: money stolen; grow: multiplier; weaken: security removed
+	pid:          number;   // worker process (its task id — lib/task_bus.ts)
+	slot?:        number;   // pool resident that ran it (lib/worker_pool.ts)
+}
+
+export type OpOutcome = 'ok' | 'late' | 'empty';
+
+export type TimingState = 'ok' | 'widened' | 'recovering' | 'reprep';
+
+export interface TargetTiming {
+	ops:        number;   // reports seen
+	late:       number;
+	empty:      number;
+	rate:       number;   // EWMA misfire rate, 0..1
+	fresh:      number;   // reports since the last step change / re-prep
+	stepMs:     number;   // spacing between this target's ops
+	changedAt:  number;   // ms epoch of the last step change (0 = never)
+	state:      TimingState;
+	reason:     string;
+}
+
+export interface DesyncStatus {
+	ts:      number;
+	targets: (TargetTiming & { host: string })[];
+}
+
+export const EMPTY_DESYNC: DesyncStatus = { ts: 0, targets: [] };
+
+export const DESYNC_EWMA_ALPHA = 0.05;
+export const DESYNC_MIN_OPS = 20;
+export const DESYNC_WIDEN_RATE = 0.1;
+export const DESYNC_NARROW_RATE = 0.01;
+export const STEP_WIDEN_FACTOR = 1.5;
+/** Widest spacing, as a multiple of the configured BATCH_STEP_TIME. */
+export const STEP_MAX_FACTOR = 8;
+export const STEP_CHANGE_COOLDOWN_MS = 60_000;
+
+const DESYNC_FILE = 'status/desync.json';
+
+export function newTiming(stepMs: number): TargetTiming {
+	return { ops: 0, late: 0, empty: 0, rate: 0, fresh: 0, stepMs, changedAt: 0, state: 'ok', reason: '' };
+}
+
+/** Parse a PORT_BUS_TASK message. Anything but an op report → null. Never throws. */
+export function parseOpReport(raw: string | null): OpReport | null {
+	if (!raw) return null;
+	try {
+		const r = JSON.parse(raw) as OpReport;
+		return r.kind === 'op' && typeof r.target === 'string' ? r : null;
+	} catch {
+		return null;
+	}
+}
+
+export function classifyOp(r: OpReport, stepMs: number): OpOutcome {
+	if (r.end - r.plannedEnd > stepMs / 2) return 'late';
+	if (r.op === 'hack' && r.result <= 0) return 'empty';
+	if (r.op === 'grow' && r.result <= 1) return 'empty';
+	return 'ok';
+}
+
+export function recordOutcome(t: TargetTiming, outcome: OpOutcome): TargetTiming {
+	const miss = outcome === 'ok' ? 0 : 1;
+	return {
+		...t,
+		ops:   t.ops + 1,
+		late:  t.late + (outcome === 'late' ? 1 : 0),
+		empty: t.empty + (outcome === 'empty' ? 1 : 0),
+		rate:  t.rate + DESYNC_EWMA_ALPHA * (miss - t.rate),
+		fresh: t.fresh + 1,
+	};
+}
+
+/** Widen or narrow the step from the misfire rate. `baseStepMs` is BATCH_STEP_TIME. */
+export function adjustStep(t: TargetTiming, baseStepMs: number, now: number): TargetTiming {
+	if (t.fresh < DESYNC_MIN_OPS || now - t.changedAt < STEP_CHANGE_COOLDOWN_MS) return t;
+	const pct = `${(t.rate * 100).toFixed(0)}%`;
+	if (t.rate >= DESYNC_WIDEN_RATE && t.stepMs < baseStepMs * STEP_MAX_FACTOR) {
+		const stepMs = Math.min(baseStepMs * STEP_MAX_FACTOR, Math.ceil(t.stepMs * STEP_WIDEN_FACTOR));
+		return { ...t, stepMs, fresh: 0, changedAt: now, state: 'widened', reason: `${pct} misfires → step ${stepMs} ms` };
+	}
+	if (t.rate <= DESYNC_NARROW_RATE && t.stepMs > baseStepMs) {
+		const stepMs = Math.max(baseStepMs, Math.floor(t.stepMs / STEP_WIDEN_FACTOR));
+		return {
+			...t, stepMs, fresh: 0, changedAt: now,
+			state:  stepMs > baseStepMs ? 'widened' : 'ok',
+			reason: `${pct} misfires → step ${stepMs} ms`,
+		};
+	}
+	return t;
+}
+
+export interface DriftInputs {
+	money:        number;
+	moneyMax:     number;
+	security:     number;
+	minSecurity:  number;
+	hackFraction: number;   // share of max money one batch's hack takes
+	securityRise: number;   // largest planned security gain before its weaken lands
+}
+
+/**
+ * Why a batched target has left the band its plan allows, or null if it hasn't.
+ * The band is the prepared band (TARGET_MONEY_THRESHOLD / TARGET_SECURITY_THRESHOLD)
+ * stretched by the dip/rise one batch causes on purpose.
+ */
+export function driftReason(d: DriftInputs, moneyThreshold: number, securityThreshold: number): string | null {
+	const securityCap = d.minSecurity + d.securityRise + securityThreshold;
+	if (d.security > securityCap) {
+		return `security ${d.security.toFixed(1)} > ${securityCap.toFixed(1)}`;
+	}
+	const moneyFloor = d.moneyMax * (1 - d.hackFraction) * moneyThreshold;
+	if (d.money < moneyFloor) {
+		return `money ${(d.money / d.moneyMax * 100).toFixed(0)}% < ${(moneyFloor / d.moneyMax * 100).toFixed(0)}%`;
+	}
+	return null;
+}
+
+/** Threads for one recovery pass: weaken the excess, then grow to max and weaken that. */
+export interface RecoveryPlan {
+	weaken:     number;
+	grow:       number;
+	growWeaken: number;
+}
+
+export interface RecoveryInputs {
+	securityExcess:   number;   // security above minimum now
+	growThreads:      number;   // exact grow threads from current money to max (at min security)
+	weakenPadding:    number;   // BATCH_WEAKEN_PADDING
+	growPadding:      number;   // BATCH_GROW_PADDING
+	weakenDecrease:   number;   // WEAKEN_SECURITY_DECREASE
+	growIncrease:     number;   // GROW_SECURITY_INCREASE
+}
+
+export function planRecovery(r: RecoveryInputs): RecoveryPlan {
+	const grow = Math.ceil(r.growThreads * (1 + r.growPadding));
+	return {
+		weaken:     Math.ceil(r.securityExcess / r.weakenDecrease * (1 + r.weakenPadding)),
+		grow,
+		growWeaken: grow > 0 ? Math.ceil(grow * r.growIncrease / r.weakenDecrease * (1 + r.weakenPadding)) : 0,
+	};
+}
+
+/**
+ * Shrink a plan to `available` threads: security first (everything else runs
+ * slow and weak above it), then grow and its weaken in proportion.
+ */
+export function fitRecovery(plan: RecoveryPlan, available: number): RecoveryPlan {
+	const weaken = Math.min(plan.weaken, Math.max(0, available));
+	const rest = Math.max(0, available - weaken);
+	const want = plan.grow + plan.growWeaken;
+	if (want <= rest) return { ...plan, weaken };
+	const growWeaken = Math.ceil(rest * plan.growWeaken / want);
+	return { weaken, grow: Math.max(0, rest - growWeaken), growWeaken: Math.min(growWeaken, rest) };
+}
+
+export function recoveryThreads(p: RecoveryPlan): number {
+	return p.weaken + p.grow + p.growWeaken;
+}
+
+// ── Persistence (status/desync.json) ─────────────────────────────────────────
+
+/** Read the published metrics. Missing/corrupt → EMPTY_DESYNC. Never throws. */
+export function loadDesyncStatus(ns: NS): DesyncStatus {
+	try {
+		const raw = ns.read(DESYNC_FILE);
+		if (!raw || raw.trim() === '') return EMPTY_DESYNC;
+		const parsed = JSON.parse(raw) as Partial<DesyncStatus>;
+		return { ...EMPTY_DESYNC, ...parsed };
+	} catch {
+		return EMPTY_DESYNC;
+	}
+}
+
+/** Producer side (hwgw_batcher via the coordinator): overwrite the published metrics. */
+export function saveDesyncStatus(ns: NS, s: DesyncStatus): void {
+	ns.write(DESYNC_FILE, JSON.stringify(s, null, 2), 'w');
+}
@@ -0,0 +1,187 @@
+import type { NS } from '@ns';
+
+/**
+ * Capital allocator — one money ledger shared by every spender
+ * (`status/budget.json`).
+ *
+ * Each spender asks `requestFunds(ns, category, amount, policy)` right before a
+ * purchase and `recordSpend(...)` after it succeeds. A request under category C
+ * is granted against home cash minus the open claims of categories with a
+ * strictly higher priority (lower number), so e.g. an aug purchase in flight
+ * isn't raced by gang equipment. A request granted in full leaves a claim for
+ * CLAIM_TTL_MS (a declined or cut-down one leaves none); a recorded spend
+ * clears it, and a spender that ends up not buying releases it
+ * (`releaseFunds`) rather than hold cash it isn't spending.
+ *
+ * Global policy (settings.budgetPolicy, toggled from the ConfigPanel):
+ *   normal       — grant by priority as above;
+ *   saveForAugs  — freeze everything below SAVE_FOR_AUGS_MAX_PRIORITY so cash
+ *                  accumulates for the next aug purchase + reset.
+ *
+ * Spenders keep their own sizing logic (pserv's income-share budget, gang's
+ * per-tick fractions, the trader's cash reserve); the allocator only arbitrates
+ * between them. Single read-modify-write per call, so concurrent daemons are
+ * safe under the game's single-threaded script scheduler.
+ */
+
+export type SpendCategory =
+	| 'augs' | 'programs' | 'pserv' | 'hacknet' | 'gangAugs' | 'gang' | 'sleeve' | 'corp' | 'stocks';
+
+export const SPEND_CATEGORIES: readonly SpendCategory[] =
+	['augs', 'programs', 'pserv', 'hacknet', 'gangAugs', 'gang', 'sleeve', 'corp', 'stocks'];
+
+export type BudgetPolicy = 'normal' | 'saveForAugs';
+
+/** Default priority per category — lower is more important. */
+export const SPEND_PRIORITY: Record<SpendCategory, number> = {
+	augs:     0,   // permanent, and the whole point of a run
+	programs: 0,   // unlocks everything else
+	pserv:    1,   // compute growth
+	hacknet:  1,
+	gangAugs: 1,   // member augs are permanent, unlike equipment
+	gang:     2,   // equipment
+	sleeve:   2,
+	corp:     2,
+	stocks:   2,   // investable cash, not a purchase
+};
+
+/** Under 'saveForAugs', only priorities at or below this are granted. */
+export const SAVE_FOR_AUGS_MAX_PRIORITY = 0;
+/** A claim not followed by a spend expires after this. */
+export const CLAIM_TTL_MS = 60_000;
+
+export interface BudgetClaim {
+	amount:   number;
+	priority: number;
+	ts:       number;
+}
+
+export interface BudgetGrant {
+	requested: number;
+	granted:   number;
+	reason:    string;
+	ts:        number;
+}
+
+export interface BudgetLedger {
+	claims: Partial<Record<SpendCategory, BudgetClaim>>;
+	spent:  Partial<Record<SpendCategory, number>>;        // total since the ledger was created
+	last:   Partial<Record<SpendCategory, BudgetGrant>>;   // latest decision per category
+	ts:     number;                                        // ms epoch of the last write (0 = never)
+}
+
+const BUDGET_FILE = 'status/budget.json';
+
+export function emptyBudget(): BudgetLedger {
+	return { claims: {}, spent: {}, last: {}, ts: 0 };
+}
+
+/**
+ * Decide a request (mutates `ledger`: records the decision, and the claim if
+ * it was granted in full). `money` is current home cash.
+ */
+export function grantFunds(
+	ledger: BudgetLedger,
+	category: SpendCategory,
+	amount: number,
+	money: number,
+	policy: BudgetPolicy,
+	priority = SPEND_PRIORITY[category],
+	now = Date.now(),
+): BudgetGrant {
+	let granted: number;
+	let reason: string;
+
+	if (policy === 'saveForAugs' && priority > SAVE_FOR_AUGS_MAX_PRIORITY) {
+		granted = 0;
+		reason  = 'frozen: saving for augs';
+	} else {
+		let held = 0;
+		for (const cat of SPEND_CATEGORIES) {
+			const c = ledger.claims[cat];
+			if (cat === category || !c || now - c.ts > CLAIM_TTL_MS) continue;
+			if (c.priority < priority) held += c.amount;
+		}
+		const pool = Math.max(0, money - held);
+		granted = Math.min(Math.max(0, amount), pool);
+		reason  = granted >= amount ? 'granted'
+			: held > 0 ? `held for higher priority (${Math.round(held)})`
+			: 'insufficient cash';
+	}
+
+	if (granted > 0 && granted >= amount) ledger.claims[category] = { amount, priority, ts: now };
+	else delete ledger.claims[category];
+	const grant: BudgetGrant = { requested: amount, granted, reason, ts: now };
+	ledger.last[category] = grant;
+	ledger.ts = now;
+	return grant;
+}
+
+/** Book a completed purchase (mutates `ledger`) and release the category's claim. */
+export function noteSpend(ledger: BudgetLedger, category: SpendCategory, amount: number, now = Date.now()): void {
+	ledger.spent[category] = (ledger.spent[category] ?? 0) + amount;
+	delete ledger.claims[category];
+	ledger.ts = now;
+}
+
+/** Drop the category's claim without booking a spend (mutates `ledger`). */
+export function dropClaim(ledger: BudgetLedger, category: SpendCategory, now = Date.now()): void {
+	if (!ledger.claims[category]) return;
+	delete ledger.claims[category];
+	ledger.ts = now;
+}
+
+// ── ns wrappers (one read-modify-write each) ────────────────────────────────
+
+/** Ask for `amount` under `category`; buy only if `granted >= cost`. */
+export function requestFunds(
+	ns: NS,
+	category: SpendCategory,
+	amount: number,
+	policy: BudgetPolicy,
+	priority = SPEND_PRIORITY[category],
+): BudgetGrant {
+	const ledger = loadBudget(ns);
+	const grant = grantFunds(ledger, category, amount, ns.getServerMoneyAvailable('home'), policy, priority);
+	saveBudget(ns, ledger);
+	return grant;
+}
+
+/** Record a successful purchase under `category`. */
+export function recordSpend(ns: NS, category: SpendCategory, amount: number): void {
+	const ledger = loadBudget(ns);
+	noteSpend(ledger, category, amount);
+	saveBudget(ns, ledger);
+}
+
+/** Give back a grant that didn't turn into a purchase. */
+export function releaseFunds(ns: NS, category: SpendCategory): void {
+	const ledger = loadBudget(ns);
+	if (!ledger.claims[category]) return;
+	dropClaim(ledger, category);
+	saveBudget(ns, ledger);
+}
+
+// ── Persistence (status/budget.json) ─────────────────────────────────────────
+
+/** Read the ledger. Missing/corrupt → empty ledger. Never throws. */
+export function loadBudget(ns: NS): BudgetLedger {
+	try {
+		const raw = ns.read(BUDGET_FILE);
+		if (!raw || raw.trim() === '') return emptyBudget();
+		const parsed = JSON.parse(raw) as Partial<BudgetLedger>;
+		return {
+			...emptyBudget(),
+			...parsed,
+			claims: { ...(parsed.claims ?? {}) },
+			spent:  { ...(parsed.spent ?? {}) },
+			last:   { ...(parsed.last ?? {}) },
+		};
+	} catch {
+		return emptyBudget();
+	}
+}
+
+export function saveBudget(ns: NS, ledger: BudgetLedger): void {
+	ns.write(BUDGET_FILE, JSON.stringify(ledger, null, 2), 'w');
+}
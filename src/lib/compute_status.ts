@@ -0,0 +1,59 @@
+import type { NS } from '@ns';
+import type { PoolStats } from './worker_pool';
+
+/**
+ * Compute-layer snapshot (`status/compute.json`).
+ *
+ * Producer: compute/coordinator.ts, once per target-scan cycle. Consumers:
+ * anything outside the compute thread that needs to know what the botnet is
+ * hitting right now — e.g. hacknet_manager's hash spender aims "Reduce Minimum
+ * Security" / "Increase Maximum Money" at `targets[0]`, and pserv_manager prices
+ * RAM with `moneyPerGbSec`. Same producer-writes / reader-reads split as
+ * player_state.ts; readers pay 0 GB.
+ */
+
+export interface ComputeTarget {
+	host: string;
+	dps:  number;   // planned $/s for this target's batch set
+}
+
+export interface ComputeStatus {
+	ts:             number;            // ms epoch (0 = never published)
+	phase:          string;            // DesignPhase the coordinator last acted on
+	targets:        ComputeTarget[];   // actively batched targets, best first (top target, dps 0, outside HWGW)
+	strategy:       string;            // active ComputeStrategyId (lib/compute_strategy.ts); '' before the first scan
+	strategyReason: string;            // why that strategy was chosen
+	pending:        string;            // strategy being drained toward; '' when not switching
+	pool:           PoolStats;         // resident worker pool (lib/worker_pool.ts); all zero when off
+	moneyPerGbSec:  number;            // $/s one more GB of botnet RAM adds to the HWGW plan (lib/batch_optimizer.ts); 0 outside HWGW
+}
+
+export const EMPTY_COMPUTE: ComputeStatus = {
+	ts: 0, phase: '', targets: [], strategy: '', strategyReason: '', pending: '',
+	pool: { residents: 0, busy: 0, threads: 0, reused: 0, spawned: 0 },
+	moneyPerGbSec: 0,
+};
+
+const COMPUTE_FILE = 'status/compute.json';
+
+/** Read the published snapshot. Missing/corrupt → EMPTY_COMPUTE. Never throws. */
+export function loadComputeStatus(ns: NS): ComputeStatus {
+	try {
+		const raw = ns.read(COMPUTE_FILE);
+		if (!raw || raw.trim() === '') return EMPTY_COMPUTE;
+		const parsed = JSON.parse(raw) as Partial<ComputeStatus>;
+		return { ...EMPTY_COMPUTE, ...parsed };
+	} catch {
+		return EMPTY_COMPUTE;
+	}
+}
+
+/** Producer side: overwrite the published snapshot. */
+export function saveComputeStatus(ns: NS, s: ComputeStatus): void {
+	ns.write(COMPUTE_FILE, JSON.stringify(s, null, 2), 'w');
+}
+
+/** Best currently-batched target, or null when the coordinator isn't batching. */
+export function topTarget(s: ComputeStatus): string | null {
+	return s.targets.length > 0 ? s.targets[0].host : null;
+}
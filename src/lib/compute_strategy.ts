@@ -0,0 +1,142 @@
+/**
+ * Compute strategy registry — what compute/coordinator.ts does with the botnet.
+ *
+ *   spray       — simple_hack_loop on every host against the top target
+ *                 (BOOTSTRAP: too little RAM for anything smarter);
+ *   prepLoop    — early_prepper.ts's single-target prep + H/W/G loop on every host;
+ *   protoBatch  — untimed HGW: once the top target is prepped, fire hack/grow/
+ *                 weaken together in a security-neutral ratio, one wave at a time;
+ *   hwgw        — full timed HWGW batching (hwgw_batcher.ts);
+ *   shareOnly   — share() on all idle RAM (nothing hackable / forced);
+ *   xpFarm      — grow/weaken spam for hacking XP (lib/xp_farm.ts).
+ *
+ * Selection (`chooseComputeStrategy`): settings.computeStrategy override →
+ * XP farming → no targets ⇒ shareOnly → phase + botnet RAM.
+ *
+ * Switching is drain-then-switch (`advanceStrategy`): when the desired strategy
+ * changes, the active one stops launching. Strategies whose workers loop forever
+ * (`loops`) have them killed — there is no batch to break — while one-shot
+ * workers are left to land. The switch happens once nothing of the old
+ * strategy is in flight, or after DRAIN_TIMEOUT_MS regardless. hack/grow/
+ * weaken are shared by several strategies and by stock manipulation, so those
+ * only count as in flight when their description (args[3]) carries one of the
+ * strategy's `tags`.
+ *
+ * Pure; node-testable from dist/ (test/compute_strategy.test.mjs).
+ */
+
+export type ComputeStrategyId = 'spray' | 'prepLoop' | 'protoBatch' | 'hwgw' | 'shareOnly' | 'xpFarm';
+
+/** Key of lib/config.ts SCRIPT_PATHS (kept as a string so this file stays import-free). */
+export type WorkerKey =
+	| 'simpleHackLoop' | 'earlyPrepper' | 'hack' | 'grow' | 'weaken' | 'autoGrow' | 'share'
+	| 'poolHack' | 'poolGrow' | 'poolWeaken';
+
+export interface ComputeStrategy {
+	id:      ComputeStrategyId;
+	label:   string;
+	/** Worker scripts this strategy launches — what counts as "in flight" while draining. */
+	workers: readonly WorkerKey[];
+	/** Workers loop forever: drain by killing them instead of waiting. */
+	loops:   boolean;
+	/** Description prefixes of its TAGGED_WORKERS jobs. */
+	tags:    readonly string[];
+}
+
+export const COMPUTE_STRATEGIES: Record<ComputeStrategyId, ComputeStrategy> = {
+	spray:      { id: 'spray',      label: 'spray H/W/G loops',       workers: ['simpleHackLoop'],                  loops: true,  tags: [] },
+	prepLoop:   { id: 'prepLoop',   label: 'single-target prep loop', workers: ['earlyPrepper'],                    loops: true,  tags: [] },
+	protoBatch: { id: 'protoBatch', label: 'proto-batch HGW',         workers: ['hack', 'grow', 'weaken', 'autoGrow'], loops: false, tags: ['proto-'] },
+	// Pool residents (lib/worker_pool.ts) exit once the coordinator shuts the pool down for the drain
+	hwgw:       { id: 'hwgw',       label: 'HWGW batching',           workers: ['hack', 'grow', 'weaken', 'autoGrow', 'poolHack', 'poolGrow', 'poolWeaken'], loops: false, tags: ['batch-', 'recovery-'] },
+	shareOnly:  { id: 'shareOnly',  label: 'share only',              workers: ['share'],                           loops: true,  tags: [] },
+	xpFarm:     { id: 'xpFarm',     label: 'XP farm',                 workers: ['grow', 'weaken'],                  loops: false, tags: ['xp-farm'] },
+};
+
+/** Workers shared between strategies, told apart by the description in args[3]. */
+export const TAGGED_WORKERS: readonly WorkerKey[] = ['hack', 'grow', 'weaken'];
+
+/** Whether a running `key` worker launched with `args` belongs to strategy `id` (its drain count). */
+export function isStrategyWorker(id: ComputeStrategyId, key: WorkerKey, args: readonly unknown[]): boolean {
+	const strategy = COMPUTE_STRATEGIES[id];
+	if (!strategy.workers.includes(key)) return false;
+	if (!TAGGED_WORKERS.includes(key)) return true;
+	const description = String(args[3] ?? '');
+	return strategy.tags.some(tag => description.startsWith(tag));
+}
+
+/** Botnet RAM (GB) from which EARLY+ runs proto-batches instead of the prep loop. */
+export const PROTO_BATCH_MIN_RAM_GB = 32;
+/** Botnet RAM (GB) from which MID+ runs full HWGW instead of proto-batches. */
+export const HWGW_MIN_RAM_GB = 128;
+/** Stop waiting for the old strategy's workers after this long. */
+export const DRAIN_TIMEOUT_MS = 10 * 60_000;
+
+export interface StrategyInputs {
+	override:   ComputeStrategyId | 'auto';
+	phase:      string;    // DesignPhase
+	botnetRam:  number;    // GB across hosts the coordinator may use
+	xpFarm:     boolean;   // lib/xp_farm.ts decision
+	hasTargets: boolean;   // any hackable money server
+}
+
+export interface StrategyChoice {
+	id:     ComputeStrategyId;
+	reason: string;
+}
+
+/** Desired strategy for this cycle. */
+export function chooseComputeStrategy(i: StrategyInputs): StrategyChoice {
+	if (i.override !== 'auto') return { id: i.override, reason: 'forced in settings' };
+	if (i.xpFarm) return { id: 'xpFarm', reason: 'XP farming' };
+	if (!i.hasTargets) return { id: 'shareOnly', reason: 'no hackable targets' };
+
+	const ram = `${Math.round(i.botnetRam)} GB`;
+	switch (i.phase) {
+		case 'BOOTSTRAP':
+			return { id: 'spray', reason: 'BOOTSTRAP' };
+		case 'EARLY':
+			return i.botnetRam >= PROTO_BATCH_MIN_RAM_GB
+				? { id: 'protoBatch', reason: `EARLY, ${ram} botnet` }
+				: { id: 'prepLoop', reason: `EARLY, ${ram} < ${PROTO_BATCH_MIN_RAM_GB} GB` };
+		default:
+			if (i.botnetRam >= HWGW_MIN_RAM_GB) return { id: 'hwgw', reason: `${i.phase}, ${ram} botnet` };
+			return i.botnetRam >= PROTO_BATCH_MIN_RAM_GB
+				? { id: 'protoBatch', reason: `${i.phase}, ${ram} < ${HWGW_MIN_RAM_GB} GB` }
+				: { id: 'prepLoop', reason: `${i.phase}, ${ram} < ${PROTO_BATCH_MIN_RAM_GB} GB` };
+	}
+}
+
+export interface StrategyState {
+	active:     ComputeStrategyId | null;   // strategy allowed to launch (null = none yet)
+	next:       ComputeStrategyId | null;   // pending switch target while draining
+	drainStart: number;                     // ms epoch the current drain began
+}
+
+export const INITIAL_STRATEGY_STATE: StrategyState = { active: null, next: null, drainStart: 0 };
+
+/**
+ * One step of the drain-then-switch machine. `inFlight` is the number of the
+ * active strategy's workers still running. A desire that flips back to the
+ * active strategy mid-drain cancels the switch.
+ */
+export function advanceStrategy(
+	state: StrategyState,
+	desired: ComputeStrategyId,
+	inFlight: number,
+	now: number,
+): StrategyState {
+	if (state.active === null) return { active: desired, next: null, drainStart: 0 };
+	if (desired === state.active) return { active: desired, next: null, drainStart: 0 };
+
+	const drainStart = state.next === desired ? state.drainStart : now;
+	if (inFlight <= 0 || now - drainStart >= DRAIN_TIMEOUT_MS) {
+		return { active: desired, next: null, drainStart: 0 };
+	}
+	return { active: state.active, next: desired, drainStart };
+}
+
+/** Draining: the active strategy must not launch anything new. */
+export function isDraining(state: StrategyState): boolean {
+	return state.next !== null;
+}
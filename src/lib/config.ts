@@ -1,3 +1,5 @@
+import type { AllocStrategy } from './slot_packing';
+
 // ── Phase state machine enum (docs/design/02-system-architecture.md §1) ──────
 //
 // Published by cross/phase_detector.ts on PORT_PHASE.
@@ -101,6 +103,10 @@ export const SCRIPT_PATHS = {
     share:          '/workers/share.js',
     simpleHackLoop: '/workers/simple_hack_loop.js',
     earlyPrepper:  '/workers/early_prepper.js',
+    // workers/ — resident HGW workers fed over ports (lib/worker_pool.ts)
+    poolHack:       '/workers/pool_hack.js',
+    poolGrow:       '/workers/pool_grow.js',
+    poolWeaken:     '/workers/pool_weaken.js',
     // root — the single entry point (docs/design/14); replaces the old bootstrap.js
     brain:          '/brain.js',
     // compute/ — orchestrators and infrastructure daemons
@@ -172,6 +178,7 @@ export function phaseRank(phase: DesignPhase): number {
  * `minPhase` is the earliest phase at which the daemon is eligible to launch.
  * `key` is a human-readable label (used in log output; not checked at runtime).
  * `args` are optional command-line arguments passed to the daemon on launch.
+ * `untilRunning` retires the entry once that script is alive (a successor owns its job).
  *
  * NOTE: player/ui_actions.ts is deliberately NOT here — brain.ts calls its
  * exported actions (buyTOR/buyAllPortOpeners/buyHomeRam/takeCourse) directly,
@@ -179,7 +186,7 @@ export function phaseRank(phase: DesignPhase): number {
  * daemon at the same time would race the same DOM clicks against brain.ts's
  * own calls to the same functions.
  */
-export const DAEMON_CATALOG: { key: string; path: string; minPhase: DesignPhase; priority: Priority; args?: string[] }[] = [
+export const DAEMON_CATALOG: { key: string; path: string; minPhase: DesignPhase; priority: Priority; args?: string[]; untilRunning?: string }[] = [
     // ── BOOTSTRAP — runs even at 8–16 GB home ────────────────────────────────
     // NOTE: spreader is a one-shot utility (exits after scan), NOT a persistent
     // daemon.  brain.ts inlines BFS-nuke via lib/daemon_launcher.ts's
@@ -188,15 +195,17 @@ export const DAEMON_CATALOG: { key: string; path: string; minPhase: DesignPhase;
     { key: 'hacknetManager',  path: SCRIPT_PATHS.hacknetManager,  minPhase: DesignPhase.BOOTSTRAP, priority: Priority.ESSENTIAL      },
     { key: 'phaseDetector',   path: SCRIPT_PATHS.phaseDetector,   minPhase: DesignPhase.BOOTSTRAP, priority: Priority.ESSENTIAL      },
     { key: 'bootAgent',       path: SCRIPT_PATHS.bootAgent,       minPhase: DesignPhase.BOOTSTRAP, priority: Priority.ESSENTIAL      },
-    { key: 'earlyPrepper',    path: SCRIPT_PATHS.earlyPrepper,    minPhase: DesignPhase.BOOTSTRAP, priority: Priority.COMPUTE_WORKER },
+    // Pre-coordinator compute only — the coordinator's strategy registry owns it after.
+    { key: 'earlyPrepper',    path: SCRIPT_PATHS.earlyPrepper,    minPhase: DesignPhase.BOOTSTRAP, priority: Priority.COMPUTE_WORKER, untilRunning: SCRIPT_PATHS.coordinator },
     // ── EARLY — available once home > PHASE_RAM_EARLY (16 GB) ────────────────
     { key: 'pservManager',    path: SCRIPT_PATHS.pservManager,    minPhase: DesignPhase.EARLY,     priority: Priority.ESSENTIAL      },
     { key: 'gameAgent',       path: SCRIPT_PATHS.gameAgent,       minPhase: DesignPhase.EARLY,     priority: Priority.ESSENTIAL      },
     { key: 'stockEngine',     path: SCRIPT_PATHS.stockEngine,     minPhase: DesignPhase.EARLY,     priority: Priority.INCOME_ENGINE  },
     { key: 'playerSequencer', path: SCRIPT_PATHS.playerSequencer, minPhase: DesignPhase.EARLY,     priority: Priority.ESSENTIAL      },
     { key: 'controlConsole',  path: SCRIPT_PATHS.controlConsole,  minPhase: DesignPhase.EARLY,     priority: Priority.ESSENTIAL      },
-    // ── MID — heavy batch engine (~15.85 GB import footprint); fits at ≥ 64 GB ─
-    { key: 'coordinator',     path: SCRIPT_PATHS.coordinator,     minPhase: DesignPhase.MID,       priority: Priority.INCOME_ENGINE  },
+    // Compute engine (~15.85 GB import footprint) — picks its own strategy by
+    // phase + RAM (lib/compute_strategy.ts), so it starts as soon as it fits.
+    { key: 'coordinator',     path: SCRIPT_PATHS.coordinator,     minPhase: DesignPhase.EARLY,     priority: Priority.INCOME_ENGINE  },
 ];
 
 // ── Batch operation constants ─────────────────────────────────────────────────
@@ -207,6 +216,27 @@ export const BATCH_STEP_TIME = 20;
 export const BATCH_MAX_CONCURRENCY = -1;
 /** Maximum hack threads per batch. -1 = auto binary-search up to 100. */
 export const BATCH_MAX_HACK_PER_BATCH = -1;
+/**
+ * Safety margin on batch weaken threads (fraction over the exact count), so a
+ * hack-level-up mid-batch or a misfire doesn't leave security creeping up.
+ * Also pads recovery weakens (lib/batch_telemetry.ts planRecovery).
+ */
+export const BATCH_WEAKEN_PADDING = 0.1;
+/** Safety margin on batch (and recovery) grow threads. */
+export const BATCH_GROW_PADDING = 0.05;
+/**
+ * Thread placement per op type (compute/allocator.ts, lib/slot_packing.ts).
+ * Hack spreads so one killed host only loses a slice of a batch's hack; grow
+ * runs unsplit, so best-fit keeps big hosts whole for it; weaken keeps the
+ * utilization-balanced spread. Grow/weaken still go to multi-core hosts first.
+ */
+export const ALLOC_STRATEGY: Record<'hack' | 'grow' | 'weaken', AllocStrategy> = {
+    hack:   'spread',
+    grow:   'bestFit',
+    weaken: 'balanced',
+};
+/** Hosts a 'spread' op is shared across. */
+export const ALLOC_SPREAD_MAX_HOSTS = 4;
 
 // ── Security impact constants (Bitburner game mechanics) ──────────────────────
 
@@ -221,7 +251,8 @@ export const WEAKEN_SECURITY_DECREASE = 0.05;
 
 /** Enable verbose per-operation logging. */
 export const EXEC_DEBUG = false;
-/** Suppress toast messages when operations misfire (start late). */
+/** Suppress toast messages when operations misfire (start late). HWGW batch misfires are
+ *  recorded either way — see lib/batch_telemetry.ts and status/desync.json. */
 export const EXEC_SILENT_MISFIRES = true;
 
 // ── Maintenance intervals (seconds) ──────────────────────────────────────────
@@ -0,0 +1,106 @@
+import type { NS } from '@ns';
+
+/**
+ * Per-contract-type attempt ledger (`status/contracts_ledger.json`).
+ *
+ * Producer: player/contract_solver.ts records every real attempt here and
+ * consults it BEFORE attempting, via `guardAttempt`, to protect remaining
+ * tries. Consumer: player/contract_manager.ts folds it into the 'contracts'
+ * SubsystemStatus so the Subsystems panel shows which types are blocked.
+ *
+ * Policy (the "guarded attempt path"):
+ *  - a type with any recorded failure is skipped until its entry is cleared
+ *    (`clearType`, or `run /player/contract_solver.js --reset "<type>"`);
+ *  - on a contract's last try, only a verified solver may attempt — either
+ *    listed in lib/contract_solvers.ts's VERIFIED_TYPES, or earned in play
+ *    (VERIFY_AFTER_SOLVES successes with zero failures).
+ */
+
+export interface ContractTypeRecord {
+	solved:     number;
+	failed:     number;
+	lastFailTs: number;   // ms epoch of the most recent failure (0 = never)
+}
+
+export interface ContractLedger {
+	types:    Record<string, ContractTypeRecord>;
+	lastPass: { attempted: number; skipped: number; ts: number };
+}
+
+export type AttemptVerdict =
+	| { attempt: true }
+	| { attempt: false; reason: string };
+
+/** In-game successes (with no failures) after which a type counts as verified. */
+export const VERIFY_AFTER_SOLVES = 3;
+
+const LEDGER_FILE = 'status/contracts_ledger.json';
+
+export function emptyLedger(): ContractLedger {
+	return { types: {}, lastPass: { attempted: 0, skipped: 0, ts: 0 } };
+}
+
+function emptyRecord(): ContractTypeRecord {
+	return { solved: 0, failed: 0, lastFailTs: 0 };
+}
+
+/** Read the ledger. Missing/corrupt file → empty ledger. Never throws. */
+export function loadLedger(ns: NS): ContractLedger {
+	try {
+		const raw = ns.read(LEDGER_FILE);
+		if (!raw || raw.trim() === '') return emptyLedger();
+		const parsed = JSON.parse(raw) as Partial<ContractLedger>;
+		return { ...emptyLedger(), ...parsed, types: { ...(parsed.types ?? {}) } };
+	} catch {
+		return emptyLedger();
+	}
+}
+
+/** Producer side: persist the ledger. */
+export function saveLedger(ns: NS, ledger: ContractLedger): void {
+	ns.write(LEDGER_FILE, JSON.stringify(ledger, null, 2), 'w');
+}
+
+/** Record one real attempt's outcome for `type` (mutates `ledger`). */
+export function recordAttempt(ledger: ContractLedger, type: string, solved: boolean, now = Date.now()): void {
+	const rec = ledger.types[type] ?? emptyRecord();
+	if (solved) rec.solved++;
+	else { rec.failed++; rec.lastFailTs = now; }
+	ledger.types[type] = rec;
+}
+
+/** Forget a type's history so it is attempted again (e.g. after a solver fix). */
+export function clearType(ledger: ContractLedger, type: string): void {
+	delete ledger.types[type];
+}
+
+/** Verified = statically vouched for, or proven in play with a clean record. */
+export function isVerified(ledger: ContractLedger, type: string, staticallyVerified: boolean): boolean {
+	const rec = ledger.types[type];
+	if (rec && rec.failed > 0) return false;
+	return staticallyVerified || (rec?.solved ?? 0) >= VERIFY_AFTER_SOLVES;
+}
+
+/** Decide whether a contract of `type` with `triesLeft` may be attempted. */
+export function guardAttempt(
+	ledger: ContractLedger,
+	type: string,
+	triesLeft: number,
+	staticallyVerified: boolean,
+): AttemptVerdict {
+	const rec = ledger.types[type];
+	if (rec && rec.failed > 0) {
+		return { attempt: false, reason: `type has ${rec.failed} recorded failure${rec.failed !== 1 ? 's' : ''}` };
+	}
+	if (triesLeft <= 1 && !isVerified(ledger, type, staticallyVerified)) {
+		return { attempt: false, reason: 'last try and solver not verified' };
+	}
+	return { attempt: true };
+}
+
+/** Types currently blocked by failure history (for status display). */
+export function blockedTypes(ledger: ContractLedger): string[] {
+	return Object.entries(ledger.types)
+		.filter(([, rec]) => rec.failed > 0)
+		.map(([type]) => type);
+}
@@ -0,0 +1,605 @@
+/**
+ * Pure coding-contract solvers — `(type, data) => answer`, no `ns` dependency.
+ *
+ * Kept self-contained (zero imports) so the compiled module is directly
+ * node-importable: test/contract_solvers.test.mjs replays a known-answer corpus
+ * against it, catching a wrong answer before it burns one of a contract's
+ * limited in-game tries. player/contract_solver.ts is the only `ns` caller.
+ */
+
+// Contract data shapes (as returned by ns.codingcontract.getData)
+type StockData = [number, number[]];
+type MathExpressionData = [string, number];
+type GraphData = [number, [number, number][]];
+type Matrix<T> = T[][];
+
+/** Contract type (exact in-game name) → solver. */
+export const CONTRACT_SOLVERS: Record<string, (data: unknown) => unknown> = {
+    'Algorithmic Stock Trader I': data => StockTrader.solve([1, data as number[]]),
+    'Algorithmic Stock Trader II': data => StockTrader.solve([Math.ceil((data as number[]).length / 2), data as number[]]),
+    'Algorithmic Stock Trader III': data => StockTrader.solve([2, data as number[]]),
+    'Algorithmic Stock Trader IV': data => StockTrader.solve(data as StockData),
+    'Minimum Path Sum in a Triangle': data => TriangleSum.solve(data as number[][]),
+    'Unique Paths in a Grid I': data => GridPaths.solveUniquePaths1(data as number[]),
+    'Unique Paths in a Grid II': data => GridPaths.solveUniquePaths2(data as number[][]),
+    'Shortest Path in a Grid': data => GridPaths.shortestPath(data as number[][]),
+    'Generate IP Addresses': data => IpAddresses.generate(data as string | number),
+    'Find Largest Prime Factor': data => PrimeFactor.findLargest(data as number),
+    'Spiralize Matrix': data => SpiralMatrix.spiralize((data as Matrix<unknown>).map(row => [...row])),
+    'Merge Overlapping Intervals': data => MergeIntervals.solve((data as number[][]).map(iv => [...iv])),
+    'Array Jumping Game': data => ArrayJumping.solve(data as number[]),
+    'Array Jumping Game II': data => ArrayJumping.minJumps(data as number[]),
+    'Find All Valid Math Expressions': data => MathExpressions.findAll(data as MathExpressionData),
+    'Subarray with Maximum Sum': data => MaxSubarray.solve(data as number[]),
+    'Total Ways to Sum': data => WaysToSum.solve(data as number),
+    'Total Ways to Sum II': data => WaysToSum.solveWithParts(data as [number, number[]]),
+    'Sanitize Parentheses in Expression': data => SanitizeParentheses.solve(data as string),
+    'HammingCodes: Integer to Encoded Binary': data => HammingCodes.encode(data as number),
+    'HammingCodes: Encoded Binary to Integer': data => HammingCodes.decode(data as string),
+    'Proper 2-Coloring of a Graph': data => GraphColoring.solve(data as GraphData),
+    'Compression I: RLE Compression': data => Compression.rle(data as string),
+    'Compression II: LZ Decompression': data => Compression.lzDecompress(data as string),
+    'Compression III: LZ Compression': data => Compression.lzCompress(data as string),
+    'Encryption I: Caesar Cipher': data => Encryption.caesar(data as [string, number]),
+    'Encryption II: Vigenère Cipher': data => Encryption.vigenere(data as [string, string]),
+    'Square Root': data => SquareRoot.solve(data as bigint | string),
+};
+
+/**
+ * Types whose solver has an in-game track record — allowed to spend a
+ * contract's LAST try (see lib/contract_ledger.ts::guardAttempt). Solvers
+ * added or rewritten since must earn it in play (VERIFY_AFTER_SOLVES) first.
+ */
+export const VERIFIED_TYPES: ReadonlySet<string> = new Set([
+    'Algorithmic Stock Trader I',
+    'Algorithmic Stock Trader II',
+    'Algorithmic Stock Trader III',
+    'Algorithmic Stock Trader IV',
+    'Minimum Path Sum in a Triangle',
+    'Generate IP Addresses',
+    'Find Largest Prime Factor',
+    'Spiralize Matrix',
+    'Merge Overlapping Intervals',
+    'Array Jumping Game',
+    'Subarray with Maximum Sum',
+    'Total Ways to Sum',
+    'Sanitize Parentheses in Expression',
+]);
+
+/**
+ * Compute the answer for a contract without attempting it.
+ * Returns `undefined` for an unknown type — note that '' and [] are legitimate
+ * answers for some types (unreachable grid, non-bipartite graph).
+ */
+export function computeAnswer(type: string, data: unknown): unknown {
+    const solver = CONTRACT_SOLVERS[type];
+    return solver ? solver(data) : undefined;
+}
+
+// ── Contract Solvers ──────────────────────────────────────────────────────────
+
+class StockTrader {
+    static solve(arrayData: StockData | [number, number[]]): number {
+        const maxTrades   = arrayData[0];
+        const stockPrices = arrayData[1];
+        if (maxTrades < 1 || stockPrices.length < 2) return 0;
+        const profits: number[][] = Array(maxTrades)
+            .fill(0)
+            .map(() => Array(stockPrices.length).fill(0));
+
+        for (let i = 0; i < maxTrades; i++) {
+            for (let j = 0; j < stockPrices.length; j++) {
+                for (let k = j; k < stockPrices.length; k++) {
+                    if (i > 0 && j > 0 && k > 0) {
+                        profits[i][k] = Math.max(profits[i][k], profits[i - 1][k], profits[i][k - 1], profits[i - 1][j - 1] + stockPrices[k] - stockPrices[j]);
+                    } else if (i > 0 && j > 0) {
+                        profits[i][k] = Math.max(profits[i][k], profits[i - 1][k], profits[i - 1][j - 1] + stockPrices[k] - stockPrices[j]);
+                    } else if (i > 0 && k > 0) {
+                        profits[i][k] = Math.max(profits[i][k], profits[i - 1][k], profits[i][k - 1], stockPrices[k] - stockPrices[j]);
+                    } else if (j > 0 && k > 0) {
+                        profits[i][k] = Math.max(profits[i][k], profits[i][k - 1], stockPrices[k] - stockPrices[j]);
+                    } else {
+                        profits[i][k] = Math.max(profits[i][k], stockPrices[k] - stockPrices[j]);
+                    }
+                }
+            }
+        }
+        return profits[maxTrades - 1][stockPrices.length - 1];
+    }
+}
+
+class TriangleSum {
+    static solve(triangle: number[][]): number {
+        let previousRow = triangle[0];
+        for (let i = 1; i < triangle.length; i++) {
+            const currentRow: number[] = [];
+            for (let j = 0; j < triangle[i].length; j++) {
+                if (j === 0) {
+                    currentRow.push(previousRow[j] + triangle[i][j]);
+                } else if (j === triangle[i].length - 1) {
+                    currentRow.push(previousRow[j - 1] + triangle[i][j]);
+                } else {
+                    currentRow.push(Math.min(previousRow[j], previousRow[j - 1]) + triangle[i][j]);
+                }
+            }
+            previousRow = currentRow;
+        }
+        return Math.min(...previousRow);
+    }
+}
+
+class GridPaths {
+    /** Data is [rows, cols]; no obstacles. */
+    static solveUniquePaths1(grid: number[]): number {
+        const [rows, cols] = grid;
+        return GridPaths.countPaths(Array.from({ length: rows }, () => Array(cols).fill(0)));
+    }
+
+    /** Data is a 0/1 grid where 1 is an obstacle (including on the start/end cell). */
+    static solveUniquePaths2(grid: number[][]): number {
+        return GridPaths.countPaths(grid);
+    }
+
+    /** Right/down path count by DP — exact, unlike the old factorial form, on large grids. */
+    private static countPaths(grid: number[][]): number {
+        if (grid.length === 0 || grid[0].length === 0) return 0;
+        const ways: number[] = Array(grid[0].length).fill(0);
+        ways[0] = 1;
+        for (let i = 0; i < grid.length; i++) {
+            for (let j = 0; j < grid[i].length; j++) {
+                if (grid[i][j] === 1) ways[j] = 0;
+                else if (j > 0) ways[j] += ways[j - 1];
+            }
+        }
+        return ways[grid[0].length - 1];
+    }
+
+    /** BFS from top-left to bottom-right over U/D/L/R moves; '' when unreachable. */
+    static shortestPath(grid: number[][]): string {
+        const rows = grid.length;
+        const cols = grid[0]?.length ?? 0;
+        if (rows === 0 || cols === 0 || grid[0][0] === 1 || grid[rows - 1][cols - 1] === 1) return '';
+        const moves: [number, number, string][] = [[-1, 0, 'U'], [1, 0, 'D'], [0, -1, 'L'], [0, 1, 'R']];
+        const path: (string | null)[][] = grid.map(row => row.map(() => null));
+        path[0][0] = '';
+        const queue: [number, number][] = [[0, 0]];
+        for (let q = 0; q < queue.length; q++) {
+            const [r, c] = queue[q];
+            if (r === rows - 1 && c === cols - 1) return path[r][c]!;
+            for (const [dr, dc, dir] of moves) {
+                const nr = r + dr, nc = c + dc;
+                if (nr < 0 || nc < 0 || nr >= rows || nc >= cols) continue;
+                if (grid[nr][nc] === 1 || path[nr][nc] !== null) continue;
+                path[nr][nc] = path[r][c] + dir;
+                queue.push([nr, nc]);
+            }
+        }
+        return '';
+    }
+}
+
+class IpAddresses {
+    private static isValidSegment(segment: string): boolean {
+        if (segment[0] === '0' && segment !== '0') return false;
+        const num = Number(segment);
+        return num >= 0 && num <= 255;
+    }
+
+    static generate(input: string | number): string[] {
+        const num    = input.toString();
+        const length = num.length;
+        const ips: string[] = [];
+
+        for (let i = 1; i < length - 2; i++) {
+            for (let j = i + 1; j < length - 1; j++) {
+                for (let k = j + 1; k < length; k++) {
+                    const segments = [num.slice(0, i), num.slice(i, j), num.slice(j, k), num.slice(k)];
+                    if (segments.every(IpAddresses.isValidSegment)) {
+                        ips.push(segments.join('.'));
+                    }
+                }
+            }
+        }
+        return ips;
+    }
+}
+
+class PrimeFactor {
+    static findLargest(num: number): number {
+        for (let div = 2; div <= Math.sqrt(num); div++) {
+            if (num % div !== 0) continue;
+            num = num / div;
+            div = 2;
+        }
+        return num;
+    }
+}
+
+class SpiralMatrix {
+    private static extractColumn<T>(arr: T[][], index: number): T[] {
+        const result: T[] = [];
+        for (let i = 0; i < arr.length; i++) {
+            const element = arr[i].splice(index, 1)[0];
+            if (element !== undefined) result.push(element);
+        }
+        return result;
+    }
+
+    static spiralize<T>(arr: T[][], accumulator: T[] = []): T[] {
+        if (arr.length === 0 || arr[0].length === 0) return accumulator;
+        accumulator = accumulator.concat(arr.shift() || []);
+        if (arr.length === 0 || arr[0].length === 0) return accumulator;
+        accumulator = accumulator.concat(SpiralMatrix.extractColumn(arr, arr[0].length - 1));
+        if (arr.length === 0 || arr[0].length === 0) return accumulator;
+        accumulator = accumulator.concat((arr.pop() || []).reverse());
+        if (arr.length === 0 || arr[0].length === 0) return accumulator;
+        accumulator = accumulator.concat(SpiralMatrix.extractColumn(arr, 0).reverse());
+        if (arr.length === 0 || arr[0].length === 0) return accumulator;
+        return SpiralMatrix.spiralize(arr, accumulator);
+    }
+}
+
+class MergeIntervals {
+    static solve(intervals: number[][]): number[][] {
+        intervals.sort(([minA], [minB]) => minA - minB);
+        for (let i = 0; i < intervals.length; i++) {
+            for (let j = i + 1; j < intervals.length; j++) {
+                const [min, max] = intervals[i];
+                const [laterMin, laterMax] = intervals[j];
+                if (laterMin <= max) {
+                    intervals[i] = [min, laterMax > max ? laterMax : max];
+                    intervals.splice(j, 1);
+                    j = i;
+                }
+            }
+        }
+        return intervals;
+    }
+}
+
+class ArrayJumping {
+    static solve(data: number[]): number {
+        const reachable = Array(data.length).fill(false);
+        reachable[0] = true;
+        for (let i = 0; i < data.length; i++) {
+            if (!reachable[i]) continue;
+            const maxJump = Math.min(i + data[i], data.length - 1);
+            for (let j = i; j <= maxJump; j++) reachable[j] = true;
+        }
+        return reachable[data.length - 1] ? 1 : 0;
+    }
+
+    /** Fewest jumps to reach the last index (greedy BFS layers); 0 when unreachable. */
+    static minJumps(data: number[]): number {
+        let jumps = 0;
+        let layerEnd = 0;
+        let farthest = 0;
+        for (let i = 0; i < data.length - 1; i++) {
+            if (i > farthest) return 0;
+            farthest = Math.max(farthest, i + data[i]);
+            if (i === layerEnd) {
+                if (farthest <= i) return 0;
+                jumps++;
+                layerEnd = farthest;
+                if (layerEnd >= data.length - 1) break;
+            }
+        }
+        return data.length <= 1 || layerEnd >= data.length - 1 ? jumps : 0;
+    }
+}
+
+class MathExpressions {
+    /**
+     * DFS over operator placements, tracking the last multiplicative term so `*`
+     * binds tighter than `+`/`-`. Operands with a leading zero ("05") are invalid.
+     */
+    static findAll(data: MathExpressionData): string[] {
+        const [digits, target] = data;
+        const results: string[] = [];
+
+        const dfs = (pos: number, expr: string, value: number, last: number): void => {
+            if (pos === digits.length) {
+                if (value === target) results.push(expr);
+                return;
+            }
+            for (let end = pos + 1; end <= digits.length; end++) {
+                const operandStr = digits.substring(pos, end);
+                if (operandStr.length > 1 && operandStr[0] === '0') break;
+                const operand = Number(operandStr);
+                if (pos === 0) {
+                    dfs(end, operandStr, operand, operand);
+                    continue;
+                }
+                dfs(end, `${expr}+${operandStr}`, value + operand, operand);
+                dfs(end, `${expr}-${operandStr}`, value - operand, -operand);
+                dfs(end, `${expr}*${operandStr}`, value - last + last * operand, last * operand);
+            }
+        };
+
+        if (digits.length > 0) dfs(0, '', 0, 0);
+        return results;
+    }
+}
+
+class MaxSubarray {
+    static solve(data: number[]): number {
+        let maxSoFar = data[0];
+        let maxEndingHere = data[0];
+        for (let i = 1; i < data.length; i++) {
+            maxEndingHere = Math.max(data[i], maxEndingHere + data[i]);
+            maxSoFar = Math.max(maxSoFar, maxEndingHere);
+        }
+        return maxSoFar;
+    }
+}
+
+class WaysToSum {
+    static solve(n: number): number {
+        const ways = Array(n + 1).fill(0);
+        ways[0] = 1;
+        for (let i = 1; i <= n - 1; i++) {
+            for (let j = i; j <= n; j++) ways[j] += ways[j - i];
+        }
+        return ways[n];
+    }
+
+    /** Data is [n, parts]: ways to write n as a sum of the given parts (coin change). */
+    static solveWithParts(data: [number, number[]]): number {
+        const [n, parts] = data;
+        const ways = Array(n + 1).fill(0);
+        ways[0] = 1;
+        for (const part of parts) {
+            for (let j = part; j <= n; j++) ways[j] += ways[j - part];
+        }
+        return ways[n];
+    }
+}
+
+class SanitizeParentheses {
+    private static isParenthesis(char: string): boolean { return char === '(' || char === ')'; }
+
+    private static isValidString(str: string): boolean {
+        let count = 0;
+        for (const ch of str) {
+            if (ch === '(') count++;
+            else if (ch === ')') count--;
+            if (count < 0) return false;
+        }
+        return count === 0;
+    }
+
+    static solve(str: string): string[] {
+        if (str.length === 0) return [];
+        const visited = new Set<string>();
+        const queue: string[] = [];
+        const solutions: string[] = [];
+        let foundValid = false;
+
+        queue.push(str);
+        visited.add(str);
+
+        while (queue.length > 0) {
+            const current = queue.shift()!;
+            if (SanitizeParentheses.isValidString(current)) {
+                solutions.push(current);
+                foundValid = true;
+            }
+            if (foundValid) continue;
+
+            for (let i = 0; i < current.length; i++) {
+                if (!SanitizeParentheses.isParenthesis(current[i])) continue;
+                const next = current.substring(0, i) + current.substring(i + 1);
+                if (!visited.has(next)) {
+                    queue.push(next);
+                    visited.add(next);
+                }
+            }
+        }
+
+        return solutions.length > 0 ? solutions : [''];
+    }
+}
+
+class HammingCodes {
+    /**
+     * Extended Hamming encode: data bits (MSB first) fill the non-power-of-two
+     * positions, parity bits sit at 2^k, and index 0 holds overall parity.
+     */
+    static encode(value: number): string {
+        const dataBits = value.toString(2).split('').map(Number);
+        const bits: number[] = [0];
+        let next = 0;
+        for (let i = 1; next < dataBits.length; i++) {
+            bits[i] = (i & (i - 1)) === 0 ? 0 : dataBits[next++];
+        }
+        let syndrome = 0;
+        for (let i = 1; i < bits.length; i++) if (bits[i]) syndrome ^= i;
+        for (let p = 1; p < bits.length; p <<= 1) bits[p] = (syndrome & p) ? 1 : 0;
+        bits[0] = bits.reduce((a, b) => a + b, 0) % 2;
+        return bits.join('');
+    }
+
+    /** Correct at most one flipped bit (syndrome = XOR of set indices), then read the data bits. */
+    static decode(encoded: string): number {
+        const bits = encoded.split('').map(Number);
+        let syndrome = 0;
+        for (let i = 1; i < bits.length; i++) if (bits[i]) syndrome ^= i;
+        if (syndrome !== 0 && syndrome < bits.length) bits[syndrome] ^= 1;
+        let data = '';
+        for (let i = 1; i < bits.length; i++) {
+            if ((i & (i - 1)) !== 0) data += bits[i];
+        }
+        return parseInt(data, 2);
+    }
+}
+
+class GraphColoring {
+    /** Data is [vertexCount, edges]; BFS 2-coloring per component, [] if not bipartite. */
+    static solve(data: GraphData): number[] {
+        const [n, edges] = data;
+        const adjacency: number[][] = Array.from({ length: n }, () => []);
+        for (const [u, v] of edges) {
+            adjacency[u].push(v);
+            adjacency[v].push(u);
+        }
+        const colors: number[] = Array(n).fill(-1);
+        for (let start = 0; start < n; start++) {
+            if (colors[start] !== -1) continue;
+            colors[start] = 0;
+            const queue = [start];
+            for (let q = 0; q < queue.length; q++) {
+                const u = queue[q];
+                for (const v of adjacency[u]) {
+                    if (colors[v] === -1) {
+                        colors[v] = 1 - colors[u];
+                        queue.push(v);
+                    } else if (colors[v] === colors[u]) {
+                        return [];
+                    }
+                }
+            }
+        }
+        return colors;
+    }
+}
+
+class Compression {
+    /** Run-length encode as <count><char> pairs, runs capped at 9. */
+    static rle(plain: string): string {
+        let out = '';
+        for (let i = 0; i < plain.length;) {
+            let run = 1;
+            while (run < 9 && i + run < plain.length && plain[i + run] === plain[i]) run++;
+            out += `${run}${plain[i]}`;
+            i += run;
+        }
+        return out;
+    }
+
+    /**
+     * Chunks alternate literal / back-reference, starting with a literal.
+     * Literal: L then L raw chars. Back-reference: L then offset digit, copying
+     * L chars from `offset` back. L = 0 ends the chunk with nothing emitted.
+     */
+    static lzDecompress(compressed: string): string {
+        let plain = '';
+        let literal = true;
+        for (let i = 0; i < compressed.length;) {
+            const len = Number(compressed[i]);
+            if (len === 0) {
+                i++;
+            } else if (literal) {
+                plain += compressed.substring(i + 1, i + 1 + len);
+                i += 1 + len;
+            } else {
+                const offset = Number(compressed[i + 1]);
+                for (let k = 0; k < len; k++) plain += plain[plain.length - offset];
+                i += 2;
+            }
+            literal = !literal;
+        }
+        return plain;
+    }
+
+    /**
+     * Shortest LZ encoding by DP over (chunk type, offset, length) states, one
+     * input char at a time — the game's own reference construction, minus its
+     * random tie-breaking so the output is deterministic.
+     */
+    static lzCompress(plain: string): string {
+        if (plain.length === 0) return '';
+        // state[0][len]: inside a literal of `len`; state[off][len]: inside a back-reference.
+        const fresh = (): (string | null)[][] => Array.from({ length: 10 }, () => Array(10).fill(null));
+        let cur = fresh();
+        const set = (state: (string | null)[][], i: number, j: number, str: string): void => {
+            const existing = state[i][j];
+            if (existing === null || str.length < existing.length) state[i][j] = str;
+        };
+
+        cur[0][1] = '';
+        for (let i = 1; i < plain.length; i++) {
+            const next = fresh();
+            const c = plain[i];
+
+            for (let len = 1; len <= 9; len++) {
+                const str = cur[0][len];
+                if (str === null) continue;
+                if (len < 9) set(next, 0, len + 1, str);
+                else set(next, 0, 1, str + '9' + plain.substring(i - 9, i) + '0');
+                for (let off = 1; off <= Math.min(9, i); off++) {
+                    if (plain[i - off] === c) set(next, off, 1, str + String(len) + plain.substring(i - len, i));
+                }
+            }
+
+            for (let off = 1; off <= 9; off++) {
+                for (let len = 1; len <= 9; len++) {
+                    const str = cur[off][len];
+                    if (str === null) continue;
+                    if (plain[i - off] === c) {
+                        if (len < 9) set(next, off, len + 1, str);
+                        else set(next, off, 1, str + '9' + String(off) + '0');
+                    }
+                    set(next, 0, 1, str + String(len) + String(off));
+                    for (let newOff = 1; newOff <= Math.min(9, i); newOff++) {
+                        if (plain[i - newOff] === c) set(next, newOff, 1, str + String(len) + String(off) + '0');
+                    }
+                }
+            }
+            cur = next;
+        }
+
+        let best: string | null = null;
+        for (let len = 1; len <= 9; len++) {
+            const str = cur[0][len];
+            if (str === null) continue;
+            const done = str + String(len) + plain.substring(plain.length - len);
+            if (best === null || done.length < best.length) best = done;
+        }
+        for (let off = 1; off <= 9; off++) {
+            for (let len = 1; len <= 9; len++) {
+                const str = cur[off][len];
+                if (str === null) continue;
+                const done = str + String(len) + String(off);
+                if (best === null || done.length < best.length) best = done;
+            }
+        }
+        return best ?? '';
+    }
+}
+
+class Encryption {
+    /** Data is [plaintext, shift]; uppercase letters shift left, spaces pass through. */
+    static caesar(data: [string, number]): string {
+        const [plain, shift] = data;
+        return plain.split('').map(ch => {
+            if (ch < 'A' || ch > 'Z') return ch;
+            return String.fromCharCode(((ch.charCodeAt(0) - 65 - shift) % 26 + 26) % 26 + 65);
+        }).join('');
+    }
+
+    /** Data is [plaintext, keyword]; key index advances on every char, spaces included. */
+    static vigenere(data: [string, string]): string {
+        const [plain, key] = data;
+        return plain.split('').map((ch, i) => {
+            if (ch < 'A' || ch > 'Z') return ch;
+            const k = key.charCodeAt(i % key.length) - 65;
+            return String.fromCharCode((ch.charCodeAt(0) - 65 + k) % 26 + 65);
+        }).join('');
+    }
+}
+
+class SquareRoot {
+    /** Integer Newton iteration on bigint, rounded to the nearest integer. */
+    static solve(data: bigint | string): bigint {
+        const n = BigInt(data);
+        if (n < 2n) return n;
+        let x = n;
+        let y = (x + 1n) / 2n;
+        while (y < x) {
+            x = y;
+            y = (x + n / x) / 2n;
+        }
+        // x = floor(sqrt(n)); round up when n - x² > x (i.e. sqrt(n) ≥ x + ½).
+        return n - x * x > x ? x + 1n : x;
+    }
+}
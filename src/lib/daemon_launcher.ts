@@ -97,6 +97,7 @@ export async function launchEligibleDaemons(
     for (const daemon of DAEMON_CATALOG) {
         if (phaseRank(daemon.minPhase) > rank) continue; // phase gate not yet reached
         if (running.has(daemon.path))          continue; // already alive
+        if (daemon.untilRunning && running.has(daemon.untilRunning)) continue; // superseded
 
         // Cooldown guard: don't re-launch a daemon that died too fast.
         const lastLaunch = cooldowns.get(daemon.path) ?? 0;
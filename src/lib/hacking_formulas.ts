@@ -0,0 +1,180 @@
+/**
+ * Local reimplementation of the game's hacking formulas (Formulas.exe-free).
+ *
+ * Same maths as bitburner-src `Hacking.ts` / `Server/formulas/grow.ts`, but
+ * evaluated on caller-supplied Server/Player objects — so a hypothetical state
+ * (e.g. FormulaHelper.getOptimalServer's max-money/min-security copy) plans
+ * correctly before Formulas.exe is bought. The live fallbacks (hackAnalyze,
+ * growthAnalyze, get*Time) only ever see the server as it is right now.
+ *
+ * BitNode multipliers aren't readable without SF5, so the three that matter
+ * here come in as `HackScaling`; compute/formulas.ts calibrates them against
+ * the live API.
+ *
+ * Zero runtime imports: node-testable from dist/ (test/hacking_formulas.test.mjs).
+ */
+
+/** The Server fields these formulas read (structurally compatible with ns Server). */
+export interface FormulaServer {
+	hackDifficulty?:       number;
+	requiredHackingSkill?: number;
+	moneyAvailable?:       number;
+	moneyMax?:             number;
+	serverGrowth?:         number;
+}
+
+/** The Player fields these formulas read (structurally compatible with ns Player). */
+export interface FormulaPlayer {
+	skills: { hacking: number; intelligence: number };
+	mults:  { hacking_chance: number; hacking_money: number; hacking_speed: number; hacking_grow: number };
+}
+
+/** BitNode multipliers that affect hack/grow amounts and hack/grow/weaken times. */
+export interface HackScaling {
+	scriptHackMoney: number;   // BitNodeMultipliers.ScriptHackMoney
+	serverGrowthRate: number;  // BitNodeMultipliers.ServerGrowthRate
+	hackingSpeed: number;      // BitNodeMultipliers.HackingSpeedMultiplier
+}
+
+export const NEUTRAL_SCALING: HackScaling = { scriptHackMoney: 1, serverGrowthRate: 1, hackingSpeed: 1 };
+
+// Game constants (bitburner-src Constants.ts)
+const SERVER_BASE_GROWTH_INCR = 0.03;
+const SERVER_MAX_GROWTH_LOG   = 0.00349388925425578;   // ln(1.0035)
+
+function intelligenceBonus(intelligence: number, weight = 1): number {
+	return 1 + (weight * Math.pow(intelligence, 0.8)) / 600;
+}
+
+const clamp01 = (n: number): number => Math.min(1, Math.max(0, n));
+
+/** Chance (0-1) that one hack() succeeds. */
+export function hackChance(server: FormulaServer, player: FormulaPlayer): number {
+	const hackFactor = 1.75;
+	const difficultyMult = (100 - (server.hackDifficulty ?? 100)) / 100;
+	const skillMult = hackFactor * player.skills.hacking;
+	if (skillMult <= 0) return 0;
+	const skillChance = (skillMult - (server.requiredHackingSkill ?? 0)) / skillMult;
+	const chance = skillChance * difficultyMult * player.mults.hacking_chance
+		* intelligenceBonus(player.skills.intelligence);
+	return clamp01(chance);
+}
+
+/** Fraction (0-1) of current money one hack thread steals. */
+export function hackPercent(server: FormulaServer, player: FormulaPlayer, scaling = NEUTRAL_SCALING): number {
+	const balanceFactor = 240;
+	const difficultyMult = (100 - (server.hackDifficulty ?? 100)) / 100;
+	const hacking = player.skills.hacking;
+	if (hacking <= 0) return 0;
+	const skillMult = (hacking - ((server.requiredHackingSkill ?? 0) - 1)) / hacking;
+	const percent = (difficultyMult * skillMult * player.mults.hacking_money * scaling.scriptHackMoney) / balanceFactor;
+	return clamp01(percent);
+}
+
+/** hack() duration in ms. */
+export function hackTime(server: FormulaServer, player: FormulaPlayer, scaling = NEUTRAL_SCALING): number {
+	const difficultyMult = (server.requiredHackingSkill ?? 0) * (server.hackDifficulty ?? 0);
+	const baseDiff = 500;
+	const baseSkill = 50;
+	const diffFactor = 2.5;
+	const skillFactor = (diffFactor * difficultyMult + baseDiff) / (player.skills.hacking + baseSkill);
+	const hackTimeMultiplier = 5;
+	const seconds = (hackTimeMultiplier * skillFactor)
+		/ (player.mults.hacking_speed * scaling.hackingSpeed * intelligenceBonus(player.skills.intelligence));
+	return seconds * 1000;
+}
+
+/** grow() duration in ms. */
+export function growTime(server: FormulaServer, player: FormulaPlayer, scaling = NEUTRAL_SCALING): number {
+	return hackTime(server, player, scaling) * 3.2;
+}
+
+/**
+ * Hacking XP one thread earns per completed hack/grow/weaken (a failed hack
+ * earns a quarter). `hackExpScale` is BitNodeMultipliers.HackExpGain.
+ */
+export function hackingExp(
+	server: { baseDifficulty?: number },
+	player: { mults: { hacking_exp: number } },
+	hackExpScale = 1,
+): number {
+	if (server.baseDifficulty === undefined) return 0;
+	return (3 + server.baseDifficulty * 0.3) * player.mults.hacking_exp * hackExpScale;
+}
+
+/** weaken() duration in ms. */
+export function weakenTime(server: FormulaServer, player: FormulaPlayer, scaling = NEUTRAL_SCALING): number {
+	return hackTime(server, player, scaling) * 4;
+}
+
+/**
+ * Per-thread multiplier a host's CPU cores give grow() and weaken()
+ * (ns.weakenAnalyze / growthAnalyze use the same factor).
+ */
+export function coreBonus(cores: number): number {
+	return 1 + (Math.max(1, cores) - 1) / 16;
+}
+
+/** Natural log of the money multiplier `threads` grow threads apply (before the +threads seed). */
+export function growthLog(
+	server: FormulaServer,
+	player: FormulaPlayer,
+	threads: number,
+	cores = 1,
+	scaling = NEUTRAL_SCALING,
+): number {
+	const difficulty = server.hackDifficulty ?? 100;
+	const perThread = difficulty > 0
+		? Math.min(SERVER_MAX_GROWTH_LOG, Math.log1p(SERVER_BASE_GROWTH_INCR / difficulty))
+		: SERVER_MAX_GROWTH_LOG;
+	const serverGrowthPercentage = (server.serverGrowth ?? 0) / 100;
+	return perThread * serverGrowthPercentage * scaling.serverGrowthRate
+		* Math.max(threads, 0) * player.mults.hacking_grow * coreBonus(cores);
+}
+
+/** Money after `threads` grow threads: (money + threads) × e^growthLog, capped at moneyMax. */
+export function moneyAfterGrow(
+	server: FormulaServer,
+	player: FormulaPlayer,
+	threads: number,
+	cores = 1,
+	scaling = NEUTRAL_SCALING,
+): number {
+	const start = Math.max(0, server.moneyAvailable ?? 0);
+	const grown = (start + threads) * Math.exp(growthLog(server, player, threads, cores, scaling));
+	return Math.min(server.moneyMax ?? grown, grown);
+}
+
+/**
+ * Threads for grow() to take the server from moneyAvailable to `targetMoney`
+ * (capped at moneyMax). Newton on ln(start + x) + k·x = ln(target), then
+ * nudged to the exact integer the game would need. Infinity if growth is 0.
+ */
+export function growThreads(
+	server: FormulaServer,
+	player: FormulaPlayer,
+	targetMoney: number,
+	cores = 1,
+	scaling = NEUTRAL_SCALING,
+): number {
+	const k = growthLog(server, player, 1, cores, scaling);
+	const target = Math.min(targetMoney, server.moneyMax ?? targetMoney);
+	const start = Math.max(0, server.moneyAvailable ?? 0);
+	if (start >= target) return 0;
+	if (k <= 0) return Infinity;
+
+	const lnTarget = Math.log(target);
+	let x = Math.max(0, (lnTarget - Math.log(start + 1)) / k);
+	for (let i = 0; i < 50; i++) {
+		const f = Math.log(start + x) + k * x - lnTarget;
+		const step = f / (1 / (start + x) + k);
+		x = Math.max(0, x - step);
+		if (Math.abs(step) < 1e-6) break;
+	}
+
+	let threads = Math.max(1, Math.ceil(x));
+	const reaches = (t: number): boolean => (start + t) * Math.exp(k * t) >= target;
+	while (threads > 1 && reaches(threads - 1)) threads--;
+	while (!reaches(threads)) threads++;
+	return threads;
+}
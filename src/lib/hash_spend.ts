@@ -0,0 +1,168 @@
+import type { NS } from '@ns';
+
+/**
+ * Hacknet hash-spending strategy (hacknet servers only — BN9/SF9).
+ *
+ * Pure decision half: `chooseHashPurchase(strategy, ctx)` picks at most one
+ * upgrade per call from a context the caller gathers (hash balance, current
+ * costs, compute's top target, which subsystems are live). The ns half —
+ * gathering that context and calling ns.hacknet.spendHashes — lives in
+ * compute/hacknet_manager.ts, which also persists a running summary to
+ * `status/hash_spend.json` for player/hacknet_status.ts to surface.
+ *
+ * Strategies:
+ *   auto       — live subsystems first (corp, bladeburner, training, contracts),
+ *                then the compute target, else bank as money.
+ *   hacking    — Reduce Minimum Security / Increase Maximum Money on the top
+ *                target only.
+ *   subsystems — only the subsystem sinks.
+ *   money      — Sell for Money as soon as affordable.
+ * Every strategy overflows to Sell for Money once the store is nearly full, so
+ * hashes are never lost at hashCapacity().
+ */
+
+export const HashUpgrade = {
+	sellForMoney:     'Sell for Money',
+	corpFunds:        'Sell for Corporation Funds',
+	corpResearch:     'Exchange for Corporation Research',
+	reduceMinSec:     'Reduce Minimum Security',
+	increaseMaxMoney: 'Increase Maximum Money',
+	improveStudying:  'Improve Studying',
+	improveGym:       'Improve Gym Training',
+	bladeRank:        'Exchange for Bladeburner Rank',
+	bladeSP:          'Exchange for Bladeburner SP',
+	codingContract:   'Generate Coding Contract',
+} as const;
+export type HashUpgrade = (typeof HashUpgrade)[keyof typeof HashUpgrade];
+
+export type HashStrategy = 'auto' | 'hacking' | 'subsystems' | 'money';
+export const HASH_STRATEGIES: readonly HashStrategy[] = ['auto', 'hacking', 'subsystems', 'money'];
+
+/** Fraction of hashCapacity() at which hashes are sold rather than banked. */
+export const HASH_OVERFLOW_FRACTION = 0.9;
+/** A top wish further off than this (at the current hash rate) doesn't hold back the rest of the list. */
+export const HASH_WISH_MAX_WAIT_S = 300;
+/** In-game floor for a server's minimum security; Reduce Minimum Security is useless below it. */
+const MIN_SECURITY_FLOOR = 1;
+/** In-game cap on a server's moneyMax; Increase Maximum Money is useless above it. */
+const MAX_MONEY_CAP = 10e12;
+
+export interface HashContext {
+	hashes:   number;
+	capacity: number;
+	/** Hashes produced per second across all hacknet servers. */
+	rate:     number;
+	/** Current cost in hashes of each upgrade; omit (or Infinity) if unavailable. */
+	costs:    Partial<Record<HashUpgrade, number>>;
+	/** Compute's current best target, if the coordinator is batching. */
+	target:   { host: string; minDifficulty: number; moneyMax: number } | null;
+	/** Which hash sinks are worth anything right now. */
+	active:   { corp: boolean; bladeburner: boolean; training: 'study' | 'gym' | null; contracts: boolean };
+}
+
+export interface HashPurchase {
+	upgrade: HashUpgrade;
+	target?: string;        // only for the two server-targeted upgrades
+	reason:  string;
+}
+
+function subsystemCandidates(ctx: HashContext): HashPurchase[] {
+	const out: HashPurchase[] = [];
+	if (ctx.active.corp) {
+		out.push({ upgrade: HashUpgrade.corpResearch, reason: 'corp active' });
+		out.push({ upgrade: HashUpgrade.corpFunds,    reason: 'corp active' });
+	}
+	if (ctx.active.bladeburner) {
+		out.push({ upgrade: HashUpgrade.bladeSP,   reason: 'bladeburner active' });
+		out.push({ upgrade: HashUpgrade.bladeRank, reason: 'bladeburner active' });
+	}
+	if (ctx.active.training === 'study') out.push({ upgrade: HashUpgrade.improveStudying, reason: 'studying' });
+	if (ctx.active.training === 'gym')   out.push({ upgrade: HashUpgrade.improveGym,      reason: 'gym training' });
+	if (ctx.active.contracts) out.push({ upgrade: HashUpgrade.codingContract, reason: 'contract solver on' });
+	return out;
+}
+
+function hackingCandidates(ctx: HashContext): HashPurchase[] {
+	const t = ctx.target;
+	if (!t) return [];
+	const out: HashPurchase[] = [];
+	if (t.minDifficulty > MIN_SECURITY_FLOOR) {
+		out.push({ upgrade: HashUpgrade.reduceMinSec, target: t.host, reason: `top target ${t.host}` });
+	}
+	if (t.moneyMax < MAX_MONEY_CAP) {
+		out.push({ upgrade: HashUpgrade.increaseMaxMoney, target: t.host, reason: `top target ${t.host}` });
+	}
+	return out;
+}
+
+/** Ordered wish-list for a strategy (best first), before affordability. */
+export function hashCandidates(strategy: HashStrategy, ctx: HashContext): HashPurchase[] {
+	switch (strategy) {
+		case 'money':      return [{ upgrade: HashUpgrade.sellForMoney, reason: 'money strategy' }];
+		case 'hacking':    return hackingCandidates(ctx);
+		case 'subsystems': return subsystemCandidates(ctx);
+		case 'auto':       return [...subsystemCandidates(ctx), ...hackingCandidates(ctx)];
+	}
+}
+
+/**
+ * Pick the purchase to make now, or null to keep banking.
+ *
+ * Walks the strategy's wish-list and buys the first affordable item. While the
+ * top wish is reachable (cost ≤ capacity) but not yet affordable it waits for
+ * it rather than spending on something lower down — unless it's more than
+ * HASH_WISH_MAX_WAIT_S away at the current rate, in which case the next
+ * affordable wish goes ahead, or the store is nearly full, in which case
+ * hashes are sold for money instead of wasted.
+ */
+export function chooseHashPurchase(strategy: HashStrategy, ctx: HashContext): HashPurchase | null {
+	const cost = (u: HashUpgrade): number => ctx.costs[u] ?? Infinity;
+	const reachable = hashCandidates(strategy, ctx).filter(c => cost(c.upgrade) <= ctx.capacity);
+
+	const first = reachable[0];
+	if (first && cost(first.upgrade) <= ctx.hashes) return first;
+
+	const waitS = first && ctx.rate > 0 ? (cost(first.upgrade) - ctx.hashes) / ctx.rate : Infinity;
+	if (first && waitS > HASH_WISH_MAX_WAIT_S) {
+		const next = reachable.find(c => cost(c.upgrade) <= ctx.hashes);
+		if (next) return { ...next, reason: `${next.reason}; ${first.upgrade} too far off` };
+	}
+
+	const nearlyFull = ctx.hashes >= ctx.capacity * HASH_OVERFLOW_FRACTION;
+	if (nearlyFull || reachable.length === 0) {
+		if (cost(HashUpgrade.sellForMoney) <= ctx.hashes) {
+			return { upgrade: HashUpgrade.sellForMoney, reason: first ? 'overflow' : 'nothing else to buy' };
+		}
+	}
+	return null;
+}
+
+// ── Persistence (status/hash_spend.json) ─────────────────────────────────────
+
+export interface HashSpendSummary {
+	strategy: HashStrategy;
+	last:     string;                   // "<upgrade> → <target>" of the latest purchase ('' = none)
+	reason:   string;                   // why `last` was chosen
+	spent:    Record<string, number>;   // total hashes spent per upgrade name, this run
+	ts:       number;                   // ms epoch (0 = never published)
+}
+
+export const EMPTY_HASH_SPEND: HashSpendSummary = { strategy: 'auto', last: '', reason: '', spent: {}, ts: 0 };
+
+const HASH_SPEND_FILE = 'status/hash_spend.json';
+
+/** Read the spend summary. Missing/corrupt → EMPTY_HASH_SPEND. Never throws. */
+export function loadHashSpend(ns: NS): HashSpendSummary {
+	try {
+		const raw = ns.read(HASH_SPEND_FILE);
+		if (!raw || raw.trim() === '') return EMPTY_HASH_SPEND;
+		return { ...EMPTY_HASH_SPEND, ...(JSON.parse(raw) as Partial<HashSpendSummary>) };
+	} catch {
+		return EMPTY_HASH_SPEND;
+	}
+}
+
+/** Producer side: overwrite the spend summary. */
+export function saveHashSpend(ns: NS, s: HashSpendSummary): void {
+	ns.write(HASH_SPEND_FILE, JSON.stringify(s, null, 2), 'w');
+}
@@ -0,0 +1,130 @@
+/**
+ * Lease table — who holds the player's single current-work slot and the DOM.
+ *
+ * The game runs one "current work" at a time (faction/company work, a course,
+ * a crime, a graft): starting any of them silently replaces whatever was
+ * running. DOM-driving code (player/ui_actions.ts) has the same problem with
+ * the visible page. Every script that starts work or clicks takes a lease on
+ * the resource first:
+ *
+ *   · a lease is granted when the resource is free, its lease has expired,
+ *     the requester already holds it (a renew), or the requester's priority
+ *     is strictly higher than the holder's (preemption);
+ *   · a preempted holder finds out on its next renew and must back off —
+ *     it must not restart its work;
+ *   · leases expire `ttlMs` after their last acquire/renew, so a holder that
+ *     died never blocks anyone for long.
+ *
+ * The table lives on PORT_BUS_LOCK (lib/lock_bus.ts); this module is the pure
+ * table logic. Node-testable from dist/.
+ */
+
+export type LockResource = 'work' | 'dom';
+
+export const LOCK_RESOURCES: readonly LockResource[] = ['work', 'dom'];
+
+export interface Lease {
+	resource:   LockResource;
+	owner:      string;   // holder's role, for display
+	pid:        number;   // holder's process — its identity for renew/release
+	priority:   number;
+	acquiredAt: number;   // ms epoch of the first grant (kept across renews)
+	expiresAt:  number;
+}
+
+export interface LeaseTable {
+	ts:     number;
+	leases: Partial<Record<LockResource, Lease>>;
+}
+
+export interface LeaseRequest {
+	resource: LockResource;
+	owner:    string;
+	pid:      number;
+	priority: number;
+	ttlMs:    number;
+}
+
+export interface LeaseResult {
+	table:   LeaseTable;
+	granted: boolean;
+	holder:  Lease | null;   // the lease in force after the call
+}
+
+export const EMPTY_LEASES: LeaseTable = { ts: 0, leases: {} };
+
+/** Default lease length. Holders renew well inside it. */
+export const LOCK_TTL_MS = 30_000;
+
+/**
+ * Lease priority per holder — higher preempts lower.
+ *   grafting  user-approved, paid up front, minutes long
+ *   faction   rep toward the next augmentation
+ *   study     brain.ts's pre-SF4 course
+ *   ui        brain.ts / ui_actions.ts DOM clicks
+ *   crime     idle karma/money grinding
+ */
+export const LOCK_PRIORITY = {
+	grafting: 40,
+	faction:  30,
+	study:    20,
+	ui:       20,
+	crime:    10,
+} as const;
+
+/** Parse the table off the port. Missing/corrupt → null. Never throws. */
+export function parseLeaseTable(raw: string | null): LeaseTable | null {
+	if (!raw) return null;
+	try {
+		const t = JSON.parse(raw) as LeaseTable;
+		return typeof t.ts === 'number' && t.leases && typeof t.leases === 'object' ? t : null;
+	} catch {
+		return null;
+	}
+}
+
+/** The unexpired lease on `resource`, or null if it's free. */
+export function liveLease(table: LeaseTable, resource: LockResource, now: number): Lease | null {
+	const lease = table.leases[resource];
+	return lease && lease.expiresAt > now ? lease : null;
+}
+
+export function acquireLease(table: LeaseTable, req: LeaseRequest, now: number): LeaseResult {
+	const current = liveLease(table, req.resource, now);
+	if (current && current.pid !== req.pid && req.priority <= current.priority) {
+		return { table, granted: false, holder: current };
+	}
+	const lease: Lease = {
+		resource:   req.resource,
+		owner:      req.owner,
+		pid:        req.pid,
+		priority:   req.priority,
+		acquiredAt: current?.pid === req.pid ? current.acquiredAt : now,
+		expiresAt:  now + req.ttlMs,
+	};
+	return { table: { ts: now, leases: { ...table.leases, [req.resource]: lease } }, granted: true, holder: lease };
+}
+
+/**
+ * Extend `pid`'s lease. Fails once it was preempted or taken after expiring;
+ * an expired lease nobody took is renewed.
+ */
+export function renewLease(table: LeaseTable, resource: LockResource, pid: number, ttlMs: number, now: number): LeaseResult {
+	const lease = table.leases[resource];
+	if (!lease || lease.pid !== pid) return { table, granted: false, holder: liveLease(table, resource, now) };
+	const renewed: Lease = { ...lease, expiresAt: now + ttlMs };
+	return { table: { ts: now, leases: { ...table.leases, [resource]: renewed } }, granted: true, holder: renewed };
+}
+
+/** Drop `pid`'s lease. A no-op when someone else holds it. */
+export function releaseLease(table: LeaseTable, resource: LockResource, pid: number, now: number): LeaseTable {
+	if (table.leases[resource]?.pid !== pid) return table;
+	const leases = { ...table.leases };
+	delete leases[resource];
+	return { ts: now, leases };
+}
+
+/** Unexpired leases in LOCK_RESOURCES order, for display. */
+export function activeLeases(table: LeaseTable, now: number): Lease[] {
+	return LOCK_RESOURCES.map(r => liveLease(table, r, now)).filter((l): l is Lease => l !== null);
+}
@@ -0,0 +1,75 @@
+import type { NS } from '@ns';
+import { PORT_BUS_LOCK, peekPort, popPort, pushPort } from './ports';
+import {
+	acquireLease, renewLease, releaseLease, parseLeaseTable,
+	EMPTY_LEASES, LOCK_TTL_MS,
+} from './lease_table';
+import type { LeaseTable, LeaseResult, LockResource } from './lease_table';
+
+/**
+ * Lock service — lease locks over PORT_BUS_LOCK (table logic: lib/lease_table.ts).
+ *
+ * The port holds exactly one message: the whole LeaseTable. Each call pops it,
+ * applies the change and writes it back with no await in between, so it is
+ * atomic under the game's single-threaded script scheduler. A holder is
+ * identified by its pid; renew/release act on the calling script's own lease.
+ *
+ * Port reads/writes cost 0 GB, so any script may import this.
+ */
+
+/** Pop the table off the port. Pair with putTable() with no await in between. */
+function takeTable(ns: NS): LeaseTable {
+	// Normally one message; if two writers ever interleaved, the newest table wins.
+	let table = EMPTY_LEASES;
+	for (let raw = popPort(ns, PORT_BUS_LOCK); raw !== null; raw = popPort(ns, PORT_BUS_LOCK)) {
+		const parsed = parseLeaseTable(raw);
+		if (parsed && parsed.ts >= table.ts) table = parsed;
+	}
+	return table;
+}
+
+function putTable(ns: NS, table: LeaseTable): void {
+	pushPort(ns, PORT_BUS_LOCK, JSON.stringify(table));
+}
+
+/** Take (or renew) a lease on `resource`. `granted: false` carries the holder that kept it. */
+export function acquireLock(ns: NS, resource: LockResource, owner: string, priority: number, ttlMs = LOCK_TTL_MS): LeaseResult {
+	const result = acquireLease(takeTable(ns), { resource, owner, pid: ns.pid, priority, ttlMs }, Date.now());
+	putTable(ns, result.table);
+	return result;
+}
+
+/** Extend this script's lease. False once it was preempted — stop, don't restart the work. */
+export function renewLock(ns: NS, resource: LockResource, ttlMs = LOCK_TTL_MS): boolean {
+	const result = renewLease(takeTable(ns), resource, ns.pid, ttlMs, Date.now());
+	putTable(ns, result.table);
+	return result.granted;
+}
+
+export function releaseLock(ns: NS, resource: LockResource): void {
+	putTable(ns, releaseLease(takeTable(ns), resource, ns.pid, Date.now()));
+}
+
+/**
+ * Run `fn` under a lease on `resource`, releasing it afterwards. Returns `busy`
+ * without running `fn` when the lease is held by someone of equal or higher priority.
+ */
+export async function withLock<T>(
+	ns: NS, resource: LockResource, owner: string, priority: number, busy: T, fn: () => Promise<T>,
+): Promise<T> {
+	const { granted, holder } = acquireLock(ns, resource, owner, priority);
+	if (!granted) {
+		ns.print(`[lock] ${resource} held by ${holder?.owner ?? '?'} (pid ${holder?.pid ?? '?'}) — skipped`);
+		return busy;
+	}
+	try {
+		return await fn();
+	} finally {
+		releaseLock(ns, resource);
+	}
+}
+
+/** Current table, for display. Read-only peek. Never throws. */
+export function readLeases(ns: NS): LeaseTable {
+	return parseLeaseTable(peekPort(ns, PORT_BUS_LOCK)) ?? EMPTY_LEASES;
+}
@@ -16,9 +16,9 @@ export const PORT_DECISION = 4;
 // Future bus channels — reserve now, implement in Phase 3
 /** Bus: daemon self-registration events. */
 export const PORT_BUS_REGISTER = 5;
-/** Bus: distributed lock acquire/release events. */
+/** Bus: work-slot / DOM lease table — one message, rewritten in place (lib/lock_bus.ts). */
 export const PORT_BUS_LOCK = 6;
-/** Bus: task START/DONE accounting events. */
+/** Bus: task START/DONE accounting events (resident pool workers report DONE here — lib/worker_pool.ts). */
 export const PORT_BUS_TASK = 7;
 /** Bus: phase-detector publishes current Phase enum value here. */
 export const PORT_PHASE = 8;
@@ -0,0 +1,199 @@
+import type { NS } from '@ns';
+
+/**
+ * RAM purchase planner for compute/pserv_manager.ts — new pserv vs. upgrading
+ * the smallest vs. home RAM/cores.
+ *
+ * Spending follows a time-decay reserve: right after an install nearly all
+ * money is spendable (RAM compounds), and the reserved share climbs as the node
+ * ages, leaving money for augmentations:
+ *
+ *   reserved = 1 − (1 − RESERVE_INITIAL) · (1 − RESERVE_DECAY_PER_MIN)^minutesSinceAug
+ *
+ * (5% at the install, ~75% after 6 h.)
+ *
+ * Every option is priced in batch income: the GB it adds × what one more GB is
+ * worth to the HWGW plan (status/compute.json; lower while the plan leaves RAM
+ * idle) × the seconds of this node left once it's bought (lib/reset_horizon.ts).
+ * Options:
+ *   buy        a new pserv, at the biggest tier the budget covers
+ *   upgrade    the smallest pserv, likewise (it's deleted and rebought)
+ *   homeRam    double home RAM
+ *   homeCores  one more home core — home's grow/weaken threads go further
+ * The best income per dollar that pays for itself goes next. `planPurchases`
+ * repeats that on the planned state to lay out a schedule with an ETA per step
+ * from current income; it's published to `status/pserv_plan.json`. Before the
+ * batcher has an estimate, options rank by GB per dollar with no cutoff.
+ *
+ * Pure apart from the status-file load/save — node-testable from dist/.
+ */
+
+export type PurchaseAction = 'buy' | 'upgrade' | 'homeRam' | 'homeCores';
+
+export interface PservPlanInputs {
+	budget:        number;   // spendable now, after the reserve
+	incomePerSec:  number;   // batch income refilling it (0 = unknown)
+	moneyPerGbSec: number;   // HWGW plan's $/s for one more GB (0 = no estimate yet)
+	horizonS:      number;   // seconds of this node left
+	pservs:        { host: string; ram: number }[];
+	pservLimit:    number;
+	pservCost:     Record<number, number>;   // price per power-of-2 RAM tier
+	minRam:        number;   // smallest pserv worth buying
+	maxRam:        number;
+	homeRam:       number;
+	homeCores:     number;
+	homeRamCost:   number;   // Infinity without Singularity
+	homeCoresCost: number;
+}
+
+export interface PlannedPurchase {
+	action:   PurchaseAction;
+	host:     string;
+	from:     number;   // GB (cores for homeCores)
+	to:       number;
+	cost:     number;
+	gainGb:   number;   // batch RAM it adds (homeCores: 1-core GB its bonus saves)
+	roi:      number;   // income over the rest of the node per dollar (GB per dollar without an estimate)
+	paybackS: number;   // seconds to earn its cost back (0 without an estimate)
+	etaS:     number;   // until affordable at current income, after the steps before it (0 = now)
+}
+
+export interface PservPlan {
+	ts:            number;   // ms epoch (0 = never published)
+	budget:        number;
+	reserved:      number;   // share of money held back
+	horizonS:      number;
+	moneyPerGbSec: number;
+	basis:         string;   // how options were ranked
+	schedule:      PlannedPurchase[];
+}
+
+export const EMPTY_PSERV_PLAN: PservPlan = {
+	ts: 0, budget: 0, reserved: 0, horizonS: 0, moneyPerGbSec: 0, basis: '', schedule: [],
+};
+
+/** Reserved share at the install. */
+export const RESERVE_INITIAL = 0.05;
+/** Per-minute decay of the unreserved share. */
+export const RESERVE_DECAY_PER_MIN = 0.0037;
+/** Steps `planPurchases` looks ahead. */
+export const PLAN_STEPS = 8;
+/** Home's core cap. */
+export const HOME_MAX_CORES = 8;
+/** Home's RAM cap (2^30 GB). */
+export const HOME_MAX_RAM = 2 ** 30;
+/** Share of a batch's threads that are grow/weaken, i.e. get the core bonus. */
+export const CORE_BONUS_SHARE = 0.9;
+
+const PSERV_PLAN_FILE = 'status/pserv_plan.json';
+
+/** Share of money held back `minutesSinceAug` into the node. */
+export function reservedFraction(minutesSinceAug: number): number {
+	return 1 - (1 - RESERVE_INITIAL) * (1 - RESERVE_DECAY_PER_MIN) ** Math.max(0, minutesSinceAug);
+}
+
+/** GB of 1-core grow/weaken threads one more core saves on `homeRam` (coreBonus in lib/hacking_formulas.ts). */
+export function coreGainGb(homeRam: number, cores: number): number {
+	const bonus = (c: number): number => 1 + (c - 1) / 16;
+	return homeRam * (bonus(cores + 1) / bonus(cores) - 1) * CORE_BONUS_SHARE;
+}
+
+interface PlanState {
+	pservs:    { host: string; ram: number }[];
+	homeRam:   number;
+	homeCores: number;
+	homeRamDone:   boolean;   // home costs are only known for the next step
+	homeCoresDone: boolean;
+	spent:     number;
+}
+
+/** Biggest tier in [minRam, maxRam] the money covers, else the smallest one. Null when there is none. */
+function pickTier(inputs: PservPlanInputs, minRam: number, money: number): number | null {
+	const tiers = Object.keys(inputs.pservCost).map(Number)
+		.filter(t => t >= minRam && t <= inputs.maxRam)
+		.sort((a, b) => a - b);
+	if (tiers.length === 0) return null;
+	const affordable = tiers.filter(t => inputs.pservCost[t] <= money);
+	return affordable.length > 0 ? affordable[affordable.length - 1] : tiers[0];
+}
+
+function price(
+	inputs: PservPlanInputs, state: PlanState,
+	action: PurchaseAction, host: string, from: number, to: number, cost: number, gainGb: number,
+): PlannedPurchase | null {
+	if (!(cost > 0) || !Number.isFinite(cost) || gainGb <= 0) return null;
+	const short = state.spent + cost - inputs.budget;
+	const etaS = short <= 0 ? 0 : inputs.incomePerSec > 0 ? short / inputs.incomePerSec : Infinity;
+	if (!Number.isFinite(etaS)) return null;
+	if (inputs.moneyPerGbSec <= 0) {
+		return { action, host, from, to, cost, gainGb, roi: gainGb / cost, paybackS: 0, etaS };
+	}
+	const perSec = gainGb * inputs.moneyPerGbSec;
+	const roi = perSec * (inputs.horizonS - etaS) / cost;
+	return roi >= 1 ? { action, host, from, to, cost, gainGb, roi, paybackS: cost / perSec, etaS } : null;
+}
+
+function candidates(inputs: PservPlanInputs, state: PlanState): PlannedPurchase[] {
+	const money = Math.max(0, inputs.budget - state.spent);
+	const out: (PlannedPurchase | null)[] = [];
+	if (state.pservs.length < inputs.pservLimit) {
+		const ram = pickTier(inputs, inputs.minRam, money);
+		const host = `pserv-${String(state.pservs.length).padStart(2, '0')}`;
+		if (ram !== null) out.push(price(inputs, state, 'buy', host, 0, ram, inputs.pservCost[ram], ram));
+	}
+	if (state.pservs.length > 0) {
+		const smallest = state.pservs.reduce((min, s) => s.ram < min.ram ? s : min);
+		const ram = pickTier(inputs, smallest.ram * 2, money);
+		if (ram !== null) {
+			out.push(price(inputs, state, 'upgrade', smallest.host, smallest.ram, ram, inputs.pservCost[ram], ram - smallest.ram));
+		}
+	}
+	if (!state.homeRamDone && state.homeRam < HOME_MAX_RAM) {
+		out.push(price(inputs, state, 'homeRam', 'home', state.homeRam, state.homeRam * 2, inputs.homeRamCost, state.homeRam));
+	}
+	if (!state.homeCoresDone && state.homeCores < HOME_MAX_CORES) {
+		out.push(price(inputs, state, 'homeCores', 'home', state.homeCores, state.homeCores + 1,
+			inputs.homeCoresCost, coreGainGb(state.homeRam, state.homeCores)));
+	}
+	return out.filter((p): p is PlannedPurchase => p !== null);
+}
+
+function apply(state: PlanState, p: PlannedPurchase): void {
+	state.spent += p.cost;
+	if (p.action === 'buy') state.pservs.push({ host: p.host, ram: p.to });
+	else if (p.action === 'upgrade') state.pservs = state.pservs.map(s => s.host === p.host ? { ...s, ram: p.to } : s);
+	else if (p.action === 'homeRam') { state.homeRam = p.to; state.homeRamDone = true; }
+	else { state.homeCores = p.to; state.homeCoresDone = true; }
+}
+
+/** Greedy purchase schedule, best income per dollar first. schedule[0] with etaS 0 is buyable now. */
+export function planPurchases(inputs: PservPlanInputs, steps = PLAN_STEPS): PlannedPurchase[] {
+	const state: PlanState = {
+		pservs: inputs.pservs.map(s => ({ ...s })), homeRam: inputs.homeRam, homeCores: inputs.homeCores,
+		homeRamDone: false, homeCoresDone: false, spent: 0,
+	};
+	const schedule: PlannedPurchase[] = [];
+	while (schedule.length < steps) {
+		const best = candidates(inputs, state).sort((a, b) => b.roi - a.roi || a.cost - b.cost)[0];
+		if (!best) break;
+		schedule.push(best);
+		apply(state, best);
+	}
+	return schedule;
+}
+
+/** Read the published plan. Missing/corrupt → EMPTY_PSERV_PLAN. Never throws. */
+export function loadPservPlan(ns: NS): PservPlan {
+	try {
+		const raw = ns.read(PSERV_PLAN_FILE);
+		if (!raw || raw.trim() === '') return EMPTY_PSERV_PLAN;
+		return { ...EMPTY_PSERV_PLAN, ...(JSON.parse(raw) as Partial<PservPlan>) };
+	} catch {
+		return EMPTY_PSERV_PLAN;
+	}
+}
+
+/** Producer side: overwrite the published plan. */
+export function savePservPlan(ns: NS, plan: PservPlan): void {
+	ns.write(PSERV_PLAN_FILE, JSON.stringify(plan, null, 2), 'w');
+}
@@ -0,0 +1,107 @@
+import type { NS } from '@ns';
+
+/**
+ * Reset-horizon estimator — "how long until the next augmentation install?"
+ *
+ * Anything bought with money this life (hacknet nodes, pserv upgrades) is wiped
+ * by the install, so an ROI purchase is only worth it if it pays back before
+ * then. Consumers use `readResetHorizon(...).seconds` as their payoff cutoff.
+ *
+ * Inputs:
+ *  - pendingAugs   — count aug_planner publishes on PORT_AUGS;
+ *  - resetMinAugs  — PHASE_RESET_MIN_AUGS, the count at which phase_detector
+ *                    moves to RESET;
+ *  - rep progress  — faction_manager's current rep/s and ETA to its next aug,
+ *                    published to `status/rep_progress.json` (0 GB to read).
+ *
+ * Model: each missing aug costs about one "next aug" ETA. Later augs usually
+ * need more rep, so this leans short — the safe side for a payoff cutoff.
+ * Without fresh rep data the old fixed 5 h cutoff applies. An ETA of 0 means
+ * the next aug is ready now, not that the rest are: it counts as bought, and
+ * the augs after it get the fixed cutoff since nothing times them yet.
+ */
+
+export interface RepProgress {
+	ts:               number;   // ms epoch (0 = never published)
+	faction:          string;   // faction currently being worked
+	repPerSecond:     number;   // measured rep gain rate for that work
+	secondsToNextAug: number;   // ETA to the rep requirement of the target aug (0 = ready now)
+}
+
+export const EMPTY_REP_PROGRESS: RepProgress = { ts: 0, faction: '', repPerSecond: 0, secondsToNextAug: 0 };
+
+export interface HorizonInputs {
+	pendingAugs:      number;
+	resetMinAugs:     number;
+	repPerSecond:     number;          // 0 = unknown
+	secondsPerAug:    number | null;   // null = no fresh rep data; 0 = next aug ready now
+}
+
+export interface ResetHorizon {
+	seconds: number;   // estimated time until the install
+	basis:   string;   // short human explanation of how `seconds` was reached
+	inputs:  HorizonInputs;
+}
+
+/** Floor: even with the reset due, near-instant paybacks are still worth taking. */
+export const HORIZON_MIN_S = 600;
+/** Ceiling: never justify a payback longer than a day. */
+export const HORIZON_MAX_S = 86_400;
+/** No rep data — the previous fixed MAX_PAYOFF_TIME. */
+export const HORIZON_DEFAULT_S = 18_000;
+/** Rep progress older than this is ignored (faction_manager stopped or stalled). */
+export const REP_PROGRESS_STALE_MS = 10 * 60_000;
+
+const REP_PROGRESS_FILE = 'status/rep_progress.json';
+
+/** Pure estimate from already-gathered inputs. */
+export function estimateResetHorizon(inputs: HorizonInputs): ResetHorizon {
+	const augsLeft = inputs.resetMinAugs - inputs.pendingAugs;
+	if (augsLeft <= 0) {
+		return { seconds: HORIZON_MIN_S, basis: 'reset due', inputs };
+	}
+	if (inputs.secondsPerAug === null || inputs.repPerSecond <= 0) {
+		return { seconds: HORIZON_DEFAULT_S, basis: 'no rep data', inputs };
+	}
+	if (inputs.secondsPerAug <= 0) {
+		return augsLeft === 1
+			? { seconds: HORIZON_MIN_S, basis: 'last aug ready', inputs }
+			: { seconds: HORIZON_DEFAULT_S, basis: `next aug ready, ${augsLeft - 1} more untimed`, inputs };
+	}
+	const raw = augsLeft * inputs.secondsPerAug;
+	const seconds = Math.min(HORIZON_MAX_S, Math.max(HORIZON_MIN_S, raw));
+	return { seconds, basis: `${augsLeft} augs × next-aug ETA`, inputs };
+}
+
+/**
+ * Estimate from status/rep_progress.json plus the caller's PORT_AUGS count and
+ * PHASE_RESET_MIN_AUGS (passed in so this module stays node-importable). 0 GB.
+ */
+export function readResetHorizon(ns: NS, pendingAugs: number, resetMinAugs: number, now = Date.now()): ResetHorizon {
+	const rep = loadRepProgress(ns);
+	const fresh = rep.ts > 0 && now - rep.ts <= REP_PROGRESS_STALE_MS;
+	return estimateResetHorizon({
+		pendingAugs,
+		resetMinAugs,
+		repPerSecond:  fresh ? rep.repPerSecond : 0,
+		secondsPerAug: fresh ? rep.secondsToNextAug : null,
+	});
+}
+
+// ── Persistence (status/rep_progress.json) ───────────────────────────────────
+
+/** Read faction_manager's rep progress. Missing/corrupt → EMPTY_REP_PROGRESS. Never throws. */
+export function loadRepProgress(ns: NS): RepProgress {
+	try {
+		const raw = ns.read(REP_PROGRESS_FILE);
+		if (!raw || raw.trim() === '') return EMPTY_REP_PROGRESS;
+		return { ...EMPTY_REP_PROGRESS, ...(JSON.parse(raw) as Partial<RepProgress>) };
+	} catch {
+		return EMPTY_REP_PROGRESS;
+	}
+}
+
+/** Producer side (faction_manager): overwrite the rep progress. */
+export function saveRepProgress(ns: NS, p: RepProgress): void {
+	ns.write(REP_PROGRESS_FILE, JSON.stringify(p, null, 2), 'w');
+}
@@ -1,4 +1,9 @@
 import type { NS } from '@ns';
+import type { HashStrategy } from './hash_spend';
+import type { BudgetPolicy } from './budget';
+import type { XpFarmMode } from './xp_farm';
+import type { ComputeStrategyId } from './compute_strategy';
+import type { StockStrategyId } from './stock_strategy';
 
 // ── Brain autonomy settings (docs/design/05-thread-p-sequencing.md §1) ────────
 //
@@ -30,11 +35,18 @@ export interface BrainSettings {
 	// Already-autonomous engines, now under the unified model (default ON to preserve behavior):
 	autoHacknet:        boolean;   // default true  — hacknet node/hash manager
 	autoStock:          boolean;   // default true  — stock trading engine
+	stockManipulation:  boolean;   // default false — coordinator runs manipulation-only threads on held stocks' servers (lib/stock_coupling.ts)
+	workerPool:         boolean;   // default false — HWGW batches run on resident pool workers instead of an exec per op (lib/worker_pool.ts)
 
 	// ── Tunables ───────────────────────────────────────────────────────────
 	brainRamFloorGb:    number;    // default 16   — home RAM needed to auto-start sequencer
 	verificationDelayMs: number;   // default 500  — wait after action before read-back
 	tickIntervalMs:     number;    // default 5000 — sequencer loop cadence
+	hashStrategy:       HashStrategy; // default 'auto' — hacknet hash spender (lib/hash_spend.ts)
+	budgetPolicy:       BudgetPolicy; // default 'normal' — capital allocator policy (lib/budget.ts)
+	xpFarm:             XpFarmMode;   // default 'auto' — coordinator XP-farm mode (lib/xp_farm.ts)
+	computeStrategy:    ComputeStrategyId | 'auto'; // default 'auto' — pin the coordinator's compute strategy (lib/compute_strategy.ts)
+	stockStrategy:      StockStrategyId | 'auto';   // default 'auto' — pin the stock engine's trading strategy (lib/stock_strategy.ts)
 }
 
 /** Keys of BrainSettings whose value is boolean — i.e. the autonomy toggles. */
@@ -59,9 +71,16 @@ export const DEFAULT_SETTINGS: BrainSettings = {
 	autoDonate:          false,
 	autoHacknet:         true,
 	autoStock:           true,
+	stockManipulation:   false,
+	workerPool:          false,
 	brainRamFloorGb:     16,
 	verificationDelayMs: 500,
 	tickIntervalMs:      5000,
+	hashStrategy:        'auto',
+	budgetPolicy:        'normal',
+	xpFarm:              'auto',
+	computeStrategy:     'auto',
+	stockStrategy:       'auto',
 };
 
 // ── Persistence (status/settings.json) ───────────────────────────────────────
@@ -0,0 +1,102 @@
+/**
+ * Slot packing — how an op's threads are laid onto per-host thread slots, and
+ * how fragmented those slots are.
+ *
+ * compute/allocator.ts keeps its utilization-aware 'balanced' placement; the
+ * other strategies are pure functions over the free-slot array:
+ *
+ *   bestFit   the smallest host that takes the whole op, keeping big hosts
+ *             whole for later big ops; a split op that fits on no single
+ *             host fills the largest hosts first (fewest pieces)
+ *   worstFit  the largest host first, leaving the most room on the rest
+ *   spread    an even share on up to `maxHosts` hosts — always split, so one
+ *             killed host loses only a slice of the op (hack)
+ *
+ * Which op uses which is ALLOC_STRATEGY in lib/config.ts.
+ *
+ * Pure — node-testable from dist/.
+ */
+
+export type AllocStrategy = 'balanced' | 'bestFit' | 'worstFit' | 'spread';
+
+export type PackStrategy = Exclude<AllocStrategy, 'balanced'>;
+
+export interface Fragmentation {
+	hosts:       number;   // hosts with at least one free slot
+	freeSlots:   number;
+	largestSlot: number;   // most threads one host takes — the biggest unsplit op that fits
+	wastedGb:    number;   // free RAM left in per-host remainders too small for a thread
+	ratio:       number;   // 1 − largestSlot / freeSlots: 0 = one block, → 1 = scattered
+}
+
+/** Host indices by free slots, largest first (index order breaks ties). */
+function bySizeDesc(free: readonly number[]): number[] {
+	return free.map((_, i) => i).sort((a, b) => free[b] - free[a] || a - b);
+}
+
+/** Fill hosts in `order` until `count` threads are placed. */
+function fill(free: readonly number[], count: number, order: number[]): number[] | null {
+	const allocation = free.map(() => 0);
+	let remaining = count;
+	for (const i of order) {
+		if (remaining <= 0) break;
+		const take = Math.min(free[i], remaining);
+		if (take <= 0) continue;
+		allocation[i] = take;
+		remaining -= take;
+	}
+	return remaining > 0 ? null : allocation;
+}
+
+/** Even shares over the `maxHosts` largest hosts; small hosts give what they have, the rest is reshared. */
+function spread(free: readonly number[], count: number, maxHosts: number): number[] | null {
+	const hosts = bySizeDesc(free).filter(i => free[i] > 0).slice(0, Math.max(1, Math.min(maxHosts, count))).reverse();
+	const allocation = free.map(() => 0);
+	let remaining = count;
+	hosts.forEach((i, k) => {
+		const take = Math.min(free[i], Math.ceil(remaining / (hosts.length - k)));
+		allocation[i] = take;
+		remaining -= take;
+	});
+	return remaining > 0 ? null : allocation;
+}
+
+/**
+ * Place `count` threads on `free` (slots per host) with `strategy`.
+ * Returns the per-host allocation, or null if it doesn't fit.
+ */
+export function packSlots(
+	free: readonly number[],
+	count: number,
+	splitable: boolean,
+	strategy: PackStrategy,
+	maxHosts = Infinity,
+): number[] | null {
+	if (count <= 0) return free.map(() => 0);
+	if (strategy === 'spread') return spread(free, count, maxHosts);
+
+	const desc = bySizeDesc(free);
+	const single = strategy === 'bestFit'
+		? [...desc].reverse().find(i => free[i] >= count)
+		: desc.find(i => free[i] >= count);
+	if (single !== undefined) {
+		const allocation = free.map(() => 0);
+		allocation[single] = count;
+		return allocation;
+	}
+	return splitable ? fill(free, count, desc) : null;
+}
+
+/** Fragmentation of the botnet's free RAM, for `slotRam` GB per thread slot. */
+export function fragmentation(freeRam: readonly number[], slotRam: number): Fragmentation {
+	let hosts = 0, freeSlots = 0, largestSlot = 0, wastedGb = 0;
+	for (const ram of freeRam) {
+		if (ram <= 0) continue;
+		const slots = slotRam > 0 ? Math.floor(ram / slotRam) : 0;
+		if (slots > 0) hosts++;
+		freeSlots += slots;
+		largestSlot = Math.max(largestSlot, slots);
+		wastedGb += ram - slots * slotRam;
+	}
+	return { hosts, freeSlots, largestSlot, wastedGb, ratio: freeSlots > 0 ? 1 - largestSlot / freeSlots : 0 };
+}
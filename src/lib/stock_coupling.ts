@@ -0,0 +1,132 @@
+/**
+ * Stock ↔ hack coupling — shared between stock/main.ts (producer) and
+ * compute/coordinator.ts + hwgw_batcher.ts (consumers).
+ *
+ * The stock engine publishes its open positions to PORT_STOCK each cycle as a
+ * `StockPosition[]` JSON array. The coordinator maps each symbol to the
+ * company's server and biases the batcher:
+ *   long  → grow() runs with `stock: true` (growing money pushes the price up);
+ *   short → hack() runs with `stock: true` (draining money pushes it down).
+ * A symbol held both ways is ambiguous and left alone.
+ *
+ * With settings.stockManipulation on, held servers that aren't already being
+ * batched also get manipulation-only threads (grow/weaken for longs,
+ * hack/weaken for shorts) from idle RAM.
+ *
+ * Zero runtime imports: node-testable from dist/ (test/stock_coupling.test.mjs).
+ */
+
+/** Per-symbol report written to PORT_STOCK each cycle.
+ *  Matches Zharay port-16 schema: zharay.md §"Stock Trading" → reportStocks().
+ */
+export interface StockPosition {
+	sym:             string;
+	long:            boolean;
+	short:           boolean;
+	/** profitPotential = volatility * (forecast - 0.5); Zharay formula (unadjusted).
+	 *  Positive = bullish (grow the underlying), negative = bearish (hack it). */
+	profitPotential: number;
+	/** Change in profitPotential since position was opened: see Stock.profitChange().
+	 *  Momentum decay (<-25% long / >+25% short) is also used by trader.ts's
+	 *  checkPositionManagement() as a sell trigger. */
+	profitChange:    number;
+}
+
+export type StockBias = 'long' | 'short';
+
+/** A manipulation-only job for a held server nobody is batching. */
+export interface ManipulationJob {
+	host: string;
+	sym:  string;
+	op:   'grow' | 'hack';
+}
+
+/** Share of idle botnet RAM manipulation-only threads may take per target scan. */
+export const MANIPULATION_RAM_FRACTION = 0.25;
+
+/** Ticker → company server (bitburner-src StockMarket/data + Server data). WDS has no server. */
+export const STOCK_SERVERS: Readonly<Record<string, string>> = {
+	ECP:   'ecorp',
+	MGCP:  'megacorp',
+	BLD:   'blade',
+	CLRK:  'clarkinc',
+	OMTK:  'omnitek',
+	FSIG:  '4sigma',
+	KGI:   'kuai-gong',
+	FLCM:  'fulcrumtech',
+	STM:   'stormtech',
+	DCOMM: 'defcomm',
+	HLS:   'helios',
+	VITA:  'vitalife',
+	ICRS:  'icarus',
+	UNV:   'univ-energy',
+	AERO:  'aerocorp',
+	OMN:   'omnia',
+	SLRS:  'solaris',
+	GPH:   'global-pharm',
+	NVMD:  'nova-med',
+	LXO:   'lexo-corp',
+	RHOC:  'rho-construction',
+	APHE:  'alpha-ent',
+	SYSC:  'syscore',
+	CTK:   'comptek',
+	NTLK:  'netlink',
+	OMGA:  'omega-net',
+	FNS:   'foodnstuff',
+	SGC:   'sigma-cosmetics',
+	JGN:   'joesguns',
+	CTYS:  'catalyst',
+	MDYN:  'microdyne',
+	TITN:  'titan-labs',
+};
+
+/** Parse a PORT_STOCK payload. Missing/corrupt → []. Never throws. */
+export function parseStockPositions(raw: string | null): StockPosition[] {
+	if (!raw) return [];
+	try {
+		const parsed = JSON.parse(raw) as unknown;
+		return Array.isArray(parsed) ? parsed as StockPosition[] : [];
+	} catch {
+		return [];
+	}
+}
+
+/** Server → which way to push it, for every unambiguous held position with a server. */
+export function stockBiasByHost(positions: StockPosition[]): Map<string, StockBias> {
+	const bias = new Map<string, StockBias>();
+	for (const p of positions) {
+		const host = STOCK_SERVERS[p.sym];
+		if (!host || p.long === p.short) continue;
+		bias.set(host, p.long ? 'long' : 'short');
+	}
+	return bias;
+}
+
+/**
+ * Manipulation-only jobs: biased servers not in `batched` that pass `eligible`
+ * (rooted, hackable, not still cooling down), strongest |profitPotential| first.
+ */
+export function planManipulation(
+	positions: StockPosition[],
+	batched: ReadonlySet<string>,
+	eligible: (host: string) => boolean,
+): ManipulationJob[] {
+	const strength = new Map(positions.map(p => [STOCK_SERVERS[p.sym], Math.abs(p.profitPotential)]));
+	const jobs: ManipulationJob[] = [];
+	for (const [host, bias] of stockBiasByHost(positions)) {
+		if (batched.has(host) || !eligible(host)) continue;
+		const sym = Object.keys(STOCK_SERVERS).find(s => STOCK_SERVERS[s] === host) ?? '';
+		jobs.push({ host, sym, op: bias === 'long' ? 'grow' : 'hack' });
+	}
+	return jobs.sort((a, b) => (strength.get(b.host) ?? 0) - (strength.get(a.host) ?? 0));
+}
+
+/**
+ * Security-neutral split of `threads` into the job's op + weaken, weaken
+ * rounded up. `increase` is the op's per-thread security gain.
+ */
+export function splitManipulationThreads(threads: number, increase: number, weakenDecrease: number): { op: number; weaken: number } {
+	if (threads <= 0) return { op: 0, weaken: 0 };
+	const weaken = Math.min(threads, Math.ceil(threads * increase / (increase + weakenDecrease)));
+	return { op: threads - weaken, weaken };
+}
@@ -0,0 +1,118 @@
+import type { NS } from '@ns';
+
+/**
+ * Persisted pre-4S forecaster state (`status/stock_history.json`).
+ *
+ * stock/market.ts builds its forecasts from per-stock tick history (newest
+ * first) and a detected market-cycle position; both lived only in memory, so
+ * every relaunch of stock/main.ts sat through `minTickHistory` ticks blind.
+ * The market saves this snapshot each tick and restores it on startup.
+ *
+ * Prices are stored at PRICE_DIGITS significant digits and written without
+ * indentation to keep the file small (33 stocks × 151 ticks). Each stock also
+ * keeps the last ask seen, so the first refresh after a restore can tell
+ * whether the market ticked in between.
+ *
+ * A restore is only trusted across a short gap: the history is a tick series,
+ * and ticks missed while the script was down leave a hole in it. Up to
+ * MAX_GAP_TICKS are bridged by advancing the cycle position and inversion ages
+ * (by one less than the gap — the first refresh observes the latest tick
+ * itself); anything longer is stale and the forecaster warms up from scratch.
+ */
+
+export interface SymbolHistory {
+	prices:        number[];   // mid prices, newest first
+	ask:           number;     // last ask seen
+	lastInversion: number;     // ticks since the last trusted inversion
+}
+
+export interface StockHistory {
+	ts:                 number;   // ms epoch of the last recorded tick (0 = never)
+	cycleTick:          number;   // detected position in the market cycle
+	cycleDetected:      boolean;
+	agreementThreshold: number;   // inversions that must agree to re-sync the cycle
+	symbols:            Record<string, SymbolHistory>;
+}
+
+export interface RestoredHistory {
+	history:  StockHistory | null;   // null = nothing usable
+	gapTicks: number;                // ticks missed since the snapshot
+	reason:   string;
+}
+
+export const EMPTY_STOCK_HISTORY: StockHistory = {
+	ts: 0, cycleTick: 0, cycleDetected: false, agreementThreshold: 0, symbols: {},
+};
+
+/** One stock-market tick. */
+export const STOCK_TICK_MS = 6_000;
+/** Longest gap a restore bridges. */
+export const MAX_GAP_TICKS = 10;
+/** Significant digits kept per stored price. */
+export const PRICE_DIGITS = 6;
+
+const STOCK_HISTORY_FILE = 'status/stock_history.json';
+
+/** Round for storage. */
+export function compactPrice(price: number): number {
+	return Number(price.toPrecision(PRICE_DIGITS));
+}
+
+/** Storage form of a snapshot: prices rounded. */
+export function packHistory(h: StockHistory): StockHistory {
+	const symbols: Record<string, SymbolHistory> = {};
+	for (const [sym, s] of Object.entries(h.symbols)) {
+		symbols[sym] = { prices: s.prices.map(compactPrice), ask: s.ask, lastInversion: s.lastInversion };
+	}
+	return { ...h, symbols };
+}
+
+/**
+ * Decide whether a saved snapshot can seed the forecaster at `now`.
+ * Bridged gaps advance `cycleTick` (mod `cycleLength`) and every
+ * `lastInversion` by the ticks the next refresh won't see.
+ */
+export function restoreHistory(
+	saved: StockHistory,
+	now: number,
+	cycleLength: number,
+	maxGapTicks = MAX_GAP_TICKS,
+): RestoredHistory {
+	if (saved.ts <= 0 || Object.keys(saved.symbols).length === 0) {
+		return { history: null, gapTicks: 0, reason: 'no saved history' };
+	}
+	const gapTicks = Math.max(0, Math.floor((now - saved.ts) / STOCK_TICK_MS));
+	if (gapTicks > maxGapTicks) {
+		return { history: null, gapTicks, reason: `stale: ${gapTicks} ticks missed (max ${maxGapTicks})` };
+	}
+	const advance = Math.max(0, gapTicks - 1);
+	const symbols: Record<string, SymbolHistory> = {};
+	for (const [sym, s] of Object.entries(saved.symbols)) {
+		symbols[sym] = { ...s, prices: [...s.prices], lastInversion: s.lastInversion + advance };
+	}
+	return {
+		history: {
+			...saved,
+			cycleTick: cycleLength > 0 ? (saved.cycleTick + advance) % cycleLength : saved.cycleTick,
+			symbols,
+		},
+		gapTicks,
+		reason: gapTicks > 0 ? `restored across ${gapTicks} missed ticks` : 'restored',
+	};
+}
+
+/** Read the saved snapshot. Missing/corrupt → EMPTY_STOCK_HISTORY. Never throws. */
+export function loadStockHistory(ns: NS): StockHistory {
+	try {
+		const raw = ns.read(STOCK_HISTORY_FILE);
+		if (!raw || raw.trim() === '') return EMPTY_STOCK_HISTORY;
+		return { ...EMPTY_STOCK_HISTORY, ...(JSON.parse(raw) as Partial<StockHistory>) };
+	} catch {
+		return EMPTY_STOCK_HISTORY;
+	}
+}
+
+/** Producer side: overwrite the snapshot (compact, no indentation). */
+export function saveStockHistory(ns: NS, h: StockHistory): void {
+	ns.write(STOCK_HISTORY_FILE, JSON.stringify(packHistory(h)), 'w');
+}
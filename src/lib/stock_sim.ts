@@ -0,0 +1,389 @@
+/**
+ * Offline stock market — the game's stock mechanics, seeded, behind an
+ * `ns.stock`-shaped facade, so build/stock_backtester.ts can drive StockTrader in node.
+ *
+ * Modeled on the game's StockMarket.ts:
+ *   · each stock has a direction `b` and an outlook magnitude `otlkMag`
+ *     (forecast = 0.5 ± otlkMag/100), plus a second-order `otlkMagForecast`
+ *     (0–100) the forecast drifts toward;
+ *   · every tick one shared roll v sets each stock's move av = v·mv/100; the
+ *     price goes ×(1+av) with the forecast's probability, else ÷(1+av), and the
+ *     outlook drifts by otlkMag·av (a flat 1, or ×10, while it's under 5);
+ *   · every TICKS_PER_CYCLE ticks each stock inverts with CYCLE_FLIP_CHANCE —
+ *     `b` flips and the second-order forecast mirrors around 50;
+ *   · quotes are price·(1 ± spreadPerc/100) and every fill pays COMMISSION;
+ *   · a fill of n shares moves the price against the trader by
+ *     influence · 100 · n/maxShares (StockConfig's transactionInfluenceFactor);
+ *   · limit/stop orders are checked against each new price right after it
+ *     moves and fill at the market quote (`orderTriggered`).
+ *
+ * One mulberry32 stream drives everything, so a seed replays a market exactly.
+ * Fills are booked with their commission, so the fills' pnl sums to realized
+ * P&L; `simReport` adds the equity curve the runner records each tick.
+ *
+ * Pure — node-testable from dist/.
+ */
+
+export interface SimStock {
+	symbol:          string;
+	price:           number;
+	maxShares:       number;
+	mv:              number;   // max % move per tick
+	spreadPerc:      number;   // half-spread, % of price
+	b:               boolean;  // bullish
+	otlkMag:         number;   // 0–50
+	otlkMagForecast: number;   // 0–100, where the absolute forecast drifts
+	sharesLong:      number;
+	avgLong:         number;
+	sharesShort:     number;
+	avgShort:        number;
+}
+
+export type FillSide = 'long' | 'short';
+
+export interface SimFill {
+	tick:   number;
+	symbol: string;
+	side:   FillSide;
+	open:   boolean;   // false = closing (sell / cover)
+	shares: number;
+	price:  number;
+	pnl:    number;    // −COMMISSION on opens; gain − COMMISSION on closes
+}
+
+export type OrderType = 'Limit Buy Order' | 'Limit Sell Order' | 'Stop Buy Order' | 'Stop Sell Order';
+
+/** A resting order, shaped like ns.stock.getOrders()'s entries. */
+export interface SimOrder {
+	shares:   number;
+	price:    number;
+	type:     OrderType;
+	position: 'L' | 'S';
+}
+
+export interface SimMarket {
+	tick:      number;
+	money:     number;
+	stocks:    SimStock[];
+	fills:     SimFill[];
+	orders:    Record<string, SimOrder[]>;
+	equity:    number[];   // net worth per recorded tick
+	influence: number;
+	rng:       number;     // mulberry32 state
+}
+
+export interface SimOptions {
+	seed:       number;
+	money:      number;
+	stocks?:    number;   // default SIM_STOCKS
+	influence?: number;   // default SIM_INFLUENCE
+}
+
+export interface SimReport {
+	ticks:         number;
+	startMoney:    number;
+	endNetWorth:   number;
+	pnl:           number;
+	returnPct:     number;
+	trades:        number;   // closed positions
+	wins:          number;
+	winRate:       number;
+	commissions:   number;
+	maxDrawdown:   number;   // worst peak-to-trough share of the equity curve
+	openPositions: number;
+	bySymbol:      Record<string, number>;   // realized P&L
+}
+
+/** Ticks between market cycles. */
+export const TICKS_PER_CYCLE = 75;
+/** Chance a stock inverts at a cycle boundary. */
+export const CYCLE_FLIP_CHANCE = 0.45;
+/** Paid on every fill. */
+export const COMMISSION = 100_000;
+/** The game's stock count. */
+export const SIM_STOCKS = 33;
+/** StockConfig's default transactionInfluenceFactor. */
+export const SIM_INFLUENCE = 0.00008;
+
+/** Next [0, 1) from the market's mulberry32 stream. */
+export function nextRandom(m: SimMarket): number {
+	m.rng = (m.rng + 0x6D2B79F5) | 0;
+	let t = m.rng;
+	t = Math.imul(t ^ (t >>> 15), t | 1);
+	t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+	return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+function between(m: SimMarket, lo: number, hi: number): number {
+	return lo + (hi - lo) * nextRandom(m);
+}
+
+export function createSimMarket(opts: SimOptions): SimMarket {
+	const m: SimMarket = {
+		tick: 0, money: opts.money, stocks: [], fills: [], orders: {}, equity: [],
+		influence: opts.influence ?? SIM_INFLUENCE, rng: opts.seed | 0,
+	};
+	const count = opts.stocks ?? SIM_STOCKS;
+	for (let i = 0; i < count; i++) {
+		const b = nextRandom(m) < 0.5;
+		const otlkMag = between(m, 1, 20);
+		m.stocks.push({
+			symbol:          `S${String(i).padStart(2, '0')}`,
+			price:           Math.round(10 ** between(m, 3, 4.7)),
+			maxShares:       Math.round(between(m, 1e7, 1e8) / 1e5) * 1e5,
+			mv:              between(m, 0.3, 1.5),
+			spreadPerc:      between(m, 0.1, 1),
+			b,
+			otlkMag,
+			otlkMagForecast: b ? 50 + otlkMag : 50 - otlkMag,
+			sharesLong: 0, avgLong: 0, sharesShort: 0, avgShort: 0,
+		});
+	}
+	return m;
+}
+
+/** 0–1 chance the price goes up this tick. */
+export function simForecast(s: SimStock): number {
+	return (50 + (s.b ? s.otlkMag : -s.otlkMag)) / 100;
+}
+
+export function askPrice(s: SimStock): number {
+	return s.price * (1 + s.spreadPerc / 100);
+}
+
+export function bidPrice(s: SimStock): number {
+	return s.price * (1 - s.spreadPerc / 100);
+}
+
+/** Drift the outlook toward the second-order forecast; crossing 0 flips `b`. */
+function cycleForecast(m: SimMarket, s: SimStock, change: number): void {
+	const increaseChance = (100 + s.otlkMagForecast - simForecast(s) * 100) / 200;
+	const up = nextRandom(m) < increaseChance;
+	s.otlkMag += up === s.b ? change : -change;
+	if (s.otlkMag < 0) {
+		s.otlkMag = -s.otlkMag;
+		s.b = !s.b;
+	}
+	s.otlkMag = Math.min(50, s.otlkMag);
+}
+
+function cycleForecastForecast(m: SimMarket, s: SimStock, change: number): void {
+	s.otlkMagForecast = nextRandom(m) < 0.5
+		? Math.min(100, s.otlkMagForecast + change)
+		: Math.max(0, s.otlkMagForecast - change);
+}
+
+/** Advance one market tick. */
+export function simTick(m: SimMarket): void {
+	m.tick++;
+	if (m.tick % TICKS_PER_CYCLE === 0) {
+		for (const s of m.stocks) {
+			if (nextRandom(m) < CYCLE_FLIP_CHANCE) {
+				s.b = !s.b;
+				s.otlkMagForecast = 100 - s.otlkMagForecast;
+			}
+		}
+	}
+	const v = nextRandom(m);
+	for (const s of m.stocks) {
+		const av = v * s.mv / 100;
+		s.price = nextRandom(m) < simForecast(s) ? s.price * (1 + av) : s.price / (1 + av);
+		let change = s.otlkMag * av;
+		if (s.otlkMag < 5) change = s.otlkMag <= 1 ? 1 : change * 10;
+		cycleForecast(m, s, change);
+		cycleForecastForecast(m, s, change / 2);
+		processOrders(m, s);
+	}
+}
+
+function stockOf(m: SimMarket, symbol: string): SimStock {
+	const s = m.stocks.find(x => x.symbol === symbol);
+	if (!s) throw new Error(`Invalid stock symbol: ${symbol}`);
+	return s;
+}
+
+/** Push the price `dir` (+1 up, −1 down) for a fill of `shares`. */
+function impact(m: SimMarket, s: SimStock, shares: number, dir: number): void {
+	s.price *= 1 + dir * m.influence * 100 * shares / s.maxShares;
+}
+
+function book(m: SimMarket, s: SimStock, side: FillSide, open: boolean, shares: number, price: number, gain: number): void {
+	m.fills.push({ tick: m.tick, symbol: s.symbol, side, open, shares, price, pnl: gain - COMMISSION });
+}
+
+/** Open (or add to) a position. Returns the fill price, 0 if refused (cash, or over maxShares). */
+function open(m: SimMarket, symbol: string, shares: number, side: FillSide): number {
+	const s = stockOf(m, symbol);
+	const n = Math.floor(shares);
+	if (!(n > 0) || n + s.sharesLong + s.sharesShort > s.maxShares) return 0;
+	const price = side === 'long' ? askPrice(s) : bidPrice(s);
+	const cost = n * price + COMMISSION;
+	if (cost > m.money) return 0;
+	m.money -= cost;
+	if (side === 'long') {
+		s.avgLong = (s.avgLong * s.sharesLong + price * n) / (s.sharesLong + n);
+		s.sharesLong += n;
+	} else {
+		s.avgShort = (s.avgShort * s.sharesShort + price * n) / (s.sharesShort + n);
+		s.sharesShort += n;
+	}
+	book(m, s, side, true, n, price, 0);
+	impact(m, s, n, side === 'long' ? 1 : -1);
+	return price;
+}
+
+/** Close (part of) a position. Returns the fill price, 0 if there's nothing to close. */
+function close(m: SimMarket, symbol: string, shares: number, side: FillSide): number {
+	const s = stockOf(m, symbol);
+	const held = side === 'long' ? s.sharesLong : s.sharesShort;
+	const n = Math.floor(Math.min(shares, held));
+	if (!(n > 0)) return 0;
+	if (side === 'long') {
+		const price = bidPrice(s);
+		m.money += n * price - COMMISSION;
+		book(m, s, side, false, n, price, n * (price - s.avgLong));
+		s.sharesLong -= n;
+		if (s.sharesLong === 0) s.avgLong = 0;
+		impact(m, s, n, -1);
+		return price;
+	}
+	const price = askPrice(s);
+	const gain = n * (s.avgShort - price);
+	m.money += n * s.avgShort + gain - COMMISSION;
+	book(m, s, side, false, n, price, gain);
+	s.sharesShort -= n;
+	if (s.sharesShort === 0) s.avgShort = 0;
+	impact(m, s, n, 1);
+	return price;
+}
+
+/** Parse the game's loose order arguments ("Stop Sell Order" / "stopsell", "Long" / "L"). */
+function parseOrder(type: string, pos: string): { type: OrderType; position: 'L' | 'S' } | null {
+	const t = type.toLowerCase(), p = pos.toLowerCase();
+	const kind = t.includes('limit') ? 'Limit' : t.includes('stop') ? 'Stop' : null;
+	const side = t.includes('buy') ? 'Buy' : t.includes('sell') ? 'Sell' : null;
+	const position = p.includes('l') ? 'L' : p.includes('s') ? 'S' : null;
+	if (!kind || !side || !position) return null;
+	return { type: `${kind} ${side} Order` as OrderType, position };
+}
+
+/**
+ * Whether `order` fires at `price`. Buy orders open, sell orders close; for a
+ * short position the price conditions mirror (a short's limit sell takes profit
+ * as the price falls).
+ */
+export function orderTriggered(order: SimOrder, price: number): boolean {
+	const long = order.position === 'L';
+	switch (order.type) {
+	case 'Limit Buy Order':  return long ? price <= order.price : price >= order.price;
+	case 'Limit Sell Order': return long ? price >= order.price : price <= order.price;
+	case 'Stop Buy Order':   return long ? price >= order.price : price <= order.price;
+	case 'Stop Sell Order':  return long ? price <= order.price : price >= order.price;
+	}
+}
+
+/** Fill the stock's triggered orders; a filled or unfillable close is dropped, a refused open waits. */
+function processOrders(m: SimMarket, s: SimStock): void {
+	const orders = m.orders[s.symbol];
+	if (!orders || orders.length === 0) return;
+	m.orders[s.symbol] = orders.filter(o => {
+		if (!orderTriggered(o, s.price)) return true;
+		const side: FillSide = o.position === 'L' ? 'long' : 'short';
+		if (o.type.includes('Buy')) return open(m, s.symbol, o.shares, side) === 0;
+		close(m, s.symbol, o.shares, side);
+		return false;
+	});
+}
+
+function placeOrder(m: SimMarket, symbol: string, shares: number, price: number, type: string, pos: string): boolean {
+	stockOf(m, symbol);
+	const parsed = parseOrder(type, pos);
+	if (!parsed || !(shares > 0) || !(price > 0)) return false;
+	(m.orders[symbol] ??= []).push({ shares, price, ...parsed });
+	return true;
+}
+
+function cancelOrder(m: SimMarket, symbol: string, shares: number, price: number, type: string, pos: string): boolean {
+	const parsed = parseOrder(type, pos);
+	const orders = m.orders[symbol] ?? [];
+	const i = orders.findIndex(o => parsed !== null && o.shares === shares && o.price === price &&
+		o.type === parsed.type && o.position === parsed.position);
+	if (i < 0) return false;
+	orders.splice(i, 1);
+	return true;
+}
+
+/** Cash plus every position marked to its closing quote. */
+export function netWorth(m: SimMarket): number {
+	return m.stocks.reduce((sum, s) =>
+		sum + s.sharesLong * bidPrice(s) + s.sharesShort * (2 * s.avgShort - askPrice(s)), m.money);
+}
+
+/**
+ * The subset of `ns.stock` the stock scripts call, backed by `m`. All access
+ * APIs are owned; `has4S` picks between the 4S and pre-4S code paths. Shorts
+ * and orders are always accepted — StockConfig decides whether they're used.
+ */
+export function simStockApi(m: SimMarket, has4S = true) {
+	return {
+		getSymbols:       (): string[] => m.stocks.map(s => s.symbol),
+		getPrice:         (sym: string): number => stockOf(m, sym).price,
+		getAskPrice:      (sym: string): number => askPrice(stockOf(m, sym)),
+		getBidPrice:      (sym: string): number => bidPrice(stockOf(m, sym)),
+		getMaxShares:     (sym: string): number => stockOf(m, sym).maxShares,
+		getForecast:      (sym: string): number => simForecast(stockOf(m, sym)),
+		getVolatility:    (sym: string): number => stockOf(m, sym).mv / 100,
+		getPosition:      (sym: string): [number, number, number, number] => {
+			const s = stockOf(m, sym);
+			return [s.sharesLong, s.avgLong, s.sharesShort, s.avgShort];
+		},
+		buyStock:         (sym: string, shares: number): number => open(m, sym, shares, 'long'),
+		sellStock:        (sym: string, shares: number): number => close(m, sym, shares, 'long'),
+		buyShort:         (sym: string, shares: number): number => open(m, sym, shares, 'short'),
+		sellShort:        (sym: string, shares: number): number => close(m, sym, shares, 'short'),
+		hasWseAccount:    (): boolean => true,
+		hasTixApiAccess:  (): boolean => true,
+		has4SData:        (): boolean => has4S,
+		has4SDataTixApi:  (): boolean => has4S,
+		purchaseWseAccount:     (): boolean => false,
+		purchaseTixApi:         (): boolean => false,
+		purchase4SMarketData:   (): boolean => false,
+		purchase4SMarketDataTixApi: (): boolean => false,
+		placeOrder:       (sym: string, shares: number, price: number, type: string, pos: string): boolean =>
+			placeOrder(m, sym, shares, price, type, pos),
+		cancelOrder:      (sym: string, shares: number, price: number, type: string, pos: string): boolean =>
+			cancelOrder(m, sym, shares, price, type, pos),
+		getOrders:        (): Record<string, SimOrder[]> =>
+			Object.fromEntries(Object.entries(m.orders).filter(([, o]) => o.length > 0).map(([sym, o]) => [sym, o.map(x => ({ ...x }))])),
+	};
+}
+
+/** P&L summary of a run that started with `startMoney`. */
+export function simReport(m: SimMarket, startMoney: number): SimReport {
+	const closes = m.fills.filter(f => !f.open);
+	const bySymbol: Record<string, number> = {};
+	for (const f of m.fills) bySymbol[f.symbol] = (bySymbol[f.symbol] ?? 0) + f.pnl;
+
+	let peak = startMoney, maxDrawdown = 0;
+	for (const e of m.equity) {
+		peak = Math.max(peak, e);
+		if (peak > 0) maxDrawdown = Math.max(maxDrawdown, (peak - e) / peak);
+	}
+
+	const endNetWorth = netWorth(m);
+	const wins = closes.filter(f => f.pnl > 0).length;
+	return {
+		ticks:         m.tick,
+		startMoney,
+		endNetWorth,
+		pnl:           endNetWorth - startMoney,
+		returnPct:     startMoney > 0 ? (endNetWorth / startMoney - 1) * 100 : 0,
+		trades:        closes.length,
+		wins,
+		winRate:       closes.length > 0 ? wins / closes.length : 0,
+		commissions:   m.fills.length * COMMISSION,
+		maxDrawdown,
+		openPositions: m.stocks.filter(s => s.sharesLong > 0 || s.sharesShort > 0).length,
+		bySymbol,
+	};
+}
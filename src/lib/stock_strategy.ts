@@ -0,0 +1,49 @@
+/**
+ * Stock strategy registry — which `StockStrategy` (stock/strategy.ts) the
+ * stock engine trades with.
+ *
+ *   forecast4s    — trade the 4S forecasts: enter on a clear edge over the
+ *                   spread, exit on the trailing stop / target / forecast ladder;
+ *   cycle         — pre-4S: trade the estimated forecasts only with enough tick
+ *                   history, away from recent inversions and outside the
+ *                   blackout before the next expected market cycle flip;
+ *   preservation  — capital preservation: longs only, strong low-volatility
+ *                   forecasts, half-size positions and a tight stop.
+ *
+ * Selection (`chooseStockStrategy`): stock/main.ts `--strategy` flag →
+ * settings.stockStrategy → forecast4s with 4S data, cycle without.
+ *
+ * Pure; node-testable from dist/ (test/stock_strategy.test.mjs).
+ */
+
+export type StockStrategyId = 'forecast4s' | 'cycle' | 'preservation';
+
+export const STOCK_STRATEGY_IDS: readonly StockStrategyId[] = ['forecast4s', 'cycle', 'preservation'];
+
+export const STOCK_STRATEGY_LABELS: Record<StockStrategyId, string> = {
+	forecast4s:   '4S forecast',
+	cycle:        'pre-4S cycle/inversion',
+	preservation: 'capital preservation',
+};
+
+export interface StockStrategyChoice {
+	id:     StockStrategyId;
+	reason: string;
+}
+
+export function isStockStrategyId(s: unknown): s is StockStrategyId {
+	return typeof s === 'string' && (STOCK_STRATEGY_IDS as readonly string[]).includes(s);
+}
+
+/**
+ * Strategy for this tick. `flag` is the stock engine's `--strategy` argument
+ * ('' when not given), `setting` is settings.stockStrategy. An unknown id in
+ * either falls through to the next source.
+ */
+export function chooseStockStrategy(flag: string, setting: string, has4S: boolean): StockStrategyChoice {
+	if (isStockStrategyId(flag)) return { id: flag, reason: '--strategy flag' };
+	if (isStockStrategyId(setting)) return { id: setting, reason: 'forced in settings' };
+	return has4S
+		? { id: 'forecast4s', reason: '4S data' }
+		: { id: 'cycle', reason: 'no 4S data' };
+}
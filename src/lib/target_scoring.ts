@@ -0,0 +1,156 @@
+import type { NS } from '@ns';
+
+/**
+ * Pluggable hack-target scoring (`status/targets.json`).
+ *
+ * compute/target_selector.ts gathers one `TargetFacts` per hackable host
+ * (formula values at the prepared state plus the cost of getting there) and
+ * ranks them with a `ScoringStrategy`. Which strategy applies is a function of
+ * the DesignPhase, unless something upstream pins one (e.g. XP farming):
+ *
+ *   BOOTSTRAP  prepCost        — RAM is tiny; a target that needs a long prep
+ *                                earns nothing for minutes, so discount it.
+ *   EARLY/MID  moneyPerGb      — RAM is the binding constraint: $/s per GB a
+ *                                model HWGW batch occupies.
+ *   LATE       chanceWeighted  — RAM is plentiful, hack threads are not the
+ *                                bottleneck; rank by expected $/s per hack.
+ *   RESET      prepCost        — short horizon left; don't start long preps.
+ *
+ * The selector publishes the ranking + chosen strategy so the console can show
+ * why a target was picked. Pure except for load/save; node-testable from dist/.
+ */
+
+export type ScoringStrategyId = 'moneyPerGb' | 'prepCost' | 'chanceWeighted' | 'xpPerSec';
+
+/** Per-host inputs, all evaluated at min security / max money unless noted. */
+export interface TargetFacts {
+	host:         string;
+	moneyMax:     number;
+	hackChance:   number;   // 0-1
+	hackPercent:  number;   // fraction of money one hack thread steals
+	hackTime:     number;   // ms
+	growTime:     number;   // ms
+	weakenTime:   number;   // ms
+	batchRam:     number;   // GB one model HWGW batch occupies
+	batchMoney:   number;   // expected $ per model batch (chance-weighted)
+	prepSeconds:  number;   // weaken time at current security; 0 when already prepared
+	expPerThread: number;   // hacking XP per completed thread
+}
+
+export interface ScoringStrategy {
+	id:    ScoringStrategyId;
+	label: string;
+	score(f: TargetFacts): number;
+	/** One-line reason shown next to the host in the console. */
+	explain(f: TargetFacts): string;
+}
+
+export interface RankedTarget {
+	host:     string;
+	score:    number;
+	why:      string;
+	prepared: boolean;
+}
+
+export interface TargetRanking {
+	ts:       number;               // ms epoch (0 = never published)
+	phase:    string;               // DesignPhase the ranking was made for
+	strategy: ScoringStrategyId | '';
+	source:   'phase' | 'override' | '';
+	ranking:  RankedTarget[];       // best first, top TARGET_RANKING_KEEP
+}
+
+/** prepCost halves a target's score once its prep takes this long. */
+export const PREP_PENALTY_S = 600;
+/** Entries kept in status/targets.json. */
+export const TARGET_RANKING_KEEP = 10;
+
+export const EMPTY_TARGET_RANKING: TargetRanking = { ts: 0, phase: '', strategy: '', source: '', ranking: [] };
+
+const TARGETS_FILE = 'status/targets.json';
+
+function short(n: number): string {
+	if (!Number.isFinite(n)) return '∞';
+	const abs = Math.abs(n);
+	if (abs >= 1e12) return `${(n / 1e12).toFixed(2)}t`;
+	if (abs >= 1e9)  return `${(n / 1e9).toFixed(2)}b`;
+	if (abs >= 1e6)  return `${(n / 1e6).toFixed(2)}m`;
+	if (abs >= 1e3)  return `${(n / 1e3).toFixed(2)}k`;
+	return n.toFixed(2);
+}
+
+function moneyPerGbSecond(f: TargetFacts): number {
+	if (f.batchRam <= 0 || f.weakenTime <= 0 || !Number.isFinite(f.batchRam)) return 0;
+	return f.batchMoney / (f.batchRam * (f.weakenTime / 1000));
+}
+
+export const SCORING_STRATEGIES: Record<ScoringStrategyId, ScoringStrategy> = {
+	moneyPerGb: {
+		id: 'moneyPerGb',
+		label: '$/s per GB (HWGW)',
+		score: moneyPerGbSecond,
+		explain: f => `$${short(moneyPerGbSecond(f))}/s/GB · batch ${short(f.batchRam)} GB`,
+	},
+	prepCost: {
+		id: 'prepCost',
+		label: '$/s per GB, prep-discounted',
+		score: f => moneyPerGbSecond(f) / (1 + f.prepSeconds / PREP_PENALTY_S),
+		explain: f => `$${short(moneyPerGbSecond(f))}/s/GB · prep ${Math.round(f.prepSeconds)}s`,
+	},
+	chanceWeighted: {
+		id: 'chanceWeighted',
+		label: 'expected $/s per hack thread',
+		score: f => f.hackTime > 0 ? f.moneyMax * f.hackPercent * f.hackChance / (f.hackTime / 1000) : 0,
+		explain: f => {
+			const perSec = f.hackTime > 0 ? f.moneyMax * f.hackPercent * f.hackChance / (f.hackTime / 1000) : 0;
+			return `$${short(perSec)}/s/thread @ ${Math.round(f.hackChance * 100)}% chance`;
+		},
+	},
+	xpPerSec: {
+		id: 'xpPerSec',
+		label: 'hacking XP/s per thread',
+		score: f => f.growTime > 0 ? f.expPerThread / (f.growTime / 1000) : 0,
+		explain: f => `${short(f.growTime > 0 ? f.expPerThread / (f.growTime / 1000) : 0)} xp/s/thread`,
+	},
+};
+
+/** Default strategy for a DesignPhase (unknown/empty phase → moneyPerGb). */
+export function strategyForPhase(phase: string): ScoringStrategyId {
+	switch (phase) {
+		case 'BOOTSTRAP':
+		case 'RESET':
+			return 'prepCost';
+		case 'LATE':
+			return 'chanceWeighted';
+		default:
+			return 'moneyPerGb';
+	}
+}
+
+/** Score and sort `facts` best first. Ties keep input order. */
+export function rankTargets(facts: TargetFacts[], strategy: ScoringStrategyId): RankedTarget[] {
+	const s = SCORING_STRATEGIES[strategy];
+	return facts
+		.map(f => ({ host: f.host, score: s.score(f), why: s.explain(f), prepared: f.prepSeconds === 0 }))
+		.sort((a, b) => b.score - a.score);
+}
+
+// ── Persistence (status/targets.json) ────────────────────────────────────────
+
+/** Read the published ranking. Missing/corrupt → EMPTY_TARGET_RANKING. Never throws. */
+export function loadTargetRanking(ns: NS): TargetRanking {
+	try {
+		const raw = ns.read(TARGETS_FILE);
+		if (!raw || raw.trim() === '') return EMPTY_TARGET_RANKING;
+		const parsed = JSON.parse(raw) as Partial<TargetRanking>;
+		return { ...EMPTY_TARGET_RANKING, ...parsed };
+	} catch {
+		return EMPTY_TARGET_RANKING;
+	}
+}
+
+/** Producer side: overwrite the published ranking (truncated to TARGET_RANKING_KEEP). */
+export function saveTargetRanking(ns: NS, r: TargetRanking): void {
+	const out = { ...r, ranking: r.ranking.slice(0, TARGET_RANKING_KEEP) };
+	ns.write(TARGETS_FILE, JSON.stringify(out, null, 2), 'w');
+}
@@ -0,0 +1,56 @@
+import type { NS } from '@ns';
+import { PORT_BUS_REGISTER, pushPort } from './ports';
+
+export { taskId } from './task_ledger';
+
+/**
+ * Task-event bus — message schema and publishing helpers for PORT_BUS_TASK
+ * and PORT_BUS_REGISTER.
+ *
+ *   PORT_BUS_TASK      TaskStart when a script is launched against a target,
+ *                      TaskDone when it finishes; HWGW batch workers' OpReports
+ *                      (lib/batch_telemetry.ts) count as the DONE for their task.
+ *   PORT_BUS_REGISTER  DaemonRegistration once at daemon startup.
+ *
+ * compute/coordinator.ts is the consumer: it drains both ports into a
+ * TaskLedger (lib/task_ledger.ts) and publishes what's in flight to
+ * `status/tasks.json`. Launches made inside the coordinator go straight into
+ * its ledger instead of round-tripping through the port — a batch wave can
+ * launch more tasks in one go than a port holds. Nothing outside it publishes
+ * TaskStart/TaskDone yet (see compute/scheduler.ts).
+ *
+ * Port writes cost 0 GB, so any script may import this.
+ */
+
+export interface TaskStart {
+	kind:    'start';
+	id:      string;    // taskId(pid) or taskId(pid, job) for a pool resident's job
+	pid:     number;
+	host:    string;
+	script:  string;
+	op:      string;    // hack / grow / weaken / share / … (free-form)
+	target:  string;    // '' when the task has no target
+	threads: number;
+	ts:      number;
+	eta:     number;    // ms epoch it should be done (0 = unknown: tracked until its pid exits)
+}
+
+export interface TaskDone {
+	kind: 'done';
+	id:   string;
+	ts:   number;
+}
+
+export interface DaemonRegistration {
+	kind:   'register';
+	role:   string;
+	script: string;
+	pid:    number;
+	ts:     number;
+}
+
+/** Announce this script as a running daemon. Call once at startup. */
+export function registerDaemon(ns: NS, role: string): void {
+	const msg: DaemonRegistration = { kind: 'register', role, script: ns.getScriptName(), pid: ns.pid, ts: Date.now() };
+	pushPort(ns, PORT_BUS_REGISTER, JSON.stringify(msg));
+}
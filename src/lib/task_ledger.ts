@@ -0,0 +1,156 @@
+import type { NS } from '@ns';
+import type { TaskStart, TaskDone, DaemonRegistration } from './task_bus';
+import type { OpReport } from './batch_telemetry';
+
+/**
+ * Task-event consumer — what's in flight against which target, and which
+ * daemons are up (`status/tasks.json`).
+ *
+ * compute/coordinator.ts owns the one TaskLedger: it drains PORT_BUS_TASK /
+ * PORT_BUS_REGISTER into it (schema: lib/task_bus.ts), records its own
+ * launches directly, prunes each target scan and publishes the summary.
+ * A task leaves the ledger on its DONE (TaskDone or a batch OpReport), once
+ * TASK_ETA_GRACE_MS past its eta, or — for tasks with no eta — when its pid
+ * is gone. Daemons leave when their pid is gone. Any script can read the
+ * summary for 0 GB.
+ *
+ * Pure except for load/save; node-testable from dist/.
+ */
+
+export type BusMessage = TaskStart | TaskDone | OpReport;
+
+export interface TaskLedger {
+	tasks:   Map<string, TaskStart>;
+	daemons: Map<number, DaemonRegistration>;   // by pid
+}
+
+export interface TargetLoad {
+	target:  string;
+	tasks:   number;
+	threads: number;
+	ops:     Record<string, number>;   // threads by op
+}
+
+export interface TaskStatus {
+	ts:      number;
+	tasks:   number;
+	threads: number;
+	targets: TargetLoad[];              // most threads first
+	daemons: DaemonRegistration[];
+}
+
+export const EMPTY_TASK_STATUS: TaskStatus = { ts: 0, tasks: 0, threads: 0, targets: [], daemons: [] };
+
+/** A task still in the ledger this long after its eta is dropped (its DONE was lost). */
+export const TASK_ETA_GRACE_MS = 5_000;
+
+const TASKS_FILE = 'status/tasks.json';
+
+export function newTaskLedger(): TaskLedger {
+	return { tasks: new Map(), daemons: new Map() };
+}
+
+/** Parse a PORT_BUS_TASK message. Unknown/corrupt → null. Never throws. */
+export function parseBusMessage(raw: string | null): BusMessage | null {
+	if (!raw) return null;
+	try {
+		const msg = JSON.parse(raw) as BusMessage;
+		return msg.kind === 'start' || msg.kind === 'done' || msg.kind === 'op' ? msg : null;
+	} catch {
+		return null;
+	}
+}
+
+/** Parse a PORT_BUS_REGISTER message. Unknown/corrupt → null. Never throws. */
+export function parseRegistration(raw: string | null): DaemonRegistration | null {
+	if (!raw) return null;
+	try {
+		const msg = JSON.parse(raw) as DaemonRegistration;
+		return msg.kind === 'register' && typeof msg.pid === 'number' ? msg : null;
+	} catch {
+		return null;
+	}
+}
+
+/** Task id for a launched process, or for one job of a resident that runs many. */
+export function taskId(pid: number, job?: string): string {
+	return job === undefined ? String(pid) : `${pid}/${job}`;
+}
+
+/** The task a DONE closes — an OpReport from a pool resident closes that resident's job. */
+export function doneTaskId(msg: TaskDone | OpReport): string {
+	if (msg.kind === 'done') return msg.id;
+	return msg.slot === undefined ? taskId(msg.pid) : taskId(msg.pid, msg.batch);
+}
+
+export function applyBusMessage(ledger: TaskLedger, msg: BusMessage): void {
+	if (msg.kind === 'start') ledger.tasks.set(msg.id, msg);
+	else ledger.tasks.delete(doneTaskId(msg));
+}
+
+/** A launch made by the ledger's owner itself — no port round trip. `job` for a pool resident's job. */
+export function recordStart(ledger: TaskLedger, t: Omit<TaskStart, 'kind' | 'id' | 'ts'>, job?: string): void {
+	applyBusMessage(ledger, { kind: 'start', id: taskId(t.pid, job), ...t, ts: Date.now() });
+}
+
+export function applyRegistration(ledger: TaskLedger, reg: DaemonRegistration): void {
+	ledger.daemons.set(reg.pid, reg);
+}
+
+/** Drop overdue tasks, and pid-tracked tasks and daemons whose process is gone. */
+export function pruneLedger(ledger: TaskLedger, now: number, alive: (pid: number) => boolean): void {
+	for (const [id, t] of ledger.tasks) {
+		const gone = t.eta > 0 ? now > t.eta + TASK_ETA_GRACE_MS : !alive(t.pid);
+		if (gone) ledger.tasks.delete(id);
+	}
+	for (const pid of ledger.daemons.keys()) {
+		if (!alive(pid)) ledger.daemons.delete(pid);
+	}
+}
+
+export function summarizeLedger(ledger: TaskLedger, now: number): TaskStatus {
+	const byTarget = new Map<string, TargetLoad>();
+	let threads = 0;
+	for (const t of ledger.tasks.values()) {
+		threads += t.threads;
+		if (!t.target) continue;
+		const load = byTarget.get(t.target) ?? { target: t.target, tasks: 0, threads: 0, ops: {} };
+		load.tasks++;
+		load.threads += t.threads;
+		load.ops[t.op] = (load.ops[t.op] ?? 0) + t.threads;
+		byTarget.set(t.target, load);
+	}
+	return {
+		ts:      now,
+		tasks:   ledger.tasks.size,
+		threads,
+		targets: Array.from(byTarget.values()).sort((a, b) => b.threads - a.threads),
+		daemons: Array.from(ledger.daemons.values()).sort((a, b) => a.role.localeCompare(b.role)),
+	};
+}
+
+/** Threads in flight against `target` (optionally of one op) per a published summary. */
+export function inFlightThreads(s: TaskStatus, target: string, op?: string): number {
+	const load = s.targets.find(t => t.target === target);
+	if (!load) return 0;
+	return op === undefined ? load.threads : load.ops[op] ?? 0;
+}
+
+// ── Persistence (status/tasks.json) ──────────────────────────────────────────
+
+/** Read the published summary. Missing/corrupt → EMPTY_TASK_STATUS. Never throws. */
+export function loadTaskStatus(ns: NS): TaskStatus {
+	try {
+		const raw = ns.read(TASKS_FILE);
+		if (!raw || raw.trim() === '') return EMPTY_TASK_STATUS;
+		const parsed = JSON.parse(raw) as Partial<TaskStatus>;
+		return { ...EMPTY_TASK_STATUS, ...parsed };
+	} catch {
+		return EMPTY_TASK_STATUS;
+	}
+}
+
+/** Producer side (coordinator): overwrite the published summary. */
+export function saveTaskStatus(ns: NS, s: TaskStatus): void {
+	ns.write(TASKS_FILE, JSON.stringify(s, null, 2), 'w');
+}
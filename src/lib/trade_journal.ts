@@ -0,0 +1,129 @@
+import type { NS } from '@ns';
+
+/**
+ * Stock trade journal (`status/stock_journal.json`).
+ *
+ * Producer: stock/market.ts, after every fill — opens with their commission,
+ * closes with the exit reason, ticks held and realized P&L (both commissions
+ * in). Only the last JOURNAL_CAP entries are kept; the aggregate `stats` are
+ * folded in as entries arrive, so they outlive the rotation and restarts of
+ * the stock engine. Consumers: player/stock_status.ts (subsystem metrics) and
+ * the console's StocksPanel; readers pay 0 GB.
+ */
+
+export type ExitReason =
+	| 'stopLoss' | 'trailingStop' | 'profitTarget' | 'forecastFlip'
+	| 'cycleReversal' | 'momentumDecay' | 'lowReturn' | 'liquidation' | 'other';
+
+export const EXIT_REASON_LABELS: Record<ExitReason, string> = {
+	stopLoss:      'Stop loss triggered',
+	trailingStop:  'Trailing stop triggered',
+	profitTarget:  'Target profit reached',
+	forecastFlip:  'Forecast changed direction',
+	cycleReversal: 'Market cycle reversal detected',
+	momentumDecay: 'Momentum decay',
+	lowReturn:     'Low expected return',
+	liquidation:   'Liquidating positions',
+	other:         'Multiple factors',
+};
+
+export interface JournalEntry {
+	ts:         number;              // ms epoch
+	symbol:     string;
+	side:       'long' | 'short';
+	action:     'open' | 'close';
+	shares:     number;
+	price:      number;
+	commission: number;
+	reason:     ExitReason | null;   // closes only
+	holdTicks:  number;              // closes only
+	pnl:        number;              // closes: realized, both commissions; opens: 0
+}
+
+export interface BucketStats {
+	trades: number;
+	wins:   number;
+	pnl:    number;
+}
+
+export interface JournalStats {
+	since:       number;   // ms epoch of the first entry (0 = none)
+	trades:      number;   // closed positions
+	wins:        number;
+	pnl:         number;   // realized
+	commissions: number;
+	holdTicks:   number;   // summed over closes
+	byReason:    Partial<Record<ExitReason, BucketStats>>;
+	bySymbol:    Record<string, BucketStats>;
+}
+
+export interface TradeJournal {
+	ts:      number;           // ms epoch of the last write (0 = never)
+	entries: JournalEntry[];   // oldest first, at most JOURNAL_CAP
+	stats:   JournalStats;
+}
+
+export const EMPTY_JOURNAL: TradeJournal = {
+	ts: 0, entries: [],
+	stats: { since: 0, trades: 0, wins: 0, pnl: 0, commissions: 0, holdTicks: 0, byReason: {}, bySymbol: {} },
+};
+
+/** Entries kept in the rotating journal. */
+export const JOURNAL_CAP = 200;
+
+const JOURNAL_FILE = 'status/stock_journal.json';
+
+function addToBucket(b: BucketStats | undefined, pnl: number): BucketStats {
+	const prev = b ?? { trades: 0, wins: 0, pnl: 0 };
+	return { trades: prev.trades + 1, wins: prev.wins + (pnl > 0 ? 1 : 0), pnl: prev.pnl + pnl };
+}
+
+/** Append `e`, drop the oldest past `cap`, and fold it into the stats. */
+export function recordTrade(j: TradeJournal, e: JournalEntry, cap = JOURNAL_CAP): TradeJournal {
+	const s = j.stats;
+	const stats: JournalStats = {
+		...s,
+		since:       s.since || e.ts,
+		commissions: s.commissions + e.commission,
+	};
+	if (e.action === 'close') {
+		const reason = e.reason ?? 'other';
+		stats.trades    = s.trades + 1;
+		stats.wins      = s.wins + (e.pnl > 0 ? 1 : 0);
+		stats.pnl       = s.pnl + e.pnl;
+		stats.holdTicks = s.holdTicks + e.holdTicks;
+		stats.byReason  = { ...s.byReason, [reason]: addToBucket(s.byReason[reason], e.pnl) };
+		stats.bySymbol  = { ...s.bySymbol, [e.symbol]: addToBucket(s.bySymbol[e.symbol], e.pnl) };
+	}
+	return { ts: e.ts, entries: [...j.entries, e].slice(-cap), stats };
+}
+
+export function winRate(s: JournalStats): number {
+	return s.trades > 0 ? s.wins / s.trades : 0;
+}
+
+export function avgHoldTicks(s: JournalStats): number {
+	return s.trades > 0 ? s.holdTicks / s.trades : 0;
+}
+
+/** Symbols by realized P&L, best first. */
+export function symbolsByPnl(s: JournalStats): [string, BucketStats][] {
+	return Object.entries(s.bySymbol).sort((a, b) => b[1].pnl - a[1].pnl);
+}
+
+/** Read the journal. Missing/corrupt → EMPTY_JOURNAL. Never throws. */
+export function loadTradeJournal(ns: NS): TradeJournal {
+	try {
+		const raw = ns.read(JOURNAL_FILE);
+		if (!raw || raw.trim() === '') return EMPTY_JOURNAL;
+		const parsed = JSON.parse(raw) as Partial<TradeJournal>;
+		return { ...EMPTY_JOURNAL, ...parsed, stats: { ...EMPTY_JOURNAL.stats, ...parsed.stats } };
+	} catch {
+		return EMPTY_JOURNAL;
+	}
+}
+
+/** Producer side: overwrite the journal. */
+export function saveTradeJournal(ns: NS, j: TradeJournal): void {
+	ns.write(JOURNAL_FILE, JSON.stringify(j), 'w');
+}
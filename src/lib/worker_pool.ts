@@ -0,0 +1,186 @@
+import type { NS } from '@ns';
+import type { OpReport } from './batch_telemetry';
+
+/**
+ * Resident HGW worker pool — batch operations without an exec per operation.
+ *
+ * The one-shot workers (workers/hack.ts etc.) are exec'd for every operation
+ * of every batch; at high concurrency the exec/scp churn is the bottleneck and
+ * late launches misfire. With settings.workerPool on, hwgw_batcher.ts hands
+ * operations to compute/worker_pool.ts instead:
+ *
+ *   · an operation with no idle resident of its op on the host execs a
+ *     resident (workers/pool_hack.ts / pool_grow.ts / pool_weaken.ts) that
+ *     runs the job from its args and then stays up;
+ *   · later operations go to idle residents as JSON jobs on their inbox port
+ *     (POOL_PORT_BASE + slot), using `{ threads }` to run fewer threads than
+ *     the resident holds;
+ *   · residents report each finished job on PORT_BUS_TASK as an OpReport
+ *     carrying their slot (lib/batch_telemetry.ts); a resident idle for
+ *     POOL_IDLE_REAP_MS is told to exit so its RAM goes back to the planner.
+ *
+ * Until then an idle resident's RAM counts as free to the allocator
+ * (RamManager.setPoolIdleRam): a job for its op and host reuses it, any other
+ * job that needs the room evicts it.
+ *
+ * Jobs go to per-resident inboxes rather than one shared queue on the bus:
+ * any worker could pop a shared queue's head, so a job for a busy op/host
+ * would block every job behind it.
+ *
+ * Whatever the pool can't place falls back to the one-shot exec path.
+ *
+ * Pure except for runPoolWorker (port calls only, 0 GB); node-testable from dist/.
+ */
+
+export type PoolOp = 'hack' | 'grow' | 'weaken';
+
+/** An operation handed to a resident. `start`/`end` are the batch's ms-epoch op window. */
+export interface PoolJob {
+	kind:    'job';
+	id:      string;    // batch op description, e.g. batch-hack-12
+	target:  string;
+	threads: number;    // ≤ the resident's own thread count
+	start:   number;
+	end:     number;
+	stock:   boolean;
+}
+
+export type PoolMessage = PoolJob | { kind: 'exit' };
+
+/** Pool-side record of one resident. */
+export interface PoolSlot {
+	slot:      number;
+	host:      string;
+	op:        PoolOp;
+	threads:   number;
+	pid:       number;
+	target:    string;   // target of the last job
+	job:       string;   // id of the last job (a report for an older one is stale)
+	busyUntil: number;   // ms epoch the last job is expected done (its report moves it to the report time)
+}
+
+export interface PoolStats {
+	residents: number;
+	busy:      number;
+	threads:   number;   // threads held by residents
+	reused:    number;   // jobs handed to an existing resident
+	spawned:   number;   // residents exec'd
+}
+
+export const EMPTY_POOL_STATS: PoolStats = { residents: 0, busy: 0, threads: 0, reused: 0, spawned: 0 };
+
+/** Inbox of slot n is port POOL_PORT_BASE + n — well clear of lib/ports.ts channels. */
+export const POOL_PORT_BASE = 1000;
+/** A resident idle this long is told to exit. */
+export const POOL_IDLE_REAP_MS = 60_000;
+/** A job with no report counts as finished this long after its window. */
+export const POOL_DONE_GRACE_MS = 1_000;
+
+const NULL_DATA = 'NULL PORT DATA';
+
+export function poolInbox(slot: number): number {
+	return POOL_PORT_BASE + slot;
+}
+
+/** Parse an inbox message. Missing/corrupt → null. Never throws. */
+export function parsePoolMessage(raw: string | null): PoolMessage | null {
+	if (!raw) return null;
+	try {
+		const msg = JSON.parse(raw) as PoolMessage;
+		return msg.kind === 'job' || msg.kind === 'exit' ? msg : null;
+	} catch {
+		return null;
+	}
+}
+
+export interface DispatchPlan {
+	use:   { slot: number; threads: number }[];   // idle residents and the threads each runs
+	spawn: number;                                 // threads left for a new resident
+}
+
+/**
+ * Place `threads` of `op` on `host`: the smallest idle resident that covers
+ * what's left, else the largest, repeated; the remainder spawns.
+ */
+export function planDispatch(slots: Iterable<PoolSlot>, op: PoolOp, host: string, threads: number, now: number): DispatchPlan {
+	const idle = [...slots]
+		.filter(s => s.op === op && s.host === host && s.busyUntil <= now)
+		.sort((a, b) => a.threads - b.threads);
+	const use: DispatchPlan['use'] = [];
+	let left = threads;
+	while (left > 0 && idle.length > 0) {
+		const fitAt = idle.findIndex(s => s.threads >= left);
+		const [s] = idle.splice(fitAt >= 0 ? fitAt : idle.length - 1, 1);
+		const n = Math.min(left, s.threads);
+		use.push({ slot: s.slot, threads: n });
+		left -= n;
+	}
+	return { use, spawn: left };
+}
+
+/**
+ * Threads held by idle residents, per host. The allocator counts their RAM as
+ * free: dispatch either reuses them or evicts them (planEviction) to make room.
+ */
+export function idleThreadsByHost(slots: Iterable<PoolSlot>, now: number): Map<string, number> {
+	const idle = new Map<string, number>();
+	for (const s of slots) {
+		if (s.busyUntil <= now) idle.set(s.host, (idle.get(s.host) ?? 0) + s.threads);
+	}
+	return idle;
+}
+
+/**
+ * Idle residents on `host` to kill so `need` more threads fit: largest first,
+ * never the ones in `keep` (those the dispatch plan reuses).
+ */
+export function planEviction(slots: Iterable<PoolSlot>, host: string, now: number, keep: Set<number>, need: number): number[] {
+	const idle = [...slots]
+		.filter(s => s.host === host && s.busyUntil <= now && !keep.has(s.slot))
+		.sort((a, b) => b.threads - a.threads);
+	const evict: number[] = [];
+	let left = need;
+	for (const s of idle) {
+		if (left <= 0) break;
+		evict.push(s.slot);
+		left -= s.threads;
+	}
+	return evict;
+}
+
+/** Residents idle for longer than `idleMs`. */
+export function reapableSlots(slots: Iterable<PoolSlot>, now: number, idleMs = POOL_IDLE_REAP_MS): number[] {
+	return [...slots].filter(s => s.busyUntil <= now && now - s.busyUntil > idleMs).map(s => s.slot);
+}
+
+// ── Resident side (workers/pool_*.ts) ────────────────────────────────────────
+
+export type PoolRun = (target: string, opts: { threads: number; stock: boolean; additionalMsec: number }) => Promise<number>;
+
+/**
+ * Resident loop. args: [slot, first job JSON]. Runs each job at its start
+ * time, reports it on `busPort` (PORT_BUS_TASK — passed in so this file
+ * stays import-free), then waits on its inbox until told to exit.
+ */
+export async function runPoolWorker(ns: NS, op: PoolOp, run: PoolRun, busPort: number): Promise<void> {
+	const slot  = Number(ns.args[0]);
+	const inbox = poolInbox(slot);
+	let msg = parsePoolMessage(String(ns.args[1] ?? ''));
+	while (msg?.kind === 'job') {
+		const wait = Math.max(0, msg.start - Date.now());
+		const start = Date.now() + wait;
+		const result = await run(msg.target, { threads: msg.threads, stock: msg.stock, additionalMsec: wait });
+		const report: OpReport = {
+			kind: 'op', op, target: msg.target, batch: msg.id,
+			plannedStart: msg.start, plannedEnd: msg.end, start, end: Date.now(), result, pid: ns.pid, slot,
+		};
+		ns.writePort(busPort, JSON.stringify(report));
+
+		let raw = ns.readPort(inbox);
+		while (raw === NULL_DATA) {
+			await ns.nextPortWrite(inbox);
+			raw = ns.readPort(inbox);
+		}
+		msg = parsePoolMessage(String(raw));
+	}
+}
@@ -0,0 +1,102 @@
+import type { NS } from '@ns';
+
+/**
+ * XP-farm mode for the compute layer — "point the botnet at hacking XP, not money".
+ *
+ * While active, compute/coordinator.ts stops opening money batches, ranks
+ * targets with the `xpPerSec` scoring strategy (lib/target_scoring.ts) and
+ * fills idle RAM with grow/weaken threads against the top one (grow at max
+ * money still pays full XP; weaken cancels the security it adds).
+ *
+ * settings.xpFarm:
+ *   off   — never farm;
+ *   on    — always farm;
+ *   auto  — farm when either
+ *           · faction_manager is blocked on a faction's hacking requirement
+ *             (it publishes `status/hack_block.json` each tick it is blocked), or
+ *           · the BitNode makes hacking money worthless: the calibrated
+ *             ScriptHackMoney multiplier is at/below XP_FARM_MONEY_SCALE_MAX,
+ *             or the node pays scripts no hack money at all (BN8).
+ *
+ * Pure except for load/save; node-testable from dist/.
+ */
+
+export type XpFarmMode = 'off' | 'auto' | 'on';
+
+export interface HackBlock {
+	ts:       number;   // ms epoch of the last blocked check (0 = never)
+	faction:  string;   // faction whose requirement isn't met
+	required: number;   // hacking level it needs
+}
+
+export const EMPTY_HACK_BLOCK: HackBlock = { ts: 0, faction: '', required: 0 };
+
+export interface XpFarmInputs {
+	mode:           XpFarmMode;
+	hacking:        number;          // current hacking level
+	block:          HackBlock;
+	hackMoneyScale: number | null;   // calibrated ScriptHackMoney (null = not yet known)
+	bitNode:        number;
+	now:            number;
+}
+
+export interface XpFarmDecision {
+	active: boolean;
+	reason: string;
+}
+
+/** A hack block not refreshed for this long is ignored (faction_manager moved on or stopped). */
+export const HACK_BLOCK_STALE_MS = 5 * 60_000;
+/** Auto-farm when hacking money is scaled to this or less. */
+export const XP_FARM_MONEY_SCALE_MAX = 0.25;
+/** BitNodes whose scripts earn no hack money at all (ScriptHackMoneyGain = 0). */
+export const NO_HACK_MONEY_NODES: readonly number[] = [8];
+
+const HACK_BLOCK_FILE = 'status/hack_block.json';
+
+/** Decide whether the coordinator should farm XP this cycle. */
+export function decideXpFarm(i: XpFarmInputs): XpFarmDecision {
+	if (i.mode === 'off') return { active: false, reason: 'disabled' };
+	if (i.mode === 'on') return { active: true, reason: 'forced on' };
+
+	const b = i.block;
+	if (b.ts > 0 && i.now - b.ts <= HACK_BLOCK_STALE_MS && i.hacking < b.required) {
+		return { active: true, reason: `${b.faction} needs hacking ${b.required} (at ${i.hacking})` };
+	}
+	if (NO_HACK_MONEY_NODES.includes(i.bitNode)) {
+		return { active: true, reason: `BN${i.bitNode} pays no hack money` };
+	}
+	if (i.hackMoneyScale !== null && i.hackMoneyScale <= XP_FARM_MONEY_SCALE_MAX) {
+		return { active: true, reason: `hack money ×${i.hackMoneyScale.toFixed(2)} in this BitNode` };
+	}
+	return { active: false, reason: 'money batching' };
+}
+
+/**
+ * Security-neutral split of `threads` into grow + weaken (1 weaken per
+ * weakenDecrease/growIncrease grow threads), weaken rounded up.
+ */
+export function splitXpThreads(threads: number, growIncrease: number, weakenDecrease: number): { grow: number; weaken: number } {
+	if (threads <= 0) return { grow: 0, weaken: 0 };
+	const weaken = Math.min(threads, Math.ceil(threads * growIncrease / (growIncrease + weakenDecrease)));
+	return { grow: threads - weaken, weaken };
+}
+
+// ── Persistence (status/hack_block.json) ─────────────────────────────────────
+
+/** Read the last published hack block. Missing/corrupt → EMPTY_HACK_BLOCK. Never throws. */
+export function loadHackBlock(ns: NS): HackBlock {
+	try {
+		const raw = ns.read(HACK_BLOCK_FILE);
+		if (!raw || raw.trim() === '') return EMPTY_HACK_BLOCK;
+		const parsed = JSON.parse(raw) as Partial<HackBlock>;
+		return { ...EMPTY_HACK_BLOCK, ...parsed };
+	} catch {
+		return EMPTY_HACK_BLOCK;
+	}
+}
+
+/** Producer side (faction_manager): overwrite the published block. */
+export function saveHackBlock(ns: NS, b: HackBlock): void {
+	ns.write(HACK_BLOCK_FILE, JSON.stringify(b, null, 2), 'w');
+}
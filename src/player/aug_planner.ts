@@ -5,6 +5,8 @@ import { formatMoney, shortNumber } from '../lib/format';
 import { PORT_AUGS, pushPort, clearPort } from '../lib/ports';
 import { SCRIPT_PATHS } from '../lib/config';
 import { upsertPending } from '../lib/decisions';
+import { loadSettings } from '../lib/settings';
+import { requestFunds, recordSpend, releaseFunds } from '../lib/budget';
 
 // ── Cost model ────────────────────────────────────────────────────────────────
 // Each augmentation purchased this session multiplies the next aug's price by
@@ -158,7 +160,13 @@ export async function main(ns: NS): Promise<void> {
             ns.tprint('No affordable augmentations to purchase right now.');
             return;
         }
+        const grant = requestFunds(ns, 'augs', totalCost, loadSettings(ns).budgetPolicy);
+        if (grant.granted < totalCost) {
+            ns.tprint(`Capital allocator declined ${formatMoney(totalCost)} for augmentations (${grant.reason}).`);
+            return;
+        }
         const allBought = await purchasePlan(ns, affordable);
+        if (!allBought) releaseFunds(ns, 'augs');
 
         if (doInstall) {
             if (!allBought) {
@@ -211,13 +219,20 @@ async function runDonate(ns: NS, faction: string, augName: string): Promise<void
     }
 
     const amount = Math.ceil(ns.formulas.reputation.donationForRep(repGap, ns.getPlayer()));
+    const grant = requestFunds(ns, 'augs', amount, loadSettings(ns).budgetPolicy);
+    if (grant.granted < amount) {
+        ns.tprint(`Capital allocator declined a ${formatMoney(amount)} donation (${grant.reason}). Exiting.`);
+        return;
+    }
     ns.tprint(`Donating ${formatMoney(amount)} to ${faction} to close a ${shortNumber(repGap)} rep gap `
         + `for "${augName}"...`);
     const ok = await executeCommand<boolean>(ns, `ns.singularity.donateToFaction("${faction}", ${amount})`);
 
     if (ok) {
+        recordSpend(ns, 'augs', amount);
         ns.tprint(`SUCCESS: Donated ${formatMoney(amount)} to ${faction}.`);
     } else {
+        releaseFunds(ns, 'augs');
         ns.tprint(`FAILED: Donation to ${faction} did not go through.`);
     }
     ns.tprint('NOTE: This only raises faction rep — it does NOT purchase the augmentation. '
@@ -597,6 +612,7 @@ async function purchasePlan(ns: NS, affordable: PlanEntry[]): Promise<boolean> {
         );
 
         if (ok) {
+            recordSpend(ns, 'augs', entry.effectivePrice);
             ns.tprint(`SUCCESS: Purchased ${entry.name}`);
         } else {
             ns.tprint(`FAILED: Could not purchase ${entry.name} from ${entry.faction}`);
@@ -1,6 +1,7 @@
 import type { NS } from '@ns';
 import { saveSubsystem } from '../lib/subsystem_state';
 import { loadSettings } from '../lib/settings';
+import { loadLedger, blockedTypes } from '../lib/contract_ledger';
 
 /**
  * Contracts manager daemon (docs/design/11).
@@ -10,12 +11,17 @@ import { loadSettings } from '../lib/settings';
  * to finish, then diffs the before/after state to tally solved and failed.
  * Publishes SubsystemStatus each iteration.
  *
- * Reuse strategy: contract_solver.ts exports only `main()` — all solver
- * helpers (findAllContracts, getAllServers, solveContract, the algorithm
- * classes) are module-private and cannot be imported.  This manager therefore
- * calls the solver via ns.run and polls ns.isRunning until it exits.  No
- * solver algorithms are duplicated here; only a minimal BFS scan is repeated
- * to measure outcomes (before → after diff).
+ * Reuse strategy: the algorithms live in lib/contract_solvers.ts (pure,
+ * node-tested), but attempting still needs getContractType/getData/attempt
+ * (~22 GB, see docs/TODO.md §4).  Keeping those calls in the one-shot
+ * /player/contract_solver.js keeps this persistent daemon small, so the
+ * manager calls it via ns.run and polls ns.isRunning until it exits.  Only a
+ * minimal BFS scan is repeated here to measure outcomes (before → after diff).
+ *
+ * The solver guards each attempt against lib/contract_ledger.ts (failure
+ * history, last-try verification) and records outcomes there; this manager
+ * folds that per-type ledger into its metrics (`blocked`, `skipped`, and one
+ * `type:<name>` = "solved/failed" row per type seen).
  *
  * Coding contracts are available in every BitNode (no SF gate), so
  * `available` is always true.  `enabled` mirrors settings.autoSolveContracts.
@@ -61,6 +67,19 @@ function snapshot(ns: NS): ContractSnap[] {
     );
 }
 
+/** Ledger-derived metrics: blocked/skipped counts plus per-type solved/failed. */
+function ledgerMetrics(ns: NS): Record<string, number | string> {
+    const ledger  = loadLedger(ns);
+    const metrics: Record<string, number | string> = {
+        blocked: blockedTypes(ledger).length,
+        skipped: ledger.lastPass.skipped,
+    };
+    for (const [type, rec] of Object.entries(ledger.types)) {
+        metrics[`type:${type}`] = `${rec.solved}/${rec.failed}`;
+    }
+    return metrics;
+}
+
 /** Poll until the given PID exits or the timeout elapses. */
 async function awaitPid(ns: NS, pid: number, timeoutMs: number): Promise<void> {
     const deadline = Date.now() + timeoutMs;
@@ -86,7 +105,7 @@ export async function main(ns: NS): Promise<void> {
                 enabled:   false,
                 running:   false,
                 headline:  'contracts disabled (autoSolveContracts off)',
-                metrics:   { solved: totalSolved, failed: totalFailed, lastSeen: 0 },
+                metrics:   { solved: totalSolved, failed: totalFailed, lastSeen: 0, ...ledgerMetrics(ns) },
                 ts:        Date.now(),
             });
             await ns.sleep(LOOP_MS);
@@ -103,7 +122,7 @@ export async function main(ns: NS): Promise<void> {
             enabled:   true,
             running:   true,
             headline:  `scanning · ${lastSeen} contract${lastSeen !== 1 ? 's' : ''} found`,
-            metrics:   { solved: totalSolved, failed: totalFailed, lastSeen },
+            metrics:   { solved: totalSolved, failed: totalFailed, lastSeen, ...ledgerMetrics(ns) },
             ts:        Date.now(),
         });
 
@@ -137,7 +156,8 @@ export async function main(ns: NS): Promise<void> {
                     if (triesAfter < triesBefore) {
                         failedRun++;
                     }
-                    // triesAfter === triesBefore means solver skipped (unsupported type).
+                    // triesAfter === triesBefore means solver skipped (no solver, or the
+                    // ledger guard refused — see ledgerMetrics' `skipped`).
                 }
             }
 
@@ -146,10 +166,12 @@ export async function main(ns: NS): Promise<void> {
         }
 
         // ── publish final status for this pass ───────────────────────────────
+        const blocked  = blockedTypes(loadLedger(ns)).length;
         const headline =
             lastSeen === 0
                 ? 'no contracts on network'
-                : `solved ${totalSolved} · ${totalFailed} failed`;
+                : `solved ${totalSolved} · ${totalFailed} failed` +
+                  (blocked > 0 ? ` · ${blocked} type${blocked !== 1 ? 's' : ''} blocked` : '');
 
         saveSubsystem(ns, {
             id:       'contracts',
@@ -157,7 +179,7 @@ export async function main(ns: NS): Promise<void> {
             enabled:   true,
             running:   false,
             headline,
-            metrics:   { solved: totalSolved, failed: totalFailed, lastSeen },
+            metrics:   { solved: totalSolved, failed: totalFailed, lastSeen, ...ledgerMetrics(ns) },
             ts:        Date.now(),
         });
 
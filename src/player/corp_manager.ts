@@ -3,6 +3,7 @@ import { saveSubsystem } from '../lib/subsystem_state';
 import { loadSettings } from '../lib/settings';
 import { formatMoney } from '../lib/format';
 import { upsertPending, removePending, drainReplies } from '../lib/decisions';
+import { requestFunds, recordSpend, releaseFunds } from '../lib/budget';
 
 /**
  * Corp manager (docs/design/11 §6) — v1 implementation.
@@ -107,11 +108,17 @@ export async function main(ns: NS): Promise<void> {
 				for (const reply of drainReplies(ns, id => id === CORP_FOUND_DECISION_ID)) {
 					removePending(ns, CORP_FOUND_DECISION_ID);
 					if (reply.verdict === 'approve') {
+						// Only the self-funding comes out of player money; the rest is corp funds.
+						const before = ns.getPlayer().money;
 						runBootstrap(ns);
+						if (ns.corporation.hasCorporation()) recordSpend(ns, 'corp', Math.max(0, before - ns.getPlayer().money));
+						else releaseFunds(ns, 'corp');
 					} else if (reply.verdict === 'deny') {
+						releaseFunds(ns, 'corp');
 						deniedAtMoney = ns.getPlayer().money;
 						ns.print(`INFO corp_manager: founding DENIED — suppressed until money exceeds ${formatMoney(deniedAtMoney * (1 + CORP_DENY_MONEY_MARGIN))}`);
 					} else if (reply.verdict === 'defer') {
+						releaseFunds(ns, 'corp');
 						deferUntilTick = tick + CORP_DEFER_TICKS;
 						ns.print(`INFO corp_manager: founding DEFERRED — re-asking in ${CORP_DEFER_TICKS} ticks`);
 					}
@@ -124,22 +131,25 @@ export async function main(ns: NS): Promise<void> {
 						+ constants.officeInitialCost + constants.warehouseInitialCost
 						+ UNLOCK_COSTS['Office API'] + UNLOCK_COSTS['Warehouse API'] + UNLOCK_COSTS['Smart Supply'];
 					const money = ns.getPlayer().money;
-					const canAfford = checkResult === 'Success' && money >= totalCost;
+					// Self-funding is the one player-money spend here; the allocator may hold it
+					// back. A denied or deferred founding isn't pending, so it claims nothing.
+					const suppressed = money <= deniedAtMoney * (1 + CORP_DENY_MONEY_MARGIN) || tick < deferUntilTick;
+					const grant = checkResult === 'Success' && money >= totalCost && !suppressed
+						? requestFunds(ns, 'corp', totalCost, loadSettings(ns).budgetPolicy)
+						: null;
+					const canAfford = grant !== null && grant.granted >= totalCost;
 
 					if (canAfford) {
-						const suppressed = money <= deniedAtMoney * (1 + CORP_DENY_MONEY_MARGIN) || tick < deferUntilTick;
-						if (!suppressed) {
-							upsertPending(ns, {
-								id:      CORP_FOUND_DECISION_ID,
-								kind:    'corpInvest',
-								prompt:  `Found "${CORP_NAME}" (self-funded, ${formatMoney(SELF_FUND_COST)}) and bootstrap one `
-									+ `Agriculture division in Sector-12 for a combined ~${formatMoney(totalCost)}? `
-									+ `Large, effectively irreversible spend.`,
-								command: `ns.corporation.createCorporation("${CORP_NAME}", true)`,
-								context: { totalCost, corpName: CORP_NAME, divisionName: DIVISION_NAME },
-								ts: Date.now(),
-							});
-						}
+						upsertPending(ns, {
+							id:      CORP_FOUND_DECISION_ID,
+							kind:    'corpInvest',
+							prompt:  `Found "${CORP_NAME}" (self-funded, ${formatMoney(SELF_FUND_COST)}) and bootstrap one `
+								+ `Agriculture division in Sector-12 for a combined ~${formatMoney(totalCost)}? `
+								+ `Large, effectively irreversible spend.`,
+							command: `ns.corporation.createCorporation("${CORP_NAME}", true)`,
+							context: { totalCost, corpName: CORP_NAME, divisionName: DIVISION_NAME },
+							ts: Date.now(),
+						});
 					} else {
 						removePending(ns, CORP_FOUND_DECISION_ID);
 					}
@@ -148,7 +158,11 @@ export async function main(ns: NS): Promise<void> {
 						id: 'corp', available: true, enabled, running: false,
 						headline: canAfford
 							? `Corp — awaiting founding decision (~${formatMoney(totalCost)})`
-							: `Corp — not yet founded (need ~${formatMoney(totalCost)}, have ${formatMoney(money)})`,
+							: grant
+								? `Corp — not yet founded (allocator: ${grant.reason})`
+								: suppressed && money >= totalCost
+									? 'Corp — not yet founded (founding denied or deferred)'
+									: `Corp — not yet founded (need ~${formatMoney(totalCost)}, have ${formatMoney(money)})`,
 						metrics: { totalCost, playerMoney: money },
 						ts: Date.now(),
 					});
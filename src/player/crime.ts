@@ -6,6 +6,8 @@ import { saveSubsystem } from '../lib/subsystem_state';
 import type { SubsystemStatus } from '../lib/subsystem_state';
 import { loadSettings } from '../lib/settings';
 import { hasSF4 } from '../lib/sf_check';
+import { acquireLock, renewLock, releaseLock } from '../lib/lock_bus';
+import { LOCK_PRIORITY, LOCK_TTL_MS } from '../lib/lease_table';
 
 /**
  * Crime manager (docs/design/11 idiom) — auto karma/money-crime daemon.
@@ -21,6 +23,10 @@ import { hasSF4 } from '../lib/sf_check';
  * University + Powerhouse Gym are both Sector-12 locations — see
  * NetscriptDefinitions.d.ts LocationName enum) — trainStat() travels there
  * first if needed, otherwise training silently no-ops from any other city.
+ *
+ * Crime is the lowest-priority user of the single current-work slot: each
+ * action runs under the 'work' lease (lib/lock_bus.ts), held for the action's
+ * duration, and the manager idles while anything else holds it.
  */
 
 /** Minimum stats to aim for during baseline training, one stat-step per tick. */
@@ -36,6 +42,8 @@ const SECTOR_12 = 'Sector-12';
 /** Availability/disabled idle cadence — mirrors grafting_manager.ts's SLEEP_MS. */
 const IDLE_SLEEP_MS = 10_000;
 
+const LOCK_OWNER = 'crime';
+
 /** Available crimes to consider, roughly easiest → hardest (re-sorted by live success chance anyway). */
 const AVAILABLE_CRIMES = [
     CrimeType.shoplift,
@@ -66,6 +74,7 @@ export async function main(ns: NS): Promise<void> {
 
         // ── Availability/enabled guard — mirrors grafting_manager.ts exactly ──
         if (!enabled || !available) {
+            releaseLock(ns, 'work');
             saveSubsystem(ns, {
                 id: 'crime',
                 available,
@@ -81,6 +90,22 @@ export async function main(ns: NS): Promise<void> {
             continue;
         }
 
+        // ── Work-slot lease — faction work, study and grafting all outrank crime ──
+        const lock = acquireLock(ns, 'work', LOCK_OWNER, LOCK_PRIORITY.crime);
+        if (!lock.granted) {
+            saveSubsystem(ns, {
+                id: 'crime',
+                available: true,
+                enabled,
+                running: false,
+                headline: `Crime paused — work slot held by ${lock.holder?.owner ?? '?'}`,
+                metrics: {},
+                ts: Date.now(),
+            });
+            await ns.sleep(IDLE_SLEEP_MS);
+            continue;
+        }
+
         // ── Per-tick baseline training check (one stat-step per tick — reacts
         // to the toggle within a single tick instead of a blocking pre-loop
         // training phase) ──────────────────────────────────────────────────
@@ -200,6 +225,8 @@ async function trainStat(ns: NS, stat: string): Promise<void> {
         await executeCommand(ns, 'ns.singularity.hospitalize()');
     }
 
+    // Preempted while this tick was planning — don't stop the new holder's work.
+    if (!renewLock(ns, 'work')) return;
     await executeCommand(ns, 'ns.singularity.stopAction()');
 
     let actionTime = 0;
@@ -217,6 +244,7 @@ async function trainStat(ns: NS, stat: string): Promise<void> {
     }
 
     ns.print(`Training ${stat} for ${actionTime / 1000} seconds`);
+    renewLock(ns, 'work', actionTime + LOCK_TTL_MS);
     await ns.sleep(actionTime);
 }
 
@@ -233,6 +261,8 @@ async function myCommitCrime(ns: NS, crime: CrimeType): Promise<void> {
         await executeCommand(ns, 'ns.singularity.hospitalize()');
     }
 
+    // Same preemption check as trainStat().
+    if (!renewLock(ns, 'work')) return;
     await executeCommand(ns, 'ns.singularity.stopAction()');
 
     const crimeStats = await executeCommand<CrimeStats>(ns, `ns.singularity.getCrimeStats("${crime}")`);
@@ -242,6 +272,7 @@ async function myCommitCrime(ns: NS, crime: CrimeType): Promise<void> {
     ns.print(`Committing crime: ${crime} (${formatPercent(successRate)} success rate, $${shortNumber(expectedProfit)}/sec)`);
 
     await executeCommand(ns, `ns.singularity.commitCrime("${crime}", false)`);
+    renewLock(ns, 'work', crimeStats.time + LOCK_TTL_MS);
     await ns.sleep(crimeStats.time);
 }
 
@@ -5,6 +5,10 @@ import {
 import { formatTime, shortNumber } from '../lib/format';
 import { executeCommand } from '../lib/ns_dodge';
 import { hasSF4 } from '../lib/sf_check';
+import { saveRepProgress } from '../lib/reset_horizon';
+import { saveHackBlock } from '../lib/xp_farm';
+import { acquireLock, renewLock, releaseLock, readLeases } from '../lib/lock_bus';
+import { LOCK_PRIORITY, liveLease } from '../lib/lease_table';
 
 // ── Faction priority list ─────────────────────────────────────────────────────
 // Mirrors alainbryden's preferredEarlyFactionOrder with full-game coverage.
@@ -64,6 +68,7 @@ const MEASUREMENT_FREQUENCY     = 20;   // ticks between rep-rate re-measurement
 const TIME_MARGIN_PERCENT       = 0.10; // add 10 % margin to estimated work duration
 const SCOPE_MAX                 = 2;    // 1 = priority factions; 2 = all joined
 const IDLE_SLEEP_MS             = 30_000;
+const LOCK_OWNER                = 'factionManager';
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
@@ -152,6 +157,7 @@ export async function main(ns: NS): Promise<void> {
                 scope++;
             } else {
                 ns.print(`No faction or company-gate work available at any scope. Waiting ${IDLE_SLEEP_MS / 1000}s.`);
+                releaseLock(ns, 'work');
                 // Idle karma grinding (crime.ts) runs as its own independently
                 // auto-toggle-gated daemon; it is not launched or referenced here.
                 await ns.sleep(IDLE_SLEEP_MS);
@@ -165,6 +171,13 @@ export async function main(ns: NS): Promise<void> {
         scope = 1;
         if (target.type === 'FACTION') {
             ns.print(`\nTarget: ${target.factionName} for aug "${target.augName}"`);
+            // Feeds the reset-horizon estimate (lib/reset_horizon.ts) used by ROI buyers.
+            saveRepProgress(ns, {
+                ts:               Date.now(),
+                faction:          target.factionName,
+                repPerSecond:     target.repPerSecond,
+                secondsToNextAug: target.timeRemaining,
+            });
         } else {
             ns.print(`\nTarget: ${target.companyName} rep to unlock faction "${target.gatedFaction}"`);
         }
@@ -404,9 +417,13 @@ async function checkPrerequisites(ns: NS, faction: string): Promise<boolean> {
             `Hack ${player.skills.hacking}/${hackReq} required for ${faction}. ` +
             'Starting Algorithms course at Rothman University.',
         );
-        await executeCommand(
-            ns, 'ns.singularity.universityCourse("Rothman University", "Algorithms", false)',
-        );
+        // Lets the coordinator switch the botnet to XP farming (lib/xp_farm.ts).
+        saveHackBlock(ns, { ts: Date.now(), faction, required: hackReq });
+        if (claimWorkSlot(ns)) {
+            await executeCommand(
+                ns, 'ns.singularity.universityCourse("Rothman University", "Algorithms", false)',
+            );
+        }
         return false; // Re-evaluated next tick
     }
 
@@ -452,6 +469,12 @@ async function workForFactionContinuously(ns: NS, target: FactionWorkTarget): Pr
     const startRep     = target.repCurrent;
 
     while (true) {
+        // A higher-priority holder (grafting) took the work slot — leave it alone.
+        if (!renewLock(ns, 'work')) {
+            ns.print('Work slot preempted — stopping');
+            return;
+        }
+
         // Check work wasn't interrupted by something else.
         if (!await isWorkingForFaction(ns, target.factionName)) {
             ns.print(`Work interrupted for ${target.factionName} — restarting`);
@@ -503,6 +526,12 @@ async function workForCompanyContinuously(ns: NS, target: CompanyWorkTarget): Pr
     const startRep     = target.repCurrent;
 
     while (true) {
+        // A higher-priority holder (grafting) took the work slot — leave it alone.
+        if (!renewLock(ns, 'work')) {
+            ns.print('Work slot preempted — stopping');
+            return;
+        }
+
         // Check work wasn't interrupted by something else.
         if (!await isWorkingForCompany(ns, target.companyName)) {
             ns.print(`Work interrupted for ${target.companyName} — restarting`);
@@ -550,6 +579,7 @@ async function workForCompanyContinuously(ns: NS, target: CompanyWorkTarget): Pr
  * the previous action. Returns rep per second.
  */
 async function measureRepGainRate(ns: NS, faction: string): Promise<number> {
+    const borrowed   = !holdsWorkSlot(ns);
     const savedWork  = await executeCommand<CurrentWork | null>(ns, 'ns.singularity.getCurrentWork()');
     const wasFocused = await executeCommand<boolean>(ns, 'ns.singularity.isFocused()') ?? false;
     const workType   = chooseBestWorkType(ns, faction);
@@ -561,6 +591,7 @@ async function measureRepGainRate(ns: NS, faction: string): Promise<number> {
     const after  = await executeCommand<number>(ns, `ns.singularity.getFactionRep("${faction}")`) ?? 0;
 
     await restorePreviousWork(ns, savedWork, wasFocused);
+    if (borrowed) releaseLock(ns, 'work');
     return (after - before) * (1000 / MEASUREMENT_DURATION_MS);
 }
 
@@ -569,6 +600,7 @@ async function measureRepGainRate(ns: NS, faction: string): Promise<number> {
  * the previous action. Returns rep per second.
  */
 async function measureCompanyRepGainRate(ns: NS, companyName: CompanyName, field: JobField): Promise<number> {
+    const borrowed   = !holdsWorkSlot(ns);
     const savedWork  = await executeCommand<CurrentWork | null>(ns, 'ns.singularity.getCurrentWork()');
     const wasFocused = await executeCommand<boolean>(ns, 'ns.singularity.isFocused()') ?? false;
 
@@ -579,9 +611,19 @@ async function measureCompanyRepGainRate(ns: NS, companyName: CompanyName, field
     const after  = await executeCommand<number>(ns, `ns.singularity.getCompanyRep("${companyName}")`) ?? 0;
 
     await restorePreviousWork(ns, savedWork, wasFocused);
+    if (borrowed) releaseLock(ns, 'work');
     return (after - before) * (1000 / MEASUREMENT_DURATION_MS);
 }
 
+/**
+ * Whether faction_manager's own work holds the 'work' lease. A measurement
+ * without it only borrows the slot, and hands it back once the previous
+ * action is restored.
+ */
+function holdsWorkSlot(ns: NS): boolean {
+    return liveLease(readLeases(ns), 'work', Date.now())?.pid === ns.pid;
+}
+
 async function restorePreviousWork(ns: NS, work: CurrentWork | null, focused: boolean): Promise<void> {
     if (!work?.type) {
         await executeCommand(ns, 'ns.singularity.stopAction()');
@@ -653,9 +695,20 @@ async function resolveCompanyField(ns: NS, companyName: CompanyName): Promise<Jo
 
 // ── Singularity wrappers ──────────────────────────────────────────────────────
 
+/**
+ * Take (or renew) the 'work' lease (lib/lock_bus.ts) before starting any work.
+ * Preempts crime.ts; loses to an in-progress graft.
+ */
+function claimWorkSlot(ns: NS): boolean {
+    const { granted, holder } = acquireLock(ns, 'work', LOCK_OWNER, LOCK_PRIORITY.faction);
+    if (!granted) ns.print(`Work slot held by ${holder?.owner ?? '?'} (pid ${holder?.pid ?? '?'}) — not starting work`);
+    return granted;
+}
+
 async function startWorkForFaction(
     ns: NS, faction: string, workType: FactionWorkType, focus: boolean,
 ): Promise<boolean> {
+    if (!claimWorkSlot(ns)) return false;
     return await executeCommand<boolean>(
         ns, `ns.singularity.workForFaction("${faction}", "${workType}", ${focus})`,
     ) ?? false;
@@ -675,6 +728,7 @@ async function isWorkingForFaction(ns: NS, factionName: string): Promise<boolean
 async function startWorkForCompany(
     ns: NS, companyName: CompanyName, field: JobField, focus: boolean,
 ): Promise<boolean> {
+    if (!claimWorkSlot(ns)) return false;
     await executeCommand<JobName | null>(
         ns, `ns.singularity.applyToCompany("${companyName}", "${field}")`,
     );
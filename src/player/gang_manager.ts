@@ -2,6 +2,7 @@ import type { NS } from '@ns';
 import { saveSubsystem } from '../lib/subsystem_state';
 import { loadSettings } from '../lib/settings';
 import { upsertPending, removePending, drainReplies } from '../lib/decisions';
+import { requestFunds, recordSpend, releaseFunds } from '../lib/budget';
 
 /**
  * Gang manager (docs/design/11) — Wave 1 implementation.
@@ -253,6 +254,7 @@ function nextMemberName(existingMembers: string[]): string {
 
 /**
  * Buy equipment/augmentations for all members within a per-tick budget.
+ * Both budgets are granted through the capital allocator (lib/budget.ts).
  *
  * Sorted cheapest first so lower-tier gear reaches all members before spending
  * big on expensive upgrades. Off-stat equipment (no primary stat bonus) is skipped.
@@ -280,8 +282,12 @@ function buyEquipment(ns: NS, members: string[], isHacking: boolean): void {
 
 	let equipSpent = 0;
 	let augSpent   = 0;
-	const equipBudget = playerMoney * EQUIP_BUDGET_FRACTION;
-	const augBudget   = playerMoney * AUG_BUDGET_FRACTION;
+	const policy      = loadSettings(ns).budgetPolicy;
+	// Claims only last this tick: whatever isn't spent below is released again.
+	const wantsAugs   = equipList.some(e => e.type === 'Augmentation');
+	const wantsEquip  = equipList.some(e => e.type !== 'Augmentation');
+	const augBudget   = wantsAugs  ? requestFunds(ns, 'gangAugs', playerMoney * AUG_BUDGET_FRACTION, policy).granted : 0;
+	const equipBudget = wantsEquip ? requestFunds(ns, 'gang', playerMoney * EQUIP_BUDGET_FRACTION, policy).granted : 0;
 
 	for (const equip of equipList) {
 		const isAug = equip.type === 'Augmentation';
@@ -304,6 +310,10 @@ function buyEquipment(ns: NS, members: string[], isHacking: boolean): void {
 			} catch { /* ignore — don't break the loop */ }
 		}
 	}
+	if (augSpent > 0) recordSpend(ns, 'gangAugs', augSpent);
+	else if (augBudget > 0) releaseFunds(ns, 'gangAugs');
+	if (equipSpent > 0) recordSpend(ns, 'gang', equipSpent);
+	else if (equipBudget > 0) releaseFunds(ns, 'gang');
 }
 
 /**
@@ -4,6 +4,8 @@ import type { SubsystemStatus } from '../lib/subsystem_state';
 import { loadSettings } from '../lib/settings';
 import { formatMoney } from '../lib/format';
 import { loadPending, upsertPending, removePending, drainReplies } from '../lib/decisions';
+import { acquireLock, releaseLock } from '../lib/lock_bus';
+import { LOCK_PRIORITY } from '../lib/lease_table';
 
 /**
  * Grafting Manager (docs/design/11) — auto-graft daemon.
@@ -26,10 +28,16 @@ import { loadPending, upsertPending, removePending, drainReplies } from '../lib/
  * needed for the actual graft call — only the optional "currently grafting?"
  * probe above needs SF4.
  *
+ * A graft occupies the player's single current-work slot, so it runs under the
+ * 'work' lease (lib/lock_bus.ts) at the top priority: taken when the approved
+ * graft starts (preempting faction work / crime), renewed every tick while the
+ * graft is in progress, released once it's done.
+ *
  * API surface used:
  *   ns.grafting.getGraftableAugmentations()     → string[]
  *   ns.grafting.getAugmentationGraftPrice(name) → number
  *   ns.grafting.graftAugmentation(name, focus)  → boolean (throws if not in New Tokyo)
+ *   ns.grafting.getAugmentationGraftTime(name)  → number (ms)
  *   ns.singularity.getCurrentWork()             → Task | null  (type 'GRAFTING' + .augmentation)
  */
 
@@ -43,6 +51,8 @@ const GRAFT_DEFER_TICKS = 30;
 
 const NEW_TOKYO = 'New Tokyo';
 
+const LOCK_OWNER = 'grafting';
+
 export async function main(ns: NS): Promise<void> {
     ns.disableLog('ALL');
 
@@ -53,6 +63,8 @@ export async function main(ns: NS): Promise<void> {
     let deniedAug = '';
     // "Defer" suppression: cooldown, independent of which aug is cheapest.
     let deferUntilTick = 0;
+    // When the graft we started should finish — the lease's fallback when getCurrentWork() is unavailable.
+    let graftUntil = 0;
 
     while (true) {
         tick++;
@@ -74,7 +86,10 @@ export async function main(ns: NS): Promise<void> {
                 removePending(ns, GRAFT_DECISION_ID);
                 if (reply.verdict === 'approve') {
                     if (ctxAug) {
+                        acquireLock(ns, 'work', LOCK_OWNER, LOCK_PRIORITY.grafting);
                         const ok = ns.grafting.graftAugmentation(ctxAug, false);
+                        if (ok) graftUntil = Date.now() + ns.grafting.getAugmentationGraftTime(ctxAug);
+                        else releaseLock(ns, 'work');
                         ns.print(ok
                             ? `DECISION approved — grafting started: ${ctxAug} (${formatMoney(ctxCost)})`
                             : `WARN: graftAugmentation(${ctxAug}) returned false (too poor / prereqs?)`);
@@ -130,8 +145,10 @@ export async function main(ns: NS): Promise<void> {
         // ── Currently grafting? (requires SF4 singularity; optional) ────────
         let currentlyGrafting = false;
         let activeAug         = '';
+        let workKnown         = false;
         try {
             const work = ns.singularity.getCurrentWork();
+            workKnown = true;
             if (work !== null && work.type === 'GRAFTING') {
                 currentlyGrafting = true;
                 // TypeScript narrows work to GraftingTask after the type check.
@@ -140,6 +157,9 @@ export async function main(ns: NS): Promise<void> {
         } catch {
             // SF4 not available — skip current-work detection
         }
+        const holdWorkSlot = workKnown ? currentlyGrafting : Date.now() < graftUntil;
+        if (holdWorkSlot) acquireLock(ns, 'work', LOCK_OWNER, LOCK_PRIORITY.grafting);
+        else releaseLock(ns, 'work');
 
         // ── Auto-graft decision (design/11 §3.4) ─────────────────────────────
         // Surfaced only when: enabled, a graftable aug exists, player is in New
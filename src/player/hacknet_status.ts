@@ -2,7 +2,11 @@ import type { NS } from '@ns';
 import { saveSubsystem } from '../lib/subsystem_state';
 import type { SubsystemStatus } from '../lib/subsystem_state';
 import { loadSettings } from '../lib/settings';
-import { formatMoney, formatRam, shortNumber } from '../lib/format';
+import { formatMoney, formatRam, formatTime, shortNumber } from '../lib/format';
+import { loadHashSpend } from '../lib/hash_spend';
+import { readResetHorizon } from '../lib/reset_horizon';
+import { PHASE_RESET_MIN_AUGS } from '../lib/config';
+import { PORT_AUGS, peekPort } from '../lib/ports';
 
 /**
  * Hacknet status shim (docs/design/11 §3.2).
@@ -13,8 +17,11 @@ import { formatMoney, formatRam, shortNumber } from '../lib/format';
  * for the control console's Subsystems panel.
  *
  * id: 'hacknet'  |  available: always true  |  running: true
- * headline: "6 nodes · $1.2k/s"   (or "6 nodes · 4.20 H/s" in hash-mode)
- * metrics: nodes, prod/s, totalProduced, hashes/hashCap/hashFill% (hash-mode only),
+ * headline: "6 nodes · $1.2k/s · cutoff 05:00"   (or "… 4.20 H/s …" in hash-mode)
+ * metrics: nodes, prod/s, totalProduced, hashes/hashCap/hashFill% and
+ *          hashStrategy/hashLast/hashWhy/hashSpent (hash-mode only),
+ *          payoffCutoff/horizonBasis/pendingAugs/rep/s (reset horizon,
+ *          lib/reset_horizon.ts — the engine's ROI cutoff),
  *          avgLevel, totalRam, avgCores
  */
 export async function main(ns: NS): Promise<void> {
@@ -64,9 +71,13 @@ export async function main(ns: NS): Promise<void> {
 				? `${shortNumber(productionPerSec)} H/s`
 				: `${formatMoney(productionPerSec)}/s`;
 
+			// Same estimate hacknet_manager uses as its payoff cutoff
+			const pendingAugs = parseInt(peekPort(ns, PORT_AUGS) ?? '0', 10) || 0;
+			const horizon = readResetHorizon(ns, pendingAugs, PHASE_RESET_MIN_AUGS);
+
 			const headline = numNodes === 0
 				? 'No hacknet nodes'
-				: `${numNodes} nodes · ${prodLabel}`;
+				: `${numNodes} nodes · ${prodLabel} · cutoff ${formatTime(horizon.seconds * 1000)}`;
 
 			const metrics: Record<string, number | string> = {
 				nodes:         numNodes,
@@ -82,8 +93,20 @@ export async function main(ns: NS): Promise<void> {
 				metrics['hashFill%'] = hashCap > 0
 					? `${((hashes / hashCap) * 100).toFixed(1)}%`
 					: '0%';
+
+				// Spender summary published by hacknet_manager (lib/hash_spend.ts)
+				const spend = loadHashSpend(ns);
+				metrics['hashStrategy'] = settings.hashStrategy;
+				metrics['hashLast']     = spend.last || 'none yet';
+				if (spend.reason) metrics['hashWhy'] = spend.reason;
+				metrics['hashSpent']    = shortNumber(Object.values(spend.spent).reduce((a, b) => a + b, 0));
 			}
 
+			metrics['payoffCutoff'] = formatTime(horizon.seconds * 1000);
+			metrics['horizonBasis'] = horizon.basis;
+			metrics['pendingAugs']  = `${horizon.inputs.pendingAugs}/${horizon.inputs.resetMinAugs}`;
+			metrics['rep/s']        = horizon.inputs.repPerSecond > 0 ? shortNumber(horizon.inputs.repPerSecond) : 'n/a';
+
 			if (numNodes > 0) {
 				metrics['avgLevel']  = (totalLevels / numNodes).toFixed(0);
 				metrics['totalRam']  = formatRam(totalRam);
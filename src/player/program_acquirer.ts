@@ -3,6 +3,8 @@ import { executeCommand } from '../lib/ns_dodge';
 import { isSingleInstance, findAllPaths } from '../lib/net_scan';
 import { traverse } from '../lib/connect';
 import { checkOwnSF } from '../lib/sf_check';
+import { loadSettings } from '../lib/settings';
+import { requestFunds, recordSpend, releaseFunds } from '../lib/budget';
 
 // ── Program buying constants ──────────────────────────────────────────────────
 
@@ -111,7 +113,8 @@ export async function buyPortOpeners(ns: NS, openersToBuy: string[]): Promise<st
         const index = PORT_OPENER_NAMES.indexOf(opener);
         const cost  = PORT_OPENER_COSTS[index];
 
-        if (ns.getPlayer().money >= cost) {
+        if (ns.getPlayer().money >= cost
+            && requestFunds(ns, 'programs', cost, loadSettings(ns).budgetPolicy).granted >= cost) {
             if (opener === 'tor') {
                 await executeCommand<boolean>(ns, 'ns.singularity.purchaseTor()');
             } else {
@@ -121,9 +124,11 @@ export async function buyPortOpeners(ns: NS, openersToBuy: string[]): Promise<st
             // Re-check after purchase attempt
             const owned = opener === 'tor' ? ns.hasTorRouter() : ns.fileExists(opener, 'home');
             if (owned) {
+                recordSpend(ns, 'programs', cost);
                 ns.print(`Purchased: ${opener}`);
                 continue;
             }
+            releaseFunds(ns, 'programs');
         }
 
         remaining.push(opener);
@@ -3,6 +3,7 @@ import { saveSubsystem } from '../lib/subsystem_state';
 import type { SubsystemStatus } from '../lib/subsystem_state';
 import { loadSettings } from '../lib/settings';
 import { upsertPending, removePending, drainReplies } from '../lib/decisions';
+import { requestFunds, recordSpend, releaseFunds } from '../lib/budget';
 
 /**
  * Sleeve manager (docs/design/11) — persistent daemon.
@@ -189,7 +190,8 @@ function checkSleeveAugPurchase(
 	if (deniedAugIds.has(id)) return;
 	if (tick < (deferUntilTick.get(id) ?? 0)) return;
 
-	if (ns.getPlayer().money < cheapest.cost) return; // not affordable yet — don't surface prematurely
+	// Not affordable yet (or the allocator is holding the cash) — don't surface prematurely.
+	if (requestFunds(ns, 'sleeve', cheapest.cost, loadSettings(ns).budgetPolicy).granted < cheapest.cost) return;
 
 	const added = upsertPending(ns, {
 		id,
@@ -225,7 +227,10 @@ function applySleeveAugReplies(
 		if (reply.verdict === 'approve') {
 			let ok = false;
 			try {
+				const cost = ns.sleeve.getSleevePurchasableAugs(idx).find((a: { name: string }) => a.name === augName)?.cost ?? 0;
 				ok = ns.sleeve.purchaseSleeveAug(idx, augName);
+				if (ok) recordSpend(ns, 'sleeve', cost);
+				else releaseFunds(ns, 'sleeve');
 			} catch (e) {
 				ns.print(`WARN: purchaseSleeveAug(${idx}, ${augName}) threw: ${String(e)}`);
 			}
@@ -234,9 +239,11 @@ function applySleeveAugReplies(
 				: `WARN: sleeve ${idx} purchase of "${augName}" returned false (money/state may have changed)`);
 		} else if (reply.verdict === 'deny') {
 			deniedAugIds.add(reply.id);
+			releaseFunds(ns, 'sleeve');
 			ns.print(`DECISION denied — sleeve ${idx} aug "${augName}" suppressed`);
 		} else if (reply.verdict === 'defer') {
 			deferUntilTick.set(reply.id, tick + AUG_DECISION_DEFER_TICKS);
+			releaseFunds(ns, 'sleeve');
 			ns.print(`DECISION deferred — sleeve ${idx} aug "${augName}" re-surfacing in ${AUG_DECISION_DEFER_TICKS} ticks`);
 		}
 	}
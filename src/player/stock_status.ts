@@ -3,20 +3,24 @@ import { saveSubsystem } from '../lib/subsystem_state';
 import type { SubsystemStatus } from '../lib/subsystem_state';
 import { loadSettings } from '../lib/settings';
 import { formatMoney } from '../lib/format';
+import { loadTradeJournal, winRate, avgHoldTicks, symbolsByPnl, EXIT_REASON_LABELS } from '../lib/trade_journal';
+import type { ExitReason, JournalStats } from '../lib/trade_journal';
 
 /**
  * Stock status shim (docs/design/11 §3.2).
  *
  * STATUS SHIM — does NOT place trades. Reports on the bootstrap-launched stock
- * engine (/stock/main.js) by publishing a SubsystemStatus every ~5 s. The stock
- * engine writes only to PORT_STOCK (coordinator coupling) and HUD — it emits no
- * status file — so we read portfolio state directly via ns.stock.*.
+ * engine (/stock/main.js) by publishing a SubsystemStatus every ~5 s. Open
+ * positions are read directly via ns.stock.*; closed-trade stats come from the
+ * engine's trade journal (status/stock_journal.json, lib/trade_journal.ts).
  *
  * availability gate: ns.stock.hasTixApiAccess() — false/throw → available:false
  *
  * id: 'stock'  |  running: true (when available)
  * headline: "Portfolio $4.50m · +$300.00k"
- * metrics: positions, totalValue, totalProfit (longs + shorts combined)
+ * metrics: positions, totalValue, totalProfit (longs + shorts combined), then the
+ *          journal's realized P&L, closed trades, win rate, average hold, P&L by
+ *          exit reason and the best/worst symbols
  *
  * Long  P/L: sharesLong  * (getBidPrice − avgLongPrice)   (bid = what market pays us)
  * Short P/L: sharesShort * (avgShortPrice − getPrice)      (price fell = profit)
@@ -89,9 +93,7 @@ export async function main(ns: NS): Promise<void> {
 				}
 			}
 
-			const profitLabel = totalProfit >= 0
-				? `+${formatMoney(totalProfit)}`
-				: `-${formatMoney(Math.abs(totalProfit))}`;
+			const profitLabel = signed(totalProfit);
 
 			const headline = positionsHeld === 0
 				? 'No open positions'
@@ -107,6 +109,7 @@ export async function main(ns: NS): Promise<void> {
 					positions:   positionsHeld,
 					totalValue:  formatMoney(totalValue),
 					totalProfit: profitLabel,
+					...journalMetrics(loadTradeJournal(ns).stats),
 				},
 				ts:        Date.now(),
 			};
@@ -127,3 +130,29 @@ export async function main(ns: NS): Promise<void> {
 		await ns.sleep(5000);
 	}
 }
+
+/** Signed money label, as in the headline. */
+function signed(n: number): string {
+	return n >= 0 ? `+${formatMoney(n)}` : `-${formatMoney(Math.abs(n))}`;
+}
+
+/** Realized-trade detail rows from the journal's aggregate stats. */
+function journalMetrics(s: JournalStats): Record<string, number | string> {
+	if (s.trades === 0) return { closedTrades: 0 };
+	const metrics: Record<string, number | string> = {
+		realizedProfit: signed(s.pnl),
+		closedTrades:   s.trades,
+		winRate:        `${(winRate(s) * 100).toFixed(0)}%`,
+		avgHoldTicks:   avgHoldTicks(s).toFixed(1),
+		commissions:    formatMoney(s.commissions),
+	};
+	for (const [reason, b] of Object.entries(s.byReason)) {
+		metrics[`exit: ${EXIT_REASON_LABELS[reason as ExitReason]}`] = `${b.trades} · ${signed(b.pnl)}`;
+	}
+	const symbols = symbolsByPnl(s);
+	const shown = symbols.length > 6 ? [...symbols.slice(0, 3), ...symbols.slice(-3)] : symbols;
+	for (const [sym, b] of shown) {
+		metrics[`symbol: ${sym}`] = `${b.trades} · ${signed(b.pnl)}`;
+	}
+	return metrics;
+}
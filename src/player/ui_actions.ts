@@ -7,6 +7,8 @@ import {
     visitLoc,
     terminalCmd,
 } from '../lib/dom';
+import { acquireLock, releaseLock, withLock } from '../lib/lock_bus';
+import { LOCK_PRIORITY } from '../lib/lease_table';
 
 /**
  * UI Actions — SF4-free early game automation via DOM clicks + terminal injection.
@@ -19,6 +21,10 @@ import {
  * `--early-loop` daemon alongside brain.ts (that would race the same DOM clicks
  * against brain.ts's own calls). The CLI flags below remain for manual/standalone use.
  *
+ * Every click/keystroke runs under the 'dom' lease and anything that starts work
+ * (a course, a program) takes the 'work' lease first (lib/lock_bus.ts) — a busy
+ * lease makes the action return false as if it had failed.
+ *
  * Actions:
  *   --buy-tor          Buy TOR router (City→TechVendor→click Purchase)
  *   --buy-programs     Buy all 5 port opener programs (terminal buy cmd)
@@ -50,6 +56,8 @@ const PORT_OPENER_COSTS: Record<string, number> = {
 };
 const TOR_COST = 200_000;
 const LOOP_INTERVAL_MS = 5000;
+/** Lease owner shown in the console, whichever script calls in. */
+const LOCK_OWNER = 'uiActions';
 
 // ── Helpers ─────────────────────────────────────────────────────────────────────
 
@@ -62,6 +70,10 @@ function hasTor(ns: NS): boolean {
 /** Try each candidate location until target button is found. Skips locations in a city the
  *  player isn't currently in (see LOCATION_CITY) — silently, since that's expected, not an error. */
 async function tryLocations(ns: NS, locations: string[], btnText: string): Promise<boolean> {
+    return withLock(ns, 'dom', LOCK_OWNER, LOCK_PRIORITY.ui, false, () => clickAtLocations(ns, locations, btnText));
+}
+
+async function clickAtLocations(ns: NS, locations: string[], btnText: string): Promise<boolean> {
     const city = ns.getPlayer().city;
     const reachable = locations.filter(loc => LOCATION_CITY[loc] === undefined || LOCATION_CITY[loc] === city);
     for (const loc of reachable) {
@@ -97,7 +109,7 @@ export async function buyProgram(ns: NS, prog: string): Promise<boolean> {
     const cost = PORT_OPENER_COSTS[prog] ?? 0;
     try { if (ns.getServerMoneyAvailable('home') < cost) return false; } catch { /* */ }
     ns.print(`[ui] Buying ${prog} ($${cost.toLocaleString()})...`);
-    return terminalCmd(`buy ${prog}`);
+    return withLock(ns, 'dom', LOCK_OWNER, LOCK_PRIORITY.ui, false, async () => terminalCmd(`buy ${prog}`));
 }
 
 export async function buyAllPortOpeners(ns: NS): Promise<number> {
@@ -145,9 +157,16 @@ export async function takeCourse(ns: NS, course = 'Computer Science'): Promise<b
     // the class from zero and spam a popup every cycle. "Stop taking course" only renders
     // on the Work-in-progress screen while a class is active (WorkInProgressRoot.tsx) — no
     // Singularity call needed, so this stays SF4-free like the rest of this file.
+    //
+    // On success the 'work' lease stays held — the caller renews it for as long as it wants
+    // the class kept (brain.ts), and stops counting on the class once a renew fails.
+    const { granted, holder } = acquireLock(ns, 'work', LOCK_OWNER, LOCK_PRIORITY.study);
+    if (!granted) { ns.print(`[ui] work slot held by ${holder?.owner ?? '?'} — not studying`); return false; }
     if (findAnyButton('Stop taking course')) { ns.print('[ui] already studying'); return true; }
     ns.print(`[ui] Taking ${course}...`);
-    return tryLocations(ns, UNIVERSITIES, course);
+    const ok = await tryLocations(ns, UNIVERSITIES, course);
+    if (!ok) releaseLock(ns, 'work');
+    return ok;
 }
 
 /**
@@ -160,17 +179,29 @@ export async function takeCourse(ns: NS, course = 'Computer Science'): Promise<b
  * clicking it is always safe, unlike re-clicking the course/job button itself.
  */
 export async function resumeFocus(ns: NS): Promise<boolean> {
-    const btn = findAnyButton('Focus');
-    if (!btn) return false;
-    clickEl(btn);
-    ns.print('[ui] resumed focus');
-    return true;
+    return withLock(ns, 'dom', LOCK_OWNER, LOCK_PRIORITY.ui, false, async () => {
+        const btn = findAnyButton('Focus');
+        if (!btn) return false;
+        clickEl(btn);
+        ns.print('[ui] resumed focus');
+        return true;
+    });
 }
 
 // Named makeProgram (not createProgram) to avoid ns.singularity.createProgram collision (80 GB)
 export async function makeProgram(ns: NS, prog = 'BruteSSH.exe'): Promise<boolean> {
     try { if (ns.fileExists(prog, 'home')) { ns.print(`[ui] ${prog} already owned`); return true; } } catch { /* */ }
+    // Like takeCourse: the program keeps being created after the click, so on success the
+    // 'work' lease stays held and the caller renews it for as long as it wants the work kept.
+    const { granted, holder } = acquireLock(ns, 'work', LOCK_OWNER, LOCK_PRIORITY.study);
+    if (!granted) { ns.print(`[ui] work slot held by ${holder?.owner ?? '?'} — not creating ${prog}`); return false; }
     ns.print(`[ui] Creating ${prog} (may be blocked by isTrusted gate)...`);
+    const ok = await withLock(ns, 'dom', LOCK_OWNER, LOCK_PRIORITY.ui, false, () => clickCreateProgram(ns, prog));
+    if (!ok) releaseLock(ns, 'work');
+    return ok;
+}
+
+async function clickCreateProgram(ns: NS, prog: string): Promise<boolean> {
     if (!navToPage('Create Program')) return false;
     await ns.sleep(500);
     const d = eval('docu' + 'ment') as Document;
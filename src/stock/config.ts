@@ -1,5 +1,5 @@
 import { NS } from '@ns';
-import { checkOwnSF } from '../lib/sf_check';
+import { getSFLevel } from '../lib/sf_check';
 
 /**
  * Configuration for stock trading operations
@@ -70,6 +70,8 @@ export class StockConfig {
     // Feature flags
     /** Whether shorting stocks is enabled */
     readonly hasShortSelling: boolean;
+    /** Whether limit/stop orders back each position's stop loss and profit target */
+    readonly hasOrders: boolean;
 
     // Stock market API options
     readonly apiOptions = {
@@ -90,10 +92,14 @@ export class StockConfig {
     /**
      * Constructor
      * @param ns NetScript API
+     * @param options Opt out of shorts / orders even where they're unlocked
      */
-    constructor(private ns: NS) {
-        // Check if short selling is available (SF8.2)
-        this.hasShortSelling = checkOwnSF(ns, 8, 2);
+    constructor(private ns: NS, options: { disableShorts?: boolean; disableOrders?: boolean } = {}) {
+        // Inside BitNode 8 both are unlocked; elsewhere shorts need SF8.2 and orders SF8.3
+        const inBn8 = ns.getResetInfo().currentNode === 8;
+        const sf8 = getSFLevel(ns, 8);
+        this.hasShortSelling = !options.disableShorts && (inBn8 || sf8 >= 2);
+        this.hasOrders = !options.disableOrders && (inBn8 || sf8 >= 3);
     }
 
     /**
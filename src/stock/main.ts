@@ -5,35 +5,21 @@ import { StockMarket } from './market';
 import { StockTrader } from './trader';
 import { isSingleInstance } from '../lib/net_scan';
 import { PORT_STOCK, pushPort, clearPort } from '../lib/ports';
+import { registerDaemon } from '../lib/task_bus';
+import { isStockStrategyId, STOCK_STRATEGY_IDS } from '../lib/stock_strategy';
+import type { StockPosition } from '../lib/stock_coupling';
 
 // For HUD display
 interface HudElement extends HTMLElement {
     innerText: string;
 }
 
-// ── Position-publishing types ──────────────────────────────────────────────────
-
-/** Per-symbol report written to PORT_STOCK each cycle.
- *  Coordinator reads this to bias grow→longs and hack→shorts (stock↔hack coupling).
- *  Matches Zharay port-16 schema: zharay.md §"Stock Trading" → reportStocks().
- */
-interface StockPosition {
-    sym:             string;
-    long:            boolean;
-    short:           boolean;
-    /** profitPotential = volatility * (forecast - 0.5); Zharay formula (unadjusted).
-     *  Positive = bullish (grow the underlying), negative = bearish (hack it). */
-    profitPotential: number;
-    /** Change in profitPotential since position was opened: see Stock.profitChange().
-     *  Momentum decay (<-25% long / >+25% short) is also used by trader.ts's
-     *  checkPositionManagement() as a sell trigger. */
-    profitChange:    number;
-}
+// ── Position publishing ───────────────────────────────────────────────────────
 
 /**
  * Publish current long/short positions to PORT_STOCK.
- * Port writes are 0 GB.  Coordinator (and future batcher) drain this to decide
- * whether to bias grow or hack toward each underlying server.
+ * Port writes are 0 GB.  Coordinator peeks this to bias grow→longs and
+ * hack→shorts on each underlying server (lib/stock_coupling.ts).
  */
 function reportPositions(ns: NS, market: StockMarket): void {
     const owned = market.getOwnedStocks();
@@ -71,6 +57,8 @@ export async function main(ns: NS): Promise<void> {
         ['mock', false],
         ['reserve', 0],
         ['disable-shorts', false],
+        ['disable-orders', false],
+        ['strategy', ''],
         ['disableHud', false],
     ]);
 
@@ -80,7 +68,15 @@ export async function main(ns: NS): Promise<void> {
         return;
     }
 
+    // Strategy pinned for A/B runs; otherwise settings.stockStrategy or auto
+    const strategyFlag = args.strategy as string;
+    if (strategyFlag !== '' && !isStockStrategyId(strategyFlag)) {
+        ns.tprint(`Stock: unknown --strategy '${strategyFlag}' (one of ${STOCK_STRATEGY_IDS.join(', ')})`);
+        return;
+    }
+
     if (!isSingleInstance(ns)) return;
+    registerDaemon(ns, 'stockEngine');
 
     ns.disableLog('ALL');
     ns.enableLog('print');
@@ -104,9 +100,12 @@ export async function main(ns: NS): Promise<void> {
     }
 
     // Initialize objects
-    const config = new StockConfig(ns);
+    const config = new StockConfig(ns, {
+        disableShorts: args['disable-shorts'] as boolean,
+        disableOrders: args['disable-orders'] as boolean,
+    });
     const market = new StockMarket(ns, config);
-    const trader  = new StockTrader(ns, config, market);
+    const trader  = new StockTrader(ns, config, market, strategyFlag);
 
     ns.ui.openTail();
     ns.clearLog();
@@ -124,7 +123,8 @@ export async function main(ns: NS): Promise<void> {
         });
     }
 
-    ns.print(`Stock engine running. TIX: ${ns.stock.hasTixApiAccess()}, 4S: ${ns.stock.has4SData()}`);
+    ns.print(`Stock engine running. TIX: ${ns.stock.hasTixApiAccess()}, 4S: ${ns.stock.has4SData()}, ` +
+        `shorts: ${config.hasShortSelling}, orders: ${config.hasOrders}`);
 
     await market.initialize();
     await trader.initialize();
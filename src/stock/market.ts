@@ -1,8 +1,16 @@
-import { NS } from '@ns';
+import { NS, StockOrder } from '@ns';
 import { Stock } from './stock';
 import { StockConfig } from './config';
 import { formatMoney, shortNumber } from '../lib/format';
+import { executeCommand } from '../lib/ns_dodge';
 import { ForecastHelper } from './forecast';
+import { loadStockHistory, restoreHistory, saveStockHistory, StockHistory } from '../lib/stock_history';
+import { loadTradeJournal, recordTrade, saveTradeJournal, EXIT_REASON_LABELS, EMPTY_JOURNAL } from '../lib/trade_journal';
+import type { ExitReason, JournalEntry, TradeJournal } from '../lib/trade_journal';
+
+/** Exit order types — both close the position */
+const STOP_SELL = 'Stop Sell Order';
+const LIMIT_SELL = 'Limit Sell Order';
 
 /**
  * Manages the stock market data and operations
@@ -19,8 +27,10 @@ export class StockMarket {
 
     // Status tracking
     private totalProfit: number = 0;
+    private journal: TradeJournal = EMPTY_JOURNAL;
     private lastLog: string = '';
     private lastTick: number = 0;
+    private ticksSeen: number = 0;
 
     // Market analysis
     private marketCycleDetected: boolean = false;
@@ -51,15 +61,33 @@ export class StockMarket {
         // Get all stock symbols
         this.allSymbols = this.ns.stock.getSymbols();
 
-        // Initialize stock objects
-        await this.initializeStocks();
-
-        // Initialize global variables
+        // Initialize global variables (before the stocks, which may restore cycle state)
         this.totalProfit = 0;
+        this.journal = loadTradeJournal(this.ns);
         this.lastLog = '';
         this.marketCycleDetected = false;
         this.detectedCycleTick = 0;
         this.inversionAgreementThreshold = 6;
+
+        // Orders left by a previous run belong to positions this run knows nothing about
+        if (this.config.hasOrders) await this.cancelStaleOrders();
+
+        // Initialize stock objects
+        await this.initializeStocks();
+    }
+
+    /**
+     * Cancel every resting order; positions they backed fall back to polled exits
+     */
+    private async cancelStaleOrders(): Promise<void> {
+        let cancelled = 0;
+        const resting = await this.orderCall<StockOrder | undefined>('getOrders') ?? {};
+        for (const symbol of Object.keys(resting)) {
+            for (const order of resting[symbol]) {
+                if (await this.orderCall<boolean>('cancelOrder', symbol, order.shares, order.price, order.type, order.position)) cancelled++;
+            }
+        }
+        if (cancelled > 0) this.log(`Cancelled ${cancelled} stale order(s) from a previous run`);
     }
 
     /**
@@ -77,10 +105,66 @@ export class StockMarket {
             this.allStocks.push(stock);
         }
 
+        // Pick up the tick history of the previous run, if it's recent enough
+        this.restoreHistory();
+
         // Do an initial refresh to populate data
         await this.refreshStockData();
     }
 
+    /**
+     * Seed price history and cycle state from status/stock_history.json
+     */
+    private restoreHistory(): void {
+        const restored = restoreHistory(loadStockHistory(this.ns), Date.now(), this.config.pre4sParams.marketCycleLength);
+        const history = restored.history;
+        if (!history) {
+            if (restored.gapTicks > 0) this.log(`Price history ${restored.reason} - warming up from scratch`);
+            return;
+        }
+
+        let seeded = 0;
+        for (const stock of this.allStocks) {
+            const saved = history.symbols[stock.symbol];
+            if (!saved) continue;
+            stock.priceHistory = saved.prices.slice(0, this.config.pre4sParams.maxTickHistory);
+            stock.ask_price = saved.ask;
+            stock.lastInversion = saved.lastInversion;
+            seeded++;
+        }
+
+        this.detectedCycleTick = history.cycleTick;
+        this.marketCycleDetected = history.cycleDetected;
+        if (history.agreementThreshold > 0) {
+            this.inversionAgreementThreshold = history.agreementThreshold;
+        }
+        this.lastTick = history.ts;
+
+        this.log(`Price history ${restored.reason}: ${seeded} stocks, ` +
+            `${this.allStocks[0]?.priceHistory.length ?? 0} ticks, cycle tick ${this.detectedCycleTick}`);
+    }
+
+    /**
+     * Persist price history and cycle state for the next run
+     */
+    private saveHistory(): void {
+        const history: StockHistory = {
+            ts: this.lastTick,
+            cycleTick: this.detectedCycleTick,
+            cycleDetected: this.marketCycleDetected,
+            agreementThreshold: this.inversionAgreementThreshold,
+            symbols: {},
+        };
+        for (const stock of this.allStocks) {
+            history.symbols[stock.symbol] = {
+                prices: stock.priceHistory,
+                ask: stock.ask_price,
+                lastInversion: stock.lastInversion,
+            };
+        }
+        saveStockHistory(this.ns, history);
+    }
+
     /**
      * Refresh all stock data
      * @returns Total value of holdings
@@ -97,6 +181,7 @@ export class StockMarket {
         // Update last tick time
         if (ticked) {
             this.lastTick = Date.now();
+            this.ticksSeen++;
         }
 
         // Update each stock's data
@@ -124,6 +209,7 @@ export class StockMarket {
             // Track previous position to detect changes
             const prevLong = stock.sharesLong;
             const prevShort = stock.sharesShort;
+            const prevBoughtPrice = prevLong > 0 ? stock.boughtPrice : stock.boughtPriceShort;
 
             // Update position
             stock.sharesLong = sharesLong;
@@ -131,6 +217,11 @@ export class StockMarket {
             stock.sharesShort = sharesShort;
             stock.boughtPriceShort = avgPriceShort;
 
+            // A position gone without sellStock (which clears purchasePrice) was closed by an exit order
+            if (stock.purchasePrice !== undefined && stock.hasExitOrders() && !stock.owned() && (prevLong > 0 || prevShort > 0)) {
+                await this.recordOrderFill(stock, prevLong > 0, prevLong > 0 ? prevLong : prevShort, prevBoughtPrice);
+            }
+
             // Calculate holdings value
             holdings += stock.positionValue();
 
@@ -161,9 +252,10 @@ export class StockMarket {
             }
         }
 
-        // If the market ticked, update forecasts
+        // If the market ticked, update forecasts and persist the new tick
         if (ticked) {
             await this.updateForecasts();
+            this.saveHistory();
         }
 
         return holdings;
@@ -290,41 +382,21 @@ export class StockMarket {
     }
 
     /**
-     * Get the best stock trading opportunities
-     * @returns Array of stocks sorted by opportunity
+     * Stocks not currently held, for the active strategy to screen and rank
+     * (stock/strategy.ts)
      */
-    getTradeOpportunities(): Stock[] {
-        const ownedStocks = this.myStocks;
-        const potentialStocks = this.allStocks.filter(stock => !stock.owned());
-
-        // Sort potential stocks by trading opportunity
-        const sortedPotentialStocks = potentialStocks
-            .filter(stock => {
-                if (!this.isWorthBuying(stock)) {
-                    return false;
-                }
-
-                const forecastThreshold = this.has4SData ? 0.54 : 0.58;
-                const volatilityThreshold = this.has4SData ? 0.95 : 0.75;
-                const { cycleProbability } = this.detectMarketCycle(stock);
-                const liquidityFactor = stock.price * stock.maxShares > 1e10;
-
-                if (this.config.hasShortSelling) {
-                    return (
-                        (stock.forecast > forecastThreshold && stock.volatility < volatilityThreshold) ||
-                        (stock.forecast < (1 - forecastThreshold) && stock.volatility < volatilityThreshold)
-                    ) && cycleProbability < 0.8 && liquidityFactor;
-                } else {
-                    return stock.forecast > forecastThreshold &&
-                        stock.volatility < volatilityThreshold &&
-                        cycleProbability < 0.8 &&
-                        liquidityFactor;
-                }
-            })
-            .sort(this.purchaseOrder);
+    getCandidates(): Stock[] {
+        return this.allStocks.filter(stock => !stock.owned());
+    }
 
-        // Return owned stocks first, followed by potential stocks
-        return [...ownedStocks, ...sortedPotentialStocks].slice(0, this.config.tradingParams.maxPositions);
+    /**
+     * Ticks until the next expected market cycle flip, once a cycle has been
+     * detected
+     * @returns Ticks left, or null while the cycle is unknown
+     */
+    ticksUntilCycle(): number | null {
+        if (!this.marketCycleDetected) return null;
+        return this.config.pre4sParams.marketCycleLength - this.detectedCycleTick;
     }
 
     /**
@@ -332,7 +404,7 @@ export class StockMarket {
      * @param stock Stock to check
      * @returns Whether it's worth buying
      */
-    private isWorthBuying(stock: Stock): boolean {
+    isWorthBuying(stock: Stock): boolean {
         const playerMoney = this.ns.getPlayer().money;
         const commission = this.config.tradingParams.commission;
         const affordableShares = Math.min(
@@ -342,20 +414,12 @@ export class StockMarket {
         const investment = affordableShares * stock.price;
         const commissionPercent = (commission * 2) / investment;
 
-        return stock.forecast > 0.53 && (this.config.tradingParams.targetProfit > commissionPercent * 1.5);
-    }
-
-    /**
-     * Sort function for purchasing order
-     */
-    private purchaseOrder = (a: Stock, b: Stock): number => {
-        // Primary sort: time to cover the spread (lower is better)
-        const timeDiff = Math.ceil(a.timeToCoverTheSpread()) - Math.ceil(b.timeToCoverTheSpread());
-        if (timeDiff !== 0) return timeDiff;
+        const strongEnough = this.config.hasShortSelling
+            ? Math.abs(stock.forecast - 0.5) > 0.03
+            : stock.forecast > 0.53;
 
-        // Secondary sort: expected return (higher is better)
-        return b.absReturn() - a.absReturn();
-    };
+        return strongEnough && (this.config.tradingParams.targetProfit > commissionPercent * 1.5);
+    }
 
     /**
      * Detect possible market cycle in a stock
@@ -460,6 +524,16 @@ export class StockMarket {
             stock.purchaseProfitPotential = stock.profitPotential();
         }
 
+        this.recordTrade({
+            ts: Date.now(), symbol: stock.symbol, side: long ? 'long' : 'short', action: 'open',
+            shares, price, commission: this.config.tradingParams.commission,
+            reason: null, holdTicks: 0, pnl: 0,
+        });
+
+        if (this.config.hasOrders && !stock.hasExitOrders()) {
+            await this.placeExitOrders(stock, shares, price, long);
+        }
+
         await this.ns.sleep(this.config.tradingParams.tradeCooldown);
 
         return shares * price + this.config.tradingParams.commission;
@@ -468,16 +542,19 @@ export class StockMarket {
     /**
      * Sell a stock position
      * @param stock Stock to sell
-     * @param reason Reason for selling
+     * @param reason Why it's being sold (journaled)
      * @returns Revenue from the sale
      */
-    async sellStock(stock: Stock, reason: string): Promise<number> {
+    async sellStock(stock: Stock, reason: ExitReason): Promise<number> {
         if (!stock.owned()) return 0;
 
         const long = stock.sharesLong > 0;
         const shares = long ? stock.sharesLong : stock.sharesShort;
         const expectedPrice = long ? stock.bid_price : stock.ask_price;
 
+        // Pull the exit orders first so they can't fire on a later position
+        await this.cancelExitOrders(stock);
+
         if (long && stock.sharesShort > 0) {
             this.log(`ERROR: Somehow ended up both ${stock.sharesShort} short and ${stock.sharesLong} long on ${stock.symbol}`, true);
         }
@@ -493,15 +570,6 @@ export class StockMarket {
             return 0;
         }
 
-        const profit = (long ?
-            shares * (price - stock.boughtPrice) :
-            shares * (stock.boughtPriceShort - price)) - 2 * this.config.tradingParams.commission;
-
-        this.log(`${profit > 0 ? 'SUCCESS' : 'WARNING'}: Sold all ${shortNumber(shares).padStart(5)} ` +
-            `${stock.symbol.padEnd(5)} ${long ? ' long' : 'short'} positions @ ${formatMoney(price).padStart(9)} ` +
-            `for a ${profit > 0 ? `PROFIT of ${formatMoney(profit).padStart(9)}` : ` LOSS  of ${formatMoney(-profit).padStart(9)}`} ` +
-            `after ${stock.ticksHeld} ticks - ${reason}`, true);
-
         if (price === 0) {
             this.log(`ERROR: Failed to sell ${shares} ${stock.symbol} ${long ? 'shares' : 'shorts'} @ ` +
                 `${formatMoney(expectedPrice)} - 0 was returned.`, true);
@@ -516,12 +584,37 @@ export class StockMarket {
             price = expectedPrice;
         }
 
+        const profit = (long ?
+            shares * (price - stock.boughtPrice) :
+            shares * (stock.boughtPriceShort - price)) - 2 * this.config.tradingParams.commission;
+
+        this.log(`${profit > 0 ? 'SUCCESS' : 'WARNING'}: Sold all ${shortNumber(shares).padStart(5)} ` +
+            `${stock.symbol.padEnd(5)} ${long ? ' long' : 'short'} positions @ ${formatMoney(price).padStart(9)} ` +
+            `for a ${profit > 0 ? `PROFIT of ${formatMoney(profit).padStart(9)}` : ` LOSS  of ${formatMoney(-profit).padStart(9)}`} ` +
+            `after ${stock.ticksHeld} ticks - ${EXIT_REASON_LABELS[reason]}`, true);
+
+        this.recordTrade({
+            ts: Date.now(), symbol: stock.symbol, side: long ? 'long' : 'short', action: 'close',
+            shares, price, commission: this.config.tradingParams.commission,
+            reason, holdTicks: stock.ticksHeld, pnl: profit,
+        });
+
         this.totalProfit += profit;
+        this.clearPositionState(stock);
 
-        // This codebase always sells the FULL position (never partial), so it's safe
-        // to fully reset all position-scoped fields here. Missing even one (e.g.
-        // leaving isShort=true after closing a short) would corrupt the next
-        // position opened on this symbol.
+        await this.ns.sleep(this.config.tradingParams.tradeCooldown);
+
+        return price * shares - this.config.tradingParams.commission;
+    }
+
+    /**
+     * Reset every position-scoped field after a close.
+     * This codebase always closes the FULL position (never partial), so it's safe
+     * to fully reset them. Missing even one (e.g. leaving isShort=true after
+     * closing a short) would corrupt the next position opened on this symbol.
+     * @param stock Stock whose position was closed
+     */
+    private clearPositionState(stock: Stock): void {
         stock.purchasePrice = undefined;
         stock.totalCost = undefined;
         stock.purchaseProfitPotential = undefined;
@@ -529,10 +622,99 @@ export class StockMarket {
         stock.highPrice = 0;
         stock.initialForecast = undefined;
         stock.warnedBadPurchase = false;
+        stock.stopOrderPrice = undefined;
+        stock.targetOrderPrice = undefined;
+        stock.orderShares = 0;
+    }
 
-        await this.ns.sleep(this.config.tradingParams.tradeCooldown);
+    /**
+     * Back a fresh position with a stop-loss and a take-profit order, so those
+     * exits fire at the tick they're crossed instead of on our next poll
+     * @param stock Stock just bought or shorted
+     * @param shares Shares in the position
+     * @param price Entry price
+     * @param long Long (true) or short position
+     */
+    private async placeExitOrders(stock: Stock, shares: number, price: number, long: boolean): Promise<void> {
+        const pos = long ? 'Long' : 'Short';
+        // Same stop as checkPositionManagement's polled one; the target is the flat configured one
+        const stopLoss = this.config.tradingParams.stopLoss * (1 + stock.volatility * 0.5);
+        const targetProfit = this.config.tradingParams.targetProfit;
+        const stop = price * (long ? 1 - stopLoss : 1 + stopLoss);
+        const target = price * (long ? 1 + targetProfit : 1 - targetProfit);
+
+        stock.orderShares = shares;
+        if (await this.orderCall<boolean>('placeOrder', stock.symbol, shares, stop, STOP_SELL, pos)) {
+            stock.stopOrderPrice = stop;
+        }
+        if (await this.orderCall<boolean>('placeOrder', stock.symbol, shares, target, LIMIT_SELL, pos)) {
+            stock.targetOrderPrice = target;
+        }
+        if (!stock.hasExitOrders()) {
+            stock.orderShares = 0;
+            this.log(`WARNING: Could not place exit orders on ${stock.symbol}; polling its exits instead`);
+        }
+    }
 
-        return price * shares - this.config.tradingParams.commission;
+    /**
+     * Cancel whichever exit orders are still resting on a position
+     * @param stock Stock whose orders to cancel
+     */
+    private async cancelExitOrders(stock: Stock): Promise<void> {
+        if (!stock.hasExitOrders()) return;
+        const pos = stock.isShort ? 'Short' : 'Long';
+        // The one that already filled is gone; cancelling it just returns false
+        if (stock.stopOrderPrice !== undefined) {
+            await this.orderCall<boolean>('cancelOrder', stock.symbol, stock.orderShares, stock.stopOrderPrice, STOP_SELL, pos);
+        }
+        if (stock.targetOrderPrice !== undefined) {
+            await this.orderCall<boolean>('cancelOrder', stock.symbol, stock.orderShares, stock.targetOrderPrice, LIMIT_SELL, pos);
+        }
+        stock.stopOrderPrice = undefined;
+        stock.targetOrderPrice = undefined;
+        stock.orderShares = 0;
+    }
+
+    /**
+     * Call an order API through the RAM dodge (lib/ns_dodge.ts): getOrders,
+     * placeOrder and cancelOrder cost 2.5 GB each, which stock/main.js would
+     * otherwise pay even with orders locked (docs/ram_evasion_rules.md)
+     * @param fn ns.stock function
+     * @param args Its arguments
+     * @returns Its result; undefined when the temp script failed
+     */
+    private orderCall<T>(fn: 'getOrders' | 'placeOrder' | 'cancelOrder', ...args: (string | number)[]): Promise<T> {
+        return executeCommand<T>(this.ns, `ns.stock.${fn}(${args.map(a => JSON.stringify(a)).join(', ')})`);
+    }
+
+    /**
+     * Book a position the game closed through one of its exit orders, and
+     * cancel the other one
+     * @param stock Stock whose position was closed
+     * @param long Whether it was a long position
+     * @param shares Shares that were held
+     * @param avgPrice Average entry price
+     */
+    private async recordOrderFill(stock: Stock, long: boolean, shares: number, avgPrice: number): Promise<void> {
+        // Filled somewhere past the order price; the current quote stands in for the fill
+        const price = long ? stock.bid_price : stock.ask_price;
+        const reason: ExitReason = (long ? price >= avgPrice : price <= avgPrice) ? 'profitTarget' : 'stopLoss';
+        const profit = (long ? shares * (price - avgPrice) : shares * (avgPrice - price)) -
+            2 * this.config.tradingParams.commission;
+
+        await this.cancelExitOrders(stock);
+        this.log(`${profit > 0 ? 'SUCCESS' : 'WARNING'}: Order closed ${shortNumber(shares).padStart(5)} ` +
+            `${stock.symbol.padEnd(5)} ${long ? ' long' : 'short'} positions near ${formatMoney(price).padStart(9)} ` +
+            `for a ${profit > 0 ? `PROFIT of ${formatMoney(profit).padStart(9)}` : ` LOSS  of ${formatMoney(-profit).padStart(9)}`} ` +
+            `after ${stock.ticksHeld} ticks - ${EXIT_REASON_LABELS[reason]}`, true);
+
+        this.totalProfit += profit;
+        this.recordTrade({
+            ts: Date.now(), symbol: stock.symbol, side: long ? 'long' : 'short', action: 'close',
+            shares, price, commission: this.config.tradingParams.commission,
+            reason, holdTicks: stock.ticksHeld, pnl: profit,
+        });
+        this.clearPositionState(stock);
     }
 
     /**
@@ -620,6 +802,13 @@ export class StockMarket {
         return this.myStocks.reduce((sum, stock) => sum + stock.positionValue(), 0);
     }
 
+    /**
+     * Market ticks refreshStockData has seen since this process started
+     */
+    getTicksSeen(): number {
+        return this.ticksSeen;
+    }
+
     /**
      * Get the list of currently owned stocks.
      * Used by stock/main.ts to publish positions to PORT_STOCK each cycle.
@@ -637,6 +826,15 @@ export class StockMarket {
         return (fraction * 100 * 100).toFixed(2) + ' BP';
     }
 
+    /**
+     * Append a fill to the trade journal (status/stock_journal.json)
+     * @param entry Journal entry
+     */
+    private recordTrade(entry: JournalEntry): void {
+        this.journal = recordTrade(this.journal, entry);
+        saveTradeJournal(this.ns, this.journal);
+    }
+
     /**
      * Logger function with deduplication
      * @param message Message to log
@@ -25,6 +25,11 @@ export class Stock {
     public totalCost?: number;
     public purchaseProfitPotential?: number;
 
+    // Resting exit orders backing the position (when limit/stop orders are unlocked)
+    public stopOrderPrice?: number;
+    public targetOrderPrice?: number;
+    public orderShares: number = 0;
+
     // Analytics and forecast
     public forecast: number = 0.5;
     public vol: number = 0;
@@ -64,6 +69,13 @@ export class Stock {
         return this.sharesLong + this.sharesShort;
     }
 
+    /**
+     * Whether a stop-loss / take-profit order pair is resting on the position
+     */
+    hasExitOrders(): boolean {
+        return this.stopOrderPrice !== undefined || this.targetOrderPrice !== undefined;
+    }
+
     /**
      * Whether the stock is bullish (probability > 0.5)
      */
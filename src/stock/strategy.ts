@@ -0,0 +1,435 @@
+import { NS } from '@ns';
+import { StockConfig } from './config';
+import { StockMarket } from './market';
+import { Stock } from './stock';
+import { STOCK_STRATEGY_LABELS } from '../lib/stock_strategy';
+import type { StockStrategyId } from '../lib/stock_strategy';
+import type { ExitReason } from '../lib/trade_journal';
+
+/**
+ * What a strategy sees besides the stock itself
+ */
+export interface StrategyContext {
+    ns: NS;
+    config: StockConfig;
+    market: StockMarket;
+    /** Whether the forecasts come from 4S data or the pre-4S estimators */
+    has4SData: boolean;
+}
+
+/**
+ * How the trader picks, sizes and closes positions. StockTrader keeps the
+ * mechanics (budget, trade cap, order of operations); everything it decides
+ * about a symbol goes through the active strategy (lib/stock_strategy.ts).
+ */
+export interface StockStrategy {
+    readonly id: StockStrategyId;
+    readonly label: string;
+
+    /**
+     * Rank an entry candidate against the others (higher is better)
+     */
+    score(stock: Stock, ctx: StrategyContext): number;
+
+    /**
+     * Whether to open a position in an unowned stock
+     */
+    shouldEnter(stock: Stock, ctx: StrategyContext): boolean;
+
+    /**
+     * Why to close an owned position now, or null to keep holding it
+     */
+    exitReason(stock: Stock, ctx: StrategyContext): ExitReason | null;
+
+    /**
+     * Shares to open with out of `budget` (0 = skip)
+     */
+    positionSize(stock: Stock, budget: number, ctx: StrategyContext): number;
+}
+
+/**
+ * Trade the 4S forecasts. The other presets tune or extend it.
+ */
+class ForecastStrategy implements StockStrategy {
+    readonly id: StockStrategyId = 'forecast4s';
+
+    get label(): string {
+        return STOCK_STRATEGY_LABELS[this.id];
+    }
+
+    /** Buy/sell thresholds and exit forecast as with 4S data */
+    protected readonly fourS: boolean = true;
+    /** Forecast a long must beat to enter (a short mirrors it below 0.5) */
+    protected readonly entryForecast: number = 0.54;
+    /** Volatility above which a stock is not entered */
+    protected readonly maxVolatility: number = 0.95;
+
+    /**
+     * Fewest ticks to cover the spread first; expected return (always < 1)
+     * breaks ties
+     */
+    score(stock: Stock, _ctx: StrategyContext): number {
+        return -Math.ceil(stock.timeToCoverTheSpread()) + stock.absReturn();
+    }
+
+    shouldEnter(stock: Stock, ctx: StrategyContext): boolean {
+        if (stock.owned() || !ctx.market.isWorthBuying(stock)) return false;
+
+        const { cycleProbability } = ctx.market.detectMarketCycle(stock);
+        const liquid = stock.price * stock.maxShares > 1e10;
+        if (cycleProbability >= 0.8 || !liquid || stock.volatility >= this.maxVolatility) return false;
+
+        const long = stock.forecast > this.entryForecast;
+        const short = ctx.config.hasShortSelling && stock.forecast < 1 - this.entryForecast;
+        if (!long && !short) return false;
+
+        return stock.absReturn() > ctx.config.getBuyThreshold(this.fourS);
+    }
+
+    exitReason(stock: Stock, ctx: StrategyContext): ExitReason | null {
+        return this.shouldSellPosition(stock, ctx) ? this.getSellReason(stock, ctx) : null;
+    }
+
+    positionSize(stock: Stock, budget: number, ctx: StrategyContext): number {
+        return ctx.market.calculatePositionSize(stock, budget);
+    }
+
+    /**
+     * Return on the position at the price it would close at
+     */
+    protected profit(stock: Stock): number {
+        if (!stock.purchasePrice) return 0;
+        const currentPrice = stock.isShort ? stock.ask_price : stock.bid_price;
+        return stock.isShort ?
+            (stock.purchasePrice - currentPrice) / stock.purchasePrice :
+            (currentPrice - stock.purchasePrice) / stock.purchasePrice;
+    }
+
+    /**
+     * Check if a position should be sold
+     * @param stock Stock to check
+     * @param ctx Strategy context
+     * @returns Whether the position should be sold
+     */
+    protected shouldSellPosition(stock: Stock, ctx: StrategyContext): boolean {
+        if (!stock.owned()) return false;
+
+        // Get thresholds
+        const sellThreshold = ctx.config.getSellThreshold(this.fourS);
+
+        // Check for position type mismatch (bullish but short, or bearish but long)
+        if ((stock.bullish() && stock.sharesShort > 0) || (stock.bearish() && stock.sharesLong > 0)) {
+            return true;
+        }
+
+        // Check for poor expected return
+        if (stock.absReturn() <= sellThreshold) {
+            return true;
+        }
+
+        // Check for sell indicators from position management
+        return this.checkPositionManagement(stock, ctx);
+    }
+
+    /**
+     * Check a position for more complex sell indicators
+     * @param stock Stock to check
+     * @param ctx Strategy context
+     * @returns Whether the stock should be sold
+     */
+    protected checkPositionManagement(stock: Stock, ctx: StrategyContext): boolean {
+        if (!stock.purchasePrice) return false;
+
+        const currentPrice = stock.isShort ? stock.ask_price : stock.bid_price;
+        const profit = this.profit(stock);
+
+        // Update high price for trailing stop
+        if (!stock.isShort && currentPrice > (stock.highPrice || 0)) {
+            stock.highPrice = currentPrice;
+        } else if (stock.isShort && currentPrice < (stock.highPrice || currentPrice)) {
+            stock.highPrice = currentPrice;
+        }
+
+        // Store the initial forecast for comparison if not already set
+        if (!stock.initialForecast) {
+            stock.initialForecast = stock.forecast;
+        }
+
+        // Check for market cycle reversal
+        const { isCycleEnd, cycleProbability } = ctx.market.detectMarketCycle(stock);
+
+        // Dynamic trailing stop that tightens as profit increases
+        let trailingStopPercent: number;
+        if (profit < 0.02) {
+            trailingStopPercent = 0.025 * (1 + stock.volatility);
+        } else if (profit < 0.05) {
+            trailingStopPercent = 0.02 * (1 + 0.5 * stock.volatility);
+        } else {
+            trailingStopPercent = 0.015 * (1 + 0.25 * stock.volatility);
+        }
+
+        // Check trailing stop - more aggressive if at potential cycle end
+        const adjustedTrailingStop = isCycleEnd ? trailingStopPercent * 0.5 : trailingStopPercent;
+
+        // Dynamic profit target based on multiple factors
+        const forecastStrength = Math.abs(stock.forecast - 0.5);
+        const cycleFactor = isCycleEnd ? 0.8 : 1.0;
+        const volatilityFactor = 1 - (stock.volatility * 0.5);
+        const timeHeldFactor = Math.min(1.5, 1 + ((stock.ticksHeld || 0) / 25) * 0.5);
+
+        const dynamicTargetProfit = ctx.config.tradingParams.targetProfit *
+            forecastStrength * 2 * cycleFactor * volatilityFactor * timeHeldFactor;
+
+        const shouldConsiderSelling = this.heldLongEnough(stock, ctx);
+
+        // Check if trailing stop is triggered. Gated by shouldConsiderSelling like every
+        // other check below (bug found live 2026-07-02: this check ran unconditionally, so
+        // highPrice — set at buy time from the ask price — got compared against the very
+        // next tick's bid price and tripped the trailing stop purely from the bid/ask
+        // spread, 0 ticks after purchase, causing a real buy/sell/loss thrash. This code
+        // path was dead before purchasePrice tracking was resurrected this session, so the
+        // gap was never exposed until live-testing.
+        if (!stock.isShort && stock.highPrice && currentPrice < stock.highPrice * (1 - adjustedTrailingStop) && shouldConsiderSelling) {
+            ctx.ns.print(`Position management EXIT (${stock.symbol}): Trailing stop triggered`);
+            return true;
+        } else if (stock.isShort && stock.highPrice && currentPrice > stock.highPrice * (1 + adjustedTrailingStop) && shouldConsiderSelling) {
+            ctx.ns.print(`Position management EXIT (${stock.symbol}): Trailing stop triggered`);
+            return true;
+        }
+
+        // With exit orders resting, the game fires the stop loss and take profit
+        // itself (stock/market.ts books the fill); the remaining exits stay polled
+        const orderBacked = stock.hasExitOrders();
+
+        // Take profit condition
+        if (!orderBacked && profit >= dynamicTargetProfit && shouldConsiderSelling) {
+            ctx.ns.print(`Position management EXIT (${stock.symbol}): Dynamic profit target reached`);
+            return true;
+        }
+
+        // Dynamic stop loss
+        const dynamicStopLoss = ctx.config.tradingParams.stopLoss * (1 + stock.volatility * 0.5);
+
+        // Stop loss - don't wait for minimum hold time for stop loss
+        if (!orderBacked && profit <= -dynamicStopLoss) {
+            ctx.ns.print(`Position management EXIT (${stock.symbol}): Stop loss triggered`);
+            return true;
+        }
+
+        // Check for forecast deterioration
+        const forecastThreshold = this.fourS ? 0.54 : 0.52;
+        const forecastChangeFromInitial = Math.abs(stock.forecast - (stock.initialForecast || 0.5));
+
+        const forecastChanged = (
+            (stock.isShort && stock.forecast > (1 - forecastThreshold)) ||
+            (!stock.isShort && stock.forecast < forecastThreshold)
+        ) && forecastChangeFromInitial > ctx.config.tradingParams.forecastChangeThreshold;
+
+        // Exit on forecast change if we've held long enough
+        if (forecastChanged && shouldConsiderSelling) {
+            ctx.ns.print(`Position management EXIT (${stock.symbol}): Forecast deteriorated`);
+            return true;
+        }
+
+        // Exit on high probability of market cycle reversal if profitable
+        if (isCycleEnd && cycleProbability > 0.8 && profit > 0.02 && shouldConsiderSelling) {
+            ctx.ns.print(`Position management EXIT (${stock.symbol}): Market cycle reversal detected`);
+            return true;
+        }
+
+        // Momentum decay: profitPotential() has decayed (long) or improved against us
+        // (short) by more than 25% relative to its value at purchase time. Gated behind
+        // shouldConsiderSelling like the profit-target/forecast checks above so we don't
+        // over-react to single-tick forecast noise right after a fresh buy.
+        const profitChange = stock.profitChange();
+        const momentumDecayed = stock.isShort ? profitChange > 0.25 : profitChange < -0.25;
+
+        if (momentumDecayed && shouldConsiderSelling) {
+            ctx.ns.print(`Position management EXIT (${stock.symbol}): Momentum decay ` +
+                `(profitChange ${(profitChange * 100).toFixed(1)}%)`);
+            return true;
+        }
+
+        return false;
+    }
+
+    /**
+     * Get the reason for selling a position
+     * @param stock Stock being sold
+     * @param ctx Strategy context
+     * @returns Exit reason, as journaled (lib/trade_journal.ts)
+     */
+    protected getSellReason(stock: Stock, ctx: StrategyContext): ExitReason {
+        // Position type mismatch: the forecast now points against the position
+        if ((stock.bullish() && stock.sharesShort > 0) || (stock.bearish() && stock.sharesLong > 0)) {
+            return 'forecastFlip';
+        }
+
+        if (stock.absReturn() <= ctx.config.getSellThreshold(this.fourS)) {
+            return 'lowReturn';
+        }
+
+        const currentPrice = stock.isShort ? stock.ask_price : stock.bid_price;
+
+        // Mirrors checkPositionManagement's shouldConsiderSelling gate on the trailing-stop
+        // check (same bug fix, same reasoning — see that function's comment).
+        const shouldConsiderSelling = this.heldLongEnough(stock, ctx);
+
+        if (!stock.isShort && stock.highPrice &&
+            currentPrice < stock.highPrice * (1 - 0.02 * (1 + stock.volatility)) && shouldConsiderSelling) {
+            return 'trailingStop';
+        }
+
+        if (stock.isShort && stock.highPrice &&
+            currentPrice > stock.highPrice * (1 + 0.02 * (1 + stock.volatility)) && shouldConsiderSelling) {
+            return 'trailingStop';
+        }
+
+        if (!stock.purchasePrice) return 'other';
+        const profit = this.profit(stock);
+
+        if (profit >= ctx.config.tradingParams.targetProfit) {
+            return 'profitTarget';
+        }
+
+        if (profit <= -ctx.config.tradingParams.stopLoss) {
+            return 'stopLoss';
+        }
+
+        const { isCycleEnd, cycleProbability } = ctx.market.detectMarketCycle(stock);
+        if (isCycleEnd && cycleProbability > 0.8) {
+            return 'cycleReversal';
+        }
+
+        const forecastChangeFromInitial = Math.abs(stock.forecast - (stock.initialForecast || 0.5));
+
+        if (forecastChangeFromInitial > ctx.config.tradingParams.forecastChangeThreshold) {
+            return 'forecastFlip';
+        }
+
+        const profitChange = stock.profitChange();
+        const momentumDecayed = stock.isShort ? profitChange > 0.25 : profitChange < -0.25;
+        if (momentumDecayed) {
+            return 'momentumDecay';
+        }
+
+        return 'other';
+    }
+
+    /**
+     * Minimum hold time, shortened for volatile stocks and strong forecasts
+     */
+    private heldLongEnough(stock: Stock, ctx: StrategyContext): boolean {
+        const forecastStrength = Math.abs(stock.forecast - 0.5);
+        const effectiveMinHoldTime = Math.max(1, ctx.config.tradingParams.minHoldTime -
+            (stock.volatility > 0.05 ? 1 : 0) -
+            (forecastStrength > 0.25 ? 1 : 0));
+        return (stock.ticksHeld || 0) >= effectiveMinHoldTime;
+    }
+}
+
+/**
+ * Pre-4S: the forecasts are estimates, so only trade stocks with enough
+ * history, away from a recent inversion and outside the blackout before the
+ * next expected cycle flip, and give fresh positions time to settle.
+ */
+class CycleStrategy extends ForecastStrategy {
+    override readonly id: StockStrategyId = 'cycle';
+
+    protected override readonly fourS: boolean = false;
+    protected override readonly entryForecast: number = 0.58;
+    protected override readonly maxVolatility: number = 0.75;
+
+    override shouldEnter(stock: Stock, ctx: StrategyContext): boolean {
+        if (!super.shouldEnter(stock, ctx)) return false;
+        const pre4s = ctx.config.pre4sParams;
+
+        // Skip if not enough history or probability is too close to 0.5
+        if (stock.priceHistory.length < pre4s.minTickHistory ||
+            Math.abs(stock.forecast - 0.5) < pre4s.buyThresholdProbability) {
+            return false;
+        }
+
+        // Skip if inversion was too recent
+        if (stock.lastInversion < pre4s.minTickHistory) {
+            return false;
+        }
+
+        // Skip if the cycle may flip before the spread is covered
+        const ticksLeft = ctx.market.ticksUntilCycle();
+        return ticksLeft === null || ticksLeft > Math.max(pre4s.minBlackoutWindow, stock.blackoutWindow());
+    }
+
+    override exitReason(stock: Stock, ctx: StrategyContext): ExitReason | null {
+        const reason = super.exitReason(stock, ctx);
+        if (reason === null) return null;
+
+        // Enforce the minimum hold time to avoid rash decisions on noisy estimates
+        if (stock.ticksHeld < ctx.config.pre4sParams.minimumHoldTime) {
+            if (!stock.warnedBadPurchase) {
+                ctx.ns.print(`WARNING: Thinking of selling ${stock.symbol} with ER ${ctx.market.formatBasisPoints(stock.absReturn())}, ` +
+                    `but holding out as it was purchased just ${stock.ticksHeld} ticks ago...`);
+                stock.warnedBadPurchase = true;
+            }
+            return null;
+        }
+
+        stock.warnedBadPurchase = false;
+        return reason;
+    }
+}
+
+/** Volatility above which capital preservation does not enter */
+const PRESERVATION_MAX_VOLATILITY = 0.01;
+/** Share of the buy budget capital preservation sizes against */
+const PRESERVATION_BUDGET_SHARE = 0.5;
+/** Capital preservation's stop loss beyond the spread, as a share of tradingParams.stopLoss */
+const PRESERVATION_STOP_SHARE = 0.5;
+
+/**
+ * Capital preservation: longs only, on strong forecasts of calm stocks, at
+ * half size; cut a loser at half the usual stop and leave as soon as the
+ * forecast weakens.
+ */
+class PreservationStrategy extends ForecastStrategy {
+    override readonly id: StockStrategyId = 'preservation';
+
+    protected override readonly entryForecast: number = 0.6;
+    protected override readonly maxVolatility: number = PRESERVATION_MAX_VOLATILITY;
+
+    override shouldEnter(stock: Stock, ctx: StrategyContext): boolean {
+        if (!stock.bullish() || !super.shouldEnter(stock, ctx)) return false;
+
+        // Estimated forecasts need the same history as the cycle strategy
+        const pre4s = ctx.config.pre4sParams;
+        return ctx.has4SData ||
+            (stock.priceHistory.length >= pre4s.minTickHistory && stock.lastInversion >= pre4s.minTickHistory);
+    }
+
+    override exitReason(stock: Stock, ctx: StrategyContext): ExitReason | null {
+        // A fresh position is already down the spread; the stop counts from there
+        const stop = ctx.config.tradingParams.stopLoss * PRESERVATION_STOP_SHARE + stock.spread_pct;
+        if (stock.purchasePrice && this.profit(stock) <= -stop) {
+            return 'stopLoss';
+        }
+        // Estimated forecasts are noisy right after entry; wait out the pre-4S hold
+        const settled = ctx.has4SData || stock.ticksHeld >= ctx.config.pre4sParams.minimumHoldTime;
+        if (settled && stock.sharesLong > 0 && stock.forecast < this.entryForecast - 0.05) {
+            return 'forecastFlip';
+        }
+        return super.exitReason(stock, ctx);
+    }
+
+    override positionSize(stock: Stock, budget: number, ctx: StrategyContext): number {
+        return super.positionSize(stock, budget * PRESERVATION_BUDGET_SHARE, ctx);
+    }
+}
+
+/**
+ * Presets by id (stateless — per-position state lives on Stock)
+ */
+export const STOCK_STRATEGIES: Record<StockStrategyId, StockStrategy> = {
+    forecast4s:   new ForecastStrategy(),
+    cycle:        new CycleStrategy(),
+    preservation: new PreservationStrategy(),
+};
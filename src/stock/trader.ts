@@ -3,6 +3,11 @@ import { StockConfig } from './config';
 import { StockMarket } from './market';
 import { Stock } from './stock';
 import { formatMoney } from '../lib/format';
+import { loadSettings } from '../lib/settings';
+import { requestFunds, recordSpend, releaseFunds } from '../lib/budget';
+import { chooseStockStrategy } from '../lib/stock_strategy';
+import type { StockStrategyId } from '../lib/stock_strategy';
+import { STOCK_STRATEGIES, StockStrategy, StrategyContext } from './strategy';
 import { Player } from '@ns';
 
 /**
@@ -12,21 +17,26 @@ export class StockTrader {
     private ns: NS;
     private config: StockConfig;
     private market: StockMarket;
+    private strategyFlag: string;
 
     // Trading state
     private has4SData: boolean = false;
     private tradesMadeTick: number = 0;
+    private tradesTick: number = -1;
+    private strategyId: StockStrategyId | null = null;
 
     /**
      * Constructor
      * @param ns NetScript API
      * @param config Stock configuration
      * @param market Stock market manager
+     * @param strategyFlag Strategy pinned by stock/main.ts's --strategy flag ('' = settings / auto)
      */
-    constructor(ns: NS, config: StockConfig, market: StockMarket) {
+    constructor(ns: NS, config: StockConfig, market: StockMarket, strategyFlag: string = '') {
         this.ns = ns;
         this.config = config;
         this.market = market;
+        this.strategyFlag = strategyFlag;
     }
 
     /**
@@ -38,6 +48,26 @@ export class StockTrader {
         this.tradesMadeTick = 0;
     }
 
+    /**
+     * Strategy to trade with this tick (lib/stock_strategy.ts); logs switches
+     */
+    private strategy(): StockStrategy {
+        const choice = chooseStockStrategy(this.strategyFlag, loadSettings(this.ns).stockStrategy, this.has4SData);
+        const strategy = STOCK_STRATEGIES[choice.id];
+        if (choice.id !== this.strategyId) {
+            this.ns.print(`Trading strategy: ${strategy.label} (${choice.reason})`);
+            this.strategyId = choice.id;
+        }
+        return strategy;
+    }
+
+    /**
+     * What the strategy sees besides the stock
+     */
+    private context(): StrategyContext {
+        return { ns: this.ns, config: this.config, market: this.market, has4SData: this.has4SData };
+    }
+
     /**
      * Try to purchase stock market API access
      * @param playerMoney Available funds
@@ -45,14 +75,19 @@ export class StockTrader {
      * @returns Whether any API was purchased
      */
     async tryPurchaseAPIs(playerMoney: number, reserve: number = 0): Promise<boolean> {
-        const availableMoney = playerMoney - reserve;
+        const wanted = Math.max(0, playerMoney - reserve);
+        const availableMoney = wanted > 0
+            ? requestFunds(this.ns, 'stocks', wanted, loadSettings(this.ns).budgetPolicy).granted
+            : 0;
         let purchased = false;
+        let spent = 0;
 
         // WSE Account
         if (!this.ns.stock.hasWseAccount() && availableMoney > this.config.apiOptions.wseAccountCost) {
             if (this.ns.stock.purchaseWseAccount()) {
                 this.ns.print(`Purchased WSE account for ${formatMoney(this.config.apiOptions.wseAccountCost)}`);
                 purchased = true;
+                spent += this.config.apiOptions.wseAccountCost;
             }
         }
 
@@ -62,6 +97,7 @@ export class StockTrader {
             if (this.ns.stock.purchaseTixApi()) {
                 this.ns.print(`Purchased TIX API for ${formatMoney(this.config.apiOptions.tixApiCost)}`);
                 purchased = true;
+                spent += this.config.apiOptions.tixApiCost;
             }
         }
 
@@ -72,6 +108,7 @@ export class StockTrader {
                 this.ns.print(`Purchased 4S Market Data for ${formatMoney(this.config.apiOptions.marketDataCost)}`);
                 this.has4SData = true;
                 purchased = true;
+                spent += this.config.apiOptions.marketDataCost;
             }
         }
 
@@ -81,9 +118,12 @@ export class StockTrader {
             if (this.ns.stock.purchase4SMarketDataTixApi()) {
                 this.ns.print(`Purchased 4S Market Data TIX API for ${formatMoney(this.config.apiOptions.marketDataTixApiCost)}`);
                 purchased = true;
+                spent += this.config.apiOptions.marketDataTixApiCost;
             }
         }
 
+        if (spent > 0) recordSpend(this.ns, 'stocks', spent);
+        else if (availableMoney > 0) releaseFunds(this.ns, 'stocks');
         return purchased;
     }
 
@@ -138,10 +178,8 @@ export class StockTrader {
      */
     async liquidatePositions(): Promise<number> {
         let totalRevenue = 0;
-        const myStocks = this.market.getTradeOpportunities().filter(stock => stock.owned());
-
-        for (const stock of myStocks) {
-            const revenue = await this.market.sellStock(stock, 'Liquidating positions');
+        for (const stock of this.market.getOwnedStocks()) {
+            const revenue = await this.market.sellStock(stock, 'liquidation');
             totalRevenue += revenue;
         }
 
@@ -149,251 +187,23 @@ export class StockTrader {
     }
 
     /**
-     * Manage existing positions (check for sell conditions)
+     * Manage existing positions (close those the strategy exits)
      * @returns Number of positions sold
      */
     async managePositions(): Promise<number> {
+        const strategy = this.strategy();
+        const ctx = this.context();
         let sales = 0;
 
-        // Threshold to sell depends on whether we have 4S data
-        const thresholdToSell = this.config.getSellThreshold(this.has4SData);
-        const pre4sMinHoldTime = this.config.pre4sParams.minimumHoldTime;
-
-        for (const stock of this.market.getTradeOpportunities().filter(s => s.owned())) {
-            if (this.shouldSellPosition(stock)) {
-                // In pre-4S mode, enforce minimum hold time to avoid rash decisions
-                if (!this.has4SData && stock.ticksHeld < pre4sMinHoldTime) {
-                    if (!stock.warnedBadPurchase) {
-                        this.ns.print(`WARNING: Thinking of selling ${stock.symbol} with ER ${this.market.formatBasisPoints(stock.absReturn())}, ` +
-                            `but holding out as it was purchased just ${stock.ticksHeld} ticks ago...`);
-                        stock.warnedBadPurchase = true;
-                    }
-                } else {
-                    await this.market.sellStock(stock, this.getSellReason(stock));
-                    sales++;
-                    stock.warnedBadPurchase = false;
-                }
-            }
-        }
-
-        return sales;
-    }
-
-    /**
-     * Check if a position should be sold
-     * @param stock Stock to check
-     * @returns Whether the position should be sold
-     */
-    private shouldSellPosition(stock: Stock): boolean {
-        if (!stock.owned()) return false;
-
-        // Get thresholds
-        const sellThreshold = this.config.getSellThreshold(this.has4SData);
-
-        // Check for position type mismatch (bullish but short, or bearish but long)
-        if ((stock.bullish() && stock.sharesShort > 0) || (stock.bearish() && stock.sharesLong > 0)) {
-            return true;
-        }
-
-        // Check for poor expected return
-        if (stock.absReturn() <= sellThreshold) {
-            return true;
-        }
-
-        // Check for sell indicators from position management
-        return this.checkPositionManagement(stock);
-    }
-
-    /**
-     * Check a position for more complex sell indicators
-     * @param stock Stock to check
-     * @returns Whether the stock should be sold
-     */
-    private checkPositionManagement(stock: Stock): boolean {
-        if (!stock.purchasePrice) return false;
-
-        const currentPrice = stock.isShort ? stock.ask_price : stock.bid_price;
-        const profit = stock.isShort ?
-            (stock.purchasePrice - currentPrice) / stock.purchasePrice :
-            (currentPrice - stock.purchasePrice) / stock.purchasePrice;
-
-        // Update high price for trailing stop
-        if (!stock.isShort && currentPrice > (stock.highPrice || 0)) {
-            stock.highPrice = currentPrice;
-        } else if (stock.isShort && currentPrice < (stock.highPrice || currentPrice)) {
-            stock.highPrice = currentPrice;
-        }
-
-        // Store the initial forecast for comparison if not already set
-        if (!stock.initialForecast) {
-            stock.initialForecast = stock.forecast;
-        }
-
-        // Check for market cycle reversal
-        const { isCycleEnd, cycleProbability } = this.market.detectMarketCycle(stock);
-
-        // Dynamic trailing stop that tightens as profit increases
-        let trailingStopPercent: number;
-        if (profit < 0.02) {
-            trailingStopPercent = 0.025 * (1 + stock.volatility);
-        } else if (profit < 0.05) {
-            trailingStopPercent = 0.02 * (1 + 0.5 * stock.volatility);
-        } else {
-            trailingStopPercent = 0.015 * (1 + 0.25 * stock.volatility);
-        }
-
-        // Check trailing stop - more aggressive if at potential cycle end
-        const adjustedTrailingStop = isCycleEnd ? trailingStopPercent * 0.5 : trailingStopPercent;
-
-        // Dynamic profit target based on multiple factors
-        const forecastStrength = Math.abs(stock.forecast - 0.5);
-        const cycleFactor = isCycleEnd ? 0.8 : 1.0;
-        const volatilityFactor = 1 - (stock.volatility * 0.5);
-        const timeHeldFactor = Math.min(1.5, 1 + ((stock.ticksHeld || 0) / 25) * 0.5);
-
-        const dynamicTargetProfit = this.config.tradingParams.targetProfit *
-            forecastStrength * 2 * cycleFactor * volatilityFactor * timeHeldFactor;
-
-        // Minimum hold time adjustment
-        const effectiveMinHoldTime = Math.max(1, this.config.tradingParams.minHoldTime -
-            (stock.volatility > 0.05 ? 1 : 0) -
-            (forecastStrength > 0.25 ? 1 : 0));
-
-        const shouldConsiderSelling = (stock.ticksHeld || 0) >= effectiveMinHoldTime;
-
-        // Check if trailing stop is triggered. Gated by shouldConsiderSelling like every
-        // other check below (bug found live 2026-07-02: this check ran unconditionally, so
-        // highPrice — set at buy time from the ask price — got compared against the very
-        // next tick's bid price and tripped the trailing stop purely from the bid/ask
-        // spread, 0 ticks after purchase, causing a real buy/sell/loss thrash. This code
-        // path was dead before purchasePrice tracking was resurrected this session, so the
-        // gap was never exposed until live-testing.
-        if (!stock.isShort && stock.highPrice && currentPrice < stock.highPrice * (1 - adjustedTrailingStop) && shouldConsiderSelling) {
-            this.ns.print(`Position management EXIT (${stock.symbol}): Trailing stop triggered`);
-            return true;
-        } else if (stock.isShort && stock.highPrice && currentPrice > stock.highPrice * (1 + adjustedTrailingStop) && shouldConsiderSelling) {
-            this.ns.print(`Position management EXIT (${stock.symbol}): Trailing stop triggered`);
-            return true;
-        }
-
-        // Take profit condition
-        if (profit >= dynamicTargetProfit && shouldConsiderSelling) {
-            this.ns.print(`Position management EXIT (${stock.symbol}): Dynamic profit target reached`);
-            return true;
-        }
-
-        // Dynamic stop loss
-        const dynamicStopLoss = this.config.tradingParams.stopLoss * (1 + stock.volatility * 0.5);
+        for (const stock of this.market.getOwnedStocks()) {
+            const reason = strategy.exitReason(stock, ctx);
+            if (reason === null) continue;
 
-        // Stop loss - don't wait for minimum hold time for stop loss
-        if (profit <= -dynamicStopLoss) {
-            this.ns.print(`Position management EXIT (${stock.symbol}): Stop loss triggered`);
-            return true;
+            await this.market.sellStock(stock, reason);
+            sales++;
         }
 
-        // Check for forecast deterioration
-        const forecastThreshold = this.has4SData ? 0.54 : 0.52;
-        const forecastChangeFromInitial = Math.abs(stock.forecast - (stock.initialForecast || 0.5));
-
-        const forecastChanged = (
-            (stock.isShort && stock.forecast > (1 - forecastThreshold)) ||
-            (!stock.isShort && stock.forecast < forecastThreshold)
-        ) && forecastChangeFromInitial > this.config.tradingParams.forecastChangeThreshold;
-
-        // Exit on forecast change if we've held long enough
-        if (forecastChanged && shouldConsiderSelling) {
-            this.ns.print(`Position management EXIT (${stock.symbol}): Forecast deteriorated`);
-            return true;
-        }
-
-        // Exit on high probability of market cycle reversal if profitable
-        if (isCycleEnd && cycleProbability > 0.8 && profit > 0.02 && shouldConsiderSelling) {
-            this.ns.print(`Position management EXIT (${stock.symbol}): Market cycle reversal detected`);
-            return true;
-        }
-
-        // Momentum decay: profitPotential() has decayed (long) or improved against us
-        // (short) by more than 25% relative to its value at purchase time. Gated behind
-        // shouldConsiderSelling like the profit-target/forecast checks above so we don't
-        // over-react to single-tick forecast noise right after a fresh buy.
-        const profitChange = stock.profitChange();
-        const momentumDecayed = stock.isShort ? profitChange > 0.25 : profitChange < -0.25;
-
-        if (momentumDecayed && shouldConsiderSelling) {
-            this.ns.print(`Position management EXIT (${stock.symbol}): Momentum decay ` +
-                `(profitChange ${(profitChange * 100).toFixed(1)}%)`);
-            return true;
-        }
-
-        return false;
-    }
-
-    /**
-     * Get the reason for selling a position
-     * @param stock Stock being sold
-     * @returns Human-readable reason
-     */
-    private getSellReason(stock: Stock): string {
-        if ((stock.bullish() && stock.sharesShort > 0) || (stock.bearish() && stock.sharesLong > 0)) {
-            return 'Position type mismatch';
-        }
-
-        if (stock.absReturn() <= this.config.getSellThreshold(this.has4SData)) {
-            return 'Low expected return';
-        }
-
-        const currentPrice = stock.isShort ? stock.ask_price : stock.bid_price;
-
-        // Mirrors checkPositionManagement's shouldConsiderSelling gate on the trailing-stop
-        // check (same bug fix, same reasoning — see that function's comment).
-        const forecastStrength = Math.abs(stock.forecast - 0.5);
-        const effectiveMinHoldTime = Math.max(1, this.config.tradingParams.minHoldTime -
-            (stock.volatility > 0.05 ? 1 : 0) -
-            (forecastStrength > 0.25 ? 1 : 0));
-        const shouldConsiderSelling = (stock.ticksHeld || 0) >= effectiveMinHoldTime;
-
-        if (!stock.isShort && stock.highPrice &&
-            currentPrice < stock.highPrice * (1 - 0.02 * (1 + stock.volatility)) && shouldConsiderSelling) {
-            return 'Trailing stop triggered';
-        }
-
-        if (stock.isShort && stock.highPrice &&
-            currentPrice > stock.highPrice * (1 + 0.02 * (1 + stock.volatility)) && shouldConsiderSelling) {
-            return 'Trailing stop triggered';
-        }
-
-        if (!stock.purchasePrice) return 'No purchase price available';
-        const profit = stock.isShort ?
-            (stock.purchasePrice - currentPrice) / stock.purchasePrice :
-            (currentPrice - stock.purchasePrice) / stock.purchasePrice;
-
-        if (profit >= this.config.tradingParams.targetProfit) {
-            return 'Target profit reached';
-        }
-
-        if (profit <= -this.config.tradingParams.stopLoss) {
-            return 'Stop loss triggered';
-        }
-
-        const { isCycleEnd, cycleProbability } = this.market.detectMarketCycle(stock);
-        if (isCycleEnd && cycleProbability > 0.8) {
-            return 'Market cycle reversal detected';
-        }
-
-        const forecastThreshold = this.has4SData ? 0.54 : 0.52;
-        const forecastChangeFromInitial = Math.abs(stock.forecast - (stock.initialForecast || 0.5));
-
-        if (forecastChangeFromInitial > this.config.tradingParams.forecastChangeThreshold) {
-            return 'Forecast changed direction';
-        }
-
-        const profitChange = stock.profitChange();
-        const momentumDecayed = stock.isShort ? profitChange > 0.25 : profitChange < -0.25;
-        if (momentumDecayed) {
-            return 'Momentum decay';
-        }
-
-        return 'Multiple factors';
+        return sales;
     }
 
     /**
@@ -404,7 +214,12 @@ export class StockTrader {
      * @returns Number of trades made
      */
     async executeBuyOpportunities(playerMoney: number, portfolioValue: number, reserve: number = 0): Promise<number> {
-        // Reset trades counter if we've hit the max
+        // The trade cap is per market tick: start counting again on a new one
+        const tick = this.market.getTicksSeen();
+        if (tick !== this.tradesTick) {
+            this.tradesTick = tick;
+            this.tradesMadeTick = 0;
+        }
         if (this.tradesMadeTick >= this.config.tradingParams.maxTradesPerTick) {
             return 0;
         }
@@ -416,51 +231,37 @@ export class StockTrader {
             playerMoney - reserve,
             maxHoldings - portfolioValue
         );
+        if (availableBudget <= 0) return 0;
 
         // Check if we have enough liquidity
         if (playerMoney / corpus <= this.config.tradingParams.cashReserveFactor) {
             return 0;
         }
 
-        let tradesMade = 0;
+        // Cap by what the capital allocator (lib/budget.ts) will release to stocks
+        availableBudget = requestFunds(this.ns, 'stocks', availableBudget, loadSettings(this.ns).budgetPolicy).granted;
 
-        // Get opportunities and execute trades
-        const opportunities = this.market.getTradeOpportunities()
-            .filter(stock => !stock.owned())
-            .slice(0, this.config.tradingParams.maxPositions);
+        let tradesMade = 0;
+        let spent = 0;
+
+        // Let the strategy screen and rank the stocks not yet held
+        const strategy = this.strategy();
+        const ctx = this.context();
+        const openSlots = Math.max(0, this.config.tradingParams.maxPositions - this.market.getOwnedStocks().length);
+        const opportunities = this.market.getCandidates()
+            .filter(stock => strategy.shouldEnter(stock, ctx))
+            .map(stock => ({ stock, score: strategy.score(stock, ctx) }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, openSlots)
+            .map(({ stock }) => stock);
 
         for (const stock of opportunities) {
             if (tradesMade + this.tradesMadeTick >= this.config.tradingParams.maxTradesPerTick) {
                 break;
             }
 
-            // Skip if below buy threshold
-            const buyThreshold = this.config.getBuyThreshold(this.has4SData);
-            if (stock.absReturn() <= buyThreshold) {
-                continue;
-            }
-
-            // Skip if disabling shorts and the stock is bearish
-            if (!this.config.hasShortSelling && stock.bearish()) {
-                continue;
-            }
-
-            // If pre-4s, do additional checks
-            if (!this.has4SData) {
-                // Skip if not enough history or probability is too close to 0.5
-                if (stock.priceHistory.length < this.config.pre4sParams.minTickHistory ||
-                    Math.abs(stock.forecast - 0.5) < this.config.pre4sParams.buyThresholdProbability) {
-                    continue;
-                }
-
-                // Skip if inversion was too recent
-                if (stock.lastInversion < this.config.pre4sParams.minTickHistory) {
-                    continue;
-                }
-            }
-
             // Calculate position size
-            const positionSize = this.market.calculatePositionSize(stock, availableBudget);
+            const positionSize = strategy.positionSize(stock, availableBudget, ctx);
 
             // Skip if position size is too small
             if (positionSize <= 0) {
@@ -473,9 +274,12 @@ export class StockTrader {
             if (cost > 0) {
                 tradesMade++;
                 availableBudget -= cost;
+                spent += cost;
             }
         }
 
+        if (spent > 0) recordSpend(this.ns, 'stocks', spent);
+        else if (availableBudget > 0) releaseFunds(this.ns, 'stocks');
         this.tradesMadeTick += tradesMade;
         return tradesMade;
     }
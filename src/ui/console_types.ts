@@ -4,6 +4,9 @@ import type { PendingDecision, Verdict } from '../lib/decisions';
 import type { Notification } from '../cross/notification';
 import type { PlayerSnapshot } from '../lib/player_state';
 import type { SubsystemStatus } from '../lib/subsystem_state';
+import type { TargetRanking } from '../lib/target_scoring';
+import type { Lease } from '../lib/lease_table';
+import type { TradeJournal } from '../lib/trade_journal';
 
 /**
  * Shared types for the Central Control Console (docs/design/08-control-console.md).
@@ -57,6 +60,9 @@ export interface ConsoleState {
 	player: PlayerSnapshot;            // FactionsPanel   (Wave 1-C) — published by the sequencer
 	subsystems: SubsystemStatus[];     // SubsystemsPanel (design/11) — one per registry manager
 	history: MonitorSample[];          // ChartsPanel     (design/11) — rolling time-series, oldest-first
+	targets: TargetRanking;            // TargetsPanel    — coordinator's ranking + scoring strategy
+	locks: Lease[];                    // MonitorPanel    — live work-slot / DOM leases (lib/lock_bus.ts)
+	journal: TradeJournal;             // StocksPanel     — stock engine's trade journal (lib/trade_journal.ts)
 }
 
 /**
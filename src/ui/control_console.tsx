@@ -6,9 +6,14 @@ import { notify } from '../cross/notification';
 import { executeCommand } from '../lib/ns_dodge';
 import { PORT_AUGS, PORT_PHASE, peekPort } from '../lib/ports';
 import { loadPending, pushReply } from '../lib/decisions';
+import { registerDaemon } from '../lib/task_bus';
+import { readLeases } from '../lib/lock_bus';
+import { activeLeases } from '../lib/lease_table';
 import { loadPlayerState } from '../lib/player_state';
 import { loadAllSubsystems } from '../lib/subsystem_state';
 import { SUBSYSTEM_IDS } from '../lib/manager_registry';
+import { loadTargetRanking } from '../lib/target_scoring';
+import { loadTradeJournal } from '../lib/trade_journal';
 import { goTo, currentPage, GamePage } from '../lib/navigator';
 import type { GamePageValue } from '../lib/navigator';
 import type { Notification } from '../cross/notification';
@@ -22,6 +27,8 @@ import { logPanel } from './panels/log_panel';
 import { subsystemsPanel } from './panels/subsystems_panel';
 import { chartsPanel } from './panels/charts_panel';
 import { auditPanel } from './panels/audit_panel';
+import { targetsPanel } from './panels/targets_panel';
+import { stocksPanel } from './panels/stocks_panel';
 
 /**
  * Central Control Console — the brain's in-game UI surface.
@@ -44,7 +51,7 @@ import { auditPanel } from './panels/audit_panel';
  */
 
 // ── Registered panels (design/08 §4) — order IS the tab order (design/09 §6) ──
-const PANELS: Panel[] = [monitorPanel, subsystemsPanel, decisionsPanel, factionsPanel, quickNavPanel, chartsPanel, auditPanel, logPanel, configPanel];
+const PANELS: Panel[] = [monitorPanel, subsystemsPanel, targetsPanel, stocksPanel, decisionsPanel, factionsPanel, quickNavPanel, chartsPanel, auditPanel, logPanel, configPanel];
 
 /** How many recent notifications the loop hands the LogPanel each tick. */
 const LOG_TAIL = 30;
@@ -456,6 +463,7 @@ export async function main(ns: NS): Promise<void> {
 		ns.tprint(`Control console already running (pid ${existing.pid}); exiting.`);
 		return;
 	}
+	registerDaemon(ns, 'controlConsole');
 
 	const eventName = `bb-console-${ns.pid}`;
 	let current = loadSettings(ns);
@@ -469,6 +477,9 @@ export async function main(ns: NS): Promise<void> {
 		player: loadPlayerState(ns),
 		subsystems: loadAllSubsystems(ns, SUBSYSTEM_IDS),
 		history: [sampleFrom(gatherMonitor(ns))],
+		targets: loadTargetRanking(ns),
+		locks: activeLeases(readLeases(ns), Date.now()),
+		journal: loadTradeJournal(ns),
 	};
 	const initialUi = loadUiState(ns);
 
@@ -504,6 +515,8 @@ export async function main(ns: NS): Promise<void> {
 	let slowLogs = initial.logs;
 	let slowPlayer = initial.player;
 	let slowSubsystems = initial.subsystems;
+	let slowTargets = initial.targets;
+	let slowJournal = initial.journal;
 	const history: MonitorSample[] = [...initial.history];
 
 	while (true) {
@@ -550,12 +563,15 @@ export async function main(ns: NS): Promise<void> {
 			slowLogs       = gatherLogs(ns);
 			slowPlayer     = loadPlayerState(ns);
 			slowSubsystems = loadAllSubsystems(ns, SUBSYSTEM_IDS);
+			slowTargets    = loadTargetRanking(ns);
+			slowJournal    = loadTradeJournal(ns);
 			history.push(sampleFrom(monitor));
 			if (history.length > HISTORY_CAP) history.shift();
 		}
 		const pendingAugs = parseInt(peekPort(ns, PORT_AUGS) ?? '0', 10);
+		const locks = activeLeases(readLeases(ns), Date.now());
 		domWindow.dispatchEvent(new CustomEvent<ConsoleState>(eventName, {
-			detail: { settings: current, pendingAugs, monitor, decisions: slowDecisions, logs: slowLogs, currentPage: currentPage() ?? '', player: slowPlayer, subsystems: slowSubsystems, history: [...history] },
+			detail: { settings: current, pendingAugs, monitor, decisions: slowDecisions, logs: slowLogs, currentPage: currentPage() ?? '', player: slowPlayer, subsystems: slowSubsystems, history: [...history], targets: slowTargets, locks, journal: slowJournal },
 		}));
 
 		tick++;
@@ -16,7 +16,9 @@ type ToggleKey =
 	| 'autoSolveContracts'
 	| 'autoBuyAugs'
 	| 'autoReset'
-	| 'autoBitNode';
+	| 'autoBitNode'
+	| 'stockManipulation'
+	| 'workerPool';
 
 const TOGGLES: { key: ToggleKey; label: string }[] = [
 	{ key: 'autoJoinFactions',   label: 'Auto-join factions' },
@@ -25,6 +27,8 @@ const TOGGLES: { key: ToggleKey; label: string }[] = [
 	{ key: 'autoBuyAugs',        label: 'Auto-buy augs' },
 	{ key: 'autoReset',          label: 'Auto-reset' },
 	{ key: 'autoBitNode',        label: 'Auto-BitNode' },
+	{ key: 'stockManipulation',  label: 'Stock manipulation' },
+	{ key: 'workerPool',         label: 'Resident worker pool' },
 ];
 
 const Toggle = ({ label, on, onClick }: { label: string; on: boolean; onClick: () => void }) => (
@@ -80,11 +84,29 @@ const ConfigBody = ({ state, dispatch }: { state: ConsoleState; dispatch: Dispat
 		dispatch({ kind: 'setSettings', settings: next });
 	};
 
+	// Capital allocator policy (lib/budget.ts) — freezes low-priority spenders.
+	const saving = settings.budgetPolicy === 'saveForAugs';
+	const flipBudget = () => {
+		const next: BrainSettings = { ...settings, budgetPolicy: saving ? 'normal' : 'saveForAugs' };
+		setSettings(next);
+		dispatch({ kind: 'setSettings', settings: next });
+	};
+
+	// ON forces the coordinator's XP-farm mode; OFF returns it to 'auto' (lib/xp_farm.ts).
+	const farming = settings.xpFarm === 'on';
+	const flipXpFarm = () => {
+		const next: BrainSettings = { ...settings, xpFarm: farming ? 'auto' : 'on' };
+		setSettings(next);
+		dispatch({ kind: 'setSettings', settings: next });
+	};
+
 	return (
 		<>
 			{TOGGLES.map(t => (
 				<Toggle key={t.key} label={t.label} on={settings[t.key]} onClick={() => flip(t.key)} />
 			))}
+			<Toggle label="Save for aug reset" on={saving} onClick={flipBudget} />
+			<Toggle label="Force XP farm" on={farming} onClick={flipXpFarm} />
 			<div style={{ color: '#bbb', margin: '6px 0 3px' }}>
 				Pending augs: <span style={{ color: '#e0c050' }}>{state.pendingAugs}</span>
 			</div>
@@ -1,5 +1,7 @@
 import { React } from '../../lib/react';
 import type { ConsoleState, MonitorSnapshot, Panel } from '../console_types';
+import { LOCK_RESOURCES } from '../../lib/lease_table';
+import type { Lease } from '../../lib/lease_table';
 
 /**
  * MonitorPanel — read-only live system metrics (docs/design/08 §4.2, Step C).
@@ -8,6 +10,8 @@ import type { ConsoleState, MonitorSnapshot, Panel } from '../console_types';
  * CustomEvent → React display path end-to-end before the high-value DecisionsPanel.
  * Pure presentation — it only reads `state.monitor`, which the loop fills from
  * cheap, legitimately-held ns.* reads. No ns.*, no dispatch.
+ *
+ * Also shows who holds the work-slot / DOM leases (`state.locks`, lib/lock_bus.ts).
  */
 
 // ── Tiny formatters (no ns.* — keep the panel pure) ───────────────────────────
@@ -49,6 +53,11 @@ const RamBar = ({ used, max }: { used: number; max: number }) => {
 	);
 };
 
+/** "factionManager · 24s" — holder and time left on its lease. */
+function fmtLease(l: Lease): string {
+	return `${l.owner} · ${Math.max(0, Math.ceil((l.expiresAt - Date.now()) / 1000))}s`;
+}
+
 const MonitorBody = ({ state }: { state: ConsoleState }) => {
 	const m: MonitorSnapshot = state.monitor;
 	const incomeColor = m.incomePerSec > 0 ? '#4ec94e' : m.incomePerSec < 0 ? '#d05050' : '#cfcfcf';
@@ -60,6 +69,10 @@ const MonitorBody = ({ state }: { state: ConsoleState }) => {
 			<Row label="Scripts" value={String(m.scriptCount)} />
 			<Row label="Home RAM" value={`${fmtRam(m.ramUsed)} / ${fmtRam(m.ramMax)}`} />
 			<RamBar used={m.ramUsed} max={m.ramMax} />
+			{LOCK_RESOURCES.map(r => {
+				const lease = state.locks.find(l => l.resource === r);
+				return <Row key={r} label={r === 'work' ? 'Work slot' : 'DOM'} value={lease ? fmtLease(lease) : 'free'} color={lease ? '#7fb0ff' : '#666'} />;
+			})}
 		</>
 	);
 };
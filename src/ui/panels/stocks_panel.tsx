@@ -0,0 +1,117 @@
+import { React } from '../../lib/react';
+import type { Panel, ConsoleState } from '../console_types';
+import { EXIT_REASON_LABELS, winRate, avgHoldTicks, symbolsByPnl } from '../../lib/trade_journal';
+import type { BucketStats, ExitReason, JournalEntry } from '../../lib/trade_journal';
+
+/**
+ * StocksPanel — how the stock engine's closed trades have gone.
+ *
+ * Renders status/stock_journal.json (written by stock/market.ts on every fill):
+ *   header   — realized P&L, closed trades, win rate, average hold, commissions
+ *   reasons  — trades and P&L per exit reason
+ *   symbols  — best and worst symbols by realized P&L
+ *   recent   — the last few closes
+ *
+ * Pure presentation — never ns.*.
+ */
+
+// ── Palette (matches existing panels) ─────────────────────────────────────────
+
+const GREEN = '#4ec94e';
+const RED   = '#d05050';
+const DIM   = '#999';
+const WHITE = '#cfcfcf';
+const SEP   = '#222';
+
+/** Symbols shown at each end of the ranking. */
+const SYMBOLS_SHOWN = 4;
+/** Recent closes shown. */
+const RECENT_SHOWN = 8;
+
+// ── Tiny formatters (no ns.* — keep the panel pure) ───────────────────────────
+
+/** $ with k/m/b/t/q suffix and an explicit sign. */
+function fmtPnl(n: number): string {
+	const sign = n < 0 ? '-' : '+';
+	let v = Math.abs(n);
+	const units = ['', 'k', 'm', 'b', 't', 'q'];
+	let u = 0;
+	while (v >= 1000 && u < units.length - 1) { v /= 1000; u++; }
+	return `${sign}$${v.toFixed(v >= 100 || u === 0 ? 0 : 2)}${units[u]}`;
+}
+
+const pnlColor = (n: number): string => n > 0 ? GREEN : n < 0 ? RED : WHITE;
+
+// ── Presentational components ─────────────────────────────────────────────────
+
+const Row = ({ label, value, color }: { label: string; value: string; color?: string }) => (
+	<div style={{ display: 'flex', justifyContent: 'space-between', padding: '1px 0' }}>
+		<span style={{ color: DIM }}>{label}</span>
+		<span style={{ color: color ?? WHITE, fontWeight: 'bold' }}>{value}</span>
+	</div>
+);
+
+const Heading = ({ text }: { text: string }) => (
+	<div style={{ color: DIM, fontSize: '10px', margin: '6px 0 2px', borderBottom: `1px solid ${SEP}` }}>{text}</div>
+);
+
+const BucketRow = ({ label, b }: { label: string; b: BucketStats }) => (
+	<div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', fontFamily: 'monospace' }}>
+		<span style={{ color: WHITE }}>{label}</span>
+		<span>
+			<span style={{ color: DIM }}>{b.wins}/{b.trades} </span>
+			<span style={{ color: pnlColor(b.pnl) }}>{fmtPnl(b.pnl)}</span>
+		</span>
+	</div>
+);
+
+const CloseRow = ({ e }: { e: JournalEntry }) => (
+	<div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', fontFamily: 'monospace' }}>
+		<span style={{ color: WHITE }}>
+			{e.symbol} {e.side === 'short' ? 'S' : 'L'} <span style={{ color: DIM }}>{e.holdTicks}t · {e.reason ? EXIT_REASON_LABELS[e.reason] : ''}</span>
+		</span>
+		<span style={{ color: pnlColor(e.pnl) }}>{fmtPnl(e.pnl)}</span>
+	</div>
+);
+
+const StocksBody = ({ state }: { state: ConsoleState }) => {
+	const j = state.journal;
+	const s = j.stats;
+	if (j.ts === 0 || s.trades === 0) {
+		return <div style={{ color: DIM, fontSize: '12px', padding: '6px 0' }}>No closed trades yet — stock engine not trading.</div>;
+	}
+
+	const reasons = (Object.entries(s.byReason) as [ExitReason, BucketStats][]).sort((a, b) => b[1].pnl - a[1].pnl);
+	const symbols = symbolsByPnl(s);
+	const shown = symbols.length > 2 * SYMBOLS_SHOWN
+		? [...symbols.slice(0, SYMBOLS_SHOWN), ...symbols.slice(-SYMBOLS_SHOWN)]
+		: symbols;
+	const recent = j.entries.filter(e => e.action === 'close').slice(-RECENT_SHOWN).reverse();
+
+	return (
+		<div style={{ fontSize: '12px' }}>
+			<Row label="Realized P&L" value={fmtPnl(s.pnl)} color={pnlColor(s.pnl)} />
+			<Row label="Closed trades" value={`${s.trades} · ${(winRate(s) * 100).toFixed(0)}% won`} />
+			<Row label="Avg hold" value={`${avgHoldTicks(s).toFixed(1)} ticks`} />
+			<Row label="Commissions" value={fmtPnl(-s.commissions)} />
+			<div style={{ color: DIM, fontSize: '10px' }}>since {new Date(s.since).toLocaleString()}</div>
+
+			<Heading text="By exit reason" />
+			{reasons.map(([r, b]) => <BucketRow key={r} label={EXIT_REASON_LABELS[r]} b={b} />)}
+
+			<Heading text="By symbol" />
+			{shown.map(([sym, b]) => <BucketRow key={sym} label={sym} b={b} />)}
+
+			<Heading text="Recent closes" />
+			{recent.map((e, i) => <CloseRow key={`${e.ts}-${i}`} e={e} />)}
+		</div>
+	);
+};
+
+// ── Panel export ──────────────────────────────────────────────────────────────
+
+export const stocksPanel: Panel = {
+	id:    'stocks',
+	title: 'Stocks',
+	render: state => <StocksBody state={state} />,
+};
@@ -0,0 +1,73 @@
+import { React } from '../../lib/react';
+import type { Panel, ConsoleState } from '../console_types';
+import { SCORING_STRATEGIES } from '../../lib/target_scoring';
+import type { RankedTarget } from '../../lib/target_scoring';
+
+/**
+ * TargetsPanel — why the coordinator is hitting what it's hitting.
+ *
+ * Renders status/targets.json (published by compute/target_selector.ts each
+ * target scan):
+ *   header  — scoring strategy label, whether the phase or an override chose it
+ *   rows    — rank · host · prepared dot, then the strategy's one-line reason
+ *
+ * Pure presentation — never ns.*.
+ */
+
+// ── Palette (matches existing panels) ─────────────────────────────────────────
+
+const GREEN = '#4ec94e';
+const AMBER = '#e0c050';
+const DIM   = '#999';
+const WHITE = '#cfcfcf';
+const SEP   = '#222';
+const MET   = '#7a9a7a';
+
+// ── Presentational components ─────────────────────────────────────────────────
+
+const TargetRow = ({ rank, t }: { rank: number; t: RankedTarget }) => (
+	<div style={{ padding: '3px 0', borderBottom: `1px solid ${SEP}` }}>
+		<div style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+			<span style={{ color: DIM, fontSize: '10px', minWidth: '14px' }}>{rank}.</span>
+			<span
+				title={t.prepared ? 'prepared' : 'needs prep'}
+				style={{ color: t.prepared ? GREEN : AMBER, fontSize: '10px', lineHeight: 1 }}
+			>
+				●
+			</span>
+			<span style={{ color: WHITE, fontSize: '12px', fontWeight: rank === 1 ? 'bold' : 'normal' }}>
+				{t.host}
+			</span>
+		</div>
+		<div style={{ color: MET, fontSize: '10px', paddingLeft: '19px', fontFamily: 'monospace' }}>
+			{t.why}
+		</div>
+	</div>
+);
+
+const TargetsBody = ({ state }: { state: ConsoleState }) => {
+	const r = state.targets;
+	if (r.ts === 0 || r.strategy === '') {
+		return <div style={{ color: DIM, fontSize: '12px', padding: '6px 0' }}>No ranking yet — coordinator not running.</div>;
+	}
+	const label = SCORING_STRATEGIES[r.strategy].label;
+	return (
+		<div>
+			<div style={{ color: WHITE, fontSize: '12px', marginBottom: '2px' }}>
+				Ranking by <span style={{ color: GREEN }}>{label}</span>
+			</div>
+			<div style={{ color: DIM, fontSize: '10px', marginBottom: '4px' }}>
+				{r.source === 'override' ? 'override' : `phase ${r.phase}`} · {new Date(r.ts).toLocaleTimeString()}
+			</div>
+			{r.ranking.map((t, i) => <TargetRow key={t.host} rank={i + 1} t={t} />)}
+		</div>
+	);
+};
+
+// ── Panel export ──────────────────────────────────────────────────────────────
+
+export const targetsPanel: Panel = {
+	id:    'targets',
+	title: 'Targets',
+	render: state => <TargetsBody state={state} />,
+};
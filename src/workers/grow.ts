@@ -11,8 +11,9 @@ export async function main(ns: NS) {
         /*args[3]*/ description = '',
         /*args[4]*/ manipulateStock = false,
         /*args[5]*/ silentMisfires = true,
-        /*args[6]*/ loopingMode = false
-    ] = ns.args as [string, number, number, string, boolean, boolean, boolean];
+        /*args[6]*/ loopingMode = false,
+        /*args[7]*/ reportPort = 0
+    ] = ns.args as [string, number, number, string, boolean, boolean, boolean, number];
 
     // We may need to sleep before we start the operation to align ourselves properly with other batch cycle (HGW) operations
     let sleepDuration = start_time - Date.now();
@@ -33,7 +34,14 @@ export async function main(ns: NS) {
 
     let firstLoop = true;
     do {
+        const began = Date.now() + hgwOptions.additionalMsec;
         const growPct = await ns.grow(target, hgwOptions);
+        // Report the operation for batch misfire telemetry (lib/batch_telemetry.ts OpReport)
+        if (reportPort > 0)
+            ns.writePort(reportPort, JSON.stringify({
+                kind: 'op', op: 'grow', target, batch: description, plannedStart: start_time,
+                plannedEnd: start_time + duration, start: began, end: Date.now(), pid: ns.pid, result: growPct,
+            }));
         // If enabled, warn of any misfires
         if (growPct == 0 && !silentMisfires)
             ns.toast(`Misfire: Grow achieved no growth.${JSON.stringify(ns.args)}`, 'warning');
@@ -11,8 +11,9 @@ export async function main(ns: NS) {
         /*args[3]*/ description = '',
         /*args[4]*/ manipulateStock = false,
         /*args[5]*/ silentMisfires = true,
-        /*args[6]*/ loopingMode = false
-    ] = ns.args as [string, number, number, string, boolean, boolean, boolean];
+        /*args[6]*/ loopingMode = false,
+        /*args[7]*/ reportPort = 0
+    ] = ns.args as [string, number, number, string, boolean, boolean, boolean, number];
 
     // We may need to sleep before we start the operation to align ourselves properly with other batch cycle (HGW) operations
     let sleepDuration = start_time - Date.now();
@@ -32,7 +33,14 @@ export async function main(ns: NS) {
 
     let firstLoop = true;
     do {
+        const began = Date.now() + hgwOptions.additionalMsec;
         const stolen = await ns.hack(target, hgwOptions);
+        // Report the operation for batch misfire telemetry (lib/batch_telemetry.ts OpReport)
+        if (reportPort > 0)
+            ns.writePort(reportPort, JSON.stringify({
+                kind: 'op', op: 'hack', target, batch: description, plannedStart: start_time,
+                plannedEnd: start_time + duration, start: began, end: Date.now(), pid: ns.pid, result: stolen,
+            }));
         // If enabled, warn of any misfires
         if (stolen == 0 && !silentMisfires)
             ns.toast(`Misfire: Hack stole 0 money. ${JSON.stringify(ns.args)}`, 'warning');
@@ -0,0 +1,9 @@
+import { NS } from '@ns';
+import { runPoolWorker } from '../lib/worker_pool';
+import { PORT_BUS_TASK } from '../lib/ports';
+
+/** @param {NS} ns
+ * Resident grow worker for compute/worker_pool.ts — runs grow jobs from its inbox port until told to exit. */
+export async function main(ns: NS) {
+    await runPoolWorker(ns, 'grow', (target, opts) => ns.grow(target, opts), PORT_BUS_TASK);
+}
@@ -0,0 +1,9 @@
+import { NS } from '@ns';
+import { runPoolWorker } from '../lib/worker_pool';
+import { PORT_BUS_TASK } from '../lib/ports';
+
+/** @param {NS} ns
+ * Resident hack worker for compute/worker_pool.ts — runs hack jobs from its inbox port until told to exit. */
+export async function main(ns: NS) {
+    await runPoolWorker(ns, 'hack', (target, opts) => ns.hack(target, opts), PORT_BUS_TASK);
+}
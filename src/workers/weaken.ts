@@ -11,8 +11,9 @@ export async function main(ns: NS) {
         /*args[3]*/ description = '',
         /*args[4]*/ placeHolder = false,
         /*args[5]*/ silentMisfires = true,
-        /*args[6]*/ loopingMode = false
-    ] = ns.args as [string, number, number, string, boolean, boolean];
+        /*args[6]*/ loopingMode = false,
+        /*args[7]*/ reportPort = 0
+    ] = ns.args as [string, number, number, string, boolean, boolean, number];
 
     // We may need to sleep before we start the operation to align ourselves properly with other batch cycle (HGW) operations
     let sleepDuration = start_time - Date.now();
@@ -28,7 +29,14 @@ export async function main(ns: NS) {
 
     let firstLoop = true;
     do {
+        const began = Date.now() + hgwOptions.additionalMsec;
         const weakAmt = await ns.weaken(target, hgwOptions);
+        // Report the operation for batch misfire telemetry (lib/batch_telemetry.ts OpReport)
+        if (reportPort > 0)
+            ns.writePort(reportPort, JSON.stringify({
+                kind: 'op', op: 'weaken', target, batch: description, plannedStart: start_time,
+                plannedEnd: start_time + duration, start: began, end: Date.now(), pid: ns.pid, result: weakAmt,
+            }));
         // If enabled, warn of any misfires
         if (weakAmt == 0 && !silentMisfires)
             ns.toast(`Misfire: Weaken achieved no security reduction. ${JSON.stringify(ns.args)}`, 'warning');
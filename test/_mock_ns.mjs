@@ -22,3 +22,17 @@ export function eq(a, b, msg) {
 	const sa = JSON.stringify(a), sb = JSON.stringify(b);
 	if (sa !== sb) throw new Error(`ASSERT EQ FAILED: ${msg}\n  got:      ${sa}\n  expected: ${sb}`);
 }
+
+// dist/ keeps tsc's extensionless relative imports (the game resolves them);
+// teach node to try `.js` so modules with runtime imports (stock/*) load too.
+let distResolver = false;
+export async function importDist(path) {
+	if (!distResolver) {
+		const { register } = await import('node:module');
+		register('data:text/javascript,' + encodeURIComponent(`export async function resolve(s, c, next) {
+	try { return await next(s, c); } catch (e) { if (s.startsWith('.') && !s.endsWith('.js')) return next(s + '.js', c); throw e; }
+}`));
+		distResolver = true;
+	}
+	return import(new URL(`../dist/${path}`, import.meta.url).href);
+}
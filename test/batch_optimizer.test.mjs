@@ -0,0 +1,60 @@
+// Global HWGW target / hack-fraction plan (lib/batch_optimizer.ts). Run after `npx tsc`:
+//   node test/batch_optimizer.test.mjs
+import { optionDps, bestFit, planBatches, marginalMoneyPerGbSec, EMPTY_BATCH_PLAN } from '../dist/lib/batch_optimizer.js';
+import { assert, eq } from './_mock_ns.mjs';
+
+let passed = 0;
+const test = (name, fn) => { fn(); passed++; console.log('  ok -', name); };
+
+// Each hack thread steals `perHack`; a batch costs 4 threads of overhead per hack thread.
+const target = (name, perHack, over = {}) => ({
+	target: name, moneyMax: perHack * 100, cycleMs: 10_000, gapMs: 80, maxConcurrency: 50,
+	options: Array.from({ length: 10 }, (_, i) => ({ hackThreads: i + 1, threads: 5 * (i + 1), dollars: perHack * (i + 1) })),
+	...over,
+});
+
+test('income grows with concurrency, less than linearly', () => {
+	const t = target('a', 1_000);
+	const o = t.options[0];
+	eq(optionDps(t, o, 0), 0, 'no batches');
+	const one = optionDps(t, o, 1), ten = optionDps(t, o, 10);
+	assert(ten > one * 9 && ten < one * 10, 'spacing slows each batch a little');
+});
+
+test('a target fits the best option under its concurrency cap', () => {
+	const capped = target('a', 1_000, { maxConcurrency: 2 });
+	const fit = bestFit(capped, 1_000);
+	eq([fit.option.hackThreads, fit.concurrency], [10, 2], 'capped batches take the biggest hack');
+	eq(bestFit(capped, 4), null, 'not one batch fits');
+});
+
+test('the plan spends RAM on the better target and respects maxTargets', () => {
+	const rich = target('rich', 10_000), poor = target('poor', 1_000);
+	const one = planBatches([poor, rich], 500, 1, 1.75);
+	eq(one.targets.map(t => t.target), ['rich'], 'only the best target');
+	eq(one.threads <= 500, true, 'within budget');
+	const two = planBatches([poor, rich], 100_000, 2, 1.75);
+	eq(two.targets.map(t => t.target).sort(), ['poor', 'rich'], 'enough RAM for both');
+	eq(two.dps, two.targets.reduce((s, t) => s + t.dps, 0), 'total is the sum');
+	assert(two.targets.every(t => t.concurrency === 50 && t.hackFraction === 0.1), 'both run flat out');
+});
+
+test('plans report money per GB-second and handle nothing to plan', () => {
+	const plan = planBatches([target('a', 1_000)], 100, 4, 2);
+	const t = plan.targets[0];
+	eq(t.moneyPerGbSec, t.dps / (t.threads * 2), 'efficiency');
+	eq(planBatches([], 100, 4, 2), { ...EMPTY_BATCH_PLAN, budget: 100 }, 'no candidates');
+	eq(planBatches([target('a', 1)], 100, 0, 2).targets, [], 'no target slots');
+});
+
+test('RAM the plan leaves idle lowers what more RAM is worth', () => {
+	const full = planBatches([target('a', 1_000)], 100, 1, 2);
+	eq(marginalMoneyPerGbSec(full, 2), full.dps / (100 * 2), 'spread over the budget');
+	const capped = planBatches([target('a', 1_000, { maxConcurrency: 2 })], 1_000, 1, 2);
+	eq(capped.threads, 100, 'two batches of the biggest hack');
+	eq(marginalMoneyPerGbSec(capped, 2), capped.dps / (1_000 * 2), 'nine tenths of the budget idle');
+	assert(marginalMoneyPerGbSec(capped, 2) < capped.targets[0].moneyPerGbSec / 9, 'well below the plan average');
+	eq(marginalMoneyPerGbSec(planBatches([], 100, 4, 2), 2), 0, 'nothing planned');
+});
+
+console.log(`\nbatch_optimizer: ${passed} passed`);
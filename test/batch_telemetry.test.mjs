@@ -0,0 +1,87 @@
+// HWGW misfire telemetry and step adjustment (lib/batch_telemetry.ts). Run after `npx tsc`:
+//   node test/batch_telemetry.test.mjs
+import {
+	newTiming, parseOpReport, classifyOp, recordOutcome, adjustStep, driftReason,
+	planRecovery, fitRecovery, recoveryThreads,
+	loadDesyncStatus, saveDesyncStatus, EMPTY_DESYNC,
+	DESYNC_MIN_OPS, STEP_CHANGE_COOLDOWN_MS, STEP_MAX_FACTOR,
+} from '../dist/lib/batch_telemetry.js';
+import { mockNs, eq } from './_mock_ns.mjs';
+
+let passed = 0;
+const test = (name, fn) => { fn(); passed++; console.log('  ok -', name); };
+
+const report = (over = {}) => ({
+	kind: 'op', op: 'hack', target: 'phantasy', batch: 'batch-hack-1',
+	plannedStart: 1_000, plannedEnd: 5_000, start: 1_000, end: 5_000, result: 1e6, ...over,
+});
+
+const feed = (t, outcome, n) => { for (let i = 0; i < n; i++) t = recordOutcome(t, outcome); return t; };
+
+test('ops are classified late, empty or ok', () => {
+	eq(classifyOp(report(), 20), 'ok', 'on time');
+	eq(classifyOp(report({ end: 5_010 }), 20), 'ok', 'within half a step');
+	eq(classifyOp(report({ end: 5_011 }), 20), 'late', 'past half a step');
+	eq(classifyOp(report({ result: 0 }), 20), 'empty', 'hack stole nothing');
+	eq(classifyOp(report({ op: 'grow', result: 1 }), 20), 'empty', 'grow did not grow');
+	eq(classifyOp(report({ op: 'weaken', result: 0 }), 20), 'ok', 'weaken at floor is fine');
+});
+
+test('reports parse defensively', () => {
+	eq(parseOpReport(JSON.stringify(report())), report(), 'round trip');
+	eq(parseOpReport('{"kind":"done","slot":1}'), null, 'other kind');
+	eq(parseOpReport('{'), null, 'corrupt');
+	eq(parseOpReport(null), null, 'empty');
+});
+
+test('a high misfire rate widens the step, a clean run narrows it back', () => {
+	let t = feed(newTiming(20), 'late', DESYNC_MIN_OPS);
+	eq([t.ops, t.late], [DESYNC_MIN_OPS, DESYNC_MIN_OPS], 'counted');
+	t = adjustStep(t, 20, 100_000);
+	eq([t.stepMs, t.state, t.fresh], [30, 'widened', 0], 'widened ×1.5');
+	eq(adjustStep(feed(t, 'late', DESYNC_MIN_OPS), 20, 100_000 + STEP_CHANGE_COOLDOWN_MS - 1).stepMs, 30, 'cooldown');
+	t = adjustStep(feed(t, 'ok', 200), 20, 100_000 + STEP_CHANGE_COOLDOWN_MS);
+	eq([t.stepMs, t.state], [20, 'ok'], 'narrowed back to base');
+	eq(adjustStep(feed(newTiming(20), 'late', DESYNC_MIN_OPS - 1), 20, 100_000).stepMs, 20, 'too few samples');
+});
+
+test('the step never widens past STEP_MAX_FACTOR', () => {
+	let t = newTiming(20);
+	for (let i = 1; i <= 10; i++) t = adjustStep(feed(t, 'empty', DESYNC_MIN_OPS), 20, i * STEP_CHANGE_COOLDOWN_MS);
+	eq(t.stepMs, 20 * STEP_MAX_FACTOR, 'capped');
+});
+
+test('drift allows the dip and rise the plan causes', () => {
+	const d = { money: 5e5, moneyMax: 1e6, security: 12, minSecurity: 10, hackFraction: 0.5, securityRise: 1 };
+	eq(driftReason(d, 0.9, 3), null, 'planned dip and rise');
+	eq(driftReason({ ...d, security: 14.5 }, 0.9, 3), 'security 14.5 > 14.0', 'security reason');
+	eq(driftReason({ ...d, money: 4e5 }, 0.9, 3), 'money 40% < 45%', 'money reason');
+});
+
+test('recovery weakens the excess and grows to max, padded', () => {
+	const r = { securityExcess: 1, growThreads: 100, weakenPadding: 0.1, growPadding: 0.05, weakenDecrease: 0.05, growIncrease: 0.004 };
+	eq(planRecovery(r), { weaken: 22, grow: 105, growWeaken: 10 }, 'padded counts');
+	eq(planRecovery({ ...r, securityExcess: 0, growThreads: 0 }), { weaken: 0, grow: 0, growWeaken: 0 }, 'already prepared');
+});
+
+test('a recovery short on RAM weakens first, then grows in proportion', () => {
+	const plan = { weaken: 20, grow: 100, growWeaken: 10 };
+	eq(fitRecovery(plan, 1_000), plan, 'fits');
+	eq(fitRecovery(plan, 15), { weaken: 15, grow: 0, growWeaken: 0 }, 'weaken only');
+	const part = fitRecovery(plan, 75);
+	eq([part.weaken, part.grow, part.growWeaken], [20, 50, 5], 'grow and its weaken share the rest');
+	eq(recoveryThreads(part), 75, 'uses exactly what is available');
+	eq(recoveryThreads(fitRecovery(plan, 0)), 0, 'no RAM');
+});
+
+test('metrics round-trip through status/desync.json', () => {
+	const ns = mockNs();
+	eq(loadDesyncStatus(ns), EMPTY_DESYNC, 'missing');
+	const s = { ts: 9, targets: [{ host: 'phantasy', ...newTiming(30) }] };
+	saveDesyncStatus(ns, s);
+	eq(loadDesyncStatus(ns), s, 'saved');
+	ns.write('status/desync.json', '[', 'w');
+	eq(loadDesyncStatus(ns), EMPTY_DESYNC, 'corrupt');
+});
+
+console.log(`\nbatch_telemetry: ${passed} passed`);
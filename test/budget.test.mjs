@@ -0,0 +1,84 @@
+// Capital allocator (lib/budget.ts). Run after `npx tsc`:
+//   node test/budget.test.mjs
+import {
+	emptyBudget, grantFunds, noteSpend, dropClaim, loadBudget, saveBudget, requestFunds, recordSpend, releaseFunds,
+	CLAIM_TTL_MS, SPEND_PRIORITY,
+} from '../dist/lib/budget.js';
+import { mockNs, assert, eq } from './_mock_ns.mjs';
+
+let passed = 0;
+const test = (name, fn) => { fn(); passed++; console.log('  ok -', name); };
+
+test('grants up to available cash', () => {
+	const l = emptyBudget();
+	eq(grantFunds(l, 'hacknet', 100, 1000, 'normal', undefined, 1).granted, 100, 'full');
+	const g = grantFunds(l, 'pserv', 5000, 1000, 'normal', undefined, 1);
+	eq([g.granted, g.reason], [1000, 'insufficient cash'], 'capped by cash');
+});
+
+test('higher-priority claims are held back from lower priorities', () => {
+	const l = emptyBudget();
+	grantFunds(l, 'augs', 800, 1000, 'normal', undefined, 0);
+	const g = grantFunds(l, 'gang', 500, 1000, 'normal', undefined, 10);
+	eq(g.granted, 200, 'only the unclaimed remainder');
+	assert(g.reason.startsWith('held for higher priority'), g.reason);
+	eq(grantFunds(l, 'programs', 500, 1000, 'normal', undefined, 20).granted, 500, 'same priority is not held');
+});
+
+test('only a full grant leaves a claim', () => {
+	const l = emptyBudget();
+	grantFunds(l, 'augs', 800, 1000, 'normal', undefined, 0);
+	eq(l.claims.augs, { amount: 800, priority: 0, ts: 0 }, 'granted');
+	grantFunds(l, 'augs', 5000, 1000, 'normal', undefined, 1);
+	eq(l.claims.augs, undefined, 'a cut-down request drops the old claim');
+	eq(grantFunds(l, 'hacknet', 10, 1000, 'saveForAugs', undefined, 2).granted, 0, 'frozen');
+	eq(l.claims.hacknet, undefined, 'frozen requests hold nothing');
+	grantFunds(l, 'pserv', 300, 1000, 'normal', undefined, 3);
+	dropClaim(l, 'pserv', 4);
+	eq([l.claims.pserv, l.spent.pserv], [undefined, undefined], 'released without a spend');
+});
+
+test('gang aug and equipment claims are kept apart', () => {
+	const l = emptyBudget();
+	grantFunds(l, 'gangAugs', 600, 1000, 'normal', undefined, 0);
+	grantFunds(l, 'gang', 100, 1000, 'normal', undefined, 1);
+	eq(l.claims.gangAugs?.amount, 600, 'aug claim survives the equipment request');
+	eq(grantFunds(l, 'sleeve', 1000, 1000, 'normal', undefined, 2).granted, 400, 'held for the aug claim');
+});
+
+test('claims clear on spend and expire after the TTL', () => {
+	const l = emptyBudget();
+	grantFunds(l, 'augs', 800, 1000, 'normal', undefined, 0);
+	eq(grantFunds(l, 'stocks', 500, 1000, 'normal', undefined, CLAIM_TTL_MS + 1).granted, 500, 'expired');
+	grantFunds(l, 'augs', 800, 1000, 'normal', undefined, CLAIM_TTL_MS + 2);
+	noteSpend(l, 'augs', 800, CLAIM_TTL_MS + 3);
+	eq(grantFunds(l, 'stocks', 200, 200, 'normal', undefined, CLAIM_TTL_MS + 4).granted, 200, 'cleared by spend');
+	eq(l.spent.augs, 800, 'spend booked');
+});
+
+test('saveForAugs freezes everything but top priority', () => {
+	const l = emptyBudget();
+	const g = grantFunds(l, 'hacknet', 10, 1000, 'saveForAugs', undefined, 1);
+	eq([g.granted, g.reason], [0, 'frozen: saving for augs'], 'frozen');
+	eq(grantFunds(l, 'augs', 10, 1000, 'saveForAugs', undefined, 1).granted, 10, 'augs still granted');
+	eq(grantFunds(l, 'gang', 10, 1000, 'saveForAugs', SPEND_PRIORITY.augs, 1).granted, 10, 'explicit priority honoured');
+});
+
+test('ns wrappers round-trip through status/budget.json', () => {
+	const ns = { ...mockNs(), getServerMoneyAvailable: () => 1000 };
+	eq(loadBudget(ns), emptyBudget(), 'empty on miss');
+	eq(requestFunds(ns, 'sleeve', 300, 'normal').granted, 300, 'granted');
+	recordSpend(ns, 'sleeve', 300);
+	const l = loadBudget(ns);
+	eq(l.spent, { sleeve: 300 }, 'spent persisted');
+	eq(l.claims, {}, 'claim released');
+	eq(l.last.sleeve.requested, 300, 'last decision kept');
+	requestFunds(ns, 'pserv', 200, 'normal');
+	releaseFunds(ns, 'pserv');
+	eq(loadBudget(ns).claims, {}, 'released');
+	saveBudget(ns, l);
+	ns.write('status/budget.json', '{x', 'w');
+	eq(loadBudget(ns), emptyBudget(), 'empty on corrupt');
+});
+
+console.log(`\nbudget: ${passed} passed`);
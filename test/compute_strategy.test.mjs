@@ -0,0 +1,68 @@
+// Coordinator compute-strategy registry (lib/compute_strategy.ts). Run after `npx tsc`:
+//   node test/compute_strategy.test.mjs
+import {
+	chooseComputeStrategy, advanceStrategy, isDraining, isStrategyWorker, COMPUTE_STRATEGIES, INITIAL_STRATEGY_STATE,
+	PROTO_BATCH_MIN_RAM_GB, HWGW_MIN_RAM_GB, DRAIN_TIMEOUT_MS,
+} from '../dist/lib/compute_strategy.js';
+import { assert, eq } from './_mock_ns.mjs';
+
+let passed = 0;
+const test = (name, fn) => { fn(); passed++; console.log('  ok -', name); };
+
+const pick = (over) => chooseComputeStrategy({
+	override: 'auto', phase: 'MID', botnetRam: 1024, xpFarm: false, hasTargets: true, ...over,
+}).id;
+
+test('phase and RAM pick the strategy', () => {
+	eq(pick({ phase: 'BOOTSTRAP' }), 'spray', 'bootstrap sprays');
+	eq(pick({ phase: 'EARLY', botnetRam: PROTO_BATCH_MIN_RAM_GB - 1 }), 'prepLoop', 'early, tiny');
+	eq(pick({ phase: 'EARLY', botnetRam: PROTO_BATCH_MIN_RAM_GB }), 'protoBatch', 'early, enough');
+	eq(pick({ phase: 'EARLY', botnetRam: 1e6 }), 'protoBatch', 'early never batches HWGW');
+	eq(pick({ phase: 'LATE', botnetRam: HWGW_MIN_RAM_GB - 1 }), 'protoBatch', 'late, short on RAM');
+	eq(pick({ phase: 'MID' }), 'hwgw', 'mid');
+});
+
+test('override, XP farming and missing targets take precedence', () => {
+	eq(pick({ override: 'shareOnly', xpFarm: true }), 'shareOnly', 'settings win');
+	eq(pick({ xpFarm: true, hasTargets: false }), 'xpFarm', 'xp');
+	eq(pick({ hasTargets: false }), 'shareOnly', 'nothing to hack');
+});
+
+test('first choice applies immediately; a change drains before switching', () => {
+	let s = advanceStrategy(INITIAL_STRATEGY_STATE, 'protoBatch', 0, 0);
+	eq(s, { active: 'protoBatch', next: null, drainStart: 0 }, 'initial');
+	s = advanceStrategy(s, 'hwgw', 12, 1_000);
+	eq([s.active, s.next, isDraining(s)], ['protoBatch', 'hwgw', true], 'draining');
+	s = advanceStrategy(s, 'hwgw', 3, 2_000);
+	eq(s.drainStart, 1_000, 'drain clock keeps running');
+	s = advanceStrategy(s, 'hwgw', 0, 3_000);
+	eq([s.active, isDraining(s)], ['hwgw', false], 'switched once empty');
+});
+
+test('drain cancels or times out', () => {
+	let s = { active: 'hwgw', next: 'xpFarm', drainStart: 0 };
+	eq(advanceStrategy(s, 'hwgw', 5, 10), { active: 'hwgw', next: null, drainStart: 0 }, 'cancelled');
+	s = advanceStrategy({ active: 'hwgw', next: null, drainStart: 0 }, 'xpFarm', 5, 100);
+	eq(advanceStrategy(s, 'xpFarm', 5, 100 + DRAIN_TIMEOUT_MS).active, 'xpFarm', 'timeout');
+	eq(advanceStrategy(s, 'spray', 5, 200).drainStart, 200, 'new destination restarts the drain');
+});
+
+test('looping strategies are the ones drained by killing', () => {
+	const loops = Object.values(COMPUTE_STRATEGIES).filter(s => s.loops).map(s => s.id);
+	eq(loops, ['spray', 'prepLoop', 'shareOnly'], 'loops');
+	assert(COMPUTE_STRATEGIES.hwgw.workers.includes('hack'), 'hwgw owns hack workers');
+	assert(['poolHack', 'poolGrow', 'poolWeaken'].every(k => COMPUTE_STRATEGIES.hwgw.workers.includes(k)), 'and the pool residents');
+});
+
+test('shared workers count toward a drain only under the strategy\'s tags', () => {
+	const job = (tag) => ['n00dles', 0, 0, tag, false];
+	assert(isStrategyWorker('hwgw', 'weaken', job('batch-weaken1-3')), 'batch job');
+	assert(isStrategyWorker('hwgw', 'grow', job('recovery-grow-2')), 'recovery pass');
+	assert(!isStrategyWorker('hwgw', 'weaken', job('xp-farm')), 'xp farm is not a batch');
+	assert(!isStrategyWorker('hwgw', 'grow', job('stock-manip')), 'neither is stock manipulation');
+	assert(isStrategyWorker('xpFarm', 'grow', job('xp-farm')), 'xp farm owns its own');
+	assert(isStrategyWorker('hwgw', 'poolHack', [0, '{}']), 'untagged scripts count by name');
+	assert(!isStrategyWorker('spray', 'hack', job('batch-hack-1')), 'not one of its scripts');
+});
+
+console.log(`\ncompute_strategy: ${passed} passed`);
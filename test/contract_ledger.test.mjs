@@ -0,0 +1,54 @@
+// Guarded-attempt ledger (lib/contract_ledger.ts). Run after `npx tsc`:
+//   node test/contract_ledger.test.mjs
+import {
+	loadLedger, saveLedger, emptyLedger, recordAttempt, clearType,
+	guardAttempt, isVerified, blockedTypes, VERIFY_AFTER_SOLVES,
+} from '../dist/lib/contract_ledger.js';
+import { mockNs, assert, eq } from './_mock_ns.mjs';
+
+let passed = 0;
+const test = (name, fn) => { fn(); passed++; console.log('  ok -', name); };
+
+test('round-trips through status/contracts_ledger.json', () => {
+	const ns = mockNs();
+	const l = emptyLedger();
+	recordAttempt(l, 'Square Root', true, 1);
+	recordAttempt(l, 'Square Root', false, 2);
+	saveLedger(ns, l);
+	eq(loadLedger(ns), l, 'loaded == saved');
+	eq(l.types['Square Root'], { solved: 1, failed: 1, lastFailTs: 2 }, 'counts + last failure');
+});
+
+test('missing/corrupt file → empty ledger', () => {
+	const ns = mockNs();
+	eq(loadLedger(ns), emptyLedger(), 'empty on miss');
+	ns.write('status/contracts_ledger.json', '{oops', 'w');
+	eq(loadLedger(ns), emptyLedger(), 'empty on corrupt');
+});
+
+test('failure history blocks the type until cleared', () => {
+	const l = emptyLedger();
+	recordAttempt(l, 'Compression III: LZ Compression', false);
+	assert(!guardAttempt(l, 'Compression III: LZ Compression', 10, true).attempt, 'blocked even if verified');
+	eq(blockedTypes(l), ['Compression III: LZ Compression'], 'listed as blocked');
+	clearType(l, 'Compression III: LZ Compression');
+	assert(guardAttempt(l, 'Compression III: LZ Compression', 10, false).attempt, 'allowed after clear');
+});
+
+test('last try needs a verified solver', () => {
+	const l = emptyLedger();
+	assert(!guardAttempt(l, 'Square Root', 1, false).attempt, 'unverified refused on last try');
+	assert(guardAttempt(l, 'Square Root', 2, false).attempt, 'unverified fine with tries to spare');
+	assert(guardAttempt(l, 'Spiralize Matrix', 1, true).attempt, 'statically verified allowed');
+});
+
+test('verification is earned after clean in-game solves', () => {
+	const l = emptyLedger();
+	for (let i = 0; i < VERIFY_AFTER_SOLVES - 1; i++) recordAttempt(l, 'Square Root', true);
+	assert(!isVerified(l, 'Square Root', false), 'not yet');
+	recordAttempt(l, 'Square Root', true);
+	assert(isVerified(l, 'Square Root', false), 'earned');
+	assert(guardAttempt(l, 'Square Root', 1, false).attempt, 'may now use last try');
+});
+
+console.log(`\ncontract_ledger: ${passed} passed`);
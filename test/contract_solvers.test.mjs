@@ -0,0 +1,72 @@
+// Known-answer corpus for lib/contract_solvers.ts. Run after `npx tsc`:
+//   node test/contract_solvers.test.mjs
+// contract_solvers.ts has zero imports, so its compiled bundle is directly
+// node-importable. Add a corpus entry to test/contract_corpus.json whenever a
+// contract type fails in-game — that is the whole point of this file.
+import { readFileSync } from 'node:fs';
+import { CONTRACT_SOLVERS, computeAnswer } from '../dist/lib/contract_solvers.js';
+import { assert, eq } from './_mock_ns.mjs';
+
+const corpus = JSON.parse(readFileSync(new URL('./contract_corpus.json', import.meta.url), 'utf8'));
+
+let passed = 0;
+const test = (name, fn) => { fn(); passed++; console.log('  ok -', name); };
+
+// bigint answers (Square Root) are stored as strings in the JSON corpus.
+const norm = (v) => JSON.parse(JSON.stringify(v, (_, x) => (typeof x === 'bigint' ? x.toString() : x)));
+const sorted = (a) => [...a].sort();
+
+// Types where the game accepts any of several answers: check the property, not the bytes.
+const CHECKS = {
+	'Generate IP Addresses':              (got, want) => eq(sorted(got), sorted(want), 'same set'),
+	'Sanitize Parentheses in Expression': (got, want) => eq(sorted(got), sorted(want), 'same set'),
+	'Find All Valid Math Expressions':    (got, want) => eq(sorted(got), sorted(want), 'same set'),
+	'Shortest Path in a Grid': (got, want, data) => {
+		assert(got.length === want.length, `path length ${got.length} != ${want.length}`);
+		if (want === '') return;
+		let r = 0, c = 0;
+		for (const m of got) {
+			r += m === 'D' ? 1 : m === 'U' ? -1 : 0;
+			c += m === 'R' ? 1 : m === 'L' ? -1 : 0;
+			assert(data[r]?.[c] === 0, `path walks off-grid or into a wall at ${r},${c}`);
+		}
+		assert(r === data.length - 1 && c === data[0].length - 1, 'path ends bottom-right');
+	},
+	'Proper 2-Coloring of a Graph': (got, want, data) => {
+		assert(got.length === want.length, 'bipartite iff expected');
+		for (const [u, v] of data[1]) if (want.length) assert(got[u] !== got[v], `edge ${u}-${v} same color`);
+	},
+	'Compression III: LZ Compression': (got, want, data) => {
+		assert(got.length === want.length, `not optimal: ${got} vs ${want}`);
+		eq(computeAnswer('Compression II: LZ Decompression', got), data, 'round-trips');
+	},
+};
+
+for (const { type, data, answer } of corpus) {
+	test(`${type} ${JSON.stringify(data)}`, () => {
+		const got = norm(computeAnswer(type, data));
+		const check = CHECKS[type];
+		if (check) check(got, answer, data);
+		else eq(got, answer, type);
+	});
+}
+
+test('every registered type has at least one corpus entry', () => {
+	const covered = new Set(corpus.map(c => c.type));
+	eq(Object.keys(CONTRACT_SOLVERS).filter(t => !covered.has(t)), [], 'uncovered types');
+});
+
+test('unknown type → undefined (not attempted)', () => {
+	assert(computeAnswer('Not A Contract', 1) === undefined, 'undefined on miss');
+});
+
+test('solvers do not mutate their input', () => {
+	const matrix = [[1, 2], [3, 4]];
+	const intervals = [[5, 6], [1, 3]];
+	computeAnswer('Spiralize Matrix', matrix);
+	computeAnswer('Merge Overlapping Intervals', intervals);
+	eq(matrix, [[1, 2], [3, 4]], 'matrix intact');
+	eq(intervals, [[5, 6], [1, 3]], 'intervals intact');
+});
+
+console.log(`\ncontract_solvers: ${passed} passed`);
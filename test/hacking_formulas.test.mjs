@@ -0,0 +1,69 @@
+// Formulas.exe-free hacking formulas (lib/hacking_formulas.ts). Run after `npx tsc`:
+//   node test/hacking_formulas.test.mjs
+import {
+	hackChance, hackPercent, hackTime, growTime, weakenTime, growthLog, moneyAfterGrow, growThreads,
+	coreBonus,
+} from '../dist/lib/hacking_formulas.js';
+import { assert, eq } from './_mock_ns.mjs';
+
+let passed = 0;
+const test = (name, fn) => { fn(); passed++; console.log('  ok -', name); };
+
+const near = (a, b, tol, msg) => assert(Math.abs(a - b) <= tol, `${msg}: ${a} vs ${b}`);
+
+const player = (hacking, over = {}) => ({
+	skills: { hacking, intelligence: 0 },
+	mults:  { hacking_chance: 1, hacking_money: 1, hacking_speed: 1, hacking_grow: 1 },
+	...over,
+});
+// n00dles at min security — the classic fresh-save target.
+const n00dles = { hackDifficulty: 1, requiredHackingSkill: 1, moneyAvailable: 1.75e6, moneyMax: 1.75e6, serverGrowth: 3000 };
+
+test('times match the in-game n00dles figures at hacking 1', () => {
+	near(hackTime(n00dles, player(1)), 49_264.7, 0.1, 'hack ≈ 49.26 s');
+	near(growTime(n00dles, player(1)), 3.2 * 49_264.7, 0.5, 'grow = 3.2 × hack');
+	near(weakenTime(n00dles, player(1)), 197_058.8, 0.5, 'weaken ≈ 3m17s');
+	assert(hackTime(n00dles, player(100)) < hackTime(n00dles, player(1)), 'skill speeds hacking');
+});
+
+test('the BitNode hacking speed divides every time', () => {
+	const fast = { scriptHackMoney: 1, serverGrowthRate: 1, hackingSpeed: 2 };
+	near(hackTime(n00dles, player(1), fast), 49_264.7 / 2, 0.1, 'hack');
+	near(growTime(n00dles, player(1), fast), 3.2 * 49_264.7 / 2, 0.5, 'grow');
+	near(weakenTime(n00dles, player(1), fast), 197_058.8 / 2, 0.5, 'weaken');
+});
+
+test('hack percent and chance follow security and skill', () => {
+	near(hackPercent(n00dles, player(1)), 0.99 / 240, 1e-12, 'percent at hacking 1');
+	const harder = { ...n00dles, hackDifficulty: 50 };
+	assert(hackPercent(harder, player(1)) < hackPercent(n00dles, player(1)), 'security lowers percent');
+	eq(hackPercent(n00dles, player(1), { scriptHackMoney: 2, serverGrowthRate: 1, hackingSpeed: 1 }),
+		2 * hackPercent(n00dles, player(1)), 'BitNode money scale is linear');
+	eq(hackChance({ ...n00dles, requiredHackingSkill: 500 }, player(10)), 0, 'clamped at 0');
+	eq(hackChance(n00dles, player(1000)), 0.99 * (1 - 1 / 1750), 'skill × difficulty');
+});
+
+test('growth is capped per thread and scales with cores', () => {
+	const lowSec = { ...n00dles, hackDifficulty: 1 };
+	near(growthLog(lowSec, player(1), 1), Math.log(1.0035) * 30, 1e-12, 'capped at ln(1.0035) × growth%');
+	near(growthLog(lowSec, player(1), 1, 17), 2 * growthLog(lowSec, player(1), 1), 1e-12, '17 cores = ×2');
+	eq([coreBonus(1), coreBonus(17), coreBonus(0)], [1, 2, 1], 'bonus per thread');
+	const half = { ...n00dles, hackDifficulty: 5, moneyAvailable: n00dles.moneyMax / 2 };
+	const one = growThreads(half, player(1), half.moneyMax), eight = growThreads(half, player(1), half.moneyMax, 8);
+	assert(eight < one && eight >= Math.floor(one / coreBonus(8)), `8 cores need fewer threads: ${eight} vs ${one}`);
+});
+
+test('growThreads is the minimal integer that reaches the target', () => {
+	const player1 = player(1);
+	for (const frac of [0.01, 0.25, 0.5, 0.9, 0.999]) {
+		const s = { ...n00dles, hackDifficulty: 5, moneyAvailable: n00dles.moneyMax * frac };
+		const t = growThreads(s, player1, s.moneyMax);
+		assert(moneyAfterGrow(s, player1, t) >= s.moneyMax, `reaches max (frac ${frac})`);
+		assert(moneyAfterGrow(s, player1, t - 1) < s.moneyMax, `t-1 falls short (frac ${frac})`);
+	}
+	eq(growThreads({ ...n00dles, moneyAvailable: 0 }, player1, n00dles.moneyMax) > 0, true, 'grows from empty');
+	eq(growThreads(n00dles, player1, n00dles.moneyMax), 0, 'already full');
+	eq(growThreads({ ...n00dles, moneyAvailable: 1, serverGrowth: 0 }, player1, 1e6), Infinity, 'no growth');
+});
+
+console.log(`\nhacking_formulas: ${passed} passed`);
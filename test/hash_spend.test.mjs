@@ -0,0 +1,87 @@
+// Hacknet hash spender decisions (lib/hash_spend.ts). Run after `npx tsc`:
+//   node test/hash_spend.test.mjs
+import {
+	HashUpgrade, chooseHashPurchase, hashCandidates, loadHashSpend, saveHashSpend,
+	EMPTY_HASH_SPEND, HASH_OVERFLOW_FRACTION, HASH_WISH_MAX_WAIT_S,
+} from '../dist/lib/hash_spend.js';
+import { mockNs, assert, eq } from './_mock_ns.mjs';
+
+let passed = 0;
+const test = (name, fn) => { fn(); passed++; console.log('  ok -', name); };
+
+const COSTS = Object.fromEntries(Object.values(HashUpgrade).map(u => [u, 100]));
+COSTS[HashUpgrade.sellForMoney] = 4;
+
+function ctx(over = {}) {
+	return {
+		hashes:   0,
+		capacity: 1000,
+		rate:     10,
+		costs:    COSTS,
+		target:   { host: 'phantasy', minDifficulty: 10, moneyMax: 1e9 },
+		active:   { corp: false, bladeburner: false, training: null, contracts: false },
+		...over,
+	};
+}
+
+test('auto prefers live subsystems over the compute target', () => {
+	const c = ctx({ hashes: 500, active: { corp: true, bladeburner: false, training: null, contracts: false } });
+	eq(chooseHashPurchase('auto', c).upgrade, HashUpgrade.corpResearch, 'corp research first');
+	const idle = ctx({ hashes: 500 });
+	eq(chooseHashPurchase('auto', idle), { upgrade: HashUpgrade.reduceMinSec, target: 'phantasy', reason: 'top target phantasy' },
+		'falls through to the top target');
+});
+
+test('training kind picks the matching upgrade', () => {
+	const gym = ctx({ hashes: 500, target: null, active: { corp: false, bladeburner: false, training: 'gym', contracts: false } });
+	eq(chooseHashPurchase('subsystems', gym).upgrade, HashUpgrade.improveGym, 'gym');
+	const study = ctx({ hashes: 500, target: null, active: { corp: false, bladeburner: false, training: 'study', contracts: false } });
+	eq(chooseHashPurchase('subsystems', study).upgrade, HashUpgrade.improveStudying, 'study');
+});
+
+test('waits for a reachable wish instead of selling', () => {
+	assert(chooseHashPurchase('hacking', ctx({ hashes: 50 })) === null, 'banks toward Reduce Minimum Security');
+});
+
+test('a far-off top wish lets hacking upgrades through', () => {
+	const contracts = { corp: false, bladeburner: false, training: null, contracts: true };
+	const costs = { ...COSTS, [HashUpgrade.codingContract]: 900 };
+	const slow = ctx({ hashes: 150, rate: 0.5, costs, active: contracts });
+	eq(chooseHashPurchase('auto', slow),
+		{ upgrade: HashUpgrade.reduceMinSec, target: 'phantasy', reason: `top target phantasy; ${HashUpgrade.codingContract} too far off` },
+		'bought while the contract is ~25 minutes away');
+	const soon = ctx({ hashes: 150, rate: 750 / HASH_WISH_MAX_WAIT_S, costs, active: contracts });
+	assert(chooseHashPurchase('auto', soon) === null, 'banks when the wish is within reach');
+	assert(chooseHashPurchase('auto', ctx({ hashes: 50, rate: 0.01, costs, active: contracts })) === null, 'nothing affordable yet');
+});
+
+test('nearly full store overflows to Sell for Money', () => {
+	const c = ctx({ hashes: 1000 * HASH_OVERFLOW_FRACTION, costs: { ...COSTS, [HashUpgrade.reduceMinSec]: 950, [HashUpgrade.increaseMaxMoney]: 950 } });
+	eq(chooseHashPurchase('hacking', c), { upgrade: HashUpgrade.sellForMoney, reason: 'overflow' }, 'sold');
+});
+
+test('unreachable or exhausted wishes fall back to selling', () => {
+	const floored = ctx({ hashes: 10, target: { host: 'n00dles', minDifficulty: 1, moneyMax: 10e12 } });
+	eq(hashCandidates('hacking', floored), [], 'nothing to improve at the caps');
+	eq(chooseHashPurchase('hacking', floored).reason, 'nothing else to buy', 'sells');
+	const pricey = ctx({ hashes: 10, costs: { ...COSTS, [HashUpgrade.reduceMinSec]: 5000, [HashUpgrade.increaseMaxMoney]: 5000 } });
+	eq(chooseHashPurchase('hacking', pricey).upgrade, HashUpgrade.sellForMoney, 'over capacity → sell');
+});
+
+test('money strategy sells as soon as affordable', () => {
+	eq(chooseHashPurchase('money', ctx({ hashes: 4 })).upgrade, HashUpgrade.sellForMoney, 'sold');
+	assert(chooseHashPurchase('money', ctx({ hashes: 3 })) === null, 'not yet');
+});
+
+test('summary round-trips through status/hash_spend.json', () => {
+	const ns = mockNs();
+	eq(loadHashSpend(ns), EMPTY_HASH_SPEND, 'empty on miss');
+	const s = { strategy: 'hacking', last: 'Reduce Minimum Security → phantasy', reason: 'top target phantasy',
+		spent: { 'Reduce Minimum Security': 200 }, ts: 42 };
+	saveHashSpend(ns, s);
+	eq(loadHashSpend(ns), s, 'loaded == saved');
+	ns.write('status/hash_spend.json', '{bad', 'w');
+	eq(loadHashSpend(ns), EMPTY_HASH_SPEND, 'empty on corrupt');
+});
+
+console.log(`\nhash_spend: ${passed} passed`);
@@ -0,0 +1,50 @@
+// HWGW batcher wave bookkeeping (compute/hwgw_batcher.ts). Run after `npx tsc`:
+//   node test/hwgw_batcher.test.mjs
+import { assert, eq, importDist } from './_mock_ns.mjs';
+
+const { BatchHackManager } = await importDist('compute/hwgw_batcher.js');
+
+let passed = 0;
+const test = async (name, fn) => { await fn(); passed++; console.log('  ok -', name); };
+
+const server = (over = {}) => ({
+	hostname: 'joesguns', moneyAvailable: 2.5e6, moneyMax: 2.5e6, hackDifficulty: 5, minDifficulty: 5, ...over,
+});
+
+/** A batcher over `servers` (host → getServer result) with startRecovery recorded, not run. */
+const batcher = (servers) => {
+	const ns = { fileExists: () => false, print: () => undefined, getServer: host => servers[host] };
+	const mgr = new BatchHackManager(ns, null, null);
+	const recovered = [];
+	mgr.startRecovery = async (target, reason) => { recovered.push([target, reason]); };
+	return { mgr, recovered };
+};
+
+await test('a wave that lands out of band gets a recovery pass', async () => {
+	const { mgr, recovered } = batcher({ joesguns: server({ hackDifficulty: 9 }), n00dles: server({ hostname: 'n00dles' }) });
+	mgr.activeBatches.set('joesguns', { landsAt: 900 });
+	mgr.activeBatches.set('n00dles', { landsAt: 900 });
+	await mgr.checkTargetHealth(1_000, null);
+	eq(recovered.map(([t]) => t), ['joesguns'], 'only the out-of-band target');
+	assert(recovered[0][1].startsWith('security'), recovered[0][1]);
+	eq(mgr.activeBatches.size, 0, 'both waves freed');
+});
+
+await test('a recovery pass that lands short of the band runs again', async () => {
+	const { mgr, recovered } = batcher({ joesguns: server({ moneyAvailable: 1e5 }), n00dles: server({ hostname: 'n00dles' }) });
+	mgr.recovering.set('joesguns', 900);
+	mgr.recovering.set('n00dles', 900);
+	await mgr.checkTargetHealth(1_000, null);
+	eq(recovered.map(([t]) => t), ['joesguns'], 'still short of money');
+	eq(mgr.recovering.size, 0, 'landed passes forgotten');
+});
+
+await test('waves still in flight are left alone', async () => {
+	const { mgr, recovered } = batcher({ joesguns: server({ hackDifficulty: 5.5 }) });
+	mgr.activeBatches.set('joesguns', { landsAt: 2_000, hackFraction: 0.1, securityRise: 1 });
+	mgr.recovering.set('n00dles', 2_000);
+	await mgr.checkTargetHealth(1_000, null);
+	eq([recovered.length, mgr.activeBatches.size, mgr.recovering.size], [0, 1, 1], 'nothing landed');
+});
+
+console.log(`\nhwgw_batcher: ${passed} passed`);
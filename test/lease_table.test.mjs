@@ -0,0 +1,59 @@
+// Work-slot / DOM lease table (lib/lease_table.ts). Run after `npx tsc`:
+//   node test/lease_table.test.mjs
+import {
+	acquireLease, renewLease, releaseLease, liveLease, activeLeases, parseLeaseTable,
+	EMPTY_LEASES, LOCK_PRIORITY,
+} from '../dist/lib/lease_table.js';
+import { eq } from './_mock_ns.mjs';
+
+let passed = 0;
+const test = (name, fn) => { fn(); passed++; console.log('  ok -', name); };
+
+const req = (pid, priority, over = {}) => ({ resource: 'work', owner: `p${pid}`, pid, priority, ttlMs: 1_000, ...over });
+
+test('a free resource is granted, a held one refused at equal or lower priority', () => {
+	const a = acquireLease(EMPTY_LEASES, req(1, LOCK_PRIORITY.faction), 0);
+	eq([a.granted, a.holder?.pid, a.holder?.expiresAt], [true, 1, 1_000], 'granted');
+	const b = acquireLease(a.table, req(2, LOCK_PRIORITY.faction), 10);
+	eq([b.granted, b.holder?.pid], [false, 1], 'equal priority waits');
+	eq(b.table, a.table, 'table unchanged');
+	eq(acquireLease(a.table, req(3, LOCK_PRIORITY.crime), 10).granted, false, 'lower priority waits');
+	eq(acquireLease(a.table, req(2, 0, { resource: 'dom' }), 10).granted, true, 'resources are independent');
+});
+
+test('higher priority preempts, and the preempted holder cannot renew', () => {
+	const crime = acquireLease(EMPTY_LEASES, req(1, LOCK_PRIORITY.crime), 0).table;
+	const graft = acquireLease(crime, req(2, LOCK_PRIORITY.grafting), 10);
+	eq([graft.granted, graft.holder?.owner, graft.holder?.acquiredAt], [true, 'p2', 10], 'preempted');
+	const renew = renewLease(graft.table, 'work', 1, 1_000, 20);
+	eq([renew.granted, renew.holder?.pid], [false, 2], 'old holder refused');
+});
+
+test('renew keeps the original grant time, release frees only your own lease', () => {
+	const t0 = acquireLease(EMPTY_LEASES, req(1, 1), 0).table;
+	const again = acquireLease(t0, req(1, 1), 500);
+	eq([again.holder?.acquiredAt, again.holder?.expiresAt], [0, 1_500], 'acquire by holder renews');
+	const renewed = renewLease(again.table, 'work', 1, 5_000, 600);
+	eq(renewed.holder?.expiresAt, 5_600, 'renew with a longer ttl');
+	eq(releaseLease(renewed.table, 'work', 2, 700), renewed.table, 'someone else cannot release');
+	eq(liveLease(releaseLease(renewed.table, 'work', 1, 700), 'work', 700), null, 'holder releases');
+});
+
+test('expired leases lapse but can still be renewed until taken', () => {
+	const t = acquireLease(EMPTY_LEASES, req(1, LOCK_PRIORITY.faction), 0).table;
+	eq(liveLease(t, 'work', 1_000), null, 'expired at expiresAt');
+	eq(activeLeases(t, 1_000), [], 'not listed');
+	eq(renewLease(t, 'work', 1, 1_000, 1_500).granted, true, 'renew after a lapse nobody used');
+	const taken = acquireLease(t, req(2, LOCK_PRIORITY.crime), 1_500).table;
+	eq(renewLease(taken, 'work', 1, 1_000, 1_600).granted, false, 'lost once taken');
+});
+
+test('tables parse defensively', () => {
+	const t = acquireLease(EMPTY_LEASES, req(1, 1), 0).table;
+	eq(parseLeaseTable(JSON.stringify(t)), t, 'round trip');
+	eq(parseLeaseTable('{"leases":{}}'), null, 'no ts');
+	eq(parseLeaseTable('{'), null, 'corrupt');
+	eq(parseLeaseTable(null), null, 'empty');
+});
+
+console.log(`\nlease_table: ${passed} passed`);
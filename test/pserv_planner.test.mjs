@@ -0,0 +1,61 @@
+// Pserv / home RAM purchase planner (lib/pserv_planner.ts). Run after `npx tsc`:
+//   node test/pserv_planner.test.mjs
+import {
+	planPurchases, reservedFraction, coreGainGb, loadPservPlan, savePservPlan, EMPTY_PSERV_PLAN,
+} from '../dist/lib/pserv_planner.js';
+import { mockNs, assert, eq } from './_mock_ns.mjs';
+
+let passed = 0;
+const test = (name, fn) => { fn(); passed++; console.log('  ok -', name); };
+
+const near = (a, b, tol, msg) => assert(Math.abs(a - b) <= tol, `${msg}: ${a} vs ${b}`);
+
+// $1k per GB, tiers 64 GB .. 1 TB.
+const costs = Object.fromEntries([64, 128, 256, 512, 1024].map(r => [r, r * 1_000]));
+const inputs = (over = {}) => ({
+	budget: 200_000, incomePerSec: 1_000, moneyPerGbSec: 1, horizonS: 10_000,
+	pservs: [], pservLimit: 2, pservCost: costs, minRam: 64, maxRam: 1024,
+	homeRam: 64, homeCores: 1, homeRamCost: Infinity, homeCoresCost: Infinity,
+	...over,
+});
+
+test('the reserve starts at 5% and climbs with the node age', () => {
+	near(reservedFraction(0), 0.05, 1e-12, 'at the install');
+	near(reservedFraction(360), 0.75, 0.01, 'after 6 h');
+	assert(reservedFraction(1_000) > reservedFraction(360), 'keeps climbing');
+});
+
+test('buys the biggest affordable tier, then plans ahead with ETAs', () => {
+	const plan = planPurchases(inputs());
+	eq([plan[0].action, plan[0].host, plan[0].to, plan[0].etaS], ['buy', 'pserv-00', 128, 0], 'best tier now');
+	eq([plan[1].action, plan[1].host, plan[1].to, plan[1].etaS], ['buy', 'pserv-01', 64, 0], 'what is left buys the smallest tier');
+	eq([plan[2].action, plan[2].host, plan[2].to], ['upgrade', 'pserv-01', 128], 'slots full → upgrade the smallest');
+	eq(plan[2].etaS, (192_000 + 128_000 - 200_000) / 1_000, 'waits for income');
+	eq(plan[0].paybackS, 128_000 / 128, 'payback at $1/GB·s');
+});
+
+test('nothing that cannot pay back before the reset is planned', () => {
+	eq(planPurchases(inputs({ horizonS: 100 })), [], 'horizon too short');
+	eq(planPurchases(inputs({ budget: 0, incomePerSec: 0 })), [], 'never affordable');
+	const early = planPurchases(inputs({ moneyPerGbSec: 0, horizonS: 0 }));
+	eq([early[0].action, early[0].paybackS], ['buy', 0], 'no estimate → GB per dollar, no cutoff');
+});
+
+test('home upgrades compete on the same terms', () => {
+	const cheapHome = planPurchases(inputs({ homeRam: 512, homeRamCost: 50_000 }));
+	eq([cheapHome[0].action, cheapHome[0].to], ['homeRam', 1024], 'doubling 512 GB for $50k wins');
+	eq(cheapHome.filter(p => p.action === 'homeRam').length, 1, 'home costs only known one step ahead');
+	near(coreGainGb(1024, 1), 1024 / 16 * 0.9, 1e-9, 'second core');
+	const cores = planPurchases(inputs({ homeRam: 1 << 20, homeCoresCost: 1_000 }));
+	eq([cores[0].action, cores[0].from, cores[0].to], ['homeCores', 1, 2], 'cores on a huge home');
+});
+
+test('the plan round-trips through its status file', () => {
+	const ns = mockNs();
+	eq(loadPservPlan(ns), EMPTY_PSERV_PLAN, 'missing');
+	const plan = { ...EMPTY_PSERV_PLAN, ts: 1, budget: 5, schedule: planPurchases(inputs()) };
+	savePservPlan(ns, plan);
+	eq(loadPservPlan(ns), plan, 'round trip');
+});
+
+console.log(`\npserv_planner: ${passed} passed`);
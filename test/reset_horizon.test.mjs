@@ -0,0 +1,59 @@
+// Reset-horizon estimator (lib/reset_horizon.ts). Run after `npx tsc`:
+//   node test/reset_horizon.test.mjs
+import {
+	estimateResetHorizon, readResetHorizon, saveRepProgress, loadRepProgress, EMPTY_REP_PROGRESS,
+	HORIZON_MIN_S, HORIZON_MAX_S, HORIZON_DEFAULT_S, REP_PROGRESS_STALE_MS,
+} from '../dist/lib/reset_horizon.js';
+import { mockNs, assert, eq } from './_mock_ns.mjs';
+
+let passed = 0;
+const test = (name, fn) => { fn(); passed++; console.log('  ok -', name); };
+
+test('reset due → floor', () => {
+	const h = estimateResetHorizon({ pendingAugs: 10, resetMinAugs: 10, repPerSecond: 50, secondsPerAug: 3600 });
+	eq(h.seconds, HORIZON_MIN_S, 'floor');
+	eq(h.basis, 'reset due', 'basis');
+});
+
+test('no rep data → previous fixed cutoff', () => {
+	const h = estimateResetHorizon({ pendingAugs: 2, resetMinAugs: 10, repPerSecond: 0, secondsPerAug: null });
+	eq(h.seconds, HORIZON_DEFAULT_S, 'default');
+});
+
+test('scales with missing augs and clamps', () => {
+	eq(estimateResetHorizon({ pendingAugs: 7, resetMinAugs: 10, repPerSecond: 5, secondsPerAug: 1200 }).seconds, 3600, '3 × 20 min');
+	eq(estimateResetHorizon({ pendingAugs: 0, resetMinAugs: 10, repPerSecond: 1, secondsPerAug: 1e6 }).seconds, HORIZON_MAX_S, 'ceiling');
+	eq(estimateResetHorizon({ pendingAugs: 9, resetMinAugs: 10, repPerSecond: 1, secondsPerAug: 5 }).seconds, HORIZON_MIN_S, 'floor');
+});
+
+test('a next aug ready now is not a reset due now', () => {
+	const ready = estimateResetHorizon({ pendingAugs: 7, resetMinAugs: 10, repPerSecond: 5, secondsPerAug: 0 });
+	eq([ready.seconds, ready.basis], [HORIZON_DEFAULT_S, 'next aug ready, 2 more untimed'], 'the rest are unknown');
+	const last = estimateResetHorizon({ pendingAugs: 9, resetMinAugs: 10, repPerSecond: 5, secondsPerAug: 0 });
+	eq([last.seconds, last.basis], [HORIZON_MIN_S, 'last aug ready'], 'nothing left to wait for');
+});
+
+test('uses fresh rep progress from status/rep_progress.json', () => {
+	const ns = mockNs();
+	saveRepProgress(ns, { ts: 1_000, faction: 'CyberSec', repPerSecond: 12, secondsToNextAug: 900 });
+	const h = readResetHorizon(ns, 6, 10, 2_000);
+	eq(h.inputs, { pendingAugs: 6, resetMinAugs: 10, repPerSecond: 12, secondsPerAug: 900 }, 'inputs');
+	eq(h.seconds, 4 * 900, 'estimate');
+});
+
+test('stale rep progress is ignored', () => {
+	const ns = mockNs();
+	saveRepProgress(ns, { ts: 1_000, faction: 'CyberSec', repPerSecond: 12, secondsToNextAug: 900 });
+	const h = readResetHorizon(ns, 6, 10, 1_000 + REP_PROGRESS_STALE_MS + 1);
+	eq(h.inputs.repPerSecond, 0, 'rate dropped');
+	eq(h.seconds, HORIZON_DEFAULT_S, 'stale → default');
+});
+
+test('rep progress missing/corrupt → empty', () => {
+	const ns = mockNs();
+	eq(loadRepProgress(ns), EMPTY_REP_PROGRESS, 'missing');
+	ns.write('status/rep_progress.json', 'nope', 'w');
+	assert(loadRepProgress(ns).ts === 0, 'corrupt');
+});
+
+console.log(`\nreset_horizon: ${passed} passed`);
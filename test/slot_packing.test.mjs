@@ -0,0 +1,35 @@
+// Slot placement strategies and fragmentation metrics (lib/slot_packing.ts). Run after `npx tsc`:
+//   node test/slot_packing.test.mjs
+import { packSlots, fragmentation } from '../dist/lib/slot_packing.js';
+import { eq } from './_mock_ns.mjs';
+
+let passed = 0;
+const test = (name, fn) => { fn(); passed++; console.log('  ok -', name); };
+
+const free = [8, 2, 32, 5];
+
+test('best-fit takes the smallest host that fits, worst-fit the largest', () => {
+	eq(packSlots(free, 4, false, 'bestFit'), [0, 0, 0, 4], 'bestFit');
+	eq(packSlots(free, 4, false, 'worstFit'), [0, 0, 4, 0], 'worstFit');
+	eq(packSlots(free, 33, false, 'bestFit'), null, 'unsplit op too big');
+	eq(packSlots(free, 40, true, 'bestFit'), [8, 0, 32, 0], 'split fills the largest hosts first');
+	eq(packSlots(free, 48, true, 'worstFit'), null, 'more than there is');
+	eq(packSlots(free, 0, false, 'worstFit'), [0, 0, 0, 0], 'nothing to place');
+});
+
+test('spread shares evenly across the largest hosts, even for unsplit ops', () => {
+	eq(packSlots(free, 12, false, 'spread', 3), [4, 0, 4, 4], 'even thirds');
+	eq(packSlots(free, 24, false, 'spread', 3), [8, 0, 11, 5], 'small hosts give what they have');
+	eq(packSlots(free, 3, false, 'spread'), [1, 0, 1, 1], 'no more hosts than threads');
+	eq(packSlots(free, 46, true, 'spread', 3), null, 'capped hosts run out');
+});
+
+test('fragmentation reports the largest block and unusable remainders', () => {
+	const f = fragmentation([8, 3.5, 1, 0, -2], 1.75);
+	eq([f.hosts, f.freeSlots, f.largestSlot], [2, 6, 4], 'slots');
+	eq(f.wastedGb, 2, 'remainders of the 8 GB and 1 GB hosts');
+	eq(f.ratio, 1 - 4 / 6, 'ratio');
+	eq(fragmentation([], 1.75), { hosts: 0, freeSlots: 0, largestSlot: 0, wastedGb: 0, ratio: 0 }, 'empty');
+});
+
+console.log(`\nslot_packing: ${passed} passed`);
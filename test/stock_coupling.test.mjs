@@ -0,0 +1,43 @@
+// Stock ↔ hack coupling (lib/stock_coupling.ts). Run after `npx tsc`:
+//   node test/stock_coupling.test.mjs
+import {
+	parseStockPositions, stockBiasByHost, planManipulation, splitManipulationThreads, STOCK_SERVERS,
+} from '../dist/lib/stock_coupling.js';
+import { eq } from './_mock_ns.mjs';
+
+let passed = 0;
+const test = (name, fn) => { fn(); passed++; console.log('  ok -', name); };
+
+const pos = (sym, side, profitPotential = 0.01) => ({
+	sym, long: side === 'long' || side === 'both', short: side === 'short' || side === 'both', profitPotential, profitChange: 0,
+});
+
+test('PORT_STOCK payload parses defensively', () => {
+	eq(parseStockPositions(null), [], 'empty port');
+	eq(parseStockPositions('{oops'), [], 'corrupt');
+	eq(parseStockPositions('{"sym":"JGN"}'), [], 'not an array');
+	eq(parseStockPositions(JSON.stringify([pos('JGN', 'long')])).length, 1, 'array');
+});
+
+test('longs grow, shorts hack, ambiguous and serverless symbols are skipped', () => {
+	const bias = stockBiasByHost([pos('JGN', 'long'), pos('FNS', 'short'), pos('ECP', 'both'), pos('WDS', 'long')]);
+	eq(Array.from(bias.entries()), [['joesguns', 'long'], ['foodnstuff', 'short']], 'bias');
+	eq(STOCK_SERVERS.WDS, undefined, 'Watchdog has no server');
+});
+
+test('manipulation jobs skip batched/ineligible hosts, strongest signal first', () => {
+	const positions = [pos('JGN', 'long', 0.01), pos('FNS', 'short', -0.05), pos('SGC', 'long', 0.02), pos('NTLK', 'long', 0.2)];
+	const jobs = planManipulation(positions, new Set(['sigma-cosmetics']), h => h !== 'netlink');
+	eq(jobs, [
+		{ host: 'foodnstuff', sym: 'FNS', op: 'hack' },
+		{ host: 'joesguns', sym: 'JGN', op: 'grow' },
+	], 'jobs');
+});
+
+test('op/weaken split is security-neutral', () => {
+	eq(splitManipulationThreads(54, 0.004, 0.05), { op: 50, weaken: 4 }, 'grow 12.5:1');
+	eq(splitManipulationThreads(26, 0.002, 0.05), { op: 25, weaken: 1 }, 'hack 25:1');
+	eq(splitManipulationThreads(0, 0.002, 0.05), { op: 0, weaken: 0 }, 'none');
+});
+
+console.log(`\nstock_coupling: ${passed} passed`);
@@ -0,0 +1,46 @@
+// Persisted pre-4S forecaster state (lib/stock_history.ts). Run after `npx tsc`:
+//   node test/stock_history.test.mjs
+import {
+	packHistory, restoreHistory, loadStockHistory, saveStockHistory,
+	EMPTY_STOCK_HISTORY, STOCK_TICK_MS, MAX_GAP_TICKS,
+} from '../dist/lib/stock_history.js';
+import { mockNs, eq } from './_mock_ns.mjs';
+
+let passed = 0;
+const test = (name, fn) => { fn(); passed++; console.log('  ok -', name); };
+
+const snapshot = (over = {}) => ({
+	ts: 1_000_000, cycleTick: 70, cycleDetected: true, agreementThreshold: 14,
+	symbols: { ECP: { prices: [10_123.456789, 10_100.5], ask: 10_150.25, lastInversion: 3 } },
+	...over,
+});
+
+test('prices are stored compact', () => {
+	eq(packHistory(snapshot()).symbols.ECP.prices, [10_123.5, 10_100.5], 'six significant digits');
+	eq(packHistory(snapshot()).symbols.ECP.ask, 10_150.25, 'ask kept exact');
+});
+
+test('a fresh snapshot restores as is, a short gap advances cycle and inversions', () => {
+	const same = restoreHistory(snapshot(), 1_000_000 + 2_000, 75);
+	eq([same.gapTicks, same.history?.cycleTick, same.history?.symbols.ECP.lastInversion], [0, 70, 3], 'no tick missed');
+	const gap = restoreHistory(snapshot(), 1_000_000 + 6 * STOCK_TICK_MS, 75);
+	eq([gap.gapTicks, gap.history?.cycleTick, gap.history?.symbols.ECP.lastInversion], [6, 0, 8], 'next refresh sees the 6th');
+	eq(gap.history?.symbols.ECP.prices, snapshot().symbols.ECP.prices, 'history kept');
+});
+
+test('long gaps and empty snapshots are not restored', () => {
+	const stale = restoreHistory(snapshot(), 1_000_000 + (MAX_GAP_TICKS + 1) * STOCK_TICK_MS, 75);
+	eq([stale.history, stale.gapTicks], [null, MAX_GAP_TICKS + 1], 'stale');
+	eq(restoreHistory(EMPTY_STOCK_HISTORY, 5, 75).history, null, 'never saved');
+	eq(restoreHistory(snapshot({ symbols: {} }), 1_000_000, 75).history, null, 'no stocks');
+});
+
+test('load/save round trip, corrupt files read as empty', () => {
+	const ns = mockNs();
+	saveStockHistory(ns, snapshot());
+	eq(loadStockHistory(ns), packHistory(snapshot()), 'round trip');
+	ns.write('status/stock_history.json', '{', 'w');
+	eq(loadStockHistory(ns), EMPTY_STOCK_HISTORY, 'corrupt');
+});
+
+console.log(`\nstock_history: ${passed} passed`);
@@ -0,0 +1,115 @@
+// Offline stock market (lib/stock_sim.ts). Run after `npx tsc`:
+//   node test/stock_sim.test.mjs
+import {
+	createSimMarket, simTick, simStockApi, simForecast, netWorth, simReport,
+	askPrice, bidPrice, orderTriggered, COMMISSION, TICKS_PER_CYCLE,
+} from '../dist/lib/stock_sim.js';
+import { assert, eq } from './_mock_ns.mjs';
+
+let passed = 0;
+const test = async (name, fn) => { await fn(); passed++; console.log('  ok -', name); };
+
+const run = (seed, ticks) => {
+	const m = createSimMarket({ seed, money: 1e9 });
+	for (let i = 0; i < ticks; i++) simTick(m);
+	return m;
+};
+
+await test('a seed replays the same market', () => {
+	eq(run(7, 200).stocks, run(7, 200).stocks, 'same seed');
+	assert(run(7, 200).stocks[0].price !== run(8, 200).stocks[0].price, 'different seed');
+});
+
+await test('quotes straddle the price and forecasts stay in range', () => {
+	const m = run(3, 500);
+	const api = simStockApi(m);
+	for (const s of m.stocks) {
+		assert(askPrice(s) > s.price && bidPrice(s) < s.price, `${s.symbol} spread`);
+		const f = api.getForecast(s.symbol);
+		assert(f >= 0 && f <= 1 && s.otlkMag <= 50, `${s.symbol} forecast`);
+	}
+	eq(api.getPosition('S00'), [0, 0, 0, 0], 'flat');
+});
+
+await test('stocks invert at cycle boundaries about 45% of the time', () => {
+	const m = createSimMarket({ seed: 11, money: 0 });
+	let flips = 0, rolls = 0;
+	for (let i = 1; i <= TICKS_PER_CYCLE * 40; i++) {
+		const before = m.stocks.map(s => s.otlkMagForecast);
+		simTick(m);
+		if (i % TICKS_PER_CYCLE !== 0) continue;
+		// An inversion mirrors the second-order forecast; ordinary drift moves it by < 50 at most.
+		m.stocks.forEach((s, k) => { rolls++; if (Math.abs(s.otlkMagForecast - (100 - before[k])) < Math.abs(s.otlkMagForecast - before[k])) flips++; });
+	}
+	assert(flips / rolls > 0.35 && flips / rolls < 0.55, `flip rate ${flips / rolls}`);
+});
+
+await test('round trips pay the spread, commissions and price impact', () => {
+	const m = createSimMarket({ seed: 5, money: 1e12, influence: 0 });
+	const api = simStockApi(m);
+	const s = m.stocks[0];
+	const ask = askPrice(s), bid = bidPrice(s);
+	eq(api.buyStock('S00', 1_000), ask, 'filled at the ask');
+	eq(api.sellStock('S00', 5_000), bid, 'sells what is held');
+	const pnl = -1_000 * (ask - bid) - 2 * COMMISSION;
+	assert(Math.abs(m.money - 1e12 - pnl) < 1e-3, 'cash');
+	assert(Math.abs(m.fills.reduce((sum, f) => sum + f.pnl, 0) - pnl) < 1e-6, 'fills sum to realized P&L');
+	eq(api.buyStock('S00', s.maxShares + 1), 0, 'over max shares');
+
+	const impact = createSimMarket({ seed: 5, money: 1e12 });
+	const t = impact.stocks[0], before = t.price;
+	simStockApi(impact).buyStock('S00', t.maxShares / 10);
+	assert(t.price > before, 'buying pushes the price up');
+	simStockApi(impact).buyShort('S01', 1_000);
+	eq(netWorth(impact) < 1e12, true, 'marked to closing quotes');
+});
+
+await test('orders mirror for shorts, fill at the quote and can be cancelled', () => {
+	const stop = { shares: 1, price: 100, type: 'Stop Sell Order', position: 'L' };
+	eq([orderTriggered(stop, 99), orderTriggered(stop, 101)], [true, false], 'long stop sells below');
+	const shortStop = { ...stop, position: 'S' };
+	eq([orderTriggered(shortStop, 99), orderTriggered(shortStop, 101)], [false, true], 'short stop covers above');
+	eq(orderTriggered({ ...stop, type: 'Limit Sell Order', position: 'S' }, 99), true, 'short take-profit below');
+
+	const m = createSimMarket({ seed: 4, money: 1e12, influence: 0 });
+	const api = simStockApi(m);
+	const s = m.stocks[0];
+	api.buyStock('S00', 1_000);
+	eq(api.placeOrder('S00', 1_000, s.price * 2, 'Limit Sell Order', 'Long'), true, 'target placed');
+	eq(api.placeOrder('S00', 1_000, s.price / 2, 'stopsell', 'L'), true, 'loose arguments');
+	eq(api.placeOrder('S00', 1_000, s.price, 'Market Order', 'Long'), false, 'unknown type');
+	eq(api.cancelOrder('S00', 1_000, s.price * 2, 'Limit Sell Order', 'Long'), true, 'cancelled');
+	eq(api.cancelOrder('S00', 1_000, s.price * 2, 'Limit Sell Order', 'Long'), false, 'already gone');
+	eq(Object.values(api.getOrders()).flat().map(o => o.type), ['Stop Sell Order'], 'one left');
+
+	api.placeOrder('S00', 1_000, s.price * 0.999, 'Limit Sell Order', 'Long');
+	for (let i = 0; i < 200 && s.sharesLong > 0; i++) simTick(m);
+	eq(s.sharesLong, 0, 'an order closed the position');
+	eq(m.fills.at(-1).open, false, 'booked as a close');
+});
+
+await test('the report tracks trades, drawdown and open positions', () => {
+	const m = createSimMarket({ seed: 2, money: 1e9, influence: 0 });
+	const api = simStockApi(m);
+	const s = m.stocks[1];
+	api.buyShort('S01', 10_000);
+	s.price *= 0.9;
+	api.sellShort('S01', 10_000);
+	api.buyStock('S02', 1_000);
+	m.equity.push(1.2e9, 0.9e9, 1e9);
+	const r = simReport(m, 1e9);
+	eq([r.trades, r.wins, r.openPositions, r.commissions], [1, 1, 1, 3 * COMMISSION], 'counts');
+	assert(r.bySymbol.S01 > 0 && r.bySymbol.S02 === -COMMISSION, 'per symbol');
+	eq(r.maxDrawdown, 0.25, 'peak to trough');
+	eq(simForecast({ b: false, otlkMag: 10 }), 0.4, 'bearish forecast');
+});
+
+await test('the trade cap is per market tick, not per run', async () => {
+	// The backtester is an offline tool under build/ (not compiled to dist/); load its TS source.
+	const { tsImport } = await import('tsx/esm/api');
+	const { runBacktest } = await tsImport('../build/stock_backtester.ts', import.meta.url);
+	const { report } = await runBacktest({ seed: 1, ticks: 600, money: 1e10 });
+	assert(report.trades > 30, `closed ${report.trades} trades`);
+});
+
+console.log(`\nstock_sim: ${passed} passed`);
@@ -0,0 +1,99 @@
+// Stock strategy selection (lib/stock_strategy.ts) and the presets
+// (stock/strategy.ts). Run after `npx tsc`:
+//   node test/stock_strategy.test.mjs
+import {
+	chooseStockStrategy, isStockStrategyId, STOCK_STRATEGY_IDS, STOCK_STRATEGY_LABELS,
+} from '../dist/lib/stock_strategy.js';
+import { assert, eq, importDist } from './_mock_ns.mjs';
+
+const { STOCK_STRATEGIES } = await importDist('stock/strategy.js');
+const { Stock } = await importDist('stock/stock.js');
+const { StockConfig } = await importDist('stock/config.js');
+
+let passed = 0;
+const test = (name, fn) => { fn(); passed++; console.log('  ok -', name); };
+
+const { forecast4s, cycle, preservation } = STOCK_STRATEGIES;
+
+// BitNode 8 unlocks shorts; elsewhere (no SF8) they stay off
+const config = (shorts) => new StockConfig({ getResetInfo: () => ({ currentNode: shorts ? 8 : 1, ownedSF: new Map() }) });
+// A calm, liquid stock with a strong bullish forecast and a ~1-tick spread to cover
+const stock = (over = {}) => Object.assign(new Stock('ECP'), {
+	price: 1e4, ask_price: 1.001e4, bid_price: 0.999e4, spread_pct: 0.002, maxShares: 1e7,
+	forecast: 0.75, volatility: 0.008, priceHistory: Array(30).fill(1e4), lastInversion: 40,
+}, over);
+const market = (over = {}) => ({
+	isWorthBuying: () => true,
+	detectMarketCycle: () => ({ isCycleEnd: false, cycleProbability: 0 }),
+	calculatePositionSize: (s, budget) => Math.floor(budget / s.ask_price),
+	ticksUntilCycle: () => null,
+	formatBasisPoints: f => String(f),
+	...over,
+});
+const ctx = (over = {}) => ({ ns: { print: () => undefined }, config: config(false), market: market(), has4SData: true, ...over });
+const held = (over = {}) => stock({ sharesLong: 1_000, boughtPrice: 1.001e4, purchasePrice: 1.001e4, ...over });
+
+test('auto picks by 4S data', () => {
+	eq(chooseStockStrategy('', 'auto', true), { id: 'forecast4s', reason: '4S data' }, '4S');
+	eq(chooseStockStrategy('', 'auto', false), { id: 'cycle', reason: 'no 4S data' }, 'pre-4S');
+});
+
+test('the flag beats settings, unknown ids fall through', () => {
+	eq(chooseStockStrategy('preservation', 'cycle', true).id, 'preservation', 'flag');
+	eq(chooseStockStrategy('', 'preservation', true), { id: 'preservation', reason: 'forced in settings' }, 'setting');
+	eq(chooseStockStrategy('yolo', 'forecast4s', false).id, 'forecast4s', 'bad flag');
+	eq(chooseStockStrategy('', 'yolo', false).id, 'cycle', 'bad setting');
+	eq([isStockStrategyId('cycle'), isStockStrategyId('auto'), isStockStrategyId(undefined)], [true, false, false], 'ids');
+	eq(STOCK_STRATEGY_IDS.every(id => STOCK_STRATEGY_LABELS[id]), true, 'every id labelled');
+});
+
+test('forecast4s enters both ways once shorts unlock and ranks by spread cover', () => {
+	const bear = stock({ forecast: 0.25 });
+	eq([forecast4s.shouldEnter(stock(), ctx()), forecast4s.shouldEnter(bear, ctx())], [true, false], 'no shorts');
+	eq(forecast4s.shouldEnter(bear, ctx({ config: config(true) })), true, 'shorts');
+	eq(forecast4s.shouldEnter(stock({ forecast: 0.52 }), ctx()), false, 'weak forecast');
+	eq(forecast4s.shouldEnter(held(), ctx()), false, 'already held');
+	const wide = stock({ ask_price: 1.01e4, bid_price: 0.99e4 });
+	assert(forecast4s.score(stock(), ctx()) > forecast4s.score(wide, ctx()), 'narrow spread first');
+	eq(forecast4s.positionSize(stock(), 1e8, ctx()), Math.floor(1e8 / 1.001e4), 'market sizing');
+});
+
+test('preservation never shorts, skips volatile stocks and sizes at half', () => {
+	const shorts = ctx({ config: config(true) });
+	eq(preservation.shouldEnter(stock({ forecast: 0.2 }), shorts), false, 'no shorts');
+	eq(preservation.shouldEnter(stock(), shorts), true, 'strong long');
+	eq(preservation.shouldEnter(stock({ volatility: 0.02 }), shorts), false, 'too volatile');
+	eq(preservation.shouldEnter(stock({ forecast: 0.58 }), shorts), false, 'not strong enough');
+	eq(preservation.positionSize(stock(), 1e8, ctx()), Math.floor(0.5e8 / 1.001e4), 'half size');
+});
+
+test('preservation stops out past the spread where forecast4s holds', () => {
+	const down = () => held({ bid_price: 0.975e4, ask_price: 0.977e4 });   // -2.6%
+	eq(preservation.exitReason(down(), ctx()), 'stopLoss', 'tight stop');
+	eq(forecast4s.exitReason(down(), ctx()), null, 'within the usual stop');
+	eq(preservation.exitReason(held({ forecast: 0.53 }), ctx()), 'forecastFlip', 'weakening forecast');
+	eq(preservation.exitReason(held(), ctx()), null, 'healthy position');
+});
+
+test('cycle needs history, distance from an inversion and no blackout', () => {
+	const pre4s = ctx({ has4SData: false });
+	eq(cycle.shouldEnter(stock(), pre4s), true, 'settled stock, cycle unknown');
+	eq(cycle.shouldEnter(stock({ priceHistory: [1e4] }), pre4s), false, 'no history');
+	eq(cycle.shouldEnter(stock({ lastInversion: 3 }), pre4s), false, 'fresh inversion');
+	eq(cycle.shouldEnter(stock({ forecast: 0.6 }), pre4s), false, 'too close to 0.5');
+	const cycleIn = ticks => ({ ...pre4s, market: market({ ticksUntilCycle: () => ticks }) });
+	eq(cycle.shouldEnter(stock(), cycleIn(5)), false, 'inside the blackout');
+	eq(cycle.shouldEnter(stock(), cycleIn(40)), true, 'well before the flip');
+});
+
+test('cycle holds a fresh position through an exit signal', () => {
+	const pre4s = ctx({ has4SData: false });
+	const fading = held({ forecast: 0.52, ticksHeld: 2 });
+	eq(cycle.exitReason(fading, pre4s), null, 'too fresh');
+	assert(fading.warnedBadPurchase, 'warned once');
+	fading.ticksHeld = 12;
+	eq(cycle.exitReason(fading, pre4s), 'lowReturn', 'held long enough');
+	eq(forecast4s.exitReason(held({ forecast: 0.45, ticksHeld: 2 }), ctx()), 'forecastFlip', '4S does not wait');
+});
+
+console.log(`\nstock_strategy: ${passed} passed`);
@@ -0,0 +1,59 @@
+// Hack-target scoring strategies (lib/target_scoring.ts). Run after `npx tsc`:
+//   node test/target_scoring.test.mjs
+import {
+	rankTargets, strategyForPhase, loadTargetRanking, saveTargetRanking, SCORING_STRATEGIES,
+	EMPTY_TARGET_RANKING, PREP_PENALTY_S, TARGET_RANKING_KEEP,
+} from '../dist/lib/target_scoring.js';
+import { mockNs, assert, eq } from './_mock_ns.mjs';
+
+let passed = 0;
+const test = (name, fn) => { fn(); passed++; console.log('  ok -', name); };
+
+const facts = (host, over = {}) => ({
+	host, moneyMax: 1e6, hackChance: 1, hackPercent: 0.01, hackTime: 10_000, growTime: 32_000,
+	weakenTime: 40_000, batchRam: 100, batchMoney: 1e5, prepSeconds: 0, expPerThread: 5, ...over,
+});
+
+test('moneyPerGb prefers less RAM per dollar', () => {
+	const r = rankTargets([facts('fat', { batchRam: 400 }), facts('lean')], 'moneyPerGb');
+	eq(r.map(t => t.host), ['lean', 'fat'], 'order');
+	eq(r[0].score, 1e5 / (100 * 40), '$/s/GB');
+	eq(SCORING_STRATEGIES.moneyPerGb.score(facts('x', { batchRam: Infinity })), 0, 'unhackable → 0');
+});
+
+test('prepCost discounts targets that still need prep', () => {
+	const slow = facts('slow', { batchMoney: 1.5e5, prepSeconds: PREP_PENALTY_S });
+	const ready = facts('ready');
+	eq(rankTargets([slow, ready], 'moneyPerGb')[0].host, 'slow', 'raw $/GB favours slow');
+	const r = rankTargets([slow, ready], 'prepCost');
+	eq(r.map(t => [t.host, t.prepared]), [['ready', true], ['slow', false]], 'prep halves the score');
+	assert(r[1].why.includes('prep 600s'), r[1].why);
+});
+
+test('chanceWeighted and xpPerSec use their own inputs', () => {
+	const risky = facts('risky', { moneyMax: 3e6, hackChance: 0.2 });
+	eq(rankTargets([risky, facts('safe')], 'chanceWeighted')[0].host, 'safe', 'chance weighs money');
+	const quick = facts('quick', { growTime: 8_000, expPerThread: 3 });
+	const r = rankTargets([facts('slowxp'), quick], 'xpPerSec');
+	eq(r[0].host, 'quick', 'xp per second');
+	eq(r[0].why, '0.38 xp/s/thread', 'reason text');
+});
+
+test('strategy follows the phase', () => {
+	eq(['BOOTSTRAP', 'EARLY', 'MID', 'LATE', 'RESET', ''].map(strategyForPhase),
+		['prepCost', 'moneyPerGb', 'moneyPerGb', 'chanceWeighted', 'prepCost', 'moneyPerGb'], 'mapping');
+});
+
+test('ranking round-trips through status/targets.json', () => {
+	const ns = mockNs();
+	eq(loadTargetRanking(ns), EMPTY_TARGET_RANKING, 'empty on miss');
+	const ranking = rankTargets(Array.from({ length: 15 }, (_, i) => facts(`h${i}`, { batchRam: 100 + i })), 'moneyPerGb');
+	saveTargetRanking(ns, { ts: 5, phase: 'MID', strategy: 'moneyPerGb', source: 'phase', ranking });
+	const back = loadTargetRanking(ns);
+	eq(back.ranking.length, TARGET_RANKING_KEEP, 'truncated');
+	eq([back.strategy, back.ranking[0].host], ['moneyPerGb', 'h0'], 'content');
+	ns.write('status/targets.json', '{', 'w');
+	eq(loadTargetRanking(ns), EMPTY_TARGET_RANKING, 'empty on corrupt');
+});
+
+console.log(`\ntarget_scoring: ${passed} passed`);
@@ -0,0 +1,86 @@
+// In-flight task ledger (lib/task_ledger.ts). Run after `npx tsc`:
+//   node test/task_ledger.test.mjs
+import {
+	newTaskLedger, parseBusMessage, parseRegistration, applyBusMessage, applyRegistration, recordStart,
+	pruneLedger, summarizeLedger, inFlightThreads, loadTaskStatus, saveTaskStatus,
+	EMPTY_TASK_STATUS, TASK_ETA_GRACE_MS,
+} from '../dist/lib/task_ledger.js';
+import { mockNs, eq } from './_mock_ns.mjs';
+
+let passed = 0;
+const test = (name, fn) => { fn(); passed++; console.log('  ok -', name); };
+
+const start = (pid, over = {}) => ({
+	host: 'pserv-0', script: '/workers/hack.js', op: 'hack', target: 'phantasy', threads: 10, eta: 0, pid, ...over,
+});
+
+const report = (pid, over = {}) => ({
+	kind: 'op', op: 'hack', target: 'phantasy', batch: 'batch-hack-1',
+	plannedStart: 0, plannedEnd: 0, start: 0, end: 0, result: 1, pid, ...over,
+});
+
+test('bus messages parse defensively', () => {
+	eq(parseBusMessage('{"kind":"done","id":"7","ts":1}'), { kind: 'done', id: '7', ts: 1 }, 'done');
+	eq(parseBusMessage(JSON.stringify(report(3))), report(3), 'op report');
+	eq(parseBusMessage('{"kind":"register"}'), null, 'registration on the task port');
+	eq(parseBusMessage('{'), null, 'corrupt');
+	eq(parseBusMessage(null), null, 'empty');
+	eq(parseRegistration('{"kind":"register","role":"x","script":"/a.js","pid":4,"ts":1}')?.pid, 4, 'registration');
+	eq(parseRegistration('{"kind":"register"}'), null, 'no pid');
+});
+
+test('a DONE or op report closes its task, a pool report closes only its job', () => {
+	const ledger = newTaskLedger();
+	recordStart(ledger, start(1));
+	recordStart(ledger, start(2));
+	recordStart(ledger, start(9, { script: '/workers/pool_hack.js' }), 'a');
+	recordStart(ledger, start(9, { script: '/workers/pool_hack.js' }), 'b');
+	eq([...ledger.tasks.keys()], ['1', '2', '9/a', '9/b'], 'recorded');
+	applyBusMessage(ledger, { kind: 'done', id: '1', ts: 0 });
+	applyBusMessage(ledger, report(2));
+	applyBusMessage(ledger, report(9, { slot: 0, batch: 'a' }));
+	eq([...ledger.tasks.keys()], ['9/b'], 'closed');
+});
+
+test('lost DONEs are pruned by eta or pid', () => {
+	const ledger = newTaskLedger();
+	recordStart(ledger, start(1, { eta: 1_000 }));
+	recordStart(ledger, start(2));
+	recordStart(ledger, start(3));
+	applyRegistration(ledger, { kind: 'register', role: 'stockEngine', script: '/stock/main.js', pid: 3, ts: 0 });
+	applyRegistration(ledger, { kind: 'register', role: 'gone', script: '/x.js', pid: 4, ts: 0 });
+	const alive = pid => pid !== 2 && pid !== 4;
+	pruneLedger(ledger, 1_000 + TASK_ETA_GRACE_MS, alive);
+	eq([...ledger.tasks.keys()], ['1', '3'], 'within grace');
+	pruneLedger(ledger, 1_001 + TASK_ETA_GRACE_MS, alive);
+	eq([...ledger.tasks.keys()], ['3'], 'overdue dropped');
+	eq([...ledger.daemons.keys()], [3], 'dead daemon dropped');
+});
+
+test('the summary groups threads by target and op', () => {
+	const ledger = newTaskLedger();
+	recordStart(ledger, start(1, { threads: 10 }));
+	recordStart(ledger, start(2, { op: 'weaken', threads: 4 }));
+	recordStart(ledger, start(3, { target: 'n00dles', op: 'grow', threads: 20 }));
+	recordStart(ledger, start(4, { target: '', op: 'share', threads: 5 }));
+	const s = summarizeLedger(ledger, 42);
+	eq([s.ts, s.tasks, s.threads], [42, 4, 39], 'totals');
+	eq(s.targets.map(t => t.target), ['n00dles', 'phantasy'], 'most threads first, untargeted left out');
+	eq(inFlightThreads(s, 'phantasy'), 14, 'all ops');
+	eq(inFlightThreads(s, 'phantasy', 'weaken'), 4, 'one op');
+	eq(inFlightThreads(s, 'foodnstuff'), 0, 'unknown target');
+});
+
+test('the summary round-trips through status/tasks.json', () => {
+	const ns = mockNs();
+	eq(loadTaskStatus(ns), EMPTY_TASK_STATUS, 'missing');
+	const ledger = newTaskLedger();
+	recordStart(ledger, start(1));
+	const s = summarizeLedger(ledger, 7);
+	saveTaskStatus(ns, s);
+	eq(loadTaskStatus(ns), s, 'saved');
+	ns.write('status/tasks.json', '{', 'w');
+	eq(loadTaskStatus(ns), EMPTY_TASK_STATUS, 'corrupt');
+});
+
+console.log(`\ntask_ledger: ${passed} passed`);
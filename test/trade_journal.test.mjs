@@ -0,0 +1,52 @@
+// Stock trade journal (lib/trade_journal.ts). Run after `npx tsc`:
+//   node test/trade_journal.test.mjs
+import {
+	recordTrade, winRate, avgHoldTicks, symbolsByPnl, loadTradeJournal, saveTradeJournal, EMPTY_JOURNAL,
+} from '../dist/lib/trade_journal.js';
+import { mockNs, eq } from './_mock_ns.mjs';
+
+let passed = 0;
+const test = (name, fn) => { fn(); passed++; console.log('  ok -', name); };
+
+const open = (ts, symbol) => ({
+	ts, symbol, side: 'long', action: 'open', shares: 100, price: 10, commission: 100_000, reason: null, holdTicks: 0, pnl: 0,
+});
+const close = (ts, symbol, reason, pnl, holdTicks) => ({
+	ts, symbol, side: 'long', action: 'close', shares: 100, price: 11, commission: 100_000, reason, holdTicks, pnl,
+});
+
+test('opens only add commission, closes fold into every aggregate', () => {
+	let j = recordTrade(EMPTY_JOURNAL, open(1, 'ECP'));
+	eq([j.stats.trades, j.stats.commissions, j.stats.since], [0, 100_000, 1], 'an open');
+	j = recordTrade(j, close(2, 'ECP', 'profitTarget', 5e6, 10));
+	j = recordTrade(j, close(3, 'MGCP', 'stopLoss', -2e6, 4));
+	j = recordTrade(j, close(4, 'ECP', 'stopLoss', -1e6, 6));
+	const s = j.stats;
+	eq([s.trades, s.wins, s.pnl, s.holdTicks, s.commissions], [3, 1, 2e6, 20, 400_000], 'totals');
+	eq(s.byReason.stopLoss, { trades: 2, wins: 0, pnl: -3e6 }, 'by reason');
+	eq(s.bySymbol.ECP, { trades: 2, wins: 1, pnl: 4e6 }, 'by symbol');
+	eq([winRate(s), avgHoldTicks(s)], [1 / 3, 20 / 3], 'derived');
+	eq(symbolsByPnl(s).map(([sym]) => sym), ['ECP', 'MGCP'], 'best first');
+	eq([winRate(EMPTY_JOURNAL.stats), avgHoldTicks(EMPTY_JOURNAL.stats)], [0, 0], 'nothing closed');
+});
+
+test('the journal rotates but the stats keep counting', () => {
+	let j = EMPTY_JOURNAL;
+	for (let i = 0; i < 5; i++) j = recordTrade(j, close(i + 1, 'ECP', 'other', 1, 1), 3);
+	eq(j.entries.map(e => e.ts), [3, 4, 5], 'oldest dropped');
+	eq([j.stats.trades, j.stats.pnl, j.ts], [5, 5, 5], 'stats over all of them');
+	eq(EMPTY_JOURNAL.entries.length + EMPTY_JOURNAL.stats.trades, 0, 'empty journal untouched');
+});
+
+test('load/save round trip, corrupt files read as empty', () => {
+	const ns = mockNs();
+	const j = recordTrade(EMPTY_JOURNAL, close(9, 'ECP', 'liquidation', -1, 2));
+	saveTradeJournal(ns, j);
+	eq(loadTradeJournal(ns), j, 'round trip');
+	ns.write('status/stock_journal.json', '{"ts":1}', 'w');
+	eq(loadTradeJournal(ns).stats, EMPTY_JOURNAL.stats, 'missing stats');
+	ns.write('status/stock_journal.json', '{', 'w');
+	eq(loadTradeJournal(ns), EMPTY_JOURNAL, 'corrupt');
+});
+
+console.log(`\ntrade_journal: ${passed} passed`);
@@ -0,0 +1,83 @@
+// Resident HGW worker pool (lib/worker_pool.ts). Run after `npx tsc`:
+//   node test/worker_pool.test.mjs
+import {
+	planDispatch, planEviction, idleThreadsByHost, reapableSlots, parsePoolMessage, runPoolWorker, poolInbox,
+	POOL_PORT_BASE, POOL_IDLE_REAP_MS,
+} from '../dist/lib/worker_pool.js';
+import { assert, eq } from './_mock_ns.mjs';
+
+let passed = 0;
+const test = async (name, fn) => { await fn(); passed++; console.log('  ok -', name); };
+
+const slot = (n, over = {}) => ({
+	slot: n, host: 'pserv-0', op: 'hack', threads: 10, pid: 100 + n, target: 'n00dles', job: '', busyUntil: 0, ...over,
+});
+
+await test('dispatch prefers the smallest idle resident that covers the job', async () => {
+	const slots = [slot(0, { threads: 50 }), slot(1, { threads: 20 }), slot(2, { threads: 5 })];
+	eq(planDispatch(slots, 'hack', 'pserv-0', 12, 1_000), { use: [{ slot: 1, threads: 12 }], spawn: 0 }, 'best fit');
+	eq(planDispatch(slots, 'hack', 'pserv-0', 80, 1_000),
+		{ use: [{ slot: 0, threads: 50 }, { slot: 1, threads: 20 }, { slot: 2, threads: 5 }], spawn: 5 }, 'largest first, rest spawns');
+});
+
+await test('dispatch skips busy residents and other ops/hosts', async () => {
+	const slots = [
+		slot(0, { busyUntil: 2_000 }),
+		slot(1, { op: 'grow' }),
+		slot(2, { host: 'home' }),
+		slot(3, { threads: 4 }),
+	];
+	eq(planDispatch(slots, 'hack', 'pserv-0', 6, 1_000), { use: [{ slot: 3, threads: 4 }], spawn: 2 }, 'only slot 3');
+	eq(planDispatch([], 'weaken', 'home', 3, 0), { use: [], spawn: 3 }, 'empty pool spawns');
+});
+
+await test('idle residents count as room, and are evicted largest first to make it', async () => {
+	const slots = [
+		slot(0, { threads: 30, op: 'grow' }),
+		slot(1, { threads: 8, op: 'weaken' }),
+		slot(2, { threads: 50, busyUntil: 2_000 }),
+		slot(3, { threads: 12 }),
+		slot(4, { threads: 6, host: 'home' }),
+	];
+	eq([...idleThreadsByHost(slots, 1_000)], [['pserv-0', 50], ['home', 6]], 'busy residents hold their RAM');
+	eq(planEviction(slots, 'pserv-0', 1_000, new Set([3]), 20), [0], 'one large resident covers it');
+	eq(planEviction(slots, 'pserv-0', 1_000, new Set([3]), 35), [0, 1], 'then the next');
+	eq(planEviction(slots, 'pserv-0', 1_000, new Set(), 0), [], 'nothing needed');
+});
+
+await test('long-idle residents are reaped', async () => {
+	const now = 1_000_000;
+	const slots = [slot(0, { busyUntil: now - POOL_IDLE_REAP_MS - 1 }), slot(1, { busyUntil: now - 10 }), slot(2, { busyUntil: now + 10 })];
+	eq(reapableSlots(slots, now), [0], 'only the stale one');
+});
+
+await test('messages parse defensively', async () => {
+	eq(poolInbox(3), POOL_PORT_BASE + 3, 'inbox port');
+	eq(parsePoolMessage('{"kind":"exit"}'), { kind: 'exit' }, 'exit');
+	eq(parsePoolMessage('{"kind":"nope"}'), null, 'unknown kind');
+	eq(parsePoolMessage('{'), null, 'corrupt');
+	eq(parsePoolMessage(null), null, 'empty');
+});
+
+await test('resident runs its first job, then inbox jobs, until told to exit', async () => {
+	const ports = new Map();
+	const queue = (p) => ports.get(p) ?? ports.set(p, []).get(p);
+	const job = (id, threads) => JSON.stringify({ kind: 'job', id, target: 'joesguns', threads, start: 0, end: 0, stock: id === 'b' });
+	const ran = [];
+	const ns = {
+		args: [4, job('a', 8)],
+		readPort: (p) => queue(p).shift() ?? 'NULL PORT DATA',
+		writePort: (p, d) => { queue(p).push(d); return null; },
+		nextPortWrite: async (p) => {
+			// The pool answers the first wait with a job, the second with exit.
+			queue(p).push(ran.length === 1 ? job('b', 3) : '{"kind":"exit"}');
+		},
+	};
+	await runPoolWorker(ns, 'grow', async (target, opts) => { ran.push([target, opts.threads, opts.stock, opts.additionalMsec]); return 1; }, 7);
+	eq(ran, [['joesguns', 8, false, 0], ['joesguns', 3, true, 0]], 'jobs run with their own thread counts');
+	const reports = queue(7).map(raw => JSON.parse(raw));
+	eq(reports.map(r => [r.kind, r.op, r.slot, r.batch, r.result]), [['op', 'grow', 4, 'a', 1], ['op', 'grow', 4, 'b', 1]], 'a report per job on the bus');
+	assert(queue(poolInbox(4)).length === 0, 'inbox drained');
+});
+
+console.log(`\nworker_pool: ${passed} passed`);
@@ -0,0 +1,53 @@
+// Coordinator XP-farm mode decision (lib/xp_farm.ts). Run after `npx tsc`:
+//   node test/xp_farm.test.mjs
+import {
+	decideXpFarm, splitXpThreads, loadHackBlock, saveHackBlock, EMPTY_HACK_BLOCK,
+	HACK_BLOCK_STALE_MS, XP_FARM_MONEY_SCALE_MAX,
+} from '../dist/lib/xp_farm.js';
+import { mockNs, assert, eq } from './_mock_ns.mjs';
+
+let passed = 0;
+const test = (name, fn) => { fn(); passed++; console.log('  ok -', name); };
+
+const inputs = (over = {}) => ({
+	mode: 'auto', hacking: 100, block: EMPTY_HACK_BLOCK, hackMoneyScale: 1, bitNode: 1, now: 10_000, ...over,
+});
+
+test('explicit modes win', () => {
+	eq(decideXpFarm(inputs({ mode: 'on' })), { active: true, reason: 'forced on' }, 'on');
+	eq(decideXpFarm(inputs({ mode: 'off', bitNode: 8 })).active, false, 'off beats BN8');
+	eq(decideXpFarm(inputs()), { active: false, reason: 'money batching' }, 'auto, nothing to farm for');
+});
+
+test('auto farms while a fresh faction hack requirement is unmet', () => {
+	const block = { ts: 9_000, faction: 'BitRunners', required: 200 };
+	const d = decideXpFarm(inputs({ block }));
+	eq(d.active, true, 'blocked');
+	assert(d.reason.includes('BitRunners'), d.reason);
+	eq(decideXpFarm(inputs({ block, hacking: 200 })).active, false, 'requirement met');
+	eq(decideXpFarm(inputs({ block, now: 9_000 + HACK_BLOCK_STALE_MS + 1 })).active, false, 'stale block');
+});
+
+test('auto farms when the BitNode nerfs hack money', () => {
+	eq(decideXpFarm(inputs({ bitNode: 8 })).active, true, 'BN8');
+	eq(decideXpFarm(inputs({ hackMoneyScale: XP_FARM_MONEY_SCALE_MAX })).active, true, 'at threshold');
+	eq(decideXpFarm(inputs({ hackMoneyScale: 0.5 })).active, false, 'mild nerf');
+	eq(decideXpFarm(inputs({ hackMoneyScale: null })).active, false, 'uncalibrated');
+});
+
+test('grow/weaken split keeps security flat', () => {
+	eq(splitXpThreads(108, 0.004, 0.05), { grow: 100, weaken: 8 }, '12.5 : 1');
+	eq(splitXpThreads(1, 0.004, 0.05), { grow: 0, weaken: 1 }, 'weaken first on tiny hosts');
+	eq(splitXpThreads(0, 0.004, 0.05), { grow: 0, weaken: 0 }, 'none');
+});
+
+test('hack block round-trips through status/hack_block.json', () => {
+	const ns = mockNs();
+	eq(loadHackBlock(ns), EMPTY_HACK_BLOCK, 'missing');
+	saveHackBlock(ns, { ts: 1, faction: 'NiteSec', required: 80 });
+	eq(loadHackBlock(ns), { ts: 1, faction: 'NiteSec', required: 80 }, 'saved');
+	ns.write('status/hack_block.json', 'x', 'w');
+	eq(loadHackBlock(ns), EMPTY_HACK_BLOCK, 'corrupt');
+});
+
+console.log(`\nxp_farm: ${passed} passed`);